@@ -3,7 +3,11 @@ import React, { useEffect, useState } from "react";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { auth } from "@/lib/auth";
 import { ThemeProvider } from "@/contexts/ThemeContext";
+import { SyncProvider } from "@/contexts/SyncContext";
+import { UnitsProvider } from "@/contexts/UnitsContext";
+import { CoachingProvider } from "@/contexts/CoachingContext";
 import { PWAPrompt } from "@/components/ui/PWAPrompt";
+import { SyncStatus } from "@/components/ui/SyncStatus";
 import { LoginScreen } from "@/screens/LoginScreen";
 import { HomeScreen } from "@/screens/HomeScreen";
 import { WeekDetailScreen } from "@/screens/WeekDetailScreen";
@@ -13,9 +17,17 @@ import { ExercisesScreen } from "@/screens/ExercisesScreen";
 import { TemplatesScreen } from "@/screens/TemplatesScreen";
 import { GoalsScreen } from "@/screens/GoalsScreen";
 import { AnalyticsScreen } from "@/screens/AnalyticsScreen";
+import { BodyMetricsScreen } from "@/screens/BodyMetricsScreen";
+import { CalendarScreen } from "@/screens/CalendarScreen";
 import { EditWeekTemplateScreen } from "@/screens/EditWeekTemplateScreen";
 import { EditWorkoutDayScreen } from "@/screens/EditWorkoutDayScreen";
+import { WorkoutSessionScreen } from "@/screens/WorkoutSessionScreen";
 import { OnboardingScreen } from "@/screens/OnboardingScreen";
+import { SettingsScreen } from "@/screens/SettingsScreen";
+import { ImportScreen } from "@/screens/ImportScreen";
+import { ProgramsScreen } from "@/screens/ProgramsScreen";
+import { ProgramDetailScreen } from "@/screens/ProgramDetailScreen";
+import { SharedItemScreen } from "@/screens/SharedItemScreen";
 
 // Error Boundary Component
 class ErrorBoundary extends React.Component<
@@ -118,68 +130,134 @@ function App() {
   return (
     <ErrorBoundary>
       <ThemeProvider>
-        <BrowserRouter>
-          <PWAPrompt />
-          <Routes>
-            <Route
-              path="/login"
-              element={!user ? <LoginScreen /> : <Navigate to="/" />}
-            />
-            <Route
-              path="/"
-              element={user ? <HomeScreen /> : <Navigate to="/login" />}
-            />
-            <Route
-              path="/week/:weekStart"
-              element={user ? <WeekDetailScreen /> : <Navigate to="/login" />}
-            />
-            <Route
-              path="/workout/new"
-              element={user ? <AddWorkoutScreen /> : <Navigate to="/login" />}
-            />
-            <Route
-              path="/workout/:workoutId"
-              element={
-                user ? <WorkoutDetailScreen /> : <Navigate to="/login" />
-              }
-            />
-            <Route
-              path="/exercises"
-              element={user ? <ExercisesScreen /> : <Navigate to="/login" />}
-            />
-            <Route
-              path="/templates"
-              element={user ? <TemplatesScreen /> : <Navigate to="/login" />}
-            />
+        <SyncProvider>
+          <UnitsProvider userId={user?.id ?? null}>
+            <CoachingProvider userId={user?.id ?? null}>
+              <BrowserRouter>
+                <PWAPrompt />
+                {user && <SyncStatus />}
+                <Routes>
+                  <Route
+                    path="/login"
+                    element={!user ? <LoginScreen /> : <Navigate to="/" />}
+                  />
+                  <Route
+                    path="/"
+                    element={user ? <HomeScreen /> : <Navigate to="/login" />}
+                  />
+                  <Route
+                    path="/week/:weekStart"
+                    element={
+                      user ? <WeekDetailScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/workout/new"
+                    element={
+                      user ? <AddWorkoutScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/workout/:workoutId"
+                    element={
+                      user ? <WorkoutDetailScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/exercises"
+                    element={
+                      user ? <ExercisesScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/templates"
+                    element={
+                      user ? <TemplatesScreen /> : <Navigate to="/login" />
+                    }
+                  />
 
-            <Route
-              path="/goals"
-              element={user ? <GoalsScreen /> : <Navigate to="/login" />}
-            />
-            <Route
-              path="/analytics"
-              element={user ? <AnalyticsScreen /> : <Navigate to="/login" />}
-            />
-            <Route
-              path="/week-templates/:templateId/edit"
-              element={
-                user ? <EditWeekTemplateScreen /> : <Navigate to="/login" />
-              }
-            />
-            <Route
-              path="/workout/:workoutId/edit"
-              element={
-                user ? <EditWorkoutDayScreen /> : <Navigate to="/login" />
-              }
-            />
-            <Route
-              path="/onboarding"
-              element={
-                user ? <OnboardingScreen /> : <Navigate to="/login" />
-              }
-            />
-          </Routes>
-        </BrowserRouter>
+                  <Route
+                    path="/goals"
+                    element={user ? <GoalsScreen /> : <Navigate to="/login" />}
+                  />
+                  <Route
+                    path="/analytics"
+                    element={
+                      user ? <AnalyticsScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/calendar"
+                    element={
+                      user ? <CalendarScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/body"
+                    element={
+                      user ? <BodyMetricsScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/programs"
+                    element={
+                      user ? <ProgramsScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/programs/:programId"
+                    element={
+                      user ? <ProgramDetailScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/week-templates/:templateId/edit"
+                    element={
+                      user ? (
+                        <EditWeekTemplateScreen />
+                      ) : (
+                        <Navigate to="/login" />
+                      )
+                    }
+                  />
+                  <Route
+                    path="/workout/:workoutId/edit"
+                    element={
+                      user ? <EditWorkoutDayScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/workout/:workoutId/session"
+                    element={
+                      user ? <WorkoutSessionScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/onboarding"
+                    element={
+                      user ? <OnboardingScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/settings"
+                    element={
+                      user ? <SettingsScreen /> : <Navigate to="/login" />
+                    }
+                  />
+                  <Route
+                    path="/import"
+                    element={user ? <ImportScreen /> : <Navigate to="/login" />}
+                  />
+                  {/* Public — share links open with or without an account */}
+                  <Route
+                    path="/share/:token"
+                    element={<SharedItemScreen signedIn={!!user} />}
+                  />
+                </Routes>
+              </BrowserRouter>
+            </CoachingProvider>
+          </UnitsProvider>
+        </SyncProvider>
       </ThemeProvider>
     </ErrorBoundary>
   );
@@ -0,0 +1,71 @@
+import { useCoaching } from "@/contexts/useCoaching";
+import { Users, X } from "lucide-react";
+import { useState } from "react";
+
+/** Header menu a coach uses to look at one of their athletes instead of themselves */
+export function AthleteSwitcher() {
+  const { role, athletes, viewedAthlete, setViewedAthleteId } = useCoaching();
+  const [showMenu, setShowMenu] = useState(false);
+
+  if (role !== "coach" || athletes.length === 0) return null;
+
+  const options: { id: string | null; name: string }[] = [
+    { id: null, name: "My training" },
+    ...athletes.map((l) => ({ id: l.athlete_id, name: l.athlete_name ?? "" })),
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        className={`flex items-center gap-1.5 p-2 rounded-lg hover:bg-elevated transition-colors text-sm ${
+          viewedAthlete ? "text-accent" : "text-muted hover:text-primary"
+        }`}
+        title="Switch athlete"
+      >
+        <Users className="w-5 h-5 shrink-0" />
+        {viewedAthlete && (
+          <span className="hidden sm:inline max-w-[140px] truncate">
+            {viewedAthlete.athlete_name}
+          </span>
+        )}
+      </button>
+
+      {showMenu && (
+        <div className="absolute right-0 top-full mt-2 bg-floating border border-primary rounded-lg shadow-xl p-3 w-[220px] z-50">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-primary">Viewing</h3>
+            <button
+              onClick={() => setShowMenu(false)}
+              className="text-muted hover:text-primary transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="space-y-1">
+            {options.map((option) => {
+              const isActive =
+                (viewedAthlete?.athlete_id ?? null) === option.id;
+              return (
+                <button
+                  key={option.id ?? "self"}
+                  onClick={() => {
+                    setViewedAthleteId(option.id);
+                    setShowMenu(false);
+                  }}
+                  className={`w-full text-left px-3 py-2 rounded-lg transition-colors text-sm font-medium truncate ${
+                    isActive
+                      ? "bg-elevated text-primary"
+                      : "text-secondary hover:bg-elevated"
+                  }`}
+                >
+                  {option.name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * CheckInCard
+ *
+ * A workout's readiness check-in (sleep, soreness, readiness) and how hard
+ * the session felt (session RPE, duration). Saved through
+ * workoutApi.updateSession, so it queues like session times when offline.
+ * Coaches viewing an athlete's workout get it read-only.
+ */
+
+import { useState } from "react";
+import { Card, Button } from "@/components/ui/Layout";
+import { Input } from "@/components/ui/Form";
+import { workoutApi } from "@/lib/api";
+import {
+  READINESS_LABELS,
+  SESSION_RPE_LABELS,
+  SORENESS_LABELS,
+} from "@/lib/readiness";
+import { cn } from "@/lib/utils";
+import type { Workout, WorkoutCheckIn } from "@/types";
+import { differenceInMinutes, parseISO } from "date-fns";
+import { Gauge } from "lucide-react";
+
+interface CheckInCardProps {
+  workout: Workout;
+  readOnly: boolean;
+  /** The saved fields, plus the new updated_at when it reached the server */
+  onSaved: (patch: Partial<Workout>) => void;
+}
+
+function toCheckIn(workout: Workout): WorkoutCheckIn {
+  return {
+    session_rpe: workout.session_rpe ?? null,
+    session_minutes: workout.session_minutes ?? null,
+    sleep_hours: workout.sleep_hours ?? null,
+    soreness: workout.soreness ?? null,
+    readiness: workout.readiness ?? null,
+  };
+}
+
+function parseOptional(value: string): number | null {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function CheckInCard({ workout, readOnly, onSaved }: CheckInCardProps) {
+  const [values, setValues] = useState<WorkoutCheckIn>(() =>
+    toCheckIn(workout),
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const saved = toCheckIn(workout);
+  const dirty = (Object.keys(values) as (keyof WorkoutCheckIn)[]).some(
+    (key) => values[key] !== saved[key],
+  );
+  const liveMinutes =
+    workout.started_at && workout.ended_at
+      ? Math.max(
+          1,
+          differenceInMinutes(
+            parseISO(workout.ended_at),
+            parseISO(workout.started_at),
+          ),
+        )
+      : null;
+
+  function update(patch: Partial<WorkoutCheckIn>) {
+    setValues((prev) => ({ ...prev, ...patch }));
+  }
+
+  async function handleSave() {
+    const checkIn: WorkoutCheckIn = {
+      ...values,
+      session_minutes:
+        values.session_minutes === null
+          ? null
+          : Math.min(600, Math.max(1, Math.round(values.session_minutes))),
+      sleep_hours:
+        values.sleep_hours === null
+          ? null
+          : Math.min(24, Math.max(0, Math.round(values.sleep_hours * 10) / 10)),
+    };
+
+    try {
+      setSaving(true);
+      setError("");
+      const outcome = await workoutApi.updateSession(workout, checkIn);
+      // Keep the conflict base current so a later queued edit isn't flagged
+      const updatedAt =
+        outcome === "saved" ? await workoutApi.getUpdatedAt(workout.id) : null;
+      setValues(checkIn);
+      onSaved(updatedAt ? { ...checkIn, updated_at: updatedAt } : checkIn);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to save check-in");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function renderScale(
+    label: string,
+    labels: string[],
+    value: number | null,
+    onChange: (value: number | null) => void,
+  ) {
+    return (
+      <div>
+        <p className="text-xs sm:text-sm font-medium text-secondary mb-1.5">
+          {label}
+          {value !== null && (
+            <span className="text-muted font-normal">
+              {" "}
+              · {labels[value - 1]}
+            </span>
+          )}
+        </p>
+        <div className="flex gap-1">
+          {labels.map((text, i) => (
+            <button
+              key={i}
+              onClick={() => onChange(value === i + 1 ? null : i + 1)}
+              disabled={readOnly}
+              title={text}
+              className={cn(
+                "flex-1 py-1.5 rounded-lg text-sm transition-colors",
+                value === i + 1
+                  ? "bg-accent-primary text-white"
+                  : "bg-elevated text-secondary",
+                !readOnly && value !== i + 1 && "hover:bg-card",
+              )}
+            >
+              {i + 1}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const rpeLabels = Object.values(SESSION_RPE_LABELS);
+  const needsRpe = !!workout.ended_at && workout.session_rpe == null;
+
+  if (readOnly && Object.values(saved).every((v) => v === null)) return null;
+
+  return (
+    <Card className="p-3 sm:p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <Gauge className="w-4 h-4 text-accent" />
+        <h2 className="text-sm font-semibold text-primary">Check-in</h2>
+      </div>
+      <p
+        className={cn("text-xs mb-3", needsRpe ? "text-warning" : "text-muted")}
+      >
+        {needsRpe
+          ? "How hard was this session? Rate it to track training load."
+          : "Feeds the training load and overreaching warnings in Analytics."}
+      </p>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          {readOnly ? (
+            <>
+              <p className="text-sm text-secondary">
+                Sleep:{" "}
+                <span className="text-primary">
+                  {saved.sleep_hours !== null ? `${saved.sleep_hours} h` : "—"}
+                </span>
+              </p>
+              <p className="text-sm text-secondary">
+                Duration:{" "}
+                <span className="text-primary">
+                  {(saved.session_minutes ?? liveMinutes) !== null
+                    ? `${saved.session_minutes ?? liveMinutes} min`
+                    : "—"}
+                </span>
+              </p>
+            </>
+          ) : (
+            <>
+              <Input
+                label="Sleep (h)"
+                type="number"
+                value={values.sleep_hours ?? ""}
+                onChange={(v) => update({ sleep_hours: parseOptional(v) })}
+                min={0}
+                step={0.5}
+              />
+              <Input
+                label="Duration (min)"
+                type="number"
+                value={values.session_minutes ?? ""}
+                onChange={(v) => update({ session_minutes: parseOptional(v) })}
+                placeholder={liveMinutes ? String(liveMinutes) : undefined}
+                min={1}
+              />
+            </>
+          )}
+        </div>
+
+        {renderScale("Soreness", SORENESS_LABELS, values.soreness, (v) =>
+          update({ soreness: v }),
+        )}
+        {renderScale("Readiness", READINESS_LABELS, values.readiness, (v) =>
+          update({ readiness: v }),
+        )}
+        {renderScale("Session RPE", rpeLabels, values.session_rpe, (v) =>
+          update({ session_rpe: v }),
+        )}
+
+        {error && (
+          <p className="text-danger text-xs bg-danger-surface rounded-lg px-3 py-2">
+            {error}
+          </p>
+        )}
+
+        {!readOnly && dirty && (
+          <Button onClick={handleSave} disabled={saving} className="w-full">
+            {saving ? "Saving…" : "Save check-in"}
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+}
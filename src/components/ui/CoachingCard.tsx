@@ -0,0 +1,211 @@
+/**
+ * CoachingCard
+ *
+ * Settings card for coach ↔ athlete links. Anyone can enter a coach's invite
+ * code to give that coach access; turning on the coach role adds invites and
+ * the list of athletes. Either side can end a link here.
+ */
+
+import { useState } from "react";
+import { Card, Button } from "@/components/ui/Layout";
+import { useCoaching } from "@/contexts/useCoaching";
+import {
+  acceptCoachInvite,
+  createCoachInvite,
+  removeCoachLink,
+} from "@/lib/coachService";
+import type { CoachLink } from "@/types";
+import { Copy, UserPlus, Users, X } from "lucide-react";
+
+interface CoachingCardProps {
+  onSaved: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+export function CoachingCard({ onSaved, onError }: CoachingCardProps) {
+  const { role, setRole, athletes, pendingInvites, coaches, refreshLinks } =
+    useCoaching();
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function run(action: () => Promise<void>, fallback: string) {
+    try {
+      setBusy(true);
+      await action();
+    } catch (err: unknown) {
+      console.error(err);
+      onError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleRoleChange(isCoach: boolean) {
+    run(async () => {
+      await setRole(isCoach ? "coach" : "athlete");
+      onSaved(isCoach ? "Coach tools turned on" : "Coach tools turned off");
+    }, "Failed to save role");
+  }
+
+  function handleInvite() {
+    run(async () => {
+      await createCoachInvite();
+      await refreshLinks();
+    }, "Failed to create invite");
+  }
+
+  function handleAccept() {
+    if (!code.trim()) return;
+    run(async () => {
+      const link = await acceptCoachInvite(code);
+      setCode("");
+      await refreshLinks();
+      onSaved(`${link.coach_name} is now your coach`);
+    }, "Failed to accept invite");
+  }
+
+  function handleRemove(link: CoachLink) {
+    run(async () => {
+      await removeCoachLink(link.id);
+      await refreshLinks();
+    }, "Failed to remove link");
+  }
+
+  function copyCode(inviteCode: string) {
+    navigator.clipboard
+      .writeText(inviteCode)
+      .then(() => onSaved("Invite code copied"))
+      .catch(() => onError("Couldn't copy — select the code instead"));
+  }
+
+  function renderLinkRow(name: string, link: CoachLink) {
+    return (
+      <div
+        key={link.id}
+        className="flex items-center gap-2 bg-elevated rounded-lg px-3 py-1.5"
+      >
+        <span className="flex-1 text-sm text-primary truncate">{name}</span>
+        <button
+          onClick={() => handleRemove(link)}
+          disabled={busy}
+          aria-label={`Remove ${name}`}
+          className="p-1 text-danger hover:bg-danger-surface rounded disabled:opacity-50 transition-colors"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="p-4 sm:p-5">
+      <div className="flex items-center gap-2 mb-1">
+        <Users className="w-5 h-5 text-accent" />
+        <h2 className="text-lg font-semibold text-primary">Coaching</h2>
+      </div>
+      <p className="text-secondary text-sm mb-4">
+        A linked coach can see your workouts, exercises and PRs and add weekly
+        plans to your account. Goals and body metrics stay private.
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <p className="text-primary text-sm mb-2">Join a coach</p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAccept()}
+              placeholder="Invite code"
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm uppercase placeholder-muted"
+            />
+            <Button
+              variant="secondary"
+              onClick={handleAccept}
+              disabled={busy || !code.trim()}
+            >
+              Join
+            </Button>
+          </div>
+          {coaches.length > 0 && (
+            <div className="space-y-1.5 mt-2">
+              {coaches.map((link) => renderLinkRow(link.coach_name, link))}
+            </div>
+          )}
+        </div>
+
+        <label className="flex items-center justify-between gap-3 pt-3 border-t border-primary">
+          <div>
+            <p className="text-primary text-sm">I coach other lifters</p>
+            <p className="text-muted text-xs">
+              Invite athletes, view their analytics and send them weekly plans
+            </p>
+          </div>
+          <input
+            type="checkbox"
+            checked={role === "coach"}
+            onChange={(e) => handleRoleChange(e.target.checked)}
+            disabled={busy}
+            className="w-5 h-5"
+          />
+        </label>
+
+        {role === "coach" && (
+          <div className="space-y-2">
+            {athletes.length > 0 && (
+              <div className="space-y-1.5">
+                <p className="text-xs font-medium text-secondary">Athletes</p>
+                {athletes.map((link) =>
+                  renderLinkRow(link.athlete_name ?? "", link),
+                )}
+              </div>
+            )}
+
+            {pendingInvites.length > 0 && (
+              <div className="space-y-1.5">
+                <p className="text-xs font-medium text-secondary">
+                  Waiting to be accepted
+                </p>
+                {pendingInvites.map((link) => (
+                  <div
+                    key={link.id}
+                    className="flex items-center gap-2 bg-elevated rounded-lg px-3 py-1.5"
+                  >
+                    <span className="flex-1 text-sm font-mono text-primary select-all">
+                      {link.invite_code}
+                    </span>
+                    <button
+                      onClick={() => copyCode(link.invite_code)}
+                      aria-label="Copy invite code"
+                      className="p-1 text-muted hover:text-primary transition-colors"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRemove(link)}
+                      disabled={busy}
+                      aria-label="Cancel invite"
+                      className="p-1 text-danger hover:bg-danger-surface rounded disabled:opacity-50 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button variant="secondary" onClick={handleInvite} disabled={busy}>
+              <UserPlus className="w-4 h-4 inline mr-2" />
+              Invite an athlete
+            </Button>
+            <p className="text-muted text-xs">
+              Each code links one athlete — they enter it under Settings →
+              Coaching.
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * CommentThread
+ *
+ * One comment thread — on a workout, an exercise or a set — with a reply
+ * box. Comments from others that arrived since the viewer last opened the
+ * workout are marked "New". Loading and read state live in the screen; see
+ * lib/commentService.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/Layout";
+import { isUnread } from "@/lib/commentService";
+import type { WorkoutComment } from "@/types";
+import { cn } from "@/lib/utils";
+import { format, parseISO } from "date-fns";
+import { Send, Trash2 } from "lucide-react";
+
+interface CommentThreadProps {
+  comments: WorkoutComment[];
+  userId: string;
+  readAt: string | null;
+  onAdd: (body: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  placeholder?: string;
+}
+
+export function CommentThread({
+  comments,
+  userId,
+  readAt,
+  onAdd,
+  onDelete,
+  placeholder = "Add a comment",
+}: CommentThreadProps) {
+  const [draft, setDraft] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function run(action: () => Promise<void>, fallback: string) {
+    try {
+      setBusy(true);
+      setError("");
+      await action();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleSend() {
+    if (!draft.trim()) return;
+    run(async () => {
+      await onAdd(draft);
+      setDraft("");
+    }, "Failed to post comment");
+  }
+
+  return (
+    <div className="space-y-2">
+      {comments.map((comment) => {
+        const mine = comment.author_id === userId;
+        const unread = isUnread(comment, userId, readAt);
+        return (
+          <div
+            key={comment.id}
+            className={cn(
+              "rounded-lg px-3 py-2 text-sm",
+              unread ? "bg-accent-soft" : "bg-elevated",
+            )}
+          >
+            <div className="flex items-center gap-2 text-xs mb-0.5">
+              <span className="font-medium text-primary truncate">
+                {mine ? "You" : comment.author_name}
+              </span>
+              <span className="text-muted shrink-0">
+                {format(parseISO(comment.created_at), "MMM d, h:mm a")}
+              </span>
+              {unread && (
+                <span className="text-accent font-semibold shrink-0">New</span>
+              )}
+              {mine && (
+                <button
+                  onClick={() =>
+                    run(() => onDelete(comment.id), "Failed to delete comment")
+                  }
+                  disabled={busy}
+                  aria-label="Delete comment"
+                  className="ml-auto p-0.5 text-muted hover:text-danger disabled:opacity-50 transition-colors"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <p className="text-secondary whitespace-pre-wrap break-words">
+              {comment.body}
+            </p>
+          </div>
+        );
+      })}
+
+      {error && (
+        <p className="text-danger text-xs bg-danger-surface rounded-lg px-3 py-2">
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSend()}
+          placeholder={placeholder}
+          maxLength={2000}
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm placeholder-muted"
+        />
+        <Button
+          variant="secondary"
+          onClick={handleSend}
+          disabled={busy || !draft.trim()}
+          aria-label="Post comment"
+        >
+          <Send className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -7,24 +7,70 @@
  *
  * Responsibilities:
  *  - Exercise list with drag + up/down reorder
+ *  - Supersets: link neighbours with the chain button between them; dropping
+ *    an exercise onto a grouped one adds it to that group
  *  - Per-exercise: name input, set rows, add/remove set, move set up/down
+ *  - Per-set: type (tap the set number to cycle), RPE, RIR, and reps + weight
+ *    or time / distance depending on the exercise kind
+ *  - "Last time" column: each set as logged in the exercise's previous
+ *    session, with that session's notes; exercises added from the library
+ *    start from those sets, and "Copy sets" refills any exercise from them
+ *  - Plate calculator from each weight input
+ *  - Per-exercise progression rule (if showProgression — templates only),
+ *    plus any pending one-off deload, which can be cancelled
  *  - Header toolbar: Library picker, Import Day, New blank exercise
  *  - ConfirmDialog for exercise deletion
  *  - ExercisePickerModal + DayImportModal (if showImportDay)
  *
  * Strict separation: this component never touches the DB directly.
- * All mutations go through onChange(newExercises).
+ * All mutations go through onChange(newExercises); previous sessions are read
+ * through lib/analytics.
+ *
+ * FormSet.weight is always kg and distance_m metres; the inputs show and
+ * accept the user's unit.
  */
 
-import { useState, useRef } from "react";
+import { Fragment, useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/Layout";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 import { ExercisePickerModal } from "@/components/ui/ExercisePickerModal";
+import { ProgressionRuleEditor } from "@/components/ui/ProgressionRuleEditor";
+import { PlateCalculatorModal } from "@/components/ui/PlateCalculatorModal";
+import { DurationInput } from "@/components/ui/DurationInput";
+import { useUnits } from "@/contexts/useUnits";
+import { WEIGHT_STEP } from "@/lib/units";
+import { SET_TYPES, nextSetType } from "@/lib/setTypes";
+import { getLastExerciseSessions } from "@/lib/analytics";
+import { formatDuration } from "@/lib/restTimer";
+import {
+  KIND_FIELDS,
+  distanceUnitFor,
+  fromDisplayDistance,
+  toDisplayDistance,
+} from "@/lib/exerciseKinds";
+import {
+  appendGrouped,
+  groupLabel,
+  groupPositions,
+  groupRuns,
+  linkWithNext,
+  normaliseGroups,
+  unlinkFromNext,
+} from "@/lib/supersets";
 import {
   DayImportModal,
   type ImportedDay,
 } from "@/components/ui/DayImportModal";
-import type { FormExercise, FormSet } from "@/types";
+import type {
+  ExerciseKind,
+  FormExercise,
+  FormSet,
+  LastExerciseSession,
+  LastSessionScope,
+  LastSessionSet,
+  ProgressionRule,
+} from "@/types";
+import { format, parseISO } from "date-fns";
 import {
   Plus,
   Trash2,
@@ -32,6 +78,9 @@ import {
   ArrowUp,
   ArrowDown,
   Download,
+  Disc3,
+  Link2,
+  Unlink2,
 } from "lucide-react";
 
 // ─── Props ────────────────────────────────────────────────────────────────────
@@ -41,6 +90,16 @@ interface DayEditorPanelProps {
   onChange: (exercises: FormExercise[]) => void;
   /** Show the "Import Day" button (default: true) */
   showImportDay?: boolean;
+  /** Show per-exercise progression rules (default: false) */
+  showProgression?: boolean;
+  /** Which workouts count as "last time" (default: any up to today) */
+  lastSessionScope?: LastSessionScope;
+}
+
+/** Last sessions looked up so far (null = never logged), for one scope */
+interface LastSessionCache {
+  scopeKey: string;
+  sessions: Map<string, LastExerciseSession | null>;
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -49,8 +108,35 @@ function newClientId(): string {
   return crypto.randomUUID();
 }
 
-function makeExercise(name: string, sets: FormSet[]): FormExercise {
-  return { clientId: newClientId(), name, sets };
+// Wait for typing to settle before looking up a renamed exercise
+const LAST_SESSION_DEBOUNCE_MS = 400;
+
+const SET_GRID = "grid-cols-[auto_auto_1fr_1fr_2.75rem_2.75rem_auto]";
+const SET_GRID_WITH_LAST =
+  "grid-cols-[auto_auto_4.5rem_1fr_1fr_2.75rem_2.75rem_auto]";
+
+function lastSessionKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** A previous session's sets as form sets — effort ratings start blank */
+function setsFromLastSession(session: LastExerciseSession): FormSet[] {
+  return session.sets.map((s) => ({
+    reps: s.reps,
+    weight: s.weight,
+    set_type: s.set_type,
+    duration_seconds: s.duration_seconds,
+    distance_m: s.distance_m,
+  }));
+}
+
+function makeExercise(
+  name: string,
+  sets: FormSet[],
+  superset_group: number | null = null,
+  kind?: ExerciseKind,
+): FormExercise {
+  return { clientId: newClientId(), name, sets, superset_group, kind };
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
@@ -59,25 +145,101 @@ export function DayEditorPanel({
   exercises,
   onChange,
   showImportDay = true,
+  showProgression = false,
+  lastSessionScope,
 }: DayEditorPanelProps) {
+  const { unit, toDisplay, fromDisplay } = useUnits();
+  const distanceUnit = distanceUnitFor(unit);
+  const { onOrBefore, excludeWorkoutId } = lastSessionScope ?? {};
+  const scopeKey = `${onOrBefore ?? ""}|${excludeWorkoutId ?? ""}`;
+  const [lastCache, setLastCache] = useState<LastSessionCache>({
+    scopeKey,
+    sessions: new Map(),
+  });
   const [showExercisePicker, setShowExercisePicker] = useState(false);
   const [showDayImport, setShowDayImport] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
+  const [plateFor, setPlateFor] = useState<{
+    exIndex: number;
+    setIndex: number;
+  } | null>(null);
 
   // ─── Drag-and-drop state ────────────────────────────────────────────────────
   const dragFrom = useRef<number | null>(null);
   const dragOver = useRef<number | null>(null);
 
+  // ─── Last sessions (looked up for names not seen in this scope yet) ─────────
+
+  const lastSessions =
+    lastCache.scopeKey === scopeKey ? lastCache.sessions : null;
+  const missingNames = [
+    ...new Set(
+      exercises
+        .map((ex) => lastSessionKey(ex.name))
+        .filter((name) => name && !lastSessions?.has(name)),
+    ),
+  ]
+    .sort()
+    .join("\n");
+
+  useEffect(() => {
+    if (!missingNames) return;
+    let cancelled = false;
+    const names = missingNames.split("\n");
+
+    const timer = setTimeout(() => {
+      getLastExerciseSessions(names, { onOrBefore, excludeWorkoutId })
+        .then((found) => {
+          if (cancelled) return;
+          setLastCache((prev) => {
+            const sessions = new Map(
+              prev.scopeKey === scopeKey ? prev.sessions : [],
+            );
+            for (const name of names) {
+              sessions.set(name, found.get(name) ?? null);
+            }
+            return { scopeKey, sessions };
+          });
+        })
+        .catch((err) => {
+          console.error("[DayEditorPanel] last sessions error:", err);
+        });
+    }, LAST_SESSION_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [missingNames, scopeKey, onOrBefore, excludeWorkoutId]);
+
   // ─── Exercise operations ─────────────────────────────────────────────────────
 
   function addFromPicker(picked: {
     name: string;
+    kind: ExerciseKind;
     default_reps: number;
     default_weight: number;
+    lastSession: LastExerciseSession | null;
   }) {
-    const ex = makeExercise(picked.name, [
-      { reps: picked.default_reps, weight: picked.default_weight },
-    ]);
+    const { lastSession } = picked;
+    const ex = makeExercise(
+      picked.name,
+      lastSession && lastSession.sets.length > 0
+        ? setsFromLastSession(lastSession)
+        : [
+            KIND_FIELDS[picked.kind].reps
+              ? { reps: picked.default_reps, weight: picked.default_weight }
+              : { reps: 1, weight: 0 },
+          ],
+      null,
+      picked.kind,
+    );
+    // The picker already looked it up — no need to ask again
+    setLastCache((prev) => {
+      const sessions = new Map(prev.scopeKey === scopeKey ? prev.sessions : []);
+      sessions.set(lastSessionKey(picked.name), lastSession);
+      return { scopeKey, sessions };
+    });
     onChange([...exercises, ex]);
   }
 
@@ -87,7 +249,7 @@ export function DayEditorPanel({
   }
 
   function removeExercise(index: number) {
-    onChange(exercises.filter((_, i) => i !== index));
+    onChange(normaliseGroups(exercises.filter((_, i) => i !== index)));
     setDeleteConfirm(null);
   }
 
@@ -98,12 +260,43 @@ export function DayEditorPanel({
     onChange(updated);
   }
 
-  function moveExercise(from: number, to: number) {
+  function updateProgression(
+    index: number,
+    progression: ProgressionRule | null,
+  ) {
+    const updated = exercises.map((ex, i) =>
+      i === index ? { ...ex, progression } : ex,
+    );
+    onChange(updated);
+  }
+
+  function copyLastSets(index: number, session: LastExerciseSession) {
+    const updated = exercises.map((ex, i) =>
+      i === index ? { ...ex, sets: setsFromLastSession(session) } : ex,
+    );
+    onChange(updated);
+  }
+
+  function clearDeload(index: number) {
+    const updated = exercises.map((ex, i) =>
+      i === index ? { ...ex, deload_percent: null } : ex,
+    );
+    onChange(updated);
+  }
+
+  function moveExercise(from: number, to: number, joinTarget = false) {
     if (to < 0 || to >= exercises.length) return;
     const updated = [...exercises];
     const [moved] = updated.splice(from, 1);
-    updated.splice(to, 0, moved);
-    onChange(updated);
+    // A dropped exercise takes the group of the one it landed on
+    updated.splice(
+      to,
+      0,
+      joinTarget
+        ? { ...moved, superset_group: exercises[to].superset_group ?? null }
+        : moved,
+    );
+    onChange(normaliseGroups(updated));
   }
 
   // ─── Drag handlers ──────────────────────────────────────────────────────────
@@ -121,7 +314,7 @@ export function DayEditorPanel({
     const from = dragFrom.current;
     const to = dragOver.current;
     if (from !== null && to !== null && from !== to) {
-      moveExercise(from, to);
+      moveExercise(from, to, true);
     }
     dragFrom.current = null;
     dragOver.current = null;
@@ -135,6 +328,9 @@ export function DayEditorPanel({
     const newSet: FormSet = {
       reps: lastSet?.reps ?? 10,
       weight: lastSet?.weight ?? 0,
+      set_type: lastSet?.set_type,
+      duration_seconds: lastSet?.duration_seconds,
+      distance_m: lastSet?.distance_m,
     };
     const updated = exercises.map((e, i) =>
       i === exIndex ? { ...e, sets: [...e.sets, newSet] } : e,
@@ -153,8 +349,14 @@ export function DayEditorPanel({
   function updateSet(
     exIndex: number,
     setIndex: number,
-    field: "reps" | "weight",
-    value: number,
+    field:
+      | "reps"
+      | "weight"
+      | "rpe"
+      | "rir"
+      | "duration_seconds"
+      | "distance_m",
+    value: number | null,
   ) {
     const updated = exercises.map((e, i) => {
       if (i !== exIndex) return e;
@@ -166,6 +368,17 @@ export function DayEditorPanel({
     onChange(updated);
   }
 
+  function cycleSetType(exIndex: number, setIndex: number) {
+    const updated = exercises.map((e, i) => {
+      if (i !== exIndex) return e;
+      const sets = e.sets.map((s, si) =>
+        si === setIndex ? { ...s, set_type: nextSetType(s.set_type) } : s,
+      );
+      return { ...e, sets };
+    });
+    onChange(updated);
+  }
+
   function moveSet(exIndex: number, from: number, to: number) {
     if (to < 0) return;
     const ex = exercises[exIndex];
@@ -185,15 +398,78 @@ export function DayEditorPanel({
     const newExercises: FormExercise[] = imported.exercises.map((ex) =>
       makeExercise(
         ex.name,
-        ex.sets.map((s) => ({ reps: s.reps, weight: s.weight })),
+        ex.sets.map((s) => ({
+          reps: s.reps,
+          weight: s.weight,
+          set_type: s.set_type,
+          rpe: s.rpe,
+          rir: s.rir,
+          duration_seconds: s.duration_seconds,
+          distance_m: s.distance_m,
+        })),
+        ex.superset_group,
+        ex.kind,
       ),
     );
-    onChange([...exercises, ...newExercises]);
+    onChange(appendGrouped(exercises, newExercises));
+  }
+
+  // ─── Time / distance inputs ──────────────────────────────────────────────────
+
+  function renderDistanceInput(exIndex: number, setIndex: number, s: FormSet) {
+    return (
+      <input
+        type="number"
+        value={s.distance_m ? toDisplayDistance(s.distance_m, distanceUnit) : ""}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          updateSet(
+            exIndex,
+            setIndex,
+            "distance_m",
+            value > 0 ? fromDisplayDistance(value, distanceUnit) : null,
+          );
+        }}
+        aria-label={`Set ${setIndex + 1} distance`}
+        min={0}
+        step={0.01}
+        className="w-full px-2 py-1.5 rounded bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+      />
+    );
+  }
+
+  // ─── Last time ────────────────────────────────────────────────────────────────
+
+  function formatLastSet(set: LastSessionSet, kind: ExerciseKind): string {
+    const fields = KIND_FIELDS[kind];
+    const parts: string[] = [];
+    if (fields.reps) {
+      parts.push(
+        kind === "bodyweight" && set.weight <= 0
+          ? `${set.reps}`
+          : `${set.reps} × ${toDisplay(set.weight)}`,
+      );
+    }
+    if (fields.duration && set.duration_seconds) {
+      parts.push(formatDuration(set.duration_seconds));
+    }
+    if (fields.distance && set.distance_m) {
+      parts.push(
+        `${toDisplayDistance(set.distance_m, distanceUnit)} ${distanceUnit}`,
+      );
+    }
+    const short = SET_TYPES[set.set_type ?? "working"].short;
+    const text = parts.join(" · ") || "—";
+    return short ? `${short} ${text}` : text;
   }
 
   // ─── Render ──────────────────────────────────────────────────────────────────
 
   const existingNames = exercises.map((e) => e.name);
+  const positions = groupPositions(exercises);
+  const groupSizes = groupRuns(exercises).flatMap((run) =>
+    run.items.map(() => run.items.length),
+  );
 
   return (
     <div>
@@ -265,153 +541,381 @@ export function DayEditorPanel({
         onDragOver={(e) => e.preventDefault()}
         onDrop={handleDrop}
       >
-        {exercises.map((ex, exIndex) => (
-          <div
-            key={ex.clientId}
-            draggable
-            onDragStart={() => handleDragStart(exIndex)}
-            onDragOver={(e) => handleDragOver(e, exIndex)}
-            className="bg-card rounded-lg p-3 border border-primary"
-          >
-            {/* Exercise header row */}
-            <div className="flex items-center gap-2 mb-3">
+        {exercises.map((ex, exIndex) => {
+          const linkedToNext =
+            positions[exIndex] !== null &&
+            exercises[exIndex + 1]?.superset_group === ex.superset_group;
+          const kind = ex.kind ?? "weight_reps";
+          const fields = KIND_FIELDS[kind];
+          const last = lastSessions?.get(lastSessionKey(ex.name)) ?? null;
+          const setGrid = last ? SET_GRID_WITH_LAST : SET_GRID;
+
+          return (
+            <Fragment key={ex.clientId}>
               <div
-                className="cursor-grab active:cursor-grabbing touch-none flex-shrink-0"
-                title="Drag to reorder"
+                draggable
+                onDragStart={() => handleDragStart(exIndex)}
+                onDragOver={(e) => handleDragOver(e, exIndex)}
+                className={`bg-card rounded-lg p-3 border ${
+                  positions[exIndex] ? "border-accent" : "border-primary"
+                }`}
               >
-                <GripVertical className="w-4 h-4 text-muted" />
-              </div>
-
-              <input
-                value={ex.name}
-                onChange={(e) => updateName(exIndex, e.target.value)}
-                placeholder="Exercise name"
-                aria-label={`Exercise ${exIndex + 1} name`}
-                className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
-              />
+                {/* Exercise header row */}
+                <div className="flex items-center gap-2 mb-3">
+                  <div
+                    className="cursor-grab active:cursor-grabbing touch-none flex-shrink-0"
+                    title="Drag to reorder"
+                  >
+                    <GripVertical className="w-4 h-4 text-muted" />
+                  </div>
 
-              {/* Move up / down */}
-              <div className="flex flex-col shrink-0">
-                <button
-                  onClick={() => moveExercise(exIndex, exIndex - 1)}
-                  disabled={exIndex === 0}
-                  aria-label="Move exercise up"
-                  className="p-1 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
-                >
-                  <ArrowUp className="w-4 h-4" />
-                </button>
-                <button
-                  onClick={() => moveExercise(exIndex, exIndex + 1)}
-                  disabled={exIndex === exercises.length - 1}
-                  aria-label="Move exercise down"
-                  className="p-1 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
-                >
-                  <ArrowDown className="w-4 h-4" />
-                </button>
-              </div>
+                  {positions[exIndex] && (
+                    <span
+                      title={groupLabel(groupSizes[exIndex])}
+                      className="text-xs font-semibold text-accent shrink-0"
+                    >
+                      {positions[exIndex]}
+                    </span>
+                  )}
+
+                  <input
+                    value={ex.name}
+                    onChange={(e) => updateName(exIndex, e.target.value)}
+                    placeholder="Exercise name"
+                    aria-label={`Exercise ${exIndex + 1} name`}
+                    className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
+                  />
+
+                  {/* Move up / down */}
+                  <div className="flex flex-col shrink-0">
+                    <button
+                      onClick={() => moveExercise(exIndex, exIndex - 1)}
+                      disabled={exIndex === 0}
+                      aria-label="Move exercise up"
+                      className="p-1 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveExercise(exIndex, exIndex + 1)}
+                      disabled={exIndex === exercises.length - 1}
+                      aria-label="Move exercise down"
+                      className="p-1 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                  </div>
 
-              <button
-                onClick={() => setDeleteConfirm(exIndex)}
-                aria-label={`Remove exercise ${ex.name || exIndex + 1}`}
-                className="p-1.5 text-danger hover:bg-danger-surface rounded-lg transition-colors shrink-0"
-              >
-                <Trash2 className="w-4 h-4" />
-              </button>
-            </div>
-
-            {/* Sets table */}
-            {ex.sets.length > 0 && (
-              <div className="mb-2">
-                <div className="grid grid-cols-[auto_auto_1fr_1fr_auto] gap-2 text-xs text-muted mb-1 px-1">
-                  <span className="w-8" />
-                  <span className="w-6 text-center">Set</span>
-                  <span>Reps</span>
-                  <span>Weight (kg)</span>
-                  <span className="w-6" />
+                  <button
+                    onClick={() => setDeleteConfirm(exIndex)}
+                    aria-label={`Remove exercise ${ex.name || exIndex + 1}`}
+                    className="p-1.5 text-danger hover:bg-danger-surface rounded-lg transition-colors shrink-0"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
                 </div>
 
-                {ex.sets.map((s, setIndex) => (
-                  <div
-                    key={setIndex}
-                    className="grid grid-cols-[auto_auto_1fr_1fr_auto] gap-2 items-center mb-1.5"
-                  >
-                    {/* Set reorder */}
-                    <div className="flex flex-col">
-                      <button
-                        onClick={() => moveSet(exIndex, setIndex, setIndex - 1)}
-                        disabled={setIndex === 0}
-                        aria-label="Move set up"
-                        className="p-0.5 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
-                      >
-                        <ArrowUp className="w-4 h-4" />
-                      </button>
+                {showProgression && (
+                  <ProgressionRuleEditor
+                    rule={ex.progression ?? null}
+                    onChange={(rule) => updateProgression(exIndex, rule)}
+                    exerciseLabel={ex.name || `Exercise ${exIndex + 1}`}
+                  />
+                )}
+
+                {showProgression && !!ex.deload_percent && (
+                  <div className="flex items-center gap-2 text-xs text-warning mb-2">
+                    <span className="flex-1">
+                      Next generated week: −{ex.deload_percent}% deload
+                    </span>
+                    <button
+                      onClick={() => clearDeload(exIndex)}
+                      className="text-muted hover:text-primary transition-colors"
+                    >
+                      Cancel deload
+                    </button>
+                  </div>
+                )}
+
+                {/* Previous session */}
+                {last && (
+                  <div className="text-xs text-muted mb-2">
+                    <div className="flex items-center gap-2">
+                      <span className="flex-1">
+                        Last time · {format(parseISO(last.date), "EEE, MMM d")}
+                      </span>
                       <button
-                        onClick={() => moveSet(exIndex, setIndex, setIndex + 1)}
-                        disabled={setIndex === ex.sets.length - 1}
-                        aria-label="Move set down"
-                        className="p-0.5 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
+                        onClick={() => copyLastSets(exIndex, last)}
+                        className="text-accent hover:text-primary transition-colors"
                       >
-                        <ArrowDown className="w-4 h-4" />
+                        Copy sets
                       </button>
                     </div>
+                    {last.notes && (
+                      <p className="italic text-secondary mt-0.5">
+                        “{last.notes}”
+                      </p>
+                    )}
+                  </div>
+                )}
 
-                    <span className="text-muted text-xs w-6 text-center">
-                      {setIndex + 1}
-                    </span>
-
-                    <input
-                      type="number"
-                      value={s.reps || ""}
-                      onChange={(e) =>
-                        updateSet(
-                          exIndex,
-                          setIndex,
-                          "reps",
-                          parseInt(e.target.value) || 0,
-                        )
-                      }
-                      aria-label={`Set ${setIndex + 1} reps`}
-                      min={1}
-                      className="w-full px-2 py-1.5 rounded bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
-                    />
-
-                    <input
-                      type="number"
-                      value={s.weight || ""}
-                      onChange={(e) =>
-                        updateSet(
-                          exIndex,
-                          setIndex,
-                          "weight",
-                          parseFloat(e.target.value) || 0,
-                        )
-                      }
-                      aria-label={`Set ${setIndex + 1} weight`}
-                      min={0}
-                      step={0.5}
-                      className="w-full px-2 py-1.5 rounded bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
-                    />
-
-                    <button
-                      onClick={() => removeSet(exIndex, setIndex)}
-                      aria-label={`Remove set ${setIndex + 1}`}
-                      className="p-1 text-muted hover:text-danger transition-colors"
+                {/* Sets table */}
+                {ex.sets.length > 0 && (
+                  <div className="mb-2">
+                    <div
+                      className={`grid ${setGrid} gap-2 text-xs text-muted mb-1 px-1`}
                     >
-                      <Trash2 className="w-3.5 h-3.5" />
-                    </button>
+                      <span className="w-8" />
+                      <span className="w-6 text-center">Set</span>
+                      {last && <span>Last</span>}
+                      {fields.reps ? (
+                        <>
+                          <span>Reps</span>
+                          <span>
+                            {kind === "bodyweight" ? "+Load" : "Weight"} ({unit})
+                          </span>
+                        </>
+                      ) : (
+                        <>
+                          <span>
+                            {fields.duration ? "Time" : `Distance (${distanceUnit})`}
+                          </span>
+                          <span>
+                            {fields.duration && fields.distance
+                              ? `Distance (${distanceUnit})`
+                              : ""}
+                          </span>
+                        </>
+                      )}
+                      <span>RPE</span>
+                      <span>RIR</span>
+                      <span className="w-6" />
+                    </div>
+
+                    {ex.sets.map((s, setIndex) => (
+                      <div
+                        key={setIndex}
+                        className={`grid ${setGrid} gap-2 items-center mb-1.5`}
+                      >
+                        {/* Set reorder */}
+                        <div className="flex flex-col">
+                          <button
+                            onClick={() => moveSet(exIndex, setIndex, setIndex - 1)}
+                            disabled={setIndex === 0}
+                            aria-label="Move set up"
+                            className="p-0.5 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => moveSet(exIndex, setIndex, setIndex + 1)}
+                            disabled={setIndex === ex.sets.length - 1}
+                            aria-label="Move set down"
+                            className="p-0.5 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </button>
+                        </div>
+
+                        <button
+                          onClick={() => cycleSetType(exIndex, setIndex)}
+                          title={SET_TYPES[s.set_type ?? "working"].label}
+                          aria-label={`Set ${setIndex + 1} type: ${SET_TYPES[s.set_type ?? "working"].label}`}
+                          className={`text-xs w-6 py-1 text-center rounded transition-colors ${
+                            s.set_type && s.set_type !== "working"
+                              ? "bg-accent-primary text-primary font-semibold"
+                              : "text-muted hover:text-primary"
+                          }`}
+                        >
+                          {SET_TYPES[s.set_type ?? "working"].short || setIndex + 1}
+                        </button>
+
+                        {last && (
+                          <span className="text-xs text-muted tabular-nums truncate">
+                            {last.sets[setIndex]
+                              ? formatLastSet(last.sets[setIndex], kind)
+                              : "—"}
+                          </span>
+                        )}
+
+                        {fields.reps ? (
+                          <input
+                            type="number"
+                            value={s.reps || ""}
+                            onChange={(e) =>
+                              updateSet(
+                                exIndex,
+                                setIndex,
+                                "reps",
+                                parseInt(e.target.value) || 0,
+                              )
+                            }
+                            aria-label={`Set ${setIndex + 1} reps`}
+                            min={1}
+                            className="w-full px-2 py-1.5 rounded bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                          />
+                        ) : fields.duration ? (
+                          <DurationInput
+                            seconds={s.duration_seconds}
+                            onChange={(seconds) =>
+                              updateSet(
+                                exIndex,
+                                setIndex,
+                                "duration_seconds",
+                                seconds,
+                              )
+                            }
+                            label={`Set ${setIndex + 1} time`}
+                            className="px-2 py-1.5 rounded text-sm"
+                          />
+                        ) : (
+                          renderDistanceInput(exIndex, setIndex, s)
+                        )}
+
+                        {fields.weight ? (
+                          <div className="relative">
+                            <input
+                              type="number"
+                              value={toDisplay(s.weight) || ""}
+                              onChange={(e) =>
+                                updateSet(
+                                  exIndex,
+                                  setIndex,
+                                  "weight",
+                                  fromDisplay(parseFloat(e.target.value) || 0),
+                                )
+                              }
+                              aria-label={`Set ${setIndex + 1} weight`}
+                              min={0}
+                              step={WEIGHT_STEP[unit]}
+                              className="w-full pl-2 pr-7 py-1.5 rounded bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                            />
+                            {kind === "weight_reps" && (
+                              <button
+                                onClick={() => setPlateFor({ exIndex, setIndex })}
+                                aria-label={`Set ${setIndex + 1} plate calculator`}
+                                className="absolute right-1 top-1/2 -translate-y-1/2 p-1 text-muted hover:text-primary transition-colors"
+                              >
+                                <Disc3 className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                          </div>
+                        ) : fields.duration && fields.distance ? (
+                          renderDistanceInput(exIndex, setIndex, s)
+                        ) : (
+                          <span />
+                        )}
+
+                        <input
+                          type="number"
+                          value={s.rpe ?? ""}
+                          onChange={(e) =>
+                            updateSet(
+                              exIndex,
+                              setIndex,
+                              "rpe",
+                              e.target.value === ""
+                                ? null
+                                : parseFloat(e.target.value),
+                            )
+                          }
+                          aria-label={`Set ${setIndex + 1} RPE`}
+                          min={1}
+                          max={10}
+                          step={0.5}
+                          className="w-full px-1 py-1.5 rounded bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                        />
+
+                        <input
+                          type="number"
+                          value={s.rir ?? ""}
+                          onChange={(e) =>
+                            updateSet(
+                              exIndex,
+                              setIndex,
+                              "rir",
+                              e.target.value === ""
+                                ? null
+                                : parseInt(e.target.value),
+                            )
+                          }
+                          aria-label={`Set ${setIndex + 1} RIR`}
+                          min={0}
+                          max={10}
+                          className="w-full px-1 py-1.5 rounded bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                        />
+
+                        <button
+                          onClick={() => removeSet(exIndex, setIndex)}
+                          aria-label={`Remove set ${setIndex + 1}`}
+                          className="p-1 text-muted hover:text-danger transition-colors"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    ))}
+
+                    {last && last.sets.length > ex.sets.length && (
+                      <p className="text-xs text-muted px-1">
+                        Last time also:{" "}
+                        {last.sets
+                          .slice(ex.sets.length)
+                          .map((set) => formatLastSet(set, kind))
+                          .join(", ")}
+                      </p>
+                    )}
                   </div>
-                ))}
+                )}
+
+                <button
+                  onClick={() => addSet(exIndex)}
+                  className="text-xs text-accent hover:text-primary transition-colors mt-1"
+                >
+                  + Add Set
+                </button>
               </div>
-            )}
 
-            <button
-              onClick={() => addSet(exIndex)}
-              className="text-xs text-accent hover:text-primary transition-colors mt-1"
-            >
-              + Add Set
-            </button>
-          </div>
-        ))}
+              {/* Superset link to the next exercise */}
+              {exIndex < exercises.length - 1 && (
+                <div className="flex justify-center -my-2">
+                  <button
+                    onClick={() =>
+                      onChange(
+                        linkedToNext
+                          ? unlinkFromNext(exercises, exIndex)
+                          : linkWithNext(exercises, exIndex),
+                      )
+                    }
+                    title={
+                      linkedToNext
+                        ? "Split here"
+                        : "Do with the next exercise as a superset"
+                    }
+                    aria-label={
+                      linkedToNext
+                        ? `Split ${ex.name || `exercise ${exIndex + 1}`} from the next exercise`
+                        : `Superset ${ex.name || `exercise ${exIndex + 1}`} with the next exercise`
+                    }
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs transition-colors ${
+                      linkedToNext
+                        ? "bg-accent-soft text-accent"
+                        : "text-muted hover:text-primary hover:bg-elevated"
+                    }`}
+                  >
+                    {linkedToNext ? (
+                      <>
+                        <Link2 className="w-3.5 h-3.5" />
+                        {groupLabel(groupSizes[exIndex])}
+                      </>
+                    ) : (
+                      <Unlink2 className="w-3.5 h-3.5" />
+                    )}
+                  </button>
+                </div>
+              )}
+            </Fragment>
+          );
+        })}
       </div>
 
       {/* ── Modals ───────────────────────────────────── */}
@@ -423,6 +927,7 @@ export function DayEditorPanel({
           setShowExercisePicker(false);
         }}
         existingNames={existingNames}
+        lastSessionScope={lastSessionScope}
       />
 
       {showImportDay && (
@@ -433,6 +938,19 @@ export function DayEditorPanel({
         />
       )}
 
+      {plateFor && (
+        <PlateCalculatorModal
+          isOpen
+          onClose={() => setPlateFor(null)}
+          weight={
+            exercises[plateFor.exIndex]?.sets[plateFor.setIndex]?.weight ?? 0
+          }
+          onApply={(kg) =>
+            updateSet(plateFor.exIndex, plateFor.setIndex, "weight", kg)
+          }
+        />
+      )}
+
       <ConfirmDialog
         isOpen={deleteConfirm !== null}
         title="Remove Exercise"
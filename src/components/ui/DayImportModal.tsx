@@ -9,6 +9,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { Button } from "@/components/ui/Layout";
 import { Modal } from "@/components/ui/Form";
+import { ShareLinkModal } from "@/components/ui/ShareLinkModal";
 import { getAllDayLibraryItems } from "@/lib/dayLibraryService";
 import {
   getAllWeekTemplates,
@@ -17,9 +18,11 @@ import {
 import { workoutApi } from "@/lib/api";
 import type {
   DayLibraryItem,
+  ExerciseKind,
   WeekTemplate,
   DayTemplateWithExercises,
   WorkoutWithExercises,
+  SaveSetInput,
 } from "@/types";
 import {
   Library,
@@ -28,13 +31,16 @@ import {
   Loader2,
   Dumbbell,
   ChevronRight,
+  Share2,
 } from "lucide-react";
 
 // ─── Cloned exercise shape (output) ──────────────────────────────────────────
 
 export interface ImportedExercise {
   name: string;
-  sets: { reps: number; weight: number }[];
+  kind: ExerciseKind;
+  superset_group: number | null;
+  sets: SaveSetInput[];
 }
 
 export interface ImportedDay {
@@ -65,6 +71,7 @@ export function DayImportModal({
 
   // Library tab
   const [dayLibrary, setDayLibrary] = useState<DayLibraryItem[]>([]);
+  const [shareTarget, setShareTarget] = useState<DayLibraryItem | null>(null);
 
   // Weeks tab
   const [weekWorkouts, setWeekWorkouts] = useState<WorkoutWithExercises[]>([]);
@@ -157,9 +164,16 @@ export function DayImportModal({
       name: day.name,
       exercises: day.day_library_exercises.map((ex) => ({
         name: ex.name,
+        kind: ex.kind,
+        superset_group: ex.superset_group,
         sets: ex.day_library_sets.map((s) => ({
           reps: s.reps,
           weight: s.weight,
+          set_type: s.set_type,
+          rpe: s.rpe,
+          rir: s.rir,
+          duration_seconds: s.duration_seconds,
+          distance_m: s.distance_m,
         })),
       })),
     };
@@ -172,9 +186,16 @@ export function DayImportModal({
       name: workout.title || "Imported Day",
       exercises: (workout.workout_exercises ?? []).map((we) => ({
         name: we.exercise?.name ?? "Unknown",
+        kind: we.exercise?.kind ?? "weight_reps",
+        superset_group: we.superset_group,
         sets: (we.sets ?? []).map((s) => ({
           reps: s.reps,
           weight: s.weight,
+          set_type: s.set_type,
+          rpe: s.rpe,
+          rir: s.rir,
+          duration_seconds: s.duration_seconds,
+          distance_m: s.distance_m,
         })),
       })),
     };
@@ -187,9 +208,16 @@ export function DayImportModal({
       name: day.name,
       exercises: (day.exercise_templates ?? []).map((ex) => ({
         name: ex.name,
+        kind: ex.kind,
+        superset_group: ex.superset_group,
         sets: (ex.template_sets ?? []).map((s) => ({
           reps: s.reps,
           weight: s.weight,
+          set_type: s.set_type,
+          rpe: s.rpe,
+          rir: s.rir,
+          duration_seconds: s.duration_seconds,
+          distance_m: s.distance_m,
         })),
       })),
     };
@@ -225,23 +253,34 @@ export function DayImportModal({
     return (
       <div className="space-y-2">
         {dayLibrary.map((day) => (
-          <button
+          <div
             key={day.id}
-            onClick={() => importFromLibrary(day)}
-            className="w-full text-left px-3 py-3 rounded-lg hover:bg-elevated active:bg-elevated transition-colors"
+            className="flex items-center rounded-lg hover:bg-elevated transition-colors"
           >
-            <p className="text-primary font-medium text-sm">{day.name}</p>
-            <p className="text-muted text-xs mt-0.5">
-              {day.day_library_exercises.length} exercise
-              {day.day_library_exercises.length !== 1 ? "s" : ""}
-              {day.day_library_exercises.length > 0 && (
-                <>
-                  {" — "}
-                  {day.day_library_exercises.map((e) => e.name).join(", ")}
-                </>
-              )}
-            </p>
-          </button>
+            <button
+              onClick={() => importFromLibrary(day)}
+              className="flex-1 min-w-0 text-left px-3 py-3 rounded-lg active:bg-elevated"
+            >
+              <p className="text-primary font-medium text-sm">{day.name}</p>
+              <p className="text-muted text-xs mt-0.5">
+                {day.day_library_exercises.length} exercise
+                {day.day_library_exercises.length !== 1 ? "s" : ""}
+                {day.day_library_exercises.length > 0 && (
+                  <>
+                    {" — "}
+                    {day.day_library_exercises.map((e) => e.name).join(", ")}
+                  </>
+                )}
+              </p>
+            </button>
+            <button
+              onClick={() => setShareTarget(day)}
+              className="p-2 mr-1 text-muted hover:text-primary rounded-lg transition-colors"
+              title="Share"
+            >
+              <Share2 className="w-4 h-4" />
+            </button>
+          </div>
         ))}
       </div>
     );
@@ -340,41 +379,54 @@ export function DayImportModal({
   ];
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Import Existing Day">
-      <div className="space-y-3">
-        {/* Tab bar */}
-        <div className="flex gap-1 bg-elevated rounded-lg p-1">
-          {tabs.map((t) => {
-            const Icon = t.icon;
-            return (
-              <button
-                key={t.id}
-                onClick={() => setTab(t.id)}
-                className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-2 rounded-md text-xs font-medium transition-colors ${
-                  tab === t.id
-                    ? "bg-accent-primary text-primary"
-                    : "text-secondary hover:text-primary"
-                }`}
-              >
-                <Icon className="w-3.5 h-3.5" />
-                <span className="hidden sm:inline">{t.label}</span>
-                <span className="sm:hidden">{t.label.split(" ").pop()}</span>
-              </button>
-            );
-          })}
-        </div>
+    <>
+      <Modal isOpen={isOpen} onClose={onClose} title="Import Existing Day">
+        <div className="space-y-3">
+          {/* Tab bar */}
+          <div className="flex gap-1 bg-elevated rounded-lg p-1">
+            {tabs.map((t) => {
+              const Icon = t.icon;
+              return (
+                <button
+                  key={t.id}
+                  onClick={() => setTab(t.id)}
+                  className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-2 rounded-md text-xs font-medium transition-colors ${
+                    tab === t.id
+                      ? "bg-accent-primary text-primary"
+                      : "text-secondary hover:text-primary"
+                  }`}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  <span className="hidden sm:inline">{t.label}</span>
+                  <span className="sm:hidden">{t.label.split(" ").pop()}</span>
+                </button>
+              );
+            })}
+          </div>
 
-        {/* Tab content */}
-        <div className="max-h-[50vh] overflow-y-auto -mx-1 px-1">
-          {tab === "library" && renderLibraryTab()}
-          {tab === "weeks" && renderWeeksTab()}
-          {tab === "templates" && renderTemplatesTab()}
-        </div>
+          {/* Tab content */}
+          <div className="max-h-[50vh] overflow-y-auto -mx-1 px-1">
+            {tab === "library" && renderLibraryTab()}
+            {tab === "weeks" && renderWeeksTab()}
+            {tab === "templates" && renderTemplatesTab()}
+          </div>
 
-        <Button variant="secondary" onClick={onClose} className="w-full">
-          Cancel
-        </Button>
-      </div>
-    </Modal>
+          <Button variant="secondary" onClick={onClose} className="w-full">
+            Cancel
+          </Button>
+        </div>
+      </Modal>
+
+      {/* Mounted beside the import modal so it stacks on top */}
+      {shareTarget && (
+        <ShareLinkModal
+          isOpen
+          onClose={() => setShareTarget(null)}
+          kind="day"
+          targetId={shareTarget.id}
+          name={shareTarget.name}
+        />
+      )}
+    </>
   );
 }
@@ -0,0 +1,49 @@
+/**
+ * DurationInput
+ *
+ * "25:00"-style time input for timed sets. Keeps the typed text until it
+ * loses focus, then reports seconds (null when empty or unreadable).
+ */
+
+import { useState } from "react";
+import { parseDuration } from "@/lib/exerciseKinds";
+import { formatDuration } from "@/lib/restTimer";
+
+interface DurationInputProps {
+  seconds: number | null | undefined;
+  onChange: (seconds: number | null) => void;
+  label: string;
+  className?: string;
+}
+
+export function DurationInput({
+  seconds,
+  onChange,
+  label,
+  className = "",
+}: DurationInputProps) {
+  const shown = seconds ? formatDuration(seconds) : "";
+  const [text, setText] = useState(shown);
+  // Follow outside changes (reorders, imports) unless mid-edit
+  const [source, setSource] = useState(shown);
+  if (source !== shown) {
+    setSource(shown);
+    setText(shown);
+  }
+
+  return (
+    <input
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const parsed = parseDuration(text);
+        onChange(parsed);
+        setText(parsed ? formatDuration(parsed) : "");
+      }}
+      placeholder="mm:ss"
+      inputMode="numeric"
+      aria-label={label}
+      className={`w-full bg-elevated border border-primary text-primary focus:outline-none focus:ring-1 focus:ring-(--border-focus) ${className}`}
+    />
+  );
+}
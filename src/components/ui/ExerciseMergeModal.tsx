@@ -0,0 +1,366 @@
+/**
+ * ExerciseMergeModal
+ *
+ * Pick two or more exercises that are really the same lift, choose which one
+ * to keep (and optionally rename it), preview what references each of them,
+ * then merge. The merge itself runs server-side in one transaction — see
+ * exerciseApi.merge.
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/Layout";
+import { Modal } from "@/components/ui/Form";
+import { exerciseApi } from "@/lib/api";
+import { nameSimilarity } from "@/lib/importService";
+import { cn } from "@/lib/utils";
+import type { Exercise, ExerciseUsage } from "@/types";
+import { Check, Loader2, Merge, Search } from "lucide-react";
+
+// Names at least this similar are suggested as likely duplicates
+const SUGGESTION_THRESHOLD = 0.75;
+
+interface ExerciseMergeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  exercises: Exercise[];
+  /** Called with the kept exercise's final name once the merge succeeds */
+  onMerged: (name: string) => void;
+}
+
+/** Groups of similarly named exercises, largest first */
+function suggestDuplicates(exercises: Exercise[]): Exercise[][] {
+  const groupOf = new Map<string, Exercise[]>();
+
+  for (let i = 0; i < exercises.length; i++) {
+    for (let j = i + 1; j < exercises.length; j++) {
+      const a = exercises[i];
+      const b = exercises[j];
+      if (nameSimilarity(a.name, b.name) < SUGGESTION_THRESHOLD) continue;
+
+      const groupA = groupOf.get(a.id);
+      const groupB = groupOf.get(b.id);
+      if (groupA && groupB) {
+        if (groupA === groupB) continue;
+        groupA.push(...groupB);
+        groupB.forEach((e) => groupOf.set(e.id, groupA));
+      } else if (groupA) {
+        groupA.push(b);
+        groupOf.set(b.id, groupA);
+      } else if (groupB) {
+        groupB.push(a);
+        groupOf.set(a.id, groupB);
+      } else {
+        const group = [a, b];
+        groupOf.set(a.id, group);
+        groupOf.set(b.id, group);
+      }
+    }
+  }
+
+  return [...new Set(groupOf.values())].sort((a, b) => b.length - a.length);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function describeUsage(usage: ExerciseUsage | undefined): string {
+  if (!usage) return "…";
+  const parts = [
+    plural(usage.workouts, "workout"),
+    plural(usage.sets, "set"),
+    plural(usage.personalRecords, "PR"),
+  ];
+  if (usage.goals > 0) parts.push(plural(usage.goals, "goal"));
+  if (usage.templates > 0) parts.push(plural(usage.templates, "template"));
+  if (usage.dayLibrary > 0) parts.push(`${usage.dayLibrary} in day library`);
+  return parts.join(" · ");
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function ExerciseMergeModal({
+  isOpen,
+  onClose,
+  exercises,
+  onMerged,
+}: ExerciseMergeModalProps) {
+  const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [keepId, setKeepId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [usage, setUsage] = useState<Record<string, ExerciseUsage>>({});
+  const [loadingUsage, setLoadingUsage] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState("");
+
+  const suggestions = useMemo(() => suggestDuplicates(exercises), [exercises]);
+
+  const selected = useMemo(
+    () => exercises.filter((e) => selectedIds.includes(e.id)),
+    [exercises, selectedIds],
+  );
+
+  // The most-logged exercise is kept unless the user picks another
+  const kept = useMemo(() => {
+    const chosen = selected.find((e) => e.id === keepId);
+    if (chosen) return chosen;
+    return [...selected].sort(
+      (a, b) => (usage[b.id]?.workouts ?? 0) - (usage[a.id]?.workouts ?? 0),
+    )[0];
+  }, [selected, keepId, usage]);
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    if (!q) return exercises;
+    return exercises.filter((e) => e.name.toLowerCase().includes(q));
+  }, [exercises, search]);
+
+  useEffect(() => {
+    if (selectedIds.length < 2) return;
+    const missing = selectedIds.filter((id) => !usage[id]);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    setLoadingUsage(true);
+    exerciseApi
+      .getUsage(missing)
+      .then((rows) => {
+        if (cancelled) return;
+        // Unreported ids count as unused so they aren't fetched again
+        setUsage((prev) => ({
+          ...prev,
+          ...Object.fromEntries(
+            missing.map((id) => [
+              id,
+              rows.find((r) => r.exerciseId === id) ?? {
+                exerciseId: id,
+                workouts: 0,
+                sets: 0,
+                personalRecords: 0,
+                goals: 0,
+                templates: 0,
+                dayLibrary: 0,
+              },
+            ]),
+          ),
+        }));
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.error("[ExerciseMergeModal] getUsage error:", err);
+        setError(
+          err instanceof Error ? err.message : "Failed to load exercise usage",
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingUsage(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIds, usage]);
+
+  function handleClose() {
+    setSearch("");
+    setSelectedIds([]);
+    setKeepId(null);
+    setName("");
+    setUsage({});
+    setError("");
+    onClose();
+  }
+
+  function toggle(id: string) {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id],
+    );
+  }
+
+  async function handleMerge() {
+    if (!kept || selected.length < 2) return;
+
+    try {
+      setMerging(true);
+      setError("");
+      const finalName = name.trim() || kept.name;
+      await exerciseApi.merge(
+        kept.id,
+        selected.filter((e) => e.id !== kept.id).map((e) => e.id),
+        finalName === kept.name ? undefined : finalName,
+      );
+      onMerged(finalName);
+      handleClose();
+    } catch (err: unknown) {
+      console.error("[ExerciseMergeModal] merge error:", err);
+      setError(err instanceof Error ? err.message : "Failed to merge exercises");
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  const merged = selected.filter((e) => e.id !== kept?.id);
+  const totals = merged.reduce(
+    (sum, e) => ({
+      workouts: sum.workouts + (usage[e.id]?.workouts ?? 0),
+      goals: sum.goals + (usage[e.id]?.goals ?? 0),
+      templates:
+        sum.templates +
+        (usage[e.id]?.templates ?? 0) +
+        (usage[e.id]?.dayLibrary ?? 0),
+    }),
+    { workouts: 0, goals: 0, templates: 0 },
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Merge Exercises">
+      <div className="space-y-4">
+        <p className="text-muted text-sm">
+          Pick the exercises that are the same lift. Their workouts, templates
+          and goals move to the one you keep, and its PRs are recalculated from
+          the combined history.
+        </p>
+
+        {error && (
+          <p className="text-danger text-xs bg-danger-surface rounded-lg px-3 py-2">
+            {error}
+          </p>
+        )}
+
+        {/* ─── Suggestions ───────────────────────────────── */}
+        {suggestions.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-secondary mb-2">
+              Likely duplicates
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {suggestions.map((group) => (
+                <button
+                  key={group.map((e) => e.id).join()}
+                  onClick={() => {
+                    setSelectedIds(group.map((e) => e.id));
+                    setKeepId(null);
+                  }}
+                  className="px-2.5 py-1.5 rounded-lg bg-elevated text-xs text-primary hover:bg-card transition-colors text-left"
+                >
+                  {group.map((e) => e.name).join(" · ")}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* ─── Picker ────────────────────────────────────── */}
+        <div>
+          <div className="relative mb-2">
+            <Search className="w-4 h-4 text-muted absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search exercises"
+              className="w-full pl-9 pr-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm placeholder-muted focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
+            />
+          </div>
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {filtered.map((exercise) => {
+              const isSelected = selectedIds.includes(exercise.id);
+              return (
+                <button
+                  key={exercise.id}
+                  onClick={() => toggle(exercise.id)}
+                  className={cn(
+                    "w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm transition-colors",
+                    isSelected
+                      ? "bg-elevated text-primary"
+                      : "text-secondary hover:bg-elevated",
+                  )}
+                >
+                  <span
+                    className={cn(
+                      "w-4 h-4 rounded border flex items-center justify-center shrink-0",
+                      isSelected
+                        ? "bg-accent-primary border-transparent"
+                        : "border-primary",
+                    )}
+                  >
+                    {isSelected && <Check className="w-3 h-3 text-white" />}
+                  </span>
+                  {exercise.name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* ─── Preview ───────────────────────────────────── */}
+        {selected.length >= 2 && kept && (
+          <div className="space-y-3 pt-3 border-t border-primary">
+            <p className="text-xs font-medium text-secondary">Keep</p>
+            {selected.map((exercise) => (
+              <label
+                key={exercise.id}
+                className="flex items-start gap-3 cursor-pointer"
+              >
+                <input
+                  type="radio"
+                  name="merge-keep"
+                  checked={kept.id === exercise.id}
+                  onChange={() => setKeepId(exercise.id)}
+                  className="mt-1"
+                />
+                <div className="min-w-0">
+                  <p className="text-sm text-primary">{exercise.name}</p>
+                  <p className="text-xs text-muted">
+                    {loadingUsage && !usage[exercise.id]
+                      ? "Loading…"
+                      : describeUsage(usage[exercise.id])}
+                  </p>
+                </div>
+              </label>
+            ))}
+
+            <div className="flex flex-col gap-1.5">
+              <label className="text-xs font-medium text-secondary">
+                Name after merging
+              </label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={kept.name}
+                className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm placeholder-muted focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
+              />
+            </div>
+
+            <p className="text-xs text-muted">
+              {plural(totals.workouts, "workout")},{" "}
+              {plural(totals.templates, "template exercise")} and{" "}
+              {plural(totals.goals, "goal")} will move to "
+              {name.trim() || kept.name}". Where more than one exercise has a
+              goal of the same type, only the kept exercise's (or the oldest)
+              stays. This can't be undone.
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-2 justify-end pt-2">
+          <Button variant="secondary" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMerge}
+            disabled={selected.length < 2 || merging || loadingUsage}
+            className="flex items-center gap-2"
+          >
+            {merging ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Merge className="w-4 h-4" />
+            )}
+            {merging ? "Merging..." : `Merge ${selected.length || ""}`.trim()}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -2,7 +2,9 @@
  * ExercisePickerModal
  *
  * Reusable modal for selecting exercises from the Exercise Library.
- * Features: search, sort, muscle-group grouping, create new.
+ * Features: search, sort, muscle-group grouping, create new. A picked
+ * exercise comes back with its last logged session so the caller can
+ * prefill the same sets.
  */
 
 import { useState, useEffect, useRef, useCallback, useMemo } from "react";
@@ -15,7 +17,18 @@ import {
   groupByMuscle,
   bumpExerciseUsage,
 } from "@/lib/exerciseLibraryService";
-import type { ExerciseLibraryItem, ExerciseLibrarySortMode } from "@/types";
+import { useUnits } from "@/contexts/useUnits";
+import { WEIGHT_STEP } from "@/lib/units";
+import { MUSCLE_GROUPS, parseMuscleList } from "@/lib/muscleGroups";
+import { EXERCISE_KINDS, KIND_FIELDS } from "@/lib/exerciseKinds";
+import { getLastExerciseSessions } from "@/lib/analytics";
+import type {
+  Exercise,
+  ExerciseKind,
+  ExerciseLibrarySortMode,
+  LastExerciseSession,
+  LastSessionScope,
+} from "@/types";
 import {
   Search,
   Plus,
@@ -63,9 +76,12 @@ function persistSortMode(mode: ExerciseLibrarySortMode): void {
 
 interface ExercisePickerResult {
   name: string;
+  kind: ExerciseKind;
   muscle_group: string | null;
   default_reps: number;
   default_weight: number;
+  /** Latest logged session within lastSessionScope, if any */
+  lastSession: LastExerciseSession | null;
 }
 
 interface ExercisePickerModalProps {
@@ -74,6 +90,8 @@ interface ExercisePickerModalProps {
   onSelect: (exercise: ExercisePickerResult) => void;
   /** Exercise names already in the current day (for dupe prevention) */
   existingNames?: string[];
+  /** Which workouts count as the picked exercise's last session */
+  lastSessionScope?: LastSessionScope;
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
@@ -83,18 +101,23 @@ export function ExercisePickerModal({
   onClose,
   onSelect,
   existingNames = [],
+  lastSessionScope,
 }: ExercisePickerModalProps) {
-  const [library, setLibrary] = useState<ExerciseLibraryItem[]>([]);
+  const { unit, fromDisplay, formatWeight } = useUnits();
+  const [library, setLibrary] = useState<Exercise[]>([]);
   const [loading, setLoading] = useState(false);
   const [search, setSearch] = useState("");
   const [sortMode, setSortMode] =
     useState<ExerciseLibrarySortMode>(getPersistedSortMode);
   const [grouped, setGrouped] = useState(false);
   const [showCreate, setShowCreate] = useState(false);
+  const [selectingId, setSelectingId] = useState<string | null>(null);
 
   // Create form
   const [newName, setNewName] = useState("");
   const [newMuscle, setNewMuscle] = useState("");
+  const [newSecondary, setNewSecondary] = useState("");
+  const [newKind, setNewKind] = useState<ExerciseKind>("weight_reps");
   const [newReps, setNewReps] = useState(10);
   const [newWeight, setNewWeight] = useState(0);
   const [creating, setCreating] = useState(false);
@@ -162,17 +185,35 @@ export function ExercisePickerModal({
 
   // ─── Handle select ──────────────────────────────────────────────────────────
 
-  async function handleSelect(item: ExerciseLibraryItem) {
+  async function handleSelect(item: Exercise) {
     // Duplicate prevention
     if (existingSet.has(item.name.toLowerCase())) {
       return; // silently prevent — the item is shown as disabled
     }
+    if (selectingId) return;
+
+    // Prefill is a nicety — fall back to the library defaults without it
+    let lastSession: LastExerciseSession | null = null;
+    try {
+      setSelectingId(item.id);
+      const sessions = await getLastExerciseSessions(
+        [item.name],
+        lastSessionScope,
+      );
+      lastSession = sessions.get(item.name.toLowerCase()) ?? null;
+    } catch (err) {
+      console.error("[ExercisePickerModal] last session error:", err);
+    } finally {
+      setSelectingId(null);
+    }
 
     onSelect({
       name: item.name,
+      kind: item.kind,
       muscle_group: item.muscle_group,
       default_reps: item.default_reps,
       default_weight: item.default_weight,
+      lastSession,
     });
 
     // Non-blocking usage bump
@@ -202,15 +243,19 @@ export function ExercisePickerModal({
         trimmed,
         newMuscle.trim() || null,
         newReps,
-        newWeight,
+        fromDisplay(newWeight),
+        parseMuscleList(newSecondary),
+        newKind,
       );
 
       // Select it immediately
       onSelect({
         name: created.name,
+        kind: created.kind,
         muscle_group: created.muscle_group,
         default_reps: created.default_reps,
         default_weight: created.default_weight,
+        lastSession: null,
       });
 
       onClose();
@@ -286,13 +331,13 @@ export function ExercisePickerModal({
     );
   }
 
-  function renderItem(item: ExerciseLibraryItem) {
+  function renderItem(item: Exercise) {
     const isDupe = existingSet.has(item.name.toLowerCase());
     return (
       <button
         key={item.id}
         onClick={() => handleSelect(item)}
-        disabled={isDupe}
+        disabled={isDupe || selectingId !== null}
         className={`w-full text-left px-3 py-2.5 rounded-lg transition-colors flex items-center justify-between gap-2 ${
           isDupe
             ? "opacity-40 cursor-not-allowed bg-elevated"
@@ -308,8 +353,13 @@ export function ExercisePickerModal({
           )}
         </div>
         <div className="text-right shrink-0">
+          {selectingId === item.id && (
+            <Loader2 className="w-4 h-4 text-secondary animate-spin ml-auto" />
+          )}
           <p className="text-secondary text-xs">
-            {item.default_reps}r × {item.default_weight}kg
+            {KIND_FIELDS[item.kind].reps
+              ? `${item.default_reps}r × ${formatWeight(item.default_weight)}`
+              : EXERCISE_KINDS[item.kind]}
           </p>
           {isDupe && (
             <p className="text-warning text-xs">Already added</p>
@@ -345,35 +395,62 @@ export function ExercisePickerModal({
           value={newMuscle}
           onChange={(e) => setNewMuscle(e.target.value)}
           placeholder="Muscle group (optional)"
+          list="muscle-group-options"
           className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
         />
-        <div className="grid grid-cols-2 gap-2">
-          <div>
-            <label className="text-xs text-muted mb-1 block">
-              Default Reps
-            </label>
-            <input
-              type="number"
-              value={newReps || ""}
-              onChange={(e) => setNewReps(parseInt(e.target.value) || 0)}
-              min={1}
-              className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
-            />
-          </div>
-          <div>
-            <label className="text-xs text-muted mb-1 block">
-              Default Weight (kg)
-            </label>
-            <input
-              type="number"
-              value={newWeight || ""}
-              onChange={(e) => setNewWeight(parseFloat(e.target.value) || 0)}
-              min={0}
-              step={0.5}
-              className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
-            />
+        <input
+          value={newSecondary}
+          onChange={(e) => setNewSecondary(e.target.value)}
+          placeholder="Also works, comma-separated (e.g. Triceps, Shoulders)"
+          className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
+        />
+        <datalist id="muscle-group-options">
+          {MUSCLE_GROUPS.map((m) => (
+            <option key={m} value={m} />
+          ))}
+        </datalist>
+        <select
+          value={newKind}
+          onChange={(e) => setNewKind(e.target.value as ExerciseKind)}
+          aria-label="Exercise kind"
+          className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
+        >
+          {Object.entries(EXERCISE_KINDS).map(([key, label]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {KIND_FIELDS[newKind].reps && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-muted mb-1 block">
+                Default Reps
+              </label>
+              <input
+                type="number"
+                value={newReps || ""}
+                onChange={(e) => setNewReps(parseInt(e.target.value) || 0)}
+                min={1}
+                className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted mb-1 block">
+                {newKind === "bodyweight" ? "Added Load" : "Default Weight"}{" "}
+                ({unit})
+              </label>
+              <input
+                type="number"
+                value={newWeight || ""}
+                onChange={(e) => setNewWeight(parseFloat(e.target.value) || 0)}
+                min={0}
+                step={WEIGHT_STEP[unit]}
+                className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+              />
+            </div>
           </div>
-        </div>
+        )}
 
         <div className="flex gap-2">
           <Button
@@ -383,6 +460,8 @@ export function ExercisePickerModal({
               setCreateError("");
               setNewName("");
               setNewMuscle("");
+              setNewSecondary("");
+              setNewKind("weight_reps");
               setNewReps(10);
               setNewWeight(0);
             }}
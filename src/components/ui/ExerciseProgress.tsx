@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { getExerciseComparison } from "@/lib/analytics";
+import { useUnits } from "@/contexts/useUnits";
 import type { ExerciseComparison } from "@/types";
 
 interface ExerciseProgressProps {
@@ -9,7 +10,7 @@ interface ExerciseProgressProps {
 }
 
 /**
- * Displays a "Previous: X reps @ Ykg (Week N – Day) ↑/↓" line
+ * Displays a "Previous: X reps @ Y kg (Week N – Day) ↑/↓" line
  * below an exercise card. Fetches data from the analytics service layer.
  */
 export function ExerciseProgress({
@@ -17,6 +18,7 @@ export function ExerciseProgress({
   currentWorkoutId,
   currentMaxWeight,
 }: ExerciseProgressProps) {
+  const { formatWeight } = useUnits();
   const [comparison, setComparison] = useState<ExerciseComparison | null>(null);
 
   useEffect(() => {
@@ -60,7 +62,8 @@ export function ExerciseProgress({
       <p className="text-xs text-muted">
         Previous:{" "}
         <span className="text-secondary">
-          {comparison.previousReps} reps @ {comparison.previousWeight}kg
+          {comparison.previousReps} reps @{" "}
+          {formatWeight(comparison.previousWeight)}
         </span>{" "}
         <span className="text-muted">({comparison.previousWeekDay})</span>{" "}
         <span className={trendColor}>{trendIcon}</span>
@@ -0,0 +1,69 @@
+/**
+ * FatigueWarnings
+ *
+ * Overreaching warnings from lib/readiness — workload spikes and poor
+ * check-ins — most serious first. Renders nothing when there are none.
+ */
+
+import type { FatigueWarning } from "@/types";
+import { cn } from "@/lib/utils";
+import { AlertTriangle } from "lucide-react";
+
+interface FatigueWarningsProps {
+  warnings: FatigueWarning[];
+  /** Link under the list, e.g. to the full training load card */
+  action?: { label: string; onClick: () => void };
+  className?: string;
+}
+
+export function FatigueWarnings({
+  warnings,
+  action,
+  className,
+}: FatigueWarningsProps) {
+  if (warnings.length === 0) return null;
+
+  const high = warnings.some((w) => w.level === "high");
+
+  return (
+    <div
+      className={cn(
+        "border rounded-lg p-3 sm:p-4",
+        high
+          ? "bg-danger-surface border-danger"
+          : "bg-elevated border-primary",
+        className,
+      )}
+    >
+      <div className="flex items-start gap-2">
+        <AlertTriangle
+          className={cn(
+            "w-4 h-4 mt-0.5 shrink-0",
+            high ? "text-danger" : "text-warning",
+          )}
+        />
+        <div className="space-y-1 min-w-0">
+          {warnings.map((warning) => (
+            <p
+              key={warning.message}
+              className={cn(
+                "text-sm",
+                warning.level === "high" ? "text-danger" : "text-secondary",
+              )}
+            >
+              {warning.message}
+            </p>
+          ))}
+          {action && (
+            <button
+              onClick={action.onClick}
+              className="text-accent hover:text-primary text-xs transition-colors"
+            >
+              {action.label}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import type { ReactNode } from "react";
 import { cn } from "@/lib/utils";
 import { ThemeSelector } from "./ThemeSelector";
+import { AthleteSwitcher } from "./AthleteSwitcher";
 
 interface ContainerProps {
   children: ReactNode;
@@ -19,9 +20,16 @@ interface HeaderProps {
   title: string;
   onBack?: () => void;
   action?: ReactNode;
+  /** Show coaches the athlete picker — for screens that follow viewedAthlete */
+  athleteSwitcher?: boolean;
 }
 
-export function Header({ title, onBack, action }: HeaderProps) {
+export function Header({
+  title,
+  onBack,
+  action,
+  athleteSwitcher = false,
+}: HeaderProps) {
   return (
     <header className="bg-card border-b border-primary sticky top-0 z-10">
       <div className="container mx-auto px-3 sm:px-4 py-3 sm:py-4 flex items-center justify-between gap-2">
@@ -53,6 +61,7 @@ export function Header({ title, onBack, action }: HeaderProps) {
         </div>
         <div className="flex items-center gap-2">
           {action && <div className="shrink-0">{action}</div>}
+          {athleteSwitcher && <AthleteSwitcher />}
           <ThemeSelector />
         </div>
       </div>
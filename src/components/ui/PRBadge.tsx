@@ -1,10 +1,18 @@
+import type { PRType } from "@/types";
+
+const PR_LABELS: Record<PRType, string> = {
+  weight: "PR",
+  reps: "Rep PR",
+  e1rm: "e1RM PR",
+};
+
 /**
  * Small "PR" badge shown next to a set when it's a personal record.
  */
-export function PRBadge() {
+export function PRBadge({ type = "weight" }: { type?: PRType }) {
   return (
     <span className="ml-2 px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wider bg-success-surface text-warning border border-success rounded">
-      PR
+      {PR_LABELS[type]}
     </span>
   );
 }
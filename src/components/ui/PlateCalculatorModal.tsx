@@ -0,0 +1,165 @@
+/**
+ * PlateCalculatorModal
+ *
+ * Shows how to load the bar for a set's weight from the user's plate
+ * inventory (Settings → Plates). When the target can't be loaded exactly
+ * it shows the closest load under it and, with onApply, offers to use that
+ * weight instead.
+ */
+
+import { useState, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/Layout";
+import { Modal } from "@/components/ui/Form";
+import { useUnits } from "@/contexts/useUnits";
+import { calculatePlates } from "@/lib/plates";
+import { WEIGHT_STEP, fromDisplayWeight, toDisplayWeight } from "@/lib/units";
+
+interface PlateCalculatorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Starting target in kg */
+  weight: number;
+  /** Called with the loadable total in kg when the user picks it */
+  onApply?: (kg: number) => void;
+}
+
+/** Plate heights on the bar diagram, heaviest plates tallest */
+function plateHeight(weight: number, heaviest: number): string {
+  return `${40 + Math.round((weight / heaviest) * 60)}%`;
+}
+
+export function PlateCalculatorModal({
+  isOpen,
+  onClose,
+  weight,
+  onApply,
+}: PlateCalculatorModalProps) {
+  const navigate = useNavigate();
+  const { unit, toDisplay, fromDisplay, plateSettings } = useUnits();
+  // Seeded once — callers mount the modal per set rather than reusing it
+  const [input, setInput] = useState(() => String(toDisplay(weight) || ""));
+
+  const targetKg = fromDisplay(parseFloat(input) || 0);
+  const load = useMemo(
+    () => calculatePlates(targetKg, plateSettings),
+    [targetKg, plateSettings],
+  );
+
+  const plateUnit = plateSettings.plate_unit;
+  const loadedKg = fromDisplayWeight(load.total, plateUnit);
+  const heaviest = Math.max(...load.perSide, 1);
+  const belowBar = load.target < plateSettings.bar_weight;
+
+  // Group the per-side list: [25, 25, 10] → "2 × 25"
+  const counts = load.perSide.reduce<[number, number][]>((acc, plate) => {
+    const last = acc[acc.length - 1];
+    if (last && last[0] === plate) last[1]++;
+    else acc.push([plate, 1]);
+    return acc;
+  }, []);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Plate Calculator">
+      <div className="space-y-4">
+        <div className="flex flex-col gap-1.5">
+          <label className="text-xs font-medium text-secondary">
+            Target ({unit})
+          </label>
+          <input
+            type="number"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            min={0}
+            step={WEIGHT_STEP[unit]}
+            className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
+          />
+        </div>
+
+        {/* ─── Bar diagram (one side) ────────────────────── */}
+        <div className="flex items-center h-20 px-2 rounded-lg bg-elevated">
+          <div className="h-2 w-10 bg-muted rounded-l" />
+          <div className="h-8 w-1.5 bg-muted" />
+          {load.perSide.map((plate, i) => (
+            <div
+              key={i}
+              style={{ height: plateHeight(plate, heaviest) }}
+              className="w-3 mx-px rounded-sm bg-accent-primary"
+              title={`${plate} ${plateUnit}`}
+            />
+          ))}
+          <div className="h-2 flex-1 bg-muted rounded-r" />
+        </div>
+
+        {belowBar ? (
+          <p className="text-sm text-muted">
+            Lighter than the {plateSettings.bar_weight} {plateUnit} bar.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-secondary">Each side</p>
+            {counts.length === 0 ? (
+              <p className="text-sm text-muted">Empty bar</p>
+            ) : (
+              <ul className="space-y-1">
+                {counts.map(([plate, count]) => (
+                  <li
+                    key={plate}
+                    className="flex justify-between text-sm text-primary"
+                  >
+                    <span>
+                      {plate} {plateUnit}
+                    </span>
+                    <span className="text-muted">× {count}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-muted">
+              Bar {plateSettings.bar_weight} {plateUnit} · total{" "}
+              {load.total} {plateUnit}
+              {plateUnit !== unit &&
+                ` (${toDisplayWeight(loadedKg, unit)} ${unit})`}
+            </p>
+            {!load.exact && (
+              <p className="text-xs text-warning">
+                {load.target} {plateUnit} can't be loaded with your plates —
+                this is the closest load under it.
+              </p>
+            )}
+          </div>
+        )}
+
+        <p className="text-xs text-muted">
+          Change your bar and plates in{" "}
+          <button
+            onClick={() => {
+              onClose();
+              navigate("/settings");
+            }}
+            className="text-accent hover:underline"
+          >
+            Settings
+          </button>
+          .
+        </p>
+
+        <div className="flex gap-2 justify-end pt-2">
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+          {onApply && !belowBar && !load.exact && (
+            <Button
+              onClick={() => {
+                onApply(loadedKg);
+                onClose();
+              }}
+            >
+              Use {toDisplayWeight(loadedKg, unit)} {unit}
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,233 @@
+/**
+ * PlateSettingsCard
+ *
+ * Settings card for the bar, the plate inventory and how generated weights
+ * are rounded. Edits are kept as a draft until saved so a half-typed plate
+ * list never reaches the calculator.
+ */
+
+import { useState } from "react";
+import { Card, Button } from "@/components/ui/Layout";
+import { useUnits } from "@/contexts/useUnits";
+import { DEFAULT_PLATE_SETTINGS, WEIGHT_ROUNDING } from "@/lib/plates";
+import { WEIGHT_UNITS } from "@/lib/units";
+import type { PlateSettings, WeightRounding, WeightUnit } from "@/types";
+import { Disc3, Minus, Plus, Trash2 } from "lucide-react";
+
+interface PlateSettingsCardProps {
+  onSaved: () => void;
+  onError: (message: string) => void;
+}
+
+export function PlateSettingsCard({ onSaved, onError }: PlateSettingsCardProps) {
+  const { plateSettings, setPlateSettings } = useUnits();
+  const [draft, setDraft] = useState<PlateSettings>(plateSettings);
+  const [newPlate, setNewPlate] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Pick up the server copy when it loads, unless the user is mid-edit
+  const [source, setSource] = useState(plateSettings);
+  if (source !== plateSettings) {
+    setSource(plateSettings);
+    if (draft === source) setDraft(plateSettings);
+  }
+
+  const dirty = draft !== plateSettings;
+
+  function handlePlateUnitChange(next: WeightUnit) {
+    // Plates stamped in the other unit are a different set entirely
+    setDraft({
+      ...DEFAULT_PLATE_SETTINGS[next],
+      weight_rounding: draft.weight_rounding,
+    });
+  }
+
+  function changePairs(weight: number, delta: number) {
+    setDraft({
+      ...draft,
+      plates: draft.plates.map((p) =>
+        p.weight === weight ? { ...p, pairs: Math.max(1, p.pairs + delta) } : p,
+      ),
+    });
+  }
+
+  function removePlate(weight: number) {
+    setDraft({
+      ...draft,
+      plates: draft.plates.filter((p) => p.weight !== weight),
+    });
+  }
+
+  function addPlate() {
+    const weight = Math.round(parseFloat(newPlate) * 100) / 100;
+    if (!(weight > 0)) return;
+    setNewPlate("");
+    if (draft.plates.some((p) => p.weight === weight)) return;
+    setDraft({
+      ...draft,
+      plates: [...draft.plates, { weight, pairs: 1 }].sort(
+        (a, b) => b.weight - a.weight,
+      ),
+    });
+  }
+
+  async function handleSave() {
+    try {
+      setSaving(true);
+      await setPlateSettings(draft);
+      onSaved();
+    } catch (err: unknown) {
+      console.error(err);
+      onError(
+        err instanceof Error ? err.message : "Failed to save plate settings",
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const plateUnit = draft.plate_unit;
+
+  return (
+    <Card className="p-4 sm:p-5">
+      <div className="flex items-center gap-2 mb-1">
+        <Disc3 className="w-5 h-5 text-accent" />
+        <h2 className="text-lg font-semibold text-primary">Bar & plates</h2>
+      </div>
+      <p className="text-secondary text-sm mb-4">
+        Used by the plate calculator on every set, and to round weights your
+        progression rules generate to something you can actually load.
+      </p>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-primary text-sm">Plates are marked in</p>
+          <select
+            value={plateUnit}
+            onChange={(e) => handlePlateUnitChange(e.target.value as WeightUnit)}
+            className="px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm"
+          >
+            {Object.entries(WEIGHT_UNITS).map(([key, name]) => (
+              <option key={key} value={key}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-primary text-sm">Bar weight ({plateUnit})</p>
+          <input
+            type="number"
+            value={draft.bar_weight}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                bar_weight: Math.max(0, parseFloat(e.target.value) || 0),
+              })
+            }
+            min={0}
+            step={plateUnit === "lbs" ? 5 : 2.5}
+            className="w-24 px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm text-right"
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-primary text-sm">Round generated weights</p>
+            <p className="text-muted text-xs">
+              Progression and week intensity; lighter-than-bar weights are
+              left alone
+            </p>
+          </div>
+          <select
+            value={draft.weight_rounding}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                weight_rounding: e.target.value as WeightRounding,
+              })
+            }
+            className="px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm"
+          >
+            {Object.entries(WEIGHT_ROUNDING).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="pt-3 border-t border-primary">
+          <p className="text-primary text-sm mb-2">Plates (pairs)</p>
+          <div className="space-y-1.5">
+            {draft.plates.map((plate) => (
+              <div
+                key={plate.weight}
+                className="flex items-center gap-2 bg-elevated rounded-lg px-3 py-1.5"
+              >
+                <span className="flex-1 text-sm text-primary">
+                  {plate.weight} {plateUnit}
+                </span>
+                <button
+                  onClick={() => changePairs(plate.weight, -1)}
+                  disabled={plate.pairs <= 1}
+                  aria-label={`Fewer ${plate.weight} ${plateUnit} plates`}
+                  className="p-1 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Minus className="w-4 h-4" />
+                </button>
+                <span className="w-6 text-center text-sm text-primary">
+                  {plate.pairs}
+                </span>
+                <button
+                  onClick={() => changePairs(plate.weight, 1)}
+                  aria-label={`More ${plate.weight} ${plateUnit} plates`}
+                  className="p-1 text-muted hover:text-primary transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => removePlate(plate.weight)}
+                  aria-label={`Remove ${plate.weight} ${plateUnit} plates`}
+                  className="p-1 text-danger hover:bg-danger-surface rounded transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-2">
+            <input
+              type="number"
+              value={newPlate}
+              onChange={(e) => setNewPlate(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && addPlate()}
+              placeholder={`Plate weight (${plateUnit})`}
+              min={0}
+              className="flex-1 px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm placeholder-muted"
+            />
+            <Button variant="secondary" onClick={addPlate}>
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {dirty && (
+          <div className="flex gap-2 justify-end">
+            <Button
+              variant="secondary"
+              onClick={() => setDraft(plateSettings)}
+              disabled={saving}
+            >
+              Discard
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving…" : "Save plates"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
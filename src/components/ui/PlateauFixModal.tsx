@@ -0,0 +1,252 @@
+/**
+ * PlateauFixModal
+ *
+ * Applies a fix for a stalled lift to a week template: a one-off deload for
+ * the next week or day generated from it, or a swap to a variation. Only
+ * templates that contain the lift are offered; the current program week's
+ * template is picked first. Callers mount it per flag.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/Layout";
+import { Modal } from "@/components/ui/Form";
+import {
+  getAllDayTemplatesWithWeekNames,
+  reviseWeekTemplate,
+} from "@/lib/weekTemplateService";
+import {
+  findActiveWeekTemplateId,
+  getAllPrograms,
+} from "@/lib/programService";
+import { getExerciseLibrary } from "@/lib/exerciseLibraryService";
+import {
+  DEFAULT_DELOAD_PERCENT,
+  DELOAD_PRESETS,
+  scheduleDeload,
+  swapExercise,
+  variationSuggestions,
+} from "@/lib/plateaus";
+import { cn } from "@/lib/utils";
+import type { PlateauFlag } from "@/types";
+import { Loader2 } from "lucide-react";
+
+type Fix = "deload" | "swap";
+
+interface TemplateOption {
+  id: string;
+  name: string;
+  active: boolean;
+}
+
+interface PlateauFixModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  flag: PlateauFlag;
+  /** Called with a confirmation message once the template is saved */
+  onApplied: (message: string) => void;
+}
+
+export function PlateauFixModal({
+  isOpen,
+  onClose,
+  flag,
+  onApplied,
+}: PlateauFixModalProps) {
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [fix, setFix] = useState<Fix>("deload");
+  const [percent, setPercent] = useState(DEFAULT_DELOAD_PERCENT);
+  const [variation, setVariation] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    const name = flag.exerciseName.toLowerCase();
+
+    Promise.all([
+      getAllDayTemplatesWithWeekNames(),
+      getAllPrograms(),
+      getExerciseLibrary(),
+    ])
+      .then(([days, programs, library]) => {
+        if (cancelled) return;
+        const activeId = findActiveWeekTemplateId(programs);
+        const options = new Map<string, TemplateOption>();
+        for (const day of days) {
+          if (!day.exercises.some((ex) => ex.name.toLowerCase() === name)) {
+            continue;
+          }
+          options.set(day.weekTemplateId, {
+            id: day.weekTemplateId,
+            name: day.weekTemplateName,
+            active: day.weekTemplateId === activeId,
+          });
+        }
+        const sorted = [...options.values()].sort(
+          (a, b) => Number(b.active) - Number(a.active),
+        );
+        setTemplates(sorted);
+        setTemplateId(sorted[0]?.id ?? "");
+        setSuggestions(variationSuggestions(flag.exerciseName, library));
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.error("[PlateauFixModal] load error:", err);
+        setError(err instanceof Error ? err.message : "Failed to load plans");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [flag.exerciseName]);
+
+  async function handleApply() {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template) return;
+    if (fix === "swap" && !variation.trim()) return;
+
+    try {
+      setBusy(true);
+      setError("");
+      await reviseWeekTemplate(template.id, (days) =>
+        fix === "deload"
+          ? scheduleDeload(days, flag.exerciseName, percent)
+          : swapExercise(days, flag.exerciseName, variation),
+      );
+      onApplied(
+        fix === "deload"
+          ? `${flag.exerciseName} will be ${percent}% lighter the next time "${template.name}" is generated`
+          : `${flag.exerciseName} swapped for ${variation.trim()} in "${template.name}"`,
+      );
+    } catch (err: unknown) {
+      console.error("[PlateauFixModal] apply error:", err);
+      setError(err instanceof Error ? err.message : "Failed to update plan");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Fix ${flag.exerciseName}`}>
+      <div className="space-y-4">
+        {error && (
+          <p className="text-danger text-xs bg-danger-surface rounded-lg px-3 py-2">
+            {error}
+          </p>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 text-muted animate-spin" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-secondary">
+            None of your weekly plans include {flag.exerciseName}. Add it to a
+            plan under Templates → Weekly to apply a deload or swap.
+          </p>
+        ) : (
+          <>
+            <div>
+              <label className="text-xs sm:text-sm font-medium text-secondary block mb-1.5">
+                Weekly plan
+              </label>
+              <select
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm"
+              >
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                    {t.active ? " (this program week)" : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex rounded-lg bg-elevated p-0.5 text-sm">
+              {(
+                [
+                  ["deload", "Deload"],
+                  ["swap", "Swap variation"],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setFix(value)}
+                  className={cn(
+                    "flex-1 px-3 py-1.5 rounded-md transition-colors",
+                    fix === value
+                      ? "bg-accent-primary text-primary font-semibold"
+                      : "text-secondary hover:text-primary",
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {fix === "deload" ? (
+              <div className="space-y-2">
+                <p className="text-sm text-secondary">
+                  The next week or day generated from this plan prescribes{" "}
+                  {flag.exerciseName} lighter, then goes back to normal.
+                </p>
+                <div className="flex gap-2">
+                  {DELOAD_PRESETS.map((p) => (
+                    <button
+                      key={p}
+                      onClick={() => setPercent(p)}
+                      className={cn(
+                        "flex-1 py-1.5 rounded-lg text-sm transition-colors",
+                        percent === p
+                          ? "bg-accent-primary text-primary font-semibold"
+                          : "bg-elevated text-secondary hover:bg-card",
+                      )}
+                    >
+                      −{p}%
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm text-secondary">
+                  Replaces {flag.exerciseName} everywhere in this plan, keeping
+                  its sets. Its progression rule is removed.
+                </p>
+                <input
+                  type="text"
+                  value={variation}
+                  onChange={(e) => setVariation(e.target.value)}
+                  placeholder="e.g. Paused Bench Press"
+                  list="plateau-variations"
+                  className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm placeholder-muted"
+                />
+                <datalist id="plateau-variations">
+                  {suggestions.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+            )}
+
+            <Button
+              onClick={handleApply}
+              disabled={busy || (fix === "swap" && !variation.trim())}
+              className="w-full"
+            >
+              {busy ? "Applying…" : "Apply to plan"}
+            </Button>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * ProgressionRuleEditor
+ *
+ * Compact per-exercise controls for a template's progression rule, shown by
+ * DayEditorPanel when editing week templates. Increment is kg in the rule and
+ * shown in the user's unit.
+ */
+
+import { useUnits } from "@/contexts/useUnits";
+import { WEIGHT_STEP } from "@/lib/units";
+import { DEFAULT_PROGRESSION, PROGRESSION_TYPES } from "@/lib/progression";
+import type { ProgressionRule, ProgressionType } from "@/types";
+
+interface ProgressionRuleEditorProps {
+  rule: ProgressionRule | null;
+  onChange: (rule: ProgressionRule | null) => void;
+  /** Used for input labels */
+  exerciseLabel: string;
+}
+
+const inputClass =
+  "w-14 px-1.5 py-1 rounded bg-elevated border border-primary text-primary text-xs focus:outline-none focus:ring-1 focus:ring-(--border-focus)";
+
+export function ProgressionRuleEditor({
+  rule,
+  onChange,
+  exerciseLabel,
+}: ProgressionRuleEditorProps) {
+  const { unit, toDisplay, fromDisplay } = useUnits();
+
+  function update(changes: Partial<ProgressionRule>) {
+    if (rule) onChange({ ...rule, ...changes });
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap text-xs text-muted mb-2">
+      <select
+        value={rule?.type ?? ""}
+        onChange={(e) =>
+          onChange(
+            e.target.value
+              ? DEFAULT_PROGRESSION[e.target.value as ProgressionType]
+              : null,
+          )
+        }
+        aria-label={`${exerciseLabel} progression`}
+        className="px-2 py-1 rounded bg-elevated border border-primary text-primary text-xs focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+      >
+        <option value="">No progression</option>
+        {Object.entries(PROGRESSION_TYPES).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {rule && (
+        <>
+          <label className="flex items-center gap-1">
+            +
+            <input
+              type="number"
+              value={toDisplay(rule.increment) || ""}
+              onChange={(e) =>
+                update({
+                  increment: fromDisplay(
+                    Math.max(0, parseFloat(e.target.value) || 0),
+                  ),
+                })
+              }
+              min={0}
+              step={WEIGHT_STEP[unit]}
+              aria-label={`${exerciseLabel} increment`}
+              className={inputClass}
+            />
+            {unit}
+          </label>
+
+          {rule.type === "double" && (
+            <label className="flex items-center gap-1">
+              <input
+                type="number"
+                value={rule.min_reps || ""}
+                onChange={(e) =>
+                  update({
+                    min_reps: Math.max(1, parseInt(e.target.value) || 1),
+                  })
+                }
+                min={1}
+                aria-label={`${exerciseLabel} minimum reps`}
+                className={inputClass}
+              />
+              –
+              <input
+                type="number"
+                value={rule.max_reps || ""}
+                onChange={(e) =>
+                  update({
+                    max_reps: Math.max(1, parseInt(e.target.value) || 1),
+                  })
+                }
+                min={rule.min_reps}
+                aria-label={`${exerciseLabel} maximum reps`}
+                className={inputClass}
+              />
+              reps
+            </label>
+          )}
+
+          <label className="flex items-center gap-1">
+            deload −
+            <input
+              type="number"
+              value={rule.deload_percent || ""}
+              onChange={(e) =>
+                update({
+                  deload_percent: Math.min(
+                    50,
+                    Math.max(0, parseInt(e.target.value) || 0),
+                  ),
+                })
+              }
+              min={0}
+              max={50}
+              aria-label={`${exerciseLabel} deload percent`}
+              className={inputClass}
+            />
+            % after
+            <input
+              type="number"
+              value={rule.deload_after}
+              onChange={(e) =>
+                update({
+                  deload_after: Math.max(0, parseInt(e.target.value) || 0),
+                })
+              }
+              min={0}
+              aria-label={`${exerciseLabel} misses before deload`}
+              className={inputClass}
+            />
+            misses
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from "react";
+import { Timer } from "lucide-react";
+import { formatDuration } from "@/lib/restTimer";
+
+interface RestTimerProps {
+  /** Epoch ms when the rest is over */
+  endsAt: number;
+  totalSeconds: number;
+  /** Shown under the countdown, e.g. the next set */
+  nextLabel?: string;
+  onAdjust: (deltaSeconds: number) => void;
+  onSkip: () => void;
+  /** Called once when the countdown reaches zero */
+  onFinish: () => void;
+}
+
+/**
+ * Bottom bar counting down the rest between sets in a live session.
+ * Remaining time is derived from endsAt on every tick rather than decremented,
+ * so a throttled background tab catches up as soon as it wakes.
+ */
+export function RestTimer({
+  endsAt,
+  totalSeconds,
+  nextLabel,
+  onAdjust,
+  onSkip,
+  onFinish,
+}: RestTimerProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const finishedFor = useRef<number | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = Math.max(0, (endsAt - now) / 1000);
+
+  useEffect(() => {
+    if (remaining > 0 || finishedFor.current === endsAt) return;
+    finishedFor.current = endsAt;
+    onFinish();
+  }, [remaining, endsAt, onFinish]);
+
+  const pct = totalSeconds > 0 ? (remaining / totalSeconds) * 100 : 0;
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-30 bg-floating border-t border-primary shadow-lg">
+      <div
+        className="h-1 bg-accent-primary transition-[width] duration-300"
+        style={{ width: `${Math.min(pct, 100)}%` }}
+      />
+      <div className="container mx-auto px-3 sm:px-4 py-3 flex items-center gap-3">
+        <Timer className="w-5 h-5 text-accent shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-primary text-2xl font-bold tabular-nums leading-none">
+            {formatDuration(Math.ceil(remaining))}
+          </p>
+          {nextLabel && (
+            <p className="text-muted text-xs mt-1 truncate">Next: {nextLabel}</p>
+          )}
+        </div>
+        <button
+          onClick={() => onAdjust(-15)}
+          className="px-2 py-1.5 bg-elevated text-primary text-sm rounded-lg transition-colors"
+        >
+          −15s
+        </button>
+        <button
+          onClick={() => onAdjust(15)}
+          className="px-2 py-1.5 bg-elevated text-primary text-sm rounded-lg transition-colors"
+        >
+          +15s
+        </button>
+        <button
+          onClick={onSkip}
+          className="px-3 py-1.5 bg-accent-primary hover:bg-accent text-primary text-sm rounded-lg transition-colors"
+        >
+          Skip
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * ShareLinkModal
+ *
+ * Creates, shows and removes the public link for one workout, library day or
+ * week template. Anyone with the link sees a read-only copy and can clone it
+ * into their own account — see lib/shareService. Callers mount it per item.
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/Layout";
+import { Modal } from "@/components/ui/Form";
+import {
+  SHARE_KINDS,
+  createShareLink,
+  deleteShareLink,
+  getShareLink,
+  shareUrl,
+} from "@/lib/shareService";
+import type { ShareKind, ShareLink } from "@/types";
+import { Check, Copy, Link2, Loader2 } from "lucide-react";
+
+interface ShareLinkModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  kind: ShareKind;
+  targetId: string;
+  name: string;
+}
+
+export function ShareLinkModal({
+  isOpen,
+  onClose,
+  kind,
+  targetId,
+  name,
+}: ShareLinkModalProps) {
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    getShareLink(kind, targetId)
+      .then((existing) => {
+        if (!cancelled) setLink(existing);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.error("[ShareLinkModal] getShareLink error:", err);
+        setError(err instanceof Error ? err.message : "Failed to load link");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, targetId]);
+
+  async function handleCreate() {
+    try {
+      setBusy(true);
+      setError("");
+      setLink(await createShareLink(kind, targetId));
+    } catch (err: unknown) {
+      console.error("[ShareLinkModal] create error:", err);
+      setError(err instanceof Error ? err.message : "Failed to create link");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleStop() {
+    if (!link) return;
+    try {
+      setBusy(true);
+      setError("");
+      await deleteShareLink(link.id);
+      setLink(null);
+      setCopied(false);
+    } catch (err: unknown) {
+      console.error("[ShareLinkModal] delete error:", err);
+      setError(err instanceof Error ? err.message : "Failed to remove link");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl(link.token));
+      setCopied(true);
+    } catch {
+      // Clipboard blocked (e.g. insecure context) — the URL is selectable
+      setError("Couldn't copy — select the link and copy it instead");
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Share ${SHARE_KINDS[kind].toLowerCase()}`}
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-secondary">
+          Anyone with the link can view{" "}
+          <span className="text-primary font-medium">{name}</span> without
+          logging in, and copy it into their own account. Your other workouts
+          and history stay private.
+        </p>
+
+        {error && (
+          <p className="text-danger text-xs bg-danger-surface rounded-lg px-3 py-2">
+            {error}
+          </p>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 text-muted animate-spin" />
+          </div>
+        ) : link ? (
+          <>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={shareUrl(link.token)}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm"
+              />
+              <Button onClick={handleCopy} aria-label="Copy link">
+                {copied ? (
+                  <Check className="w-4 h-4" />
+                ) : (
+                  <Copy className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+            <div className="flex justify-between items-center">
+              <p className="text-xs text-muted">
+                Stopping sharing breaks the link for everyone.
+              </p>
+              <Button variant="danger" onClick={handleStop} disabled={busy}>
+                Stop sharing
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleCreate} disabled={busy} className="w-full">
+            <span className="inline-flex items-center gap-2">
+              <Link2 className="w-4 h-4" />
+              {busy ? "Creating…" : "Create link"}
+            </span>
+          </Button>
+        )}
+      </div>
+    </Modal>
+  );
+}
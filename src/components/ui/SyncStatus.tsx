@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { AlertTriangle, CloudOff, RefreshCw } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { PendingMutation } from "@/types";
+import { useSync } from "@/contexts/useSync";
+
+function describeMutation(m: PendingMutation): string {
+  switch (m.kind) {
+    case "workout.create":
+      return `New workout · ${format(parseISO(m.payload.date), "EEE, MMM d")}`;
+    case "workout.saveExercises":
+      return `Workout edit · ${m.payload.length} exercise${m.payload.length === 1 ? "" : "s"}`;
+    case "set.update":
+      return "Set edit";
+    case "workout.updateSession":
+      if (m.payload.ended_at) return "Session finished";
+      return m.payload.started_at ? "Session started" : "Session check-in";
+  }
+}
+
+/**
+ * Global offline-sync indicator. Shows how many changes are waiting on this
+ * device and lets the user resolve conflicts the replay could not settle.
+ */
+export function SyncStatus() {
+  const { mutations, online, syncing, syncNow, discard, keepMine } = useSync();
+  const [expanded, setExpanded] = useState(false);
+
+  const problems = mutations.filter((m) => m.status !== "pending");
+  const waiting = mutations.length - problems.length;
+
+  if (online && mutations.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 max-w-[calc(100vw-2rem)] sm:max-w-sm">
+      <div className="bg-floating border border-primary rounded-lg shadow-lg text-sm">
+        <button
+          onClick={() => setExpanded((v) => !v)}
+          className="w-full flex items-center gap-2 px-3 py-2 text-left"
+        >
+          {problems.length > 0 ? (
+            <AlertTriangle className="w-4 h-4 text-warning shrink-0" />
+          ) : syncing ? (
+            <RefreshCw className="w-4 h-4 text-accent animate-spin shrink-0" />
+          ) : (
+            <CloudOff className="w-4 h-4 text-muted shrink-0" />
+          )}
+          <span className="text-primary">
+            {!online && mutations.length === 0
+              ? "Offline"
+              : problems.length > 0
+                ? `${problems.length} change${problems.length === 1 ? "" : "s"} need${problems.length === 1 ? "s" : ""} attention`
+                : `${waiting} change${waiting === 1 ? "" : "s"} waiting to sync`}
+          </span>
+        </button>
+
+        {expanded && mutations.length > 0 && (
+          <div className="border-t border-primary px-3 py-2 space-y-2">
+            {mutations.map((m) => (
+              <div key={m.seq}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-secondary truncate">
+                    {describeMutation(m)}
+                  </span>
+                  {m.status === "pending" && (
+                    <span className="text-xs text-muted shrink-0">Pending</span>
+                  )}
+                </div>
+                {m.status !== "pending" && (
+                  <>
+                    <p className="text-xs text-warning mt-0.5">{m.error}</p>
+                    <div className="flex gap-2 mt-1">
+                      <button
+                        onClick={() => keepMine(m.seq)}
+                        className="px-2 py-1 bg-accent-primary hover:bg-accent text-primary text-xs rounded transition-colors"
+                      >
+                        {m.status === "conflict" ? "Keep mine" : "Retry"}
+                      </button>
+                      <button
+                        onClick={() => discard(m.seq)}
+                        className="px-2 py-1 bg-elevated text-primary text-xs rounded transition-colors"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+            {online && waiting > 0 && (
+              <button
+                onClick={syncNow}
+                disabled={syncing}
+                className="text-xs text-accent hover:underline disabled:opacity-50"
+              >
+                {syncing ? "Syncing…" : "Sync now"}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
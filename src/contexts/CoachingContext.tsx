@@ -0,0 +1,65 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { CoachLink, UserRole } from "@/types";
+import { getCoachLinks } from "@/lib/coachService";
+import { getUserSettings, updateRole } from "@/lib/settingsService";
+import { CoachingContext } from "@/contexts/useCoaching";
+
+export function CoachingProvider({
+  userId,
+  children,
+}: {
+  userId: string | null;
+  children: React.ReactNode;
+}) {
+  const [role, setRoleState] = useState<UserRole>("athlete");
+  const [links, setLinks] = useState<CoachLink[]>([]);
+  const [viewedAthleteId, setViewedAthleteId] = useState<string | null>(null);
+
+  const refreshLinks = useCallback(async () => {
+    setLinks(await getCoachLinks());
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+    getUserSettings()
+      .then((settings) => setRoleState(settings.role))
+      .catch((err) => console.error("[CoachingContext] load error:", err));
+    getCoachLinks()
+      .then(setLinks)
+      .catch((err) => console.error("[CoachingContext] links error:", err));
+  }, [userId]);
+
+  const setRole = useCallback(async (next: UserRole) => {
+    const settings = await updateRole(next);
+    setRoleState(settings.role);
+    if (settings.role !== "coach") setViewedAthleteId(null);
+  }, []);
+
+  const value = useMemo(() => {
+    const athletes = links.filter(
+      (l) => l.coach_id === userId && l.athlete_id !== null,
+    );
+    return {
+      role,
+      setRole,
+      athletes,
+      pendingInvites: links.filter(
+        (l) => l.coach_id === userId && l.athlete_id === null,
+      ),
+      coaches: links.filter((l) => l.athlete_id === userId),
+      refreshLinks,
+      // Falls back to the user's own data once a link is removed
+      viewedAthlete:
+        (role === "coach" &&
+          athletes.find((l) => l.athlete_id === viewedAthleteId)) ||
+        null,
+      setViewedAthleteId,
+    };
+  }, [role, setRole, links, userId, refreshLinks, viewedAthleteId]);
+
+  return (
+    <CoachingContext.Provider value={value}>
+      {children}
+    </CoachingContext.Provider>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useCallback, useEffect, useState } from "react";
+import type { PendingMutation } from "@/types";
+import {
+  discardMutation,
+  flushQueue,
+  getPendingMutations,
+  isOffline,
+  overwriteMutation,
+  subscribeToQueue,
+} from "@/lib/offlineQueue";
+import { SyncContext } from "@/contexts/useSync";
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const [mutations, setMutations] = useState<PendingMutation[]>([]);
+  const [online, setOnline] = useState(() => !isOffline());
+  const [syncing, setSyncing] = useState(false);
+  const [syncVersion, setSyncVersion] = useState(0);
+
+  const syncNow = useCallback(async () => {
+    if (isOffline()) return;
+    setSyncing(true);
+    try {
+      const result = await flushQueue();
+      if (result.replayed > 0) setSyncVersion((v) => v + 1);
+    } catch (err) {
+      console.error("[SyncContext] flush error:", err);
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  // Mirror the queue and replay it whenever we come back online or to the foreground
+  useEffect(() => {
+    const refresh = () => {
+      getPendingMutations().then(setMutations);
+    };
+    const handleOnline = () => {
+      setOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setOnline(false);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") syncNow();
+    };
+
+    const unsubscribe = subscribeToQueue(refresh);
+    refresh();
+    syncNow();
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [syncNow]);
+
+  const isWorkoutPending = useCallback(
+    (workoutId: string) => mutations.some((m) => m.workoutId === workoutId),
+    [mutations],
+  );
+
+  const discard = async (seq: number) => {
+    await discardMutation(seq);
+    // The dropped change may have been hiding server data
+    setSyncVersion((v) => v + 1);
+    await syncNow();
+  };
+
+  const keepMine = async (seq: number) => {
+    await overwriteMutation(seq);
+    await syncNow();
+  };
+
+  return (
+    <SyncContext.Provider
+      value={{
+        mutations,
+        online,
+        syncing,
+        syncVersion,
+        isWorkoutPending,
+        syncNow,
+        discard,
+        keepMine,
+      }}
+    >
+      {children}
+    </SyncContext.Provider>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { PlateSettings, UserSettings, WeightUnit } from "@/types";
+import {
+  formatWeight,
+  fromDisplayWeight,
+  getStoredWeightUnit,
+  setStoredWeightUnit,
+  toDisplayWeight,
+} from "@/lib/units";
+import { getStoredPlateSettings, setStoredPlateSettings } from "@/lib/plates";
+import {
+  convertLegacyWeightsFromLbs,
+  getUserSettings,
+  updatePlateSettings,
+  updateWeightUnit,
+} from "@/lib/settingsService";
+import { UnitsContext } from "@/contexts/useUnits";
+
+export function UnitsProvider({
+  userId,
+  children,
+}: {
+  userId: string | null;
+  children: React.ReactNode;
+}) {
+  const [unit, setUnitState] = useState<WeightUnit>(() =>
+    getStoredWeightUnit(),
+  );
+  const [weightsConvertedAt, setWeightsConvertedAt] = useState<string | null>(
+    null,
+  );
+  const [legacyWeightsBefore, setLegacyWeightsBefore] = useState<
+    string | null
+  >(null);
+  const [plateSettings, setPlateSettingsState] = useState<PlateSettings>(() =>
+    getStoredPlateSettings(getStoredWeightUnit()),
+  );
+
+  const applySettings = useCallback((settings: UserSettings) => {
+    setUnitState(settings.weight_unit);
+    setStoredWeightUnit(settings.weight_unit);
+    setWeightsConvertedAt(settings.weights_converted_at);
+    setLegacyWeightsBefore(settings.legacy_weights_before);
+    const plates: PlateSettings = {
+      plate_unit: settings.plate_unit,
+      bar_weight: Number(settings.bar_weight),
+      plates: settings.plates,
+      weight_rounding: settings.weight_rounding,
+    };
+    setPlateSettingsState(plates);
+    setStoredPlateSettings(plates);
+  }, []);
+
+  // The cached unit covers offline starts; the server row wins once it loads
+  useEffect(() => {
+    if (!userId) return;
+    getUserSettings()
+      .then(applySettings)
+      .catch((err) => console.error("[UnitsContext] load error:", err));
+  }, [userId, applySettings]);
+
+  const setUnit = useCallback(
+    async (next: WeightUnit) => {
+      setUnitState(next);
+      setStoredWeightUnit(next);
+      applySettings(await updateWeightUnit(next));
+    },
+    [applySettings],
+  );
+
+  const setPlateSettings = useCallback(
+    async (next: PlateSettings) => {
+      setPlateSettingsState(next);
+      setStoredPlateSettings(next);
+      applySettings(await updatePlateSettings(next));
+    },
+    [applySettings],
+  );
+
+  const convertLegacyWeights = useCallback(async () => {
+    applySettings(await convertLegacyWeightsFromLbs());
+  }, [applySettings]);
+
+  const value = useMemo(
+    () => ({
+      unit,
+      setUnit,
+      weightsConvertedAt,
+      legacyWeightsBefore,
+      convertLegacyWeights,
+      toDisplay: (kg: number) => toDisplayWeight(kg, unit),
+      fromDisplay: (v: number) => fromDisplayWeight(v, unit),
+      formatWeight: (kg: number) => formatWeight(kg, unit),
+      plateSettings,
+      setPlateSettings,
+    }),
+    [
+      unit,
+      setUnit,
+      weightsConvertedAt,
+      legacyWeightsBefore,
+      convertLegacyWeights,
+      plateSettings,
+      setPlateSettings,
+    ],
+  );
+
+  return (
+    <UnitsContext.Provider value={value}>{children}</UnitsContext.Provider>
+  );
+}
@@ -0,0 +1,31 @@
+// Kept apart from CoachingContext.tsx so that file only exports components (fast refresh)
+import { createContext, useContext } from "react";
+import type { CoachLink, UserRole } from "@/types";
+
+export interface CoachingContextType {
+  role: UserRole;
+  setRole: (role: UserRole) => Promise<void>;
+  /** Accepted links where the current user is the coach */
+  athletes: CoachLink[];
+  /** Invites the current user created that nobody has accepted yet */
+  pendingInvites: CoachLink[];
+  /** Accepted links where the current user is the athlete */
+  coaches: CoachLink[];
+  /** Re-read the links after creating, accepting or removing one */
+  refreshLinks: () => Promise<void>;
+  /** The athlete a coach is looking at, or null for their own data */
+  viewedAthlete: CoachLink | null;
+  setViewedAthleteId: (athleteId: string | null) => void;
+}
+
+export const CoachingContext = createContext<CoachingContextType | undefined>(
+  undefined,
+);
+
+export function useCoaching() {
+  const context = useContext(CoachingContext);
+  if (!context) {
+    throw new Error("useCoaching must be used within a CoachingProvider");
+  }
+  return context;
+}
@@ -0,0 +1,26 @@
+// Kept apart from SyncContext.tsx so that file only exports components (fast refresh)
+import { createContext, useContext } from "react";
+import type { PendingMutation } from "@/types";
+
+export interface SyncContextType {
+  /** Everything still waiting in the offline queue, in replay order */
+  mutations: PendingMutation[];
+  online: boolean;
+  syncing: boolean;
+  /** Bumped after each flush that reached the server — use as an effect dep to refetch */
+  syncVersion: number;
+  isWorkoutPending: (workoutId: string) => boolean;
+  syncNow: () => Promise<void>;
+  discard: (seq: number) => Promise<void>;
+  keepMine: (seq: number) => Promise<void>;
+}
+
+export const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error("useSync must be used within a SyncProvider");
+  }
+  return context;
+}
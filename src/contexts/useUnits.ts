@@ -0,0 +1,34 @@
+// Kept apart from UnitsContext.tsx so that file only exports components (fast refresh)
+import { createContext, useContext } from "react";
+import type { PlateSettings, WeightUnit } from "@/types";
+
+export interface UnitsContextType {
+  unit: WeightUnit;
+  setUnit: (unit: WeightUnit) => Promise<void>;
+  /** When the one-time lbs → kg conversion ran, or null if it never has */
+  weightsConvertedAt: string | null;
+  /** Cutoff for the conversion, or null if the account never logged in lbs */
+  legacyWeightsBefore: string | null;
+  convertLegacyWeights: () => Promise<void>;
+  /** Stored kg → number in the user's unit */
+  toDisplay: (kg: number) => number;
+  /** Number typed in the user's unit → kg */
+  fromDisplay: (value: number) => number;
+  /** e.g. "225 lbs" */
+  formatWeight: (kg: number) => string;
+  /** Bar, plate inventory and rounding mode — weights in plate_unit */
+  plateSettings: PlateSettings;
+  setPlateSettings: (settings: PlateSettings) => Promise<void>;
+}
+
+export const UnitsContext = createContext<UnitsContextType | undefined>(
+  undefined,
+);
+
+export function useUnits() {
+  const context = useContext(UnitsContext);
+  if (!context) {
+    throw new Error("useUnits must be used within a UnitsProvider");
+  }
+  return context;
+}
@@ -8,12 +8,24 @@
 
 import { supabase } from "@/lib/supabase";
 import * as analyticsService from "./analyticsService";
+import { getStoredOneRepMaxFormula } from "@/lib/oneRepMax";
+import { countsTowardStats } from "@/lib/setTypes";
 import type {
+  CardioDataPoint,
   ChartDataPoint,
+  E1RMDataPoint,
   ExerciseComparison,
+  ExerciseGoal,
+  FatigueSummary,
+  GoalProgress,
+  LastExerciseSession,
+  LastSessionScope,
   PersonalRecord,
+  PRType,
+  SetType,
   WeeklyVolumeSummary,
   WeekComparison,
+  WorkoutWithExercises,
 } from "@/types";
 import { format, parseISO, getISOWeek } from "date-fns";
 
@@ -41,6 +53,24 @@ export async function getMaxWeightOverTime(
   return analyticsService.getMaxWeightOverTime(userId, exerciseName);
 }
 
+export async function getE1RMOverTime(
+  exerciseName: string,
+): Promise<E1RMDataPoint[]> {
+  const userId = await requireUserId();
+  return analyticsService.getE1RMOverTime(
+    userId,
+    exerciseName,
+    getStoredOneRepMaxFormula(),
+  );
+}
+
+export async function getCardioOverTime(
+  exerciseName: string,
+): Promise<CardioDataPoint[]> {
+  const userId = await requireUserId();
+  return analyticsService.getCardioOverTime(userId, exerciseName);
+}
+
 export async function getWeeklyVolumes(
   weeksCount?: number,
 ): Promise<WeeklyVolumeSummary[]> {
@@ -57,6 +87,11 @@ export async function getWeekComparison(): Promise<WeekComparison | null> {
   return analyticsService.getWeekComparison(userId);
 }
 
+export async function getFatigueSummary(): Promise<FatigueSummary> {
+  const userId = await requireUserId();
+  return analyticsService.getFatigueSummary(userId);
+}
+
 // ─── PRs from personal_records table (tracking history) ───────────────────────
 
 export async function getAllPRs(): Promise<PersonalRecord[]> {
@@ -64,7 +99,9 @@ export async function getAllPRs(): Promise<PersonalRecord[]> {
 
   const { data, error } = await supabase
     .from("personal_records")
-    .select("id, user_id, exercise_name, weight, reps, date, created_at")
+    .select(
+      "id, user_id, exercise_id, weight, reps, date, created_at, ...exercises (exercise_name:name)",
+    )
     .eq("user_id", userId)
     .order("date", { ascending: false });
 
@@ -80,9 +117,16 @@ export async function getAllPRs(): Promise<PersonalRecord[]> {
 export async function detectPR(
   exerciseName: string,
   weight: number,
-): Promise<boolean> {
+  reps: number,
+  setType: SetType = "working",
+): Promise<PRType[]> {
   const userId = await requireUserId();
-  return analyticsService.detectPR(userId, exerciseName, weight);
+  return analyticsService.detectPR(
+    userId,
+    exerciseName,
+    { weight, reps, set_type: setType },
+    getStoredOneRepMaxFormula(),
+  );
 }
 
 export async function savePR(
@@ -93,18 +137,28 @@ export async function savePR(
 ): Promise<PersonalRecord> {
   const userId = await requireUserId();
 
+  const { data: exerciseId, error: lookupError } = await supabase.rpc(
+    "find_or_create_exercise",
+    { p_name: exerciseName },
+  );
+
+  if (lookupError) {
+    console.error("[analytics] savePR lookup error:", lookupError.message);
+    throw lookupError;
+  }
+
   const { data, error } = await supabase
     .from("personal_records")
     .insert([
       {
         user_id: userId,
-        exercise_name: exerciseName,
+        exercise_id: exerciseId,
         weight,
         reps,
         date,
       },
     ])
-    .select()
+    .select("*, ...exercises (exercise_name:name)")
     .single();
 
   if (error) {
@@ -114,6 +168,101 @@ export async function savePR(
   return data as PersonalRecord;
 }
 
+/**
+ * Check a saved workout's sets for PRs in logged order and record each one,
+ * so later sets (and later workouts) compare against it. Timed and distance
+ * sets carry no weight and are skipped. Returns how many PRs were recorded;
+ * failures are logged rather than failing the save that called this.
+ */
+export async function recordWorkoutPRs(
+  date: string,
+  exercises: {
+    name: string;
+    sets: { weight: number; reps: number; set_type?: SetType }[];
+  }[],
+): Promise<number> {
+  let recorded = 0;
+  try {
+    for (const ex of exercises) {
+      for (const set of ex.sets) {
+        if (set.weight <= 0 || set.reps <= 0) continue;
+        const types = await detectPR(
+          ex.name,
+          set.weight,
+          set.reps,
+          set.set_type,
+        );
+        if (types.length === 0) continue;
+        await savePR(ex.name, set.weight, set.reps, date);
+        recorded++;
+      }
+    }
+  } catch (err) {
+    console.error("[analytics] recordWorkoutPRs error:", err);
+  }
+  return recorded;
+}
+
+/** PR badges for a workout's sets — see analyticsService.getWorkoutPRs */
+export async function getWorkoutPRs(
+  workout: WorkoutWithExercises,
+): Promise<Map<string, PRType[]>> {
+  return analyticsService.getWorkoutPRs(
+    workout.user_id,
+    workout.date,
+    workout.workout_exercises.map((we) => ({
+      id: we.id,
+      exercise_id: we.exercise_id,
+      sets: we.sets ?? [],
+    })),
+    getStoredOneRepMaxFormula(),
+  );
+}
+
+// ─── Goal Progress & Achievements ─────────────────────────────────────────────
+
+/**
+ * Progress for each goal. Goals reaching their target for the first time get
+ * achieved_at stamped; the returned goals carry the new timestamps.
+ */
+export async function getGoalProgress(
+  goals: ExerciseGoal[],
+): Promise<{ goals: ExerciseGoal[]; progress: GoalProgress[] }> {
+  const userId = await requireUserId();
+  const progress = await analyticsService.getGoalProgress(
+    userId,
+    goals,
+    getStoredOneRepMaxFormula(),
+  );
+
+  const newlyAchieved = new Set(
+    progress
+      .filter((p) => p.achieved)
+      .map((p) => p.goalId)
+      .filter((id) => !goals.find((g) => g.id === id)?.achieved_at),
+  );
+  if (newlyAchieved.size === 0) return { goals, progress };
+
+  const achievedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from("exercise_goals")
+    .update({ achieved_at: achievedAt })
+    .in("id", [...newlyAchieved])
+    .is("achieved_at", null);
+
+  if (error) {
+    console.error("[analytics] mark goals achieved error:", error.message);
+    throw error;
+  }
+
+  return {
+    goals: goals.map((g) =>
+      newlyAchieved.has(g.id) ? { ...g, achieved_at: achievedAt } : g,
+    ),
+    progress,
+  };
+}
+
 // ─── Exercise Progress Comparison ─────────────────────────────────────────────
 
 export async function getExerciseComparison(
@@ -132,7 +281,7 @@ export async function getExerciseComparison(
       title,
       workout_exercises!inner (
         exercise:exercises!inner ( name ),
-        sets ( reps, weight )
+        sets ( reps, weight, set_type )
       )
     `,
     )
@@ -151,7 +300,7 @@ export async function getExerciseComparison(
   for (const workout of data ?? []) {
     const workoutExercises = (workout.workout_exercises ?? []) as Array<{
       exercise: { name: string } | { name: string }[];
-      sets: Array<{ reps: number; weight: number }> | null;
+      sets: Array<{ reps: number; weight: number; set_type: SetType }> | null;
     }>;
 
     for (const we of workoutExercises) {
@@ -161,7 +310,7 @@ export async function getExerciseComparison(
       if (!exerciseObj || exerciseObj.name.toLowerCase() !== normalised)
         continue;
 
-      const sets = we.sets ?? [];
+      const sets = (we.sets ?? []).filter(countsTowardStats);
       if (sets.length === 0) continue;
 
       const prevMaxWeight = Math.max(...sets.map((s) => s.weight), 0);
@@ -197,3 +346,12 @@ export async function getLastUsedWeight(
   const userId = await requireUserId();
   return analyticsService.getLastUsedWeight(userId, exerciseName);
 }
+
+/** Last logged session per exercise, keyed by lowercase name */
+export async function getLastExerciseSessions(
+  exerciseNames: string[],
+  scope?: LastSessionScope,
+): Promise<Map<string, LastExerciseSession>> {
+  const userId = await requireUserId();
+  return analyticsService.getLastExerciseSessions(userId, exerciseNames, scope);
+}
@@ -7,12 +7,37 @@
  */
 
 import { supabase } from "@/lib/supabase";
+import { estimateOneRepMax } from "@/lib/oneRepMax";
+import { countsTowardStats } from "@/lib/setTypes";
+import type { ProgressionSession } from "@/lib/progression";
+import { goalTarget, isStrengthGoal, projectGoalDate } from "@/lib/goals";
+import { SECONDARY_SET_FACTOR } from "@/lib/muscleGroups";
+import { ACUTE_DAYS, CHRONIC_WEEKS, summariseFatigue } from "@/lib/readiness";
+import { detectPlateau, sortPlateaus } from "@/lib/plateaus";
+import { isCardioKind } from "@/lib/exerciseKinds";
 import type {
+  CardioDataPoint,
   ChartDataPoint,
+  E1RMDataPoint,
+  ExerciseGoal,
+  ExerciseKind,
+  FatigueSummary,
+  GoalProgress,
+  LastExerciseSession,
+  LastSessionScope,
+  LastSessionSet,
+  MuscleGroupVolume,
+  OneRepMaxFormula,
+  PlateauFlag,
+  PRType,
+  SessionLoad,
+  SetType,
+  WeeklyMuscleVolume,
   WeeklyVolumeSummary,
   WeekComparison,
   PRSummaryRow,
 } from "@/types";
+import { addWeeks, format, startOfWeek, subDays } from "date-fns";
 
 // ─── Auth Helper ──────────────────────────────────────────────────────────────
 
@@ -81,6 +106,109 @@ export async function getWeeklyVolumes(
   }));
 }
 
+// ─── Weekly Volume Per Muscle Group (RPC) ─────────────────────────────────────
+
+/**
+ * Sets and volume per muscle group for each of the last `weeks` weeks (this
+ * one included), oldest first. Secondary hits count SECONDARY_SET_FACTOR of a
+ * set and of its volume. Exercises without library tags are left out.
+ */
+export async function getWeeklyMuscleVolumes(
+  userId: string,
+  weeks: number,
+): Promise<WeeklyMuscleVolume[]> {
+  const since = addWeeks(
+    startOfWeek(new Date(), { weekStartsOn: 1 }),
+    1 - weeks,
+  );
+
+  const { data, error } = await supabase.rpc("get_weekly_muscle_volume", {
+    p_user_id: userId,
+    p_since: format(since, "yyyy-MM-dd"),
+  });
+
+  if (error) {
+    console.error(
+      "[analyticsService] getWeeklyMuscleVolumes RPC error:",
+      error.message,
+    );
+    throw error;
+  }
+
+  if (!data || !Array.isArray(data)) return [];
+
+  const byWeek = new Map<string, Map<string, MuscleGroupVolume>>();
+  for (const row of data as Record<string, unknown>[]) {
+    const weekStart = String(row.week_start ?? "");
+    const muscle = String(row.muscle ?? "");
+    const factor = row.is_primary ? 1 : SECONDARY_SET_FACTOR;
+
+    const groups = byWeek.get(weekStart) ?? new Map();
+    const group = groups.get(muscle) ?? { muscle, sets: 0, volume: 0 };
+    group.sets += Number(row.total_sets ?? 0) * factor;
+    group.volume += Number(row.total_volume ?? 0) * factor;
+    groups.set(muscle, group);
+    byWeek.set(weekStart, groups);
+  }
+
+  // Every week in range, so rest weeks show up as gaps rather than vanish
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = format(addWeeks(since, i), "yyyy-MM-dd");
+    return {
+      weekStart,
+      groups: [...(byWeek.get(weekStart)?.values() ?? [])]
+        .map((g) => ({ ...g, volume: Math.round(g.volume) }))
+        .sort((a, b) => b.sets - a.sets),
+    };
+  });
+}
+
+// ─── Session Loads and Fatigue (RPC) ──────────────────────────────────────────
+
+/** Check-ins (session RPE, duration, sleep, soreness, readiness) since a date */
+export async function getSessionLoads(
+  userId: string,
+  since: Date,
+): Promise<SessionLoad[]> {
+  const { data, error } = await supabase.rpc("get_session_loads", {
+    p_user_id: userId,
+    p_since: format(since, "yyyy-MM-dd"),
+  });
+
+  if (error) {
+    console.error(
+      "[analyticsService] getSessionLoads RPC error:",
+      error.message,
+    );
+    throw error;
+  }
+
+  if (!data || !Array.isArray(data)) return [];
+
+  const numberOrNull = (value: unknown) =>
+    value === null || value === undefined ? null : Number(value);
+
+  return data.map((row: Record<string, unknown>) => ({
+    date: String(row.workout_date ?? ""),
+    sessionRpe: numberOrNull(row.session_rpe),
+    durationMinutes: numberOrNull(row.duration_minutes),
+    sleepHours: numberOrNull(row.sleep_hours),
+    soreness: numberOrNull(row.soreness),
+    readiness: numberOrNull(row.readiness),
+  }));
+}
+
+/** Workload ratios from session RPE and tonnage, plus overreaching warnings */
+export async function getFatigueSummary(
+  userId: string,
+): Promise<FatigueSummary> {
+  const [loads, volumes] = await Promise.all([
+    getSessionLoads(userId, subDays(new Date(), ACUTE_DAYS * CHRONIC_WEEKS)),
+    getWeeklyVolumes(userId),
+  ]);
+  return summariseFatigue(loads, volumes);
+}
+
 // ─── Max Weight Over Time (RPC) ───────────────────────────────────────────────
 
 export async function getMaxWeightOverTime(
@@ -111,6 +239,65 @@ export async function getMaxWeightOverTime(
   }));
 }
 
+// ─── Estimated 1RM Over Time (RPC) ────────────────────────────────────────────
+
+export async function getE1RMOverTime(
+  userId: string,
+  exerciseName: string,
+  formula: OneRepMaxFormula,
+): Promise<E1RMDataPoint[]> {
+  const { data, error } = await supabase.rpc("get_exercise_e1rm_over_time", {
+    p_user_id: userId,
+    p_exercise_name: exerciseName,
+    p_formula: formula,
+  });
+
+  if (error) {
+    console.error(
+      "[analyticsService] getE1RMOverTime RPC error:",
+      error.message,
+    );
+    throw error;
+  }
+
+  if (!data || !Array.isArray(data)) return [];
+
+  return data.map((row: Record<string, unknown>) => ({
+    date: String(row.workout_date ?? ""),
+    value: Number(row.e1rm ?? 0),
+    weight: Number(row.weight ?? 0),
+    reps: Number(row.reps ?? 0),
+  }));
+}
+
+// ─── Time & Distance Over Time (RPC) ──────────────────────────────────────────
+
+export async function getCardioOverTime(
+  userId: string,
+  exerciseName: string,
+): Promise<CardioDataPoint[]> {
+  const { data, error } = await supabase.rpc("get_exercise_cardio_over_time", {
+    p_user_id: userId,
+    p_exercise_name: exerciseName,
+  });
+
+  if (error) {
+    console.error(
+      "[analyticsService] getCardioOverTime RPC error:",
+      error.message,
+    );
+    throw error;
+  }
+
+  if (!data || !Array.isArray(data)) return [];
+
+  return data.map((row: Record<string, unknown>) => ({
+    date: String(row.workout_date ?? ""),
+    seconds: Number(row.total_seconds ?? 0),
+    distance: Number(row.total_distance_m ?? 0),
+  }));
+}
+
 // ─── Personal Records Summary (RPC) ──────────────────────────────────────────
 
 export async function getPersonalRecords(
@@ -163,30 +350,129 @@ export async function getWeekComparison(
 
 // ─── PR Detection ─────────────────────────────────────────────────────────────
 
+type PRCandidate = { weight: number; reps: number; set_type?: SetType };
+type PRRecord = { weight: number; reps: number };
+
+/**
+ * Which kinds of PR a set is against a lift's records:
+ *
+ *  - weight: heavier than any recorded weight
+ *  - reps:   more reps than ever recorded at this weight or heavier
+ *  - e1rm:   higher estimated 1RM than any recorded set
+ *
+ * Warm-up sets never count; the first record for a lift is a weight PR.
+ */
+function classifyPR(
+  set: PRCandidate,
+  records: PRRecord[],
+  formula: OneRepMaxFormula,
+): PRType[] {
+  if (!countsTowardStats(set)) return [];
+  if (records.length === 0) return ["weight"]; // First time → PR
+
+  const types: PRType[] = [];
+
+  if (set.weight > Math.max(...records.map((r) => r.weight))) {
+    types.push("weight");
+  }
+
+  const repsAtWeight = records
+    .filter((r) => r.weight >= set.weight)
+    .map((r) => r.reps);
+  if (repsAtWeight.length > 0 && set.reps > Math.max(...repsAtWeight)) {
+    types.push("reps");
+  }
+
+  const bestE1RM = Math.max(
+    ...records.map((r) => estimateOneRepMax(r.weight, r.reps, formula)),
+  );
+  if (estimateOneRepMax(set.weight, set.reps, formula) > bestE1RM) {
+    types.push("e1rm");
+  }
+
+  return types;
+}
+
 /**
- * Check if newWeight is a PR for this exercise.
- * Checks against the personal_records table (tracking table).
+ * Which kinds of PR a set would be for this exercise, checked against the
+ * personal_records table (tracking table). Empty array → not a PR.
  */
 export async function detectPR(
   userId: string,
   exerciseName: string,
-  newWeight: number,
-): Promise<boolean> {
+  set: PRCandidate,
+  formula: OneRepMaxFormula = "epley",
+): Promise<PRType[]> {
+  if (!countsTowardStats(set)) return [];
+
   const { data, error } = await supabase
     .from("personal_records")
-    .select("weight")
+    .select("weight, reps, exercises!inner (name)")
     .eq("user_id", userId)
-    .ilike("exercise_name", exerciseName)
-    .order("weight", { ascending: false })
-    .limit(1);
+    .ilike("exercises.name", exerciseName);
 
   if (error) {
     console.error("[analyticsService] detectPR error:", error.message);
-    return false;
+    return [];
+  }
+
+  const records = (data ?? []).map((r) => ({
+    weight: Number(r.weight),
+    reps: Number(r.reps),
+  }));
+  return classifyPR(set, records, formula);
+}
+
+/**
+ * PR badges for a logged workout, keyed `${workoutExerciseId}:${setIndex}`.
+ * A set is flagged when it was recorded in personal_records on the workout's
+ * date, and typed against the records from before that date.
+ */
+export async function getWorkoutPRs(
+  userId: string,
+  date: string,
+  exercises: { id: string; exercise_id: string; sets: PRCandidate[] }[],
+  formula: OneRepMaxFormula = "epley",
+): Promise<Map<string, PRType[]>> {
+  const flags = new Map<string, PRType[]>();
+  if (exercises.length === 0) return flags;
+
+  const { data, error } = await supabase
+    .from("personal_records")
+    .select("exercise_id, weight, reps, date")
+    .eq("user_id", userId)
+    .in("exercise_id", exercises.map((ex) => ex.exercise_id))
+    .lte("date", date);
+
+  if (error) {
+    console.error("[analyticsService] getWorkoutPRs error:", error.message);
+    throw error;
   }
 
-  if (!data || data.length === 0) return true; // First time → PR
-  return newWeight > Number(data[0].weight);
+  const records = (data ?? []).map((r) => ({
+    exercise_id: r.exercise_id as string,
+    weight: Number(r.weight),
+    reps: Number(r.reps),
+    date: r.date as string,
+  }));
+
+  for (const ex of exercises) {
+    const own = records.filter((r) => r.exercise_id === ex.exercise_id);
+    const before = own.filter((r) => r.date < date);
+    // Each record on the day flags one set
+    const onDay = own.filter((r) => r.date === date);
+
+    ex.sets.forEach((set, setIndex) => {
+      const match = onDay.findIndex(
+        (r) => r.weight === Number(set.weight) && r.reps === set.reps,
+      );
+      if (match === -1) return;
+      onDay.splice(match, 1);
+      const types = classifyPR(set, before, formula);
+      if (types.length > 0) flags.set(`${ex.id}:${setIndex}`, types);
+    });
+  }
+  return flags;
 }
 
 // ─── Exercise History (direct query, proper user_id filter) ───────────────────
@@ -194,14 +480,22 @@ export async function detectPR(
 export interface ExerciseHistoryRow {
   reps: number;
   weight: number;
+  set_type: SetType;
   workout_date: string;
   workout_title: string | null;
 }
 
-export async function getExerciseHistory(
+export interface ExerciseHistory {
+  name: string;
+  kind: ExerciseKind;
+  /** Newest workout first */
+  rows: ExerciseHistoryRow[];
+}
+
+/** Every exercise's logged sets in one query, keyed by lower-cased name */
+export async function getAllExerciseHistories(
   userId: string,
-  exerciseName: string,
-): Promise<ExerciseHistoryRow[]> {
+): Promise<Map<string, ExerciseHistory>> {
   // Start from workouts (has user_id) and join downward
   const { data, error } = await supabase
     .from("workouts")
@@ -210,8 +504,8 @@ export async function getExerciseHistory(
       date,
       title,
       workout_exercises!inner (
-        exercise:exercises!inner ( name ),
-        sets ( reps, weight )
+        exercise:exercises!inner ( name, kind ),
+        sets ( reps, weight, set_type )
       )
     `,
     )
@@ -220,19 +514,20 @@ export async function getExerciseHistory(
 
   if (error) {
     console.error(
-      "[analyticsService] getExerciseHistory error:",
+      "[analyticsService] getAllExerciseHistories error:",
       error.message,
     );
     throw error;
   }
 
-  const normalised = exerciseName.toLowerCase();
-  const results: ExerciseHistoryRow[] = [];
+  const histories = new Map<string, ExerciseHistory>();
 
   for (const workout of data ?? []) {
     const workoutExercises = (workout.workout_exercises ?? []) as Array<{
-      exercise: { name: string } | { name: string }[];
-      sets: Array<{ reps: number; weight: number }> | null;
+      exercise:
+        | { name: string; kind: ExerciseKind }
+        | { name: string; kind: ExerciseKind }[];
+      sets: Array<{ reps: number; weight: number; set_type: SetType }> | null;
     }>;
 
     for (const we of workoutExercises) {
@@ -240,21 +535,134 @@ export async function getExerciseHistory(
       const exerciseObj = Array.isArray(we.exercise)
         ? we.exercise[0]
         : we.exercise;
-      if (!exerciseObj || exerciseObj.name.toLowerCase() !== normalised)
-        continue;
-
+      if (!exerciseObj) continue;
+
+      const key = exerciseObj.name.toLowerCase();
+      const history = histories.get(key) ?? {
+        name: exerciseObj.name,
+        kind: exerciseObj.kind ?? "weight_reps",
+        rows: [],
+      };
       for (const s of we.sets ?? []) {
-        results.push({
+        history.rows.push({
           reps: s.reps,
           weight: s.weight,
+          set_type: s.set_type,
           workout_date: workout.date as string,
           workout_title: (workout.title as string | null) ?? null,
         });
       }
+      histories.set(key, history);
+    }
+  }
+
+  return histories;
+}
+
+export async function getExerciseHistory(
+  userId: string,
+  exerciseName: string,
+): Promise<ExerciseHistoryRow[]> {
+  const histories = await getAllExerciseHistories(userId);
+  return histories.get(exerciseName.toLowerCase())?.rows ?? [];
+}
+
+// ─── Plateaus ─────────────────────────────────────────────────────────────────
+
+/** Stalled and regressing lifts — timed and distance work is left out */
+export async function getPlateaus(
+  userId: string,
+  formula: OneRepMaxFormula,
+): Promise<PlateauFlag[]> {
+  const histories = await getAllExerciseHistories(userId);
+  const flags = [...histories.values()]
+    .filter((h) => !isCardioKind(h.kind))
+    .map((h) => detectPlateau(h.name, h.rows, formula))
+    .filter((flag): flag is PlateauFlag => flag !== null);
+  return sortPlateaus(flags);
+}
+
+// ─── Recent Sessions (for progression rules) ──────────────────────────────────
+
+/**
+ * The last `limit` workouts containing this exercise at full weight, newest
+ * first, each with its sets in logged order. Sessions generated at a scaled
+ * intensity (program weeks, deloads) are skipped so rules progress from the
+ * unscaled weight.
+ */
+export async function getRecentExerciseSessions(
+  userId: string,
+  exerciseName: string,
+  limit: number,
+): Promise<ProgressionSession[]> {
+  const { data, error } = await supabase
+    .from("workouts")
+    .select(
+      `
+      date,
+      workout_exercises!inner (
+        intensity_percent,
+        exercise:exercises!inner ( name ),
+        sets ( reps, weight, set_type, order_index )
+      )
+    `,
+    )
+    .eq("user_id", userId)
+    .order("date", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error(
+      "[analyticsService] getRecentExerciseSessions error:",
+      error.message,
+    );
+    throw error;
+  }
+
+  const normalised = exerciseName.toLowerCase();
+  const sessions: ProgressionSession[] = [];
+
+  for (const workout of data ?? []) {
+    const workoutExercises = (workout.workout_exercises ?? []) as Array<{
+      intensity_percent: number | null;
+      exercise: { name: string } | { name: string }[];
+      sets: Array<{
+        reps: number;
+        weight: number;
+        set_type: SetType;
+        order_index: number;
+      }> | null;
+    }>;
+
+    const matches = workoutExercises.filter((we) => {
+      const exerciseObj = Array.isArray(we.exercise)
+        ? we.exercise[0]
+        : we.exercise;
+      return exerciseObj?.name.toLowerCase() === normalised;
+    });
+    // A scaled session would compound into the next prescription
+    if (matches.some((we) => Number(we.intensity_percent ?? 100) !== 100)) {
+      continue;
     }
+
+    const sets = matches
+      .flatMap((we) =>
+        [...(we.sets ?? [])].sort((a, b) => a.order_index - b.order_index),
+      );
+    if (sets.length === 0) continue;
+
+    sessions.push({
+      date: workout.date as string,
+      sets: sets.map((s) => ({
+        reps: s.reps,
+        weight: Number(s.weight),
+        set_type: s.set_type,
+      })),
+    });
+    if (sessions.length >= limit) break;
   }
 
-  return results;
+  return sessions;
 }
 
 // ─── Last Used Weight (RPC) ───────────────────────────────────────────────────
@@ -279,3 +687,142 @@ export async function getLastUsedWeight(
   if (data === null || data === undefined) return null;
   return Number(data);
 }
+
+// ─── Last Session per Exercise (RPC) ──────────────────────────────────────────
+
+/**
+ * The latest logged session of each named exercise, keyed by lowercase
+ * name. Exercises never logged in scope are missing from the map.
+ */
+export async function getLastExerciseSessions(
+  userId: string,
+  exerciseNames: string[],
+  scope: LastSessionScope = {},
+): Promise<Map<string, LastExerciseSession>> {
+  const sessions = new Map<string, LastExerciseSession>();
+  if (exerciseNames.length === 0) return sessions;
+
+  const { data, error } = await supabase.rpc("get_last_exercise_sessions", {
+    p_user_id: userId,
+    p_exercise_names: exerciseNames,
+    p_on_or_before: scope.onOrBefore ?? format(new Date(), "yyyy-MM-dd"),
+    p_exclude_workout: scope.excludeWorkoutId ?? null,
+  });
+
+  if (error) {
+    console.error(
+      "[analyticsService] getLastExerciseSessions RPC error:",
+      error.message,
+    );
+    throw error;
+  }
+
+  for (const row of data ?? []) {
+    const sets = (row.sets ?? []) as LastSessionSet[];
+    sessions.set((row.exercise_name as string).toLowerCase(), {
+      exerciseName: row.exercise_name as string,
+      workoutId: row.workout_id as string,
+      date: row.workout_date as string,
+      notes: (row.notes as string | null) || null,
+      sets: sets.map((s) => ({
+        ...s,
+        weight: Number(s.weight),
+        rpe: s.rpe === null ? null : Number(s.rpe),
+        distance_m: s.distance_m === null ? null : Number(s.distance_m),
+      })),
+    });
+  }
+  return sessions;
+}
+
+// ─── Goal Progress ────────────────────────────────────────────────────────────
+
+async function countWorkoutsSince(
+  userId: string,
+  fromDate: string,
+): Promise<number> {
+  const { count, error } = await supabase
+    .from("workouts")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .gte("date", fromDate);
+
+  if (error) {
+    console.error(
+      "[analyticsService] countWorkoutsSince error:",
+      error.message,
+    );
+    throw error;
+  }
+  return count ?? 0;
+}
+
+/**
+ * Current value, percentage and forecast for every goal that has a target.
+ * Weight goals count the heaviest set of at least target_reps; weekly
+ * volume and frequency look at the current Monday–Sunday week only.
+ * Strength goals are forecast from getMaxWeightOverTime / getE1RMOverTime.
+ */
+export async function getGoalProgress(
+  userId: string,
+  goals: ExerciseGoal[],
+  formula: OneRepMaxFormula,
+  today: Date = new Date(),
+): Promise<GoalProgress[]> {
+  const weekStart = format(
+    startOfWeek(today, { weekStartsOn: 1 }),
+    "yyyy-MM-dd",
+  );
+
+  const progress = await Promise.all(
+    goals.map(async (goal): Promise<GoalProgress | null> => {
+      const target = goalTarget(goal);
+      const name = goal.exercise?.name;
+      if (target === null || (goal.goal_type !== "frequency" && !name)) {
+        return null;
+      }
+
+      let current = 0;
+      let trend: ChartDataPoint[] = [];
+
+      if (goal.goal_type === "weight") {
+        const minReps = goal.target_reps ?? 1;
+        const [history, maxOverTime] = await Promise.all([
+          getExerciseHistory(userId, name!),
+          getMaxWeightOverTime(userId, name!),
+        ]);
+        current = history
+          .filter((s) => countsTowardStats(s) && s.reps >= minReps)
+          .reduce((best, s) => Math.max(best, Number(s.weight)), 0);
+        trend = maxOverTime;
+      } else if (goal.goal_type === "e1rm") {
+        trend = await getE1RMOverTime(userId, name!, formula);
+        current = trend.reduce((best, p) => Math.max(best, p.value), 0);
+      } else if (goal.goal_type === "weekly_volume") {
+        const history = await getExerciseHistory(userId, name!);
+        current = Math.round(
+          history
+            .filter((s) => s.workout_date >= weekStart && countsTowardStats(s))
+            .reduce((sum, s) => sum + s.reps * Number(s.weight), 0),
+        );
+      } else {
+        current = await countWorkoutsSince(userId, weekStart);
+      }
+
+      const achieved = current >= target;
+      return {
+        goalId: goal.id,
+        current,
+        target,
+        percent: Math.min(100, Math.round((current / target) * 100)),
+        achieved,
+        projectedDate:
+          !achieved && isStrengthGoal(goal.goal_type)
+            ? projectGoalDate(trend, target, today)
+            : null,
+      };
+    }),
+  );
+
+  return progress.filter((p): p is GoalProgress => p !== null);
+}
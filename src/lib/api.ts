@@ -1,24 +1,61 @@
 import { supabase } from "@/lib/supabase";
+import {
+  applyPendingMutations,
+  buildPendingWorkout,
+  enqueueMutation,
+  getPendingMutations,
+  hasPendingMutations,
+  isOffline,
+  isOfflineError,
+  isPendingId,
+  mergePendingWorkouts,
+  registerReplayHandlers,
+} from "@/lib/offlineQueue";
+import { cardioColumns } from "@/lib/exerciseKinds";
+import { setTypeColumns } from "@/lib/setTypes";
+import { normaliseGroups } from "@/lib/supersets";
 import type {
   Exercise,
+  ExerciseUsage,
   Workout,
   WorkoutWithExercises,
   WeekWorkouts,
   CreateWorkoutInput,
+  SaveWorkoutExerciseInput,
   Set,
+  SetUpdateInput,
   ExerciseGoal,
+  SaveGoalInput,
+  WorkoutSessionInput,
+  WriteOutcome,
 } from "@/types";
 import { startOfWeek, endOfWeek, format, parseISO } from "date-fns";
 
+// Resolve the signed-in user, passing network failures through untouched so
+// callers can tell "offline" apart from "signed out".
+async function requireUserId(): Promise<string> {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+  if (error && isOfflineError(error)) throw error;
+  if (!user) throw new Error("Not authenticated");
+  return user.id;
+}
+
 /**
  * Exercise Management
  */
 export const exerciseApi = {
   // Get all exercises for the current user
   async getAll(): Promise<Exercise[]> {
+    const userId = await requireUserId();
+
+    // Coaches can also read their athletes' exercises, so filter explicitly
     const { data, error } = await supabase
       .from("exercises")
       .select("*")
+      .eq("user_id", userId)
       .order("name", { ascending: true });
 
     if (error) throw error;
@@ -61,6 +98,47 @@ export const exerciseApi = {
 
     if (error) throw error;
   },
+
+  // Workouts, sets, PRs, goals and templates referencing each exercise
+  async getUsage(ids: string[]): Promise<ExerciseUsage[]> {
+    const { data, error } = await supabase.rpc("get_exercise_usage", {
+      p_exercise_ids: ids,
+    });
+
+    if (error) throw error;
+    return ((data ?? []) as Record<string, unknown>[]).map((row) => ({
+      exerciseId: String(row.exercise_id),
+      workouts: Number(row.workouts ?? 0),
+      sets: Number(row.sets ?? 0),
+      personalRecords: Number(row.personal_records ?? 0),
+      goals: Number(row.goals ?? 0),
+      templates: Number(row.templates ?? 0),
+      dayLibrary: Number(row.day_library ?? 0),
+    }));
+  },
+
+  /**
+   * Fold `sourceIds` into `targetId` in one transaction: every workout,
+   * template, day library entry and goal moves over, the sources are
+   * deleted and the target's PRs are rebuilt. `name` optionally renames
+   * the target.
+   */
+  async merge(
+    targetId: string,
+    sourceIds: string[],
+    name?: string,
+  ): Promise<void> {
+    const { error } = await supabase.rpc("merge_exercises", {
+      p_target_id: targetId,
+      p_source_ids: sourceIds,
+      p_name: name?.trim() || null,
+    });
+
+    if (error?.code === "23505") {
+      throw new Error(`An exercise named "${name?.trim()}" already exists`);
+    }
+    if (error) throw error;
+  },
 };
 
 /**
@@ -99,10 +177,18 @@ export const workoutApi = {
     const { data, error } = await query;
     if (error) throw error;
 
+    // Show writes still waiting in the offline queue
+    const workoutRows = mergePendingWorkouts(
+      (data || []) as WorkoutWithExercises[],
+      await getPendingMutations(),
+      startDate ? format(startDate, "yyyy-MM-dd") : undefined,
+      endDate ? format(endDate, "yyyy-MM-dd") : undefined,
+    );
+
     // Group workouts by week
     const weekMap = new Map<string, WorkoutWithExercises[]>();
 
-    (data || []).forEach((workout: any) => {
+    workoutRows.forEach((workout: any) => {
       const workoutDate = parseISO(workout.date);
       const weekStart = startOfWeek(workoutDate, { weekStartsOn: 1 }); // Monday
       const weekKey = format(weekStart, "yyyy-MM-dd");
@@ -144,6 +230,11 @@ export const workoutApi = {
 
   // Get a single workout with all details
   async getById(id: string): Promise<WorkoutWithExercises> {
+    // Workouts created offline only exist in the queue until synced
+    const pending = await getPendingMutations();
+    const pendingWorkout = buildPendingWorkout(id, pending);
+    if (pendingWorkout) return pendingWorkout;
+
     const { data, error } = await supabase
       .from("workouts")
       .select(
@@ -174,68 +265,37 @@ export const workoutApi = {
         .sort((a: any, b: any) => a.order_index - b.order_index),
     };
 
-    return workoutWithExercises;
+    return applyPendingMutations(workoutWithExercises, pending);
   },
 
-  // Create a new workout
+  /**
+   * Create a new workout. The id is generated client-side so a workout created
+   * offline keeps the same id once the queue replays it.
+   */
   async create(input: CreateWorkoutInput): Promise<WorkoutWithExercises> {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) throw new Error("Not authenticated");
-
-    // Create workout
-    const { data: workout, error: workoutError } = await supabase
-      .from("workouts")
-      .insert([
-        {
-          user_id: user.id,
-          date: input.date,
-          title: input.title,
-          notes: input.notes,
-        },
-      ])
-      .select()
-      .single();
-
-    if (workoutError) throw workoutError;
-
-    // Create workout exercises and sets
-    for (let i = 0; i < input.exercises.length; i++) {
-      const exerciseInput = input.exercises[i];
-
-      const { data: workoutExercise, error: exerciseError } = await supabase
-        .from("workout_exercises")
-        .insert([
-          {
-            workout_id: workout.id,
-            exercise_id: exerciseInput.exercise_id,
-            notes: exerciseInput.notes,
-            order_index: i,
-          },
-        ])
-        .select()
-        .single();
-
-      if (exerciseError) throw exerciseError;
-
-      // Create sets with safety checks to satisfy DB constraints
-      if (exerciseInput.sets.length > 0) {
-        const sets = exerciseInput.sets.map((set, j) => ({
-          workout_exercise_id: workoutExercise.id,
-          reps: Math.max(1, set.reps ?? 0),
-          weight: Math.max(0, set.weight ?? 0),
-          order_index: j,
-        }));
-
-        const { error: setsError } = await supabase.from("sets").insert(sets);
-
-        if (setsError) throw setsError;
+    const workoutId = crypto.randomUUID();
+
+    let queue = isOffline();
+    if (!queue) {
+      try {
+        await insertWorkout(workoutId, input);
+      } catch (err) {
+        if (!isOfflineError(err)) throw err;
+        queue = true;
       }
     }
 
+    if (queue) {
+      await enqueueMutation({
+        kind: "workout.create",
+        workoutId,
+        baseUpdatedAt: null,
+        payload: input,
+      });
+    }
+
     // Fetch and return the complete workout
-    return this.getById(workout.id);
+    return this.getById(workoutId);
   },
 
   // Update a workout
@@ -252,6 +312,40 @@ export const workoutApi = {
     return this.getById(id);
   },
 
+  /**
+   * Record live session start / finish times. Queued like set edits when
+   * offline or behind earlier queued writes for this workout.
+   */
+  async updateSession(
+    workout: Pick<Workout, "id" | "updated_at">,
+    times: WorkoutSessionInput
+  ): Promise<WriteOutcome> {
+    const queue = async (): Promise<WriteOutcome> => {
+      await enqueueMutation({
+        kind: "workout.updateSession",
+        workoutId: workout.id,
+        baseUpdatedAt: workout.updated_at,
+        payload: times,
+      });
+      return "queued";
+    };
+
+    if (isOffline() || (await hasPendingMutations(workout.id))) return queue();
+
+    try {
+      await updateWorkoutSession(workout.id, times);
+      return "saved";
+    } catch (err) {
+      if (isOfflineError(err)) return queue();
+      throw err;
+    }
+  },
+
+  // Current server updated_at — refresh a screen's conflict base after a write
+  async getUpdatedAt(id: string): Promise<string | null> {
+    return fetchWorkoutUpdatedAt(id);
+  },
+
   // Delete a workout
   async delete(id: string): Promise<void> {
     const { error } = await supabase.from("workouts").delete().eq("id", id);
@@ -320,20 +414,36 @@ export const workoutApi = {
  * Set Management
  */
 export const setApi = {
-  // Update a set's reps and/or weight
+  /**
+   * Update a set's reps, weight or completion. Pass the owning workout so the
+   * edit can be queued while offline — resolves to null when it was queued.
+   */
   async update(
     id: string,
-    updates: { reps?: number; weight?: number }
-  ): Promise<Set> {
-    const { data, error } = await supabase
-      .from("sets")
-      .update(updates)
-      .eq("id", id)
-      .select()
-      .single();
+    updates: SetUpdateInput,
+    workout?: Pick<Workout, "id" | "updated_at">
+  ): Promise<Set | null> {
+    const queue = async () => {
+      await enqueueMutation({
+        kind: "set.update",
+        workoutId: workout!.id,
+        baseUpdatedAt: workout!.updated_at,
+        payload: { setId: id, updates },
+      });
+      return null;
+    };
 
-    if (error) throw error;
-    return data;
+    // Keep replay order: later edits wait behind anything already queued
+    if (workout && (isOffline() || (await hasPendingMutations(workout.id)))) {
+      return queue();
+    }
+
+    try {
+      return await updateSetRow(id, updates);
+    } catch (err) {
+      if (workout && isOfflineError(err)) return queue();
+      throw err;
+    }
   },
 };
 
@@ -354,123 +464,35 @@ export const workoutExerciseApi = {
    *
    * Exercises in DB but absent from the list are deleted (with their sets, which
    * cascade via FK).
+   *
+   * Offline — or while earlier edits to this workout are still queued — the
+   * save is queued instead. Pass the workout's updated_at as baseUpdatedAt so
+   * the replay can detect edits made elsewhere in the meantime.
    */
   async saveAll(
     workoutId: string,
-    exercises: Array<{
-      clientId: string;
-      name: string;
-      sets: { reps: number; weight: number }[];
-      workoutExerciseId?: string;
-    }>,
-  ): Promise<void> {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) throw new Error("Not authenticated");
-
-    // 1. Fetch current workout_exercises IDs
-    const { data: currentRows, error: fetchErr } = await supabase
-      .from("workout_exercises")
-      .select("id")
-      .eq("workout_id", workoutId);
-    if (fetchErr) throw fetchErr;
-
-    const currentIds = new Set((currentRows ?? []).map((r: { id: string }) => r.id));
-    const keepIds = new Set(
-      exercises
-        .filter((e) => e.workoutExerciseId)
-        .map((e) => e.workoutExerciseId as string),
-    );
+    exercises: SaveWorkoutExerciseInput[],
+    options: { baseUpdatedAt?: string | null } = {},
+  ): Promise<WriteOutcome> {
+    const queue = async (): Promise<WriteOutcome> => {
+      await enqueueMutation({
+        kind: "workout.saveExercises",
+        workoutId,
+        baseUpdatedAt: options.baseUpdatedAt ?? null,
+        payload: exercises,
+      });
+      return "queued";
+    };
 
-    // 2. Delete exercises removed by the user
-    for (const id of currentIds) {
-      if (!keepIds.has(id)) {
-        const { error } = await supabase
-          .from("workout_exercises")
-          .delete()
-          .eq("id", id);
-        if (error) throw error;
-      }
-    }
+    // Keep replay order: later edits wait behind anything already queued
+    if (isOffline() || (await hasPendingMutations(workoutId))) return queue();
 
-    // 3. Save each exercise in order
-    for (let i = 0; i < exercises.length; i++) {
-      const ex = exercises[i];
-
-      if (ex.workoutExerciseId) {
-        // 3a. Update order_index on existing row
-        const { error: updateErr } = await supabase
-          .from("workout_exercises")
-          .update({ order_index: i })
-          .eq("id", ex.workoutExerciseId);
-        if (updateErr) throw updateErr;
-
-        // 3b. Delete and reinsert sets (cleanest way to sync order)
-        const { error: delSetsErr } = await supabase
-          .from("sets")
-          .delete()
-          .eq("workout_exercise_id", ex.workoutExerciseId);
-        if (delSetsErr) throw delSetsErr;
-
-        if (ex.sets.length > 0) {
-          const setsToInsert = ex.sets.map((s, j) => ({
-            workout_exercise_id: ex.workoutExerciseId as string,
-            reps: Math.max(1, s.reps || 1),
-            weight: Math.max(0, s.weight || 0),
-            order_index: j,
-          }));
-          const { error: insertSetsErr } = await supabase
-            .from("sets")
-            .insert(setsToInsert);
-          if (insertSetsErr) throw insertSetsErr;
-        }
-      } else {
-        // 3c. New exercise — find or create the exercises table row
-        const trimmedName = ex.name.trim();
-        if (!trimmedName) continue;
-
-        let exerciseId: string;
-
-        const { data: existing } = await supabase
-          .from("exercises")
-          .select("id")
-          .eq("user_id", user.id)
-          .ilike("name", trimmedName)
-          .maybeSingle();
-
-        if (existing) {
-          exerciseId = existing.id;
-        } else {
-          const { data: created, error: createErr } = await supabase
-            .from("exercises")
-            .insert([{ name: trimmedName, user_id: user.id }])
-            .select("id")
-            .single();
-          if (createErr) throw createErr;
-          exerciseId = created.id;
-        }
-
-        const { data: newWE, error: weErr } = await supabase
-          .from("workout_exercises")
-          .insert([{ workout_id: workoutId, exercise_id: exerciseId, order_index: i }])
-          .select("id")
-          .single();
-        if (weErr) throw weErr;
-
-        if (ex.sets.length > 0) {
-          const setsToInsert = ex.sets.map((s, j) => ({
-            workout_exercise_id: newWE.id,
-            reps: Math.max(1, s.reps || 1),
-            weight: Math.max(0, s.weight || 0),
-            order_index: j,
-          }));
-          const { error: insertSetsErr } = await supabase
-            .from("sets")
-            .insert(setsToInsert);
-          if (insertSetsErr) throw insertSetsErr;
-        }
-      }
+    try {
+      await saveWorkoutExercises(workoutId, exercises);
+      return "saved";
+    } catch (err) {
+      if (isOfflineError(err)) return queue();
+      throw err;
     }
   },
 };
@@ -484,47 +506,41 @@ export const goalApi = {
     const { data, error } = await supabase
       .from("exercise_goals")
       .select("*, exercise:exercises(*)")
-      .order("exercise_id", { ascending: true });
+      .order("created_at", { ascending: true });
 
     if (error) throw error;
     return data || [];
   },
 
-  // Get goal for a specific exercise
-  async getByExerciseId(exerciseId: string): Promise<ExerciseGoal | null> {
-    const { data, error } = await supabase
-      .from("exercise_goals")
-      .select("*, exercise:exercises(*)")
-      .eq("exercise_id", exerciseId)
-      .single();
+  // Create a goal, or update it when an id is given
+  async save(id: string | null, input: SaveGoalInput): Promise<ExerciseGoal> {
+    const row = {
+      exercise_id: input.goal_type === "frequency" ? null : input.exercise_id,
+      goal_type: input.goal_type,
+      target_reps: input.target_reps ?? null,
+      target_weight: input.target_weight ?? null,
+      target_volume: input.target_volume ?? null,
+      target_workouts: input.target_workouts ?? null,
+      target_date: input.target_date || null,
+    };
 
-    if (error && error.code !== "PGRST116") throw error; // PGRST116 = no rows
-    return data || null;
-  },
+    if (id) {
+      const { data, error } = await supabase
+        .from("exercise_goals")
+        .update(row)
+        .eq("id", id)
+        .select("*, exercise:exercises(*)")
+        .single();
 
-  // Create or update a goal
-  async upsert(
-    exerciseId: string,
-    targetReps?: number,
-    targetWeight?: number
-  ): Promise<ExerciseGoal> {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) throw new Error("Not authenticated");
+      if (error) throw error;
+      return data;
+    }
 
+    const userId = await requireUserId();
     const { data, error } = await supabase
       .from("exercise_goals")
-      .upsert(
-        {
-          exercise_id: exerciseId,
-          user_id: user.id,
-          target_reps: targetReps,
-          target_weight: targetWeight,
-        },
-        { onConflict: "user_id,exercise_id" }
-      )
-      .select()
+      .insert({ ...row, user_id: userId })
+      .select("*, exercise:exercises(*)")
       .single();
 
     if (error) throw error;
@@ -532,12 +548,127 @@ export const goalApi = {
   },
 
   // Delete a goal
-  async delete(exerciseId: string): Promise<void> {
+  async delete(id: string): Promise<void> {
     const { error } = await supabase
       .from("exercise_goals")
       .delete()
-      .eq("exercise_id", exerciseId);
+      .eq("id", id);
 
     if (error) throw error;
   },
 };
+
+// ─── Remote writes ────────────────────────────────────────────────────────────
+// Shared by the online path above and the offline queue's replay.
+
+/**
+ * Create a workout with its exercises and sets under a known id in one
+ * create_workouts transaction. The RPC rewrites a workout that already has
+ * the id, so a replay after an interrupted earlier attempt is safe to repeat.
+ */
+async function insertWorkout(
+  workoutId: string,
+  input: CreateWorkoutInput
+): Promise<void> {
+  const workout = {
+    id: workoutId,
+    date: input.date,
+    title: input.title ?? null,
+    notes: input.notes ?? null,
+    exercises: input.exercises.map((e) => ({
+      exercise_id: e.exercise_id,
+      notes: e.notes ?? null,
+      sets: e.sets.map((set) => ({
+        reps: Math.max(1, set.reps ?? 0),
+        weight: Math.max(0, set.weight ?? 0),
+        ...setTypeColumns(set),
+        ...cardioColumns(set),
+      })),
+    })),
+  };
+
+  const { error } = await supabase.rpc("create_workouts", {
+    p_workouts: [workout],
+  });
+  if (error) throw error;
+}
+
+async function updateSetRow(
+  id: string,
+  updates: SetUpdateInput
+): Promise<Set> {
+  const { data, error } = await supabase
+    .from("sets")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function updateWorkoutSession(
+  workoutId: string,
+  times: WorkoutSessionInput
+): Promise<void> {
+  const { error } = await supabase
+    .from("workouts")
+    .update(times)
+    .eq("id", workoutId);
+
+  if (error) throw error;
+}
+
+async function fetchWorkoutUpdatedAt(workoutId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("workouts")
+    .select("updated_at")
+    .eq("id", workoutId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.updated_at ?? null;
+}
+
+/**
+ * One RPC call, one transaction: a dropped connection can't leave the
+ * workout with its sets deleted but not re-inserted.
+ */
+async function saveWorkoutExercises(
+  workoutId: string,
+  input: SaveWorkoutExerciseInput[]
+): Promise<void> {
+  // Rows created while offline carry placeholder ids — save them as new
+  const exercises = normaliseGroups(input).map((e) => ({
+    workout_exercise_id:
+      e.workoutExerciseId && !isPendingId(e.workoutExerciseId)
+        ? e.workoutExerciseId
+        : null,
+    name: e.name.trim(),
+    superset_group: e.superset_group ?? null,
+    sets: e.sets.map((s) => ({
+      reps: Math.max(1, s.reps || 1),
+      weight: Math.max(0, s.weight || 0),
+      ...setTypeColumns(s),
+      ...cardioColumns(s),
+      completed_at: s.completed_at ?? null,
+    })),
+  }));
+
+  const { error } = await supabase.rpc("save_workout_exercises", {
+    p_workout_id: workoutId,
+    p_exercises: exercises,
+  });
+  if (error) throw error;
+}
+
+registerReplayHandlers({
+  createWorkout: insertWorkout,
+  saveExercises: saveWorkoutExercises,
+  async updateSet(setId, updates) {
+    await updateSetRow(setId, updates);
+  },
+  updateSession: updateWorkoutSession,
+  getUpdatedAt: fetchWorkoutUpdatedAt,
+});
@@ -0,0 +1,166 @@
+/**
+ * Body Metrics Service
+ *
+ * Daily bodyweight (kg) and measurements (cm) in body_metrics — one row per
+ * user per day, so saving a date again overwrites it. Progress photos are
+ * uploaded to the private progress-photos bucket under <user_id>/ and shown
+ * through short-lived signed URLs.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { BodyMetric, SaveBodyMetricInput } from "@/types";
+import { getAuthUserId } from "@/lib/analyticsService";
+
+const PHOTO_BUCKET = "progress-photos";
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// ─── Entries ──────────────────────────────────────────────────────────────────
+
+/** All entries, oldest first (chart order) */
+export async function getBodyMetrics(): Promise<BodyMetric[]> {
+  const userId = await getAuthUserId();
+
+  const { data, error } = await supabase
+    .from("body_metrics")
+    .select("*")
+    .eq("user_id", userId)
+    .order("date", { ascending: true });
+
+  if (error) {
+    console.error("[bodyMetricsService] getBodyMetrics error:", error.message);
+    throw error;
+  }
+  return (data ?? []) as BodyMetric[];
+}
+
+/** Most recent logged bodyweight in kg, or null if none */
+export async function getLatestBodyweight(): Promise<number | null> {
+  const userId = await getAuthUserId();
+
+  const { data, error } = await supabase
+    .from("body_metrics")
+    .select("bodyweight")
+    .eq("user_id", userId)
+    .not("bodyweight", "is", null)
+    .order("date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error(
+      "[bodyMetricsService] getLatestBodyweight error:",
+      error.message,
+    );
+    throw error;
+  }
+  return data ? Number(data.bodyweight) : null;
+}
+
+export async function saveBodyMetric(
+  input: SaveBodyMetricInput,
+): Promise<BodyMetric> {
+  const userId = await getAuthUserId();
+
+  const { data, error } = await supabase
+    .from("body_metrics")
+    .upsert({ user_id: userId, ...input }, { onConflict: "user_id,date" })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[bodyMetricsService] saveBodyMetric error:", error.message);
+    throw error;
+  }
+  return data as BodyMetric;
+}
+
+/** Deletes the entry and its photo, if it has one */
+export async function deleteBodyMetric(metric: BodyMetric): Promise<void> {
+  const { error } = await supabase
+    .from("body_metrics")
+    .delete()
+    .eq("id", metric.id);
+
+  if (error) {
+    console.error(
+      "[bodyMetricsService] deleteBodyMetric error:",
+      error.message,
+    );
+    throw error;
+  }
+
+  if (metric.photo_path) await removeProgressPhoto(metric.photo_path);
+}
+
+// ─── Progress photos ──────────────────────────────────────────────────────────
+
+/** Uploads a photo for `date` and returns its object path */
+export async function uploadProgressPhoto(
+  file: File,
+  date: string,
+): Promise<string> {
+  const userId = await getAuthUserId();
+  const ext = file.name.split(".").pop()?.toLowerCase() || "jpg";
+  const path = `${userId}/${date}-${Date.now()}.${ext}`;
+
+  const { error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+
+  if (error) {
+    console.error(
+      "[bodyMetricsService] uploadProgressPhoto error:",
+      error.message,
+    );
+    throw error;
+  }
+  return path;
+}
+
+/** Best effort — a leftover object is harmless, a failed delete isn't fatal */
+export async function removeProgressPhoto(path: string): Promise<void> {
+  const { error } = await supabase.storage.from(PHOTO_BUCKET).remove([path]);
+
+  if (error) {
+    console.error(
+      "[bodyMetricsService] removeProgressPhoto error:",
+      error.message,
+    );
+  }
+}
+
+/** Object path → signed URL, valid for an hour */
+export async function getProgressPhotoUrls(
+  paths: string[],
+): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_SECONDS);
+
+  if (error) {
+    console.error(
+      "[bodyMetricsService] getProgressPhotoUrls error:",
+      error.message,
+    );
+    throw error;
+  }
+
+  const urls: Record<string, string> = {};
+  for (const item of data ?? []) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+}
+
+// ─── Relative strength ────────────────────────────────────────────────────────
+
+/** Lift ÷ bodyweight, e.g. 1.5 for 120kg at 80kg; null without a bodyweight */
+export function relativeStrength(
+  liftKg: number,
+  bodyweightKg: number | null,
+): number | null {
+  if (!bodyweightKg || bodyweightKg <= 0) return null;
+  return Math.round((liftKg / bodyweightKg) * 100) / 100;
+}
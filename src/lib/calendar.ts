@@ -0,0 +1,120 @@
+/**
+ * Training calendar
+ *
+ * Turns workoutApi.getByWeeks() into per-day summaries, heatmap levels and
+ * weekly streaks. Pure functions — CalendarScreen does the fetching.
+ *
+ * A streak counts consecutive Monday–Sunday weeks that hit the weekly
+ * workout target. The current week never breaks a streak while it is still
+ * in progress; it only adds to it once the target is met.
+ */
+
+import { countsTowardStats } from "@/lib/setTypes";
+import { isCardioKind } from "@/lib/exerciseKinds";
+import type { WeekWorkouts, WorkoutWithExercises } from "@/types";
+import { addWeeks, format, parseISO, startOfWeek } from "date-fns";
+
+export interface TrainingDay {
+  date: string; // YYYY-MM-DD
+  workouts: WorkoutWithExercises[];
+  /** kg lifted across the day's workouts, warm-ups excluded */
+  volume: number;
+}
+
+export interface WeekStreaks {
+  current: number;
+  longest: number;
+}
+
+/** 0 = rest day, 1–4 = light to heaviest relative to the busiest day shown */
+export type HeatLevel = 0 | 1 | 2 | 3 | 4;
+
+/** Tonnage — timed and distance exercises don't count */
+export function workoutVolume(workout: WorkoutWithExercises): number {
+  return workout.workout_exercises
+    .filter((we) => !isCardioKind(we.exercise?.kind))
+    .reduce(
+      (sum, we) =>
+        sum +
+        (we.sets ?? [])
+          .filter(countsTowardStats)
+          .reduce((s, set) => s + set.reps * Number(set.weight), 0),
+      0,
+    );
+}
+
+/** Date (YYYY-MM-DD) → that day's workouts and volume */
+export function summariseDays(
+  weeks: WeekWorkouts[],
+): Map<string, TrainingDay> {
+  const days = new Map<string, TrainingDay>();
+
+  for (const week of weeks) {
+    for (const workout of week.workouts) {
+      const day = days.get(workout.date) ?? {
+        date: workout.date,
+        workouts: [],
+        volume: 0,
+      };
+      day.workouts.push(workout);
+      day.volume += workoutVolume(workout);
+      days.set(workout.date, day);
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Volume quartile of a day against `maxVolume`. Days with only bodyweight
+ * or cardio work still show as level 1.
+ */
+export function heatLevel(
+  day: TrainingDay | undefined,
+  maxVolume: number,
+): HeatLevel {
+  if (!day || day.workouts.length === 0) return 0;
+  if (maxVolume <= 0 || day.volume <= 0) return 1;
+  return Math.max(1, Math.ceil((day.volume / maxVolume) * 4)) as HeatLevel;
+}
+
+/** Monday (YYYY-MM-DD) → number of workouts logged that week */
+export function workoutsPerWeek(weeks: WeekWorkouts[]): Map<string, number> {
+  return new Map(weeks.map((w) => [w.weekStart, w.workouts.length]));
+}
+
+export function computeWeekStreaks(
+  weeks: WeekWorkouts[],
+  target: number,
+  today: Date = new Date(),
+): WeekStreaks {
+  const counts = workoutsPerWeek(weeks);
+  const hit = (monday: Date) =>
+    (counts.get(format(monday, "yyyy-MM-dd")) ?? 0) >= target;
+
+  const thisWeek = startOfWeek(today, { weekStartsOn: 1 });
+  const mondays = [...counts.keys()].sort();
+  if (mondays.length === 0) return { current: 0, longest: 0 };
+
+  let longest = 0;
+  let run = 0;
+  for (
+    let monday = parseISO(mondays[0]);
+    monday <= thisWeek;
+    monday = addWeeks(monday, 1)
+  ) {
+    run = hit(monday) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  let current = hit(thisWeek) ? 1 : 0;
+  for (
+    let monday = addWeeks(thisWeek, -1);
+    hit(monday);
+    monday = addWeeks(monday, -1)
+  ) {
+    current++;
+  }
+
+  return { current, longest };
+}
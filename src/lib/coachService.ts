@@ -0,0 +1,129 @@
+/**
+ * Coach Service
+ *
+ * Coach ↔ athlete links. A coach creates an invite code, the athlete accepts
+ * it, and from then on the coach can read the athlete's workouts, exercises
+ * and PRs (analytics RPCs take the athlete's id) and write week templates
+ * into their account. Either side can remove the link.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { CoachLink, SaveDayInput, Workout } from "@/types";
+import { getAuthUserId } from "@/lib/analyticsService";
+import {
+  getWeekTemplateById,
+  saveWeekTemplateFull,
+} from "@/lib/weekTemplateService";
+
+// ─── Links ────────────────────────────────────────────────────────────────────
+
+/** Every link the current user is on, as coach or athlete, oldest first */
+export async function getCoachLinks(): Promise<CoachLink[]> {
+  const { data, error } = await supabase
+    .from("coach_links")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[coachService] getCoachLinks error:", error.message);
+    throw error;
+  }
+  return (data ?? []) as CoachLink[];
+}
+
+/** New pending invite — coaches only */
+export async function createCoachInvite(): Promise<CoachLink> {
+  const { data, error } = await supabase.rpc("create_coach_invite");
+
+  if (error) {
+    console.error("[coachService] createCoachInvite error:", error.message);
+    throw error;
+  }
+  return data as CoachLink;
+}
+
+/** Link the current user as the athlete on a coach's invite */
+export async function acceptCoachInvite(code: string): Promise<CoachLink> {
+  const { data, error } = await supabase.rpc("accept_coach_invite", {
+    p_code: code.trim(),
+  });
+
+  if (error) {
+    console.error("[coachService] acceptCoachInvite error:", error.message);
+    throw error;
+  }
+  return data as CoachLink;
+}
+
+/** Cancels a pending invite, or ends an active link from either side */
+export async function removeCoachLink(id: string): Promise<void> {
+  const { error } = await supabase.from("coach_links").delete().eq("id", id);
+
+  if (error) {
+    console.error("[coachService] removeCoachLink error:", error.message);
+    throw error;
+  }
+}
+
+// ─── Athlete training ─────────────────────────────────────────────────────────
+
+/** An athlete's latest workouts, newest first — for opening and commenting */
+export async function getAthleteWorkouts(
+  athleteId: string,
+  limit = 8,
+): Promise<Workout[]> {
+  const { data, error } = await supabase
+    .from("workouts")
+    .select("*")
+    .eq("user_id", athleteId)
+    .order("date", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("[coachService] getAthleteWorkouts error:", error.message);
+    throw error;
+  }
+  return (data ?? []) as Workout[];
+}
+
+// ─── Programming for athletes ─────────────────────────────────────────────────
+
+/**
+ * Copy one of the coach's week templates into an athlete's account. The copy
+ * is the athlete's to use and edit; the coach can keep editing it too.
+ * Returns the new template's id.
+ */
+export async function sendWeekTemplateToAthlete(
+  templateId: string,
+  athleteId: string,
+): Promise<string> {
+  const coachId = await getAuthUserId();
+  const template = await getWeekTemplateById(templateId);
+
+  const { data, error } = await supabase
+    .from("week_templates")
+    .insert({ user_id: athleteId, name: template.name, created_by: coachId })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error(
+      "[coachService] sendWeekTemplateToAthlete error:",
+      error.message,
+    );
+    throw error;
+  }
+
+  const days: SaveDayInput[] = (template.day_templates ?? []).map((day) => ({
+    name: day.name,
+    exercises: (day.exercise_templates ?? []).map((ex) => ({
+      name: ex.name,
+      progression: ex.progression,
+      superset_group: ex.superset_group,
+      sets: ex.template_sets ?? [],
+    })),
+  }));
+
+  await saveWeekTemplateFull(data.id, template.name, days);
+  return data.id as string;
+}
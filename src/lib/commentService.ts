@@ -0,0 +1,139 @@
+/**
+ * Comment Service
+ *
+ * Threaded comments on a workout, its exercises and individual sets, so
+ * coach feedback and the athlete's replies sit next to the data. The owner
+ * and their linked coaches can read and post; authors can delete their own.
+ * Set comments are anchored by position (set_index) because sets are
+ * re-inserted on every save.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type {
+  CommentAnchor,
+  WorkoutComment,
+  WorkoutCommentThread,
+} from "@/types";
+import { getAuthUserId } from "@/lib/analyticsService";
+
+/** Every comment on a workout, oldest first, plus the caller's read marker */
+export async function getWorkoutComments(
+  workoutId: string,
+): Promise<WorkoutCommentThread> {
+  const userId = await getAuthUserId();
+
+  const [comments, reads] = await Promise.all([
+    supabase
+      .from("workout_comments")
+      .select("*")
+      .eq("workout_id", workoutId)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("workout_comment_reads")
+      .select("read_at")
+      .eq("workout_id", workoutId)
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ]);
+
+  const error = comments.error ?? reads.error;
+  if (error) {
+    console.error("[commentService] getWorkoutComments error:", error.message);
+    throw error;
+  }
+
+  return {
+    comments: (comments.data ?? []) as WorkoutComment[],
+    readAt: (reads.data?.read_at as string | undefined) ?? null,
+    userId,
+  };
+}
+
+/** Post a comment; the author is always the current user */
+export async function addWorkoutComment(
+  workoutId: string,
+  anchor: CommentAnchor,
+  body: string,
+): Promise<WorkoutComment> {
+  const { data, error } = await supabase
+    .from("workout_comments")
+    .insert({
+      workout_id: workoutId,
+      workout_exercise_id: anchor.workoutExerciseId ?? null,
+      set_index: anchor.setIndex ?? null,
+      body: body.trim(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[commentService] addWorkoutComment error:", error.message);
+    throw error;
+  }
+  return data as WorkoutComment;
+}
+
+export async function deleteWorkoutComment(id: string): Promise<void> {
+  const { error } = await supabase
+    .from("workout_comments")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error(
+      "[commentService] deleteWorkoutComment error:",
+      error.message,
+    );
+    throw error;
+  }
+}
+
+/** Mark everything on the workout as read by the current user */
+export async function markWorkoutCommentsRead(
+  workoutId: string,
+): Promise<void> {
+  const userId = await getAuthUserId();
+  const { error } = await supabase.from("workout_comment_reads").upsert(
+    {
+      workout_id: workoutId,
+      user_id: userId,
+      read_at: new Date().toISOString(),
+    },
+    { onConflict: "workout_id,user_id" },
+  );
+
+  if (error) {
+    console.error(
+      "[commentService] markWorkoutCommentsRead error:",
+      error.message,
+    );
+    throw error;
+  }
+}
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+/** Comments posted exactly at the anchor (not on its children) */
+export function commentsAt(
+  comments: WorkoutComment[],
+  anchor: CommentAnchor,
+): WorkoutComment[] {
+  return comments.filter(
+    (c) =>
+      c.workout_exercise_id === (anchor.workoutExerciseId ?? null) &&
+      c.set_index === (anchor.setIndex ?? null),
+  );
+}
+
+/** Someone else's comment the user hasn't seen yet */
+export function isUnread(
+  comment: WorkoutComment,
+  userId: string,
+  readAt: string | null,
+): boolean {
+  return (
+    comment.author_id !== userId &&
+    (readAt === null ||
+      new Date(comment.created_at).getTime() > new Date(readAt).getTime())
+  );
+}
@@ -6,7 +6,10 @@
  */
 
 import { supabase } from "@/lib/supabase";
-import type { DayLibraryItem } from "@/types";
+import type { DayLibraryItem, SaveSetInput } from "@/types";
+import { setTypeColumns } from "@/lib/setTypes";
+import { cardioColumns } from "@/lib/exerciseKinds";
+import { normaliseGroups } from "@/lib/supersets";
 
 async function requireUserId(): Promise<string> {
   const {
@@ -28,6 +31,7 @@ export async function getAllDayLibraryItems(): Promise<DayLibraryItem[]> {
       *,
       day_library_exercises (
         *,
+        ...exercises (name, muscle_group, kind),
         day_library_sets (*)
       )
     `,
@@ -62,6 +66,7 @@ export async function getDayLibraryItemById(
       *,
       day_library_exercises (
         *,
+        ...exercises (name, muscle_group, kind),
         day_library_sets (*)
       )
     `,
@@ -87,8 +92,8 @@ export async function getDayLibraryItemById(
 
 interface CreateDayExerciseInput {
   name: string;
-  muscle_group?: string | null;
-  sets: { reps: number; weight: number }[];
+  superset_group?: number | null;
+  sets: SaveSetInput[];
 }
 
 export async function createDayLibraryItem(
@@ -110,16 +115,27 @@ export async function createDayLibraryItem(
   }
 
   // 2. Insert exercises + sets
-  for (let i = 0; i < exercises.length; i++) {
-    const ex = exercises[i];
+  const grouped = normaliseGroups(exercises);
+  for (let i = 0; i < grouped.length; i++) {
+    const ex = grouped[i];
+
+    const { data: exerciseId, error: lookupErr } = await supabase.rpc(
+      "find_or_create_exercise",
+      { p_name: ex.name },
+    );
+
+    if (lookupErr) {
+      console.error("[dayLibrary] exercise lookup error:", lookupErr.message);
+      throw lookupErr;
+    }
 
     const { data: exRow, error: exErr } = await supabase
       .from("day_library_exercises")
       .insert({
         day_library_id: dayRow.id,
-        name: ex.name.trim(),
-        muscle_group: ex.muscle_group?.trim() || null,
+        exercise_id: exerciseId,
         order_index: i,
+        superset_group: ex.superset_group ?? null,
       })
       .select()
       .single();
@@ -134,6 +150,8 @@ export async function createDayLibraryItem(
         day_library_exercise_id: exRow.id,
         reps: Math.max(1, s.reps),
         weight: Math.max(0, s.weight),
+        ...setTypeColumns(s),
+        ...cardioColumns(s),
       }));
 
       const { error: setsErr } = await supabase
@@ -154,11 +172,7 @@ export async function createDayLibraryItem(
 
 interface SaveDayToLibraryInput {
   name: string;
-  exercises: {
-    name: string;
-    muscle_group?: string | null;
-    sets: { reps: number; weight: number }[];
-  }[];
+  exercises: CreateDayExerciseInput[];
 }
 
 export async function saveDayToLibrary(
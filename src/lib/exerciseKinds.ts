@@ -0,0 +1,121 @@
+/**
+ * Exercise kinds
+ *
+ * What each kind of exercise records per set, plus time / distance / pace
+ * helpers for the cardio kinds. Distances are stored in metres and shown in
+ * km, or miles for users who train in pounds.
+ */
+
+import { formatDuration } from "@/lib/restTimer";
+import type { CardioFields, ExerciseKind, WeightUnit } from "@/types";
+
+export const EXERCISE_KINDS: Record<ExerciseKind, string> = {
+  weight_reps: "Weight × reps",
+  bodyweight: "Bodyweight + load",
+  duration: "Time",
+  distance: "Distance",
+  duration_distance: "Time + distance",
+};
+
+interface KindFields {
+  reps: boolean;
+  weight: boolean;
+  duration: boolean;
+  distance: boolean;
+}
+
+export const KIND_FIELDS: Record<ExerciseKind, KindFields> = {
+  weight_reps: { reps: true, weight: true, duration: false, distance: false },
+  bodyweight: { reps: true, weight: true, duration: false, distance: false },
+  duration: { reps: false, weight: false, duration: true, distance: false },
+  distance: { reps: false, weight: false, duration: false, distance: true },
+  duration_distance: {
+    reps: false,
+    weight: false,
+    duration: true,
+    distance: true,
+  },
+};
+
+/** Timed and distance kinds — kept out of tonnage, PRs and e1RM */
+export function isCardioKind(kind: ExerciseKind | undefined): boolean {
+  return (
+    kind === "duration" || kind === "distance" || kind === "duration_distance"
+  );
+}
+
+/** DB-ready duration_seconds / distance_m for a form or import set */
+export function cardioColumns(set: Partial<CardioFields>): CardioFields {
+  const seconds = set.duration_seconds;
+  const metres = set.distance_m;
+  return {
+    duration_seconds:
+      seconds !== null && seconds !== undefined && seconds > 0
+        ? Math.round(seconds)
+        : null,
+    distance_m:
+      metres !== null && metres !== undefined && metres > 0
+        ? Math.round(metres * 100) / 100
+        : null,
+  };
+}
+
+// ─── Time ─────────────────────────────────────────────────────────────────────
+
+/** "1:30:00", "25:00" or "90" (seconds) → seconds; null when unreadable */
+export function parseDuration(text: string): number | null {
+  const parts = text.trim().split(":");
+  if (parts.length > 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+  const seconds = parts.reduce((total, p) => total * 60 + Number(p), 0);
+  return seconds > 0 ? seconds : null;
+}
+
+// ─── Distance ─────────────────────────────────────────────────────────────────
+
+export type DistanceUnit = "km" | "mi";
+
+const METRES_PER: Record<DistanceUnit, number> = { km: 1000, mi: 1609.344 };
+
+export function distanceUnitFor(unit: WeightUnit): DistanceUnit {
+  return unit === "lbs" ? "mi" : "km";
+}
+
+export function toDisplayDistance(metres: number, unit: DistanceUnit): number {
+  return Math.round((metres / METRES_PER[unit]) * 100) / 100;
+}
+
+export function fromDisplayDistance(value: number, unit: DistanceUnit): number {
+  return Math.round(value * METRES_PER[unit] * 100) / 100;
+}
+
+// ─── Pace & speed ─────────────────────────────────────────────────────────────
+
+/** Seconds per km / mile, or null without both time and distance */
+export function paceSeconds(
+  seconds: number,
+  metres: number,
+  unit: DistanceUnit,
+): number | null {
+  if (seconds <= 0 || metres <= 0) return null;
+  return seconds / (metres / METRES_PER[unit]);
+}
+
+/** "5:12 /km" */
+export function formatPace(
+  seconds: number,
+  metres: number,
+  unit: DistanceUnit,
+): string | null {
+  const pace = paceSeconds(seconds, metres, unit);
+  return pace === null ? null : `${formatDuration(pace)} /${unit}`;
+}
+
+/** km/h or mph, one decimal */
+export function speed(
+  seconds: number,
+  metres: number,
+  unit: DistanceUnit,
+): number | null {
+  if (seconds <= 0 || metres <= 0) return null;
+  return Math.round((metres / METRES_PER[unit] / (seconds / 3600)) * 10) / 10;
+}
@@ -1,12 +1,18 @@
 /**
  * Exercise Library Service
  *
- * CRUD + usage tracking for the exercise_library table.
- * Items are reusable blueprints — never foreign-keyed to workouts/templates.
+ * CRUD + usage tracking for the library fields of the exercises table
+ * (muscle tags, default reps/weight, usage). The library is every exercise
+ * the user has — the same rows workouts, templates and PRs reference.
  */
 
 import { supabase } from "@/lib/supabase";
-import type { ExerciseLibraryItem, ExerciseLibrarySortMode } from "@/types";
+import { normaliseMuscle } from "@/lib/muscleGroups";
+import type {
+  Exercise,
+  ExerciseKind,
+  ExerciseLibrarySortMode,
+} from "@/types";
 
 async function requireUserId(): Promise<string> {
   const {
@@ -16,13 +22,23 @@ async function requireUserId(): Promise<string> {
   return user.id;
 }
 
+// Postgres unique_violation — exercise names are unique per user
+const UNIQUE_VIOLATION = "23505";
+
+function duplicateNameError(name: string): Error {
+  return new Error(`An exercise named "${name}" already exists`);
+}
+
 // ─── CRUD ─────────────────────────────────────────────────────────────────────
 
-export async function getExerciseLibrary(): Promise<ExerciseLibraryItem[]> {
-  const userId = await requireUserId();
+/** The current user's exercises, or a coached athlete's when given their id */
+export async function getExerciseLibrary(
+  athleteId?: string,
+): Promise<Exercise[]> {
+  const userId = athleteId ?? (await requireUserId());
 
   const { data, error } = await supabase
-    .from("exercise_library")
+    .from("exercises")
     .select("*")
     .eq("user_id", userId)
     .order("last_used_at", { ascending: false, nullsFirst: false });
@@ -39,23 +55,28 @@ export async function createExerciseLibraryItem(
   muscleGroup: string | null,
   defaultReps: number,
   defaultWeight: number,
-): Promise<ExerciseLibraryItem> {
+  secondaryMuscles: string[] = [],
+  kind: ExerciseKind = "weight_reps",
+): Promise<Exercise> {
   const userId = await requireUserId();
 
   const { data, error } = await supabase
-    .from("exercise_library")
+    .from("exercises")
     .insert({
       user_id: userId,
       name: name.trim(),
-      muscle_group: muscleGroup?.trim() || null,
+      muscle_group: muscleGroup ? normaliseMuscle(muscleGroup) || null : null,
+      secondary_muscles: secondaryMuscles.map(normaliseMuscle).filter(Boolean),
       default_reps: Math.max(1, defaultReps),
       default_weight: Math.max(0, defaultWeight),
+      kind,
     })
     .select()
     .single();
 
   if (error) {
     console.error("[exerciseLibrary] create error:", error.message);
+    if (error.code === UNIQUE_VIOLATION) throw duplicateNameError(name.trim());
     throw error;
   }
   return data;
@@ -66,21 +87,30 @@ export async function updateExerciseLibraryItem(
   updates: {
     name?: string;
     muscle_group?: string | null;
+    secondary_muscles?: string[];
     default_reps?: number;
     default_weight?: number;
+    kind?: ExerciseKind;
   },
-): Promise<ExerciseLibraryItem> {
+): Promise<Exercise> {
   const clean: Record<string, unknown> = {};
   if (updates.name !== undefined) clean.name = updates.name.trim();
   if (updates.muscle_group !== undefined)
-    clean.muscle_group = updates.muscle_group?.trim() || null;
+    clean.muscle_group = updates.muscle_group
+      ? normaliseMuscle(updates.muscle_group) || null
+      : null;
+  if (updates.secondary_muscles !== undefined)
+    clean.secondary_muscles = updates.secondary_muscles
+      .map(normaliseMuscle)
+      .filter(Boolean);
   if (updates.default_reps !== undefined)
     clean.default_reps = Math.max(1, updates.default_reps);
   if (updates.default_weight !== undefined)
     clean.default_weight = Math.max(0, updates.default_weight);
+  if (updates.kind !== undefined) clean.kind = updates.kind;
 
   const { data, error } = await supabase
-    .from("exercise_library")
+    .from("exercises")
     .update(clean)
     .eq("id", id)
     .select()
@@ -88,6 +118,9 @@ export async function updateExerciseLibraryItem(
 
   if (error) {
     console.error("[exerciseLibrary] update error:", error.message);
+    if (error.code === UNIQUE_VIOLATION && updates.name !== undefined) {
+      throw duplicateNameError(updates.name.trim());
+    }
     throw error;
   }
   return data;
@@ -95,7 +128,7 @@ export async function updateExerciseLibraryItem(
 
 export async function deleteExerciseLibraryItem(id: string): Promise<void> {
   const { error } = await supabase
-    .from("exercise_library")
+    .from("exercises")
     .delete()
     .eq("id", id);
 
@@ -111,7 +144,7 @@ export async function bumpExerciseUsage(id: string): Promise<void> {
   // Supabase doesn't support increment natively via JS SDK,
   // so we fetch + update (acceptable for low contention).
   const { data, error: fetchErr } = await supabase
-    .from("exercise_library")
+    .from("exercises")
     .select("usage_count")
     .eq("id", id)
     .single();
@@ -122,7 +155,7 @@ export async function bumpExerciseUsage(id: string): Promise<void> {
   }
 
   const { error: updateErr } = await supabase
-    .from("exercise_library")
+    .from("exercises")
     .update({
       usage_count: (data?.usage_count ?? 0) + 1,
       last_used_at: new Date().toISOString(),
@@ -140,9 +173,9 @@ export async function bumpExerciseUsage(id: string): Promise<void> {
 // ─── Sorting ──────────────────────────────────────────────────────────────────
 
 export function sortExerciseLibrary(
-  items: ExerciseLibraryItem[],
+  items: Exercise[],
   mode: ExerciseLibrarySortMode,
-): ExerciseLibraryItem[] {
+): Exercise[] {
   const copy = [...items];
 
   switch (mode) {
@@ -192,9 +225,9 @@ export function sortExerciseLibrary(
 // ─── Grouping helper ──────────────────────────────────────────────────────────
 
 export function groupByMuscle(
-  items: ExerciseLibraryItem[],
-): Map<string, ExerciseLibraryItem[]> {
-  const groups = new Map<string, ExerciseLibraryItem[]>();
+  items: Exercise[],
+): Map<string, Exercise[]> {
+  const groups = new Map<string, Exercise[]>();
   for (const item of items) {
     const key = item.muscle_group || "Uncategorized";
     const existing = groups.get(key) ?? [];
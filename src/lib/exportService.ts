@@ -0,0 +1,256 @@
+/**
+ * Export Service
+ *
+ * Collects every row the signed-in user owns into a versioned JSON bundle, and
+ * flattens logged sets into a CSV that spreadsheets and other apps can read.
+ * Read-only — nothing here writes to Supabase.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type {
+  BodyMetric,
+  DayLibraryItem,
+  Exercise,
+  ExerciseGoal,
+  ExportBundle,
+  ExportSetRow,
+  PersonalRecord,
+  ProgramWithWeeks,
+  UserSettings,
+  WeekTemplateWithDays,
+  WorkoutWithExercises,
+} from "@/types";
+
+export const EXPORT_VERSION = 5;
+
+// PostgREST caps responses (1000 rows by default) — page through larger tables
+const PAGE_SIZE = 1000;
+
+async function requireUserId(): Promise<string> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+  return user.id;
+}
+
+async function fetchAllRows<T>(
+  table: string,
+  select: string,
+  userId: string,
+  orderColumn: string,
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(select)
+      .eq("user_id", userId)
+      .order(orderColumn, { ascending: true })
+      // The order column can tie — id keeps page boundaries stable
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error(`[export] ${table} error:`, error.message);
+      throw error;
+    }
+
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/** The single settings row — null if the user never saved a preference */
+async function fetchUserSettings(userId: string): Promise<UserSettings | null> {
+  const { data, error } = await supabase
+    .from("user_settings")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[export] user_settings error:", error.message);
+    throw error;
+  }
+  return data as UserSettings | null;
+}
+
+const byOrderIndex = (a: { order_index: number }, b: { order_index: number }) =>
+  a.order_index - b.order_index;
+
+// ─── JSON bundle ──────────────────────────────────────────────────────────────
+
+export async function buildExportBundle(): Promise<ExportBundle> {
+  const userId = await requireUserId();
+
+  const [
+    exercises,
+    workouts,
+    goals,
+    personalRecords,
+    weekTemplates,
+    dayLibrary,
+    programs,
+    bodyMetrics,
+    settings,
+  ] = await Promise.all([
+    fetchAllRows<Exercise>("exercises", "*", userId, "name"),
+    fetchAllRows<WorkoutWithExercises>(
+      "workouts",
+      `*, workout_exercises (*, exercise:exercises (*), sets (*))`,
+      userId,
+      "date",
+    ),
+    fetchAllRows<ExerciseGoal>("exercise_goals", "*", userId, "created_at"),
+    fetchAllRows<PersonalRecord>(
+      "personal_records",
+      "*, ...exercises (exercise_name:name)",
+      userId,
+      "date",
+    ),
+    fetchAllRows<WeekTemplateWithDays>(
+      "week_templates",
+      `*, day_templates (*, exercise_templates (*, ...exercises (name, kind), template_sets (*)))`,
+      userId,
+      "created_at",
+    ),
+    fetchAllRows<DayLibraryItem>(
+      "day_library",
+      `*, day_library_exercises (*, ...exercises (name, muscle_group, kind), day_library_sets (*))`,
+      userId,
+      "created_at",
+    ),
+    fetchAllRows<ProgramWithWeeks>(
+      "programs",
+      "*, program_weeks (*)",
+      userId,
+      "created_at",
+    ),
+    fetchAllRows<BodyMetric>("body_metrics", "*", userId, "date"),
+    fetchUserSettings(userId),
+  ]);
+
+  return {
+    app: "gym-logbook",
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    userId,
+    data: {
+      exercises,
+      workouts: workouts.map((w) => ({
+        ...w,
+        workout_exercises: (w.workout_exercises ?? [])
+          .map((we) => ({ ...we, sets: (we.sets ?? []).sort(byOrderIndex) }))
+          .sort(byOrderIndex),
+      })),
+      exercise_goals: goals,
+      personal_records: personalRecords,
+      week_templates: weekTemplates,
+      day_library: dayLibrary.map((d) => ({
+        ...d,
+        day_library_exercises: (d.day_library_exercises ?? []).sort(
+          byOrderIndex,
+        ),
+      })),
+      programs: programs.map((p) => ({
+        ...p,
+        program_weeks: (p.program_weeks ?? []).sort(
+          (a, b) => a.week_index - b.week_index,
+        ),
+      })),
+      body_metrics: bodyMetrics,
+      user_settings: settings,
+    },
+  };
+}
+
+// ─── CSV ──────────────────────────────────────────────────────────────────────
+
+const CSV_COLUMNS: (keyof ExportSetRow)[] = [
+  "date",
+  "workout",
+  "exercise",
+  "set_number",
+  "set_type",
+  "reps",
+  "weight",
+  "rpe",
+  "rir",
+  "duration_seconds",
+  "distance_m",
+  "session_rpe",
+  "session_minutes",
+  "sleep_hours",
+  "soreness",
+  "readiness",
+];
+
+/** One row per logged set, oldest first */
+export function flattenSets(workouts: WorkoutWithExercises[]): ExportSetRow[] {
+  const rows: ExportSetRow[] = [];
+
+  [...workouts]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((w) => {
+      w.workout_exercises.forEach((we) => {
+        we.sets.forEach((s, i) => {
+          rows.push({
+            date: w.date,
+            workout: w.title ?? "",
+            exercise: we.exercise?.name ?? "",
+            set_number: i + 1,
+            set_type: s.set_type ?? "working",
+            reps: s.reps,
+            weight: s.weight,
+            rpe: s.rpe ?? null,
+            rir: s.rir ?? null,
+            duration_seconds: s.duration_seconds ?? null,
+            distance_m: s.distance_m ?? null,
+            session_rpe: w.session_rpe ?? null,
+            session_minutes: w.session_minutes ?? null,
+            sleep_hours: w.sleep_hours ?? null,
+            soreness: w.soreness ?? null,
+            readiness: w.readiness ?? null,
+          });
+        });
+      });
+    });
+
+  return rows;
+}
+
+function escapeCsvField(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function setsToCsv(rows: ExportSetRow[]): string {
+  const lines = [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) =>
+      CSV_COLUMNS.map((col) => escapeCsvField(row[col])).join(","),
+    ),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+// ─── Download ─────────────────────────────────────────────────────────────────
+
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
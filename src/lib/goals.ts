@@ -0,0 +1,102 @@
+/**
+ * Goals
+ *
+ * Labels, targets and completion forecasts for exercise goals. Pure
+ * functions — analyticsService fetches the history they run on.
+ */
+
+import { formatWeight, toDisplayWeight } from "@/lib/units";
+import type {
+  ChartDataPoint,
+  ExerciseGoal,
+  GoalType,
+  WeightUnit,
+} from "@/types";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export const GOAL_TYPES: Record<GoalType, string> = {
+  weight: "Weight × reps",
+  e1rm: "Estimated 1RM",
+  weekly_volume: "Weekly volume",
+  frequency: "Workouts per week",
+};
+
+/** Strength goals are forecast from their trend; weekly goals reset each week */
+export function isStrengthGoal(type: GoalType): boolean {
+  return type === "weight" || type === "e1rm";
+}
+
+/** The number a goal is aiming for (kg, or workouts), or null when unset */
+export function goalTarget(goal: ExerciseGoal): number | null {
+  const target =
+    goal.goal_type === "weekly_volume"
+      ? goal.target_volume
+      : goal.goal_type === "frequency"
+        ? goal.target_workouts
+        : goal.target_weight;
+  return target && target > 0 ? Number(target) : null;
+}
+
+/** "100 kg", "12,000 lbs" or "4 workouts" */
+export function formatGoalValue(
+  type: GoalType,
+  value: number,
+  unit: WeightUnit,
+): string {
+  if (type === "frequency") return `${value} workout${value === 1 ? "" : "s"}`;
+  if (type === "weekly_volume") {
+    return `${Math.round(toDisplayWeight(value, unit)).toLocaleString()} ${unit}`;
+  }
+  return formatWeight(value, unit);
+}
+
+// ─── Forecasting ──────────────────────────────────────────────────────────────
+
+/** Only the recent trend counts — old plateaus shouldn't drag the slope */
+const TREND_DAYS = 90;
+const MIN_TREND_POINTS = 3;
+/** Forecasts further out than this are noise, not a date */
+const MAX_FORECAST_DAYS = 730;
+
+/**
+ * Fits a least-squares line through the last TREND_DAYS of points and
+ * returns the date (YYYY-MM-DD) it crosses `target`. Null when there are too
+ * few points or the trend is flat or falling.
+ */
+export function projectGoalDate(
+  points: ChartDataPoint[],
+  target: number,
+  today: Date = new Date(),
+): string | null {
+  const recent = points.filter(
+    (p) => differenceInCalendarDays(today, parseISO(p.date)) <= TREND_DAYS,
+  );
+  if (recent.length < MIN_TREND_POINTS) return null;
+
+  const origin = parseISO(recent[0].date);
+  const xs = recent.map((p) =>
+    differenceInCalendarDays(parseISO(p.date), origin),
+  );
+  const ys = recent.map((p) => p.value);
+  const n = recent.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+  if (variance === 0) return null;
+
+  const slope = covariance / variance;
+  if (slope <= 0) return null;
+
+  const todayX = differenceInCalendarDays(today, origin);
+  const fittedToday = meanY + slope * (todayX - meanX);
+  const daysLeft = Math.max(0, Math.ceil((target - fittedToday) / slope));
+  if (daysLeft > MAX_FORECAST_DAYS) return null;
+
+  return format(addDays(today, daysLeft), "yyyy-MM-dd");
+}
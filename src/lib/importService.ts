@@ -0,0 +1,496 @@
+/**
+ * Import Service
+ *
+ * Brings workout history in from the CSV exports of Strong, Hevy and FitNotes.
+ *
+ *  1. parseImportFile   — detect the layout, group rows into workouts
+ *  2. matchExercises    — map source exercise names onto the user's exercises
+ *                         (exact, fuzzy suggestion or new) for review
+ *  3. importWorkouts    — create the workouts via workoutApi.create
+ *
+ * Steps 1–2 never write, so the screen can show a dry-run preview first.
+ */
+
+import { supabase } from "@/lib/supabase";
+import { exerciseApi, workoutApi } from "@/lib/api";
+import { getAuthUserId } from "@/lib/analyticsService";
+import { lbsToKg } from "@/lib/units";
+import { normaliseRpe } from "@/lib/setTypes";
+import type {
+  CreateWorkoutInput,
+  ExerciseMatch,
+  ImportSource,
+  ParsedImport,
+  ParsedWorkout,
+  SetType,
+  WeightUnit,
+} from "@/types";
+import { format, isValid, parse } from "date-fns";
+
+/** Fuzzy suggestions below this similarity are ignored — the name is created new */
+const FUZZY_THRESHOLD = 0.6;
+
+/** Rows per request when reading existing workouts (PostgREST caps at 1000) */
+const PAGE_SIZE = 1000;
+
+// ─── CSV parsing ──────────────────────────────────────────────────────────────
+
+/** RFC 4180 parser — quoted fields may contain delimiters, quotes and newlines */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  // Strong writes ';' in locales that use ',' as the decimal separator
+  const delimiter =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0)
+      ? ";"
+      : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((f) => f.trim() !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((f) => f.trim() !== "")) rows.push(row);
+  return rows;
+}
+
+function parseNumber(value: string | undefined): number {
+  if (!value) return NaN;
+  const trimmed = value.trim();
+  // "102,5" from comma-decimal locales
+  const normalized =
+    trimmed.includes(",") && !trimmed.includes(".")
+      ? trimmed.replace(",", ".")
+      : trimmed;
+  return Number(normalized);
+}
+
+function parseDate(value: string): string | null {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^\d{4}-\d{2}-\d{2}/);
+  if (iso) return iso[0];
+
+  // Hevy: "26 Jan 2024, 07:05"
+  for (const pattern of ["d MMM yyyy, HH:mm", "d MMM yyyy"]) {
+    const parsed = parse(trimmed, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, "yyyy-MM-dd");
+  }
+  return null;
+}
+
+function toKg(weight: number, unit: WeightUnit): number {
+  return unit === "lbs" ? lbsToKg(weight) : weight;
+}
+
+/** Hevy's set_type column, or Strong's "Set Order" letters (W / D / F) */
+function parseSetType(value: string): SetType {
+  switch (value.toLowerCase()) {
+    case "warmup":
+    case "w":
+      return "warmup";
+    case "dropset":
+    case "d":
+      return "drop";
+    case "failure":
+    case "f":
+      return "failure";
+    default:
+      return "working";
+  }
+}
+
+// ─── Layout detection ─────────────────────────────────────────────────────────
+
+interface ColumnMap {
+  source: ImportSource;
+  /** Rows sharing this key belong to one workout */
+  workoutKey: string;
+  date: string;
+  title?: string;
+  workoutNotes?: string;
+  exercise: string;
+  exerciseNotes?: string;
+  weight: string;
+  weightUnit?: string;
+  reps: string;
+  setType?: string;
+  rpe?: string;
+  /** Unit implied by the weight header, when it names one */
+  headerUnit?: WeightUnit;
+}
+
+function detectLayout(headers: string[]): ColumnMap | null {
+  const has = (name: string) => headers.includes(name);
+
+  if (has("exercise_title") && has("start_time")) {
+    const lbs = has("weight_lbs");
+    return {
+      source: "hevy",
+      workoutKey: "start_time",
+      date: "start_time",
+      title: "title",
+      workoutNotes: "description",
+      exercise: "exercise_title",
+      exerciseNotes: "exercise_notes",
+      weight: lbs ? "weight_lbs" : "weight_kg",
+      reps: "reps",
+      setType: "set_type",
+      rpe: "rpe",
+      headerUnit: lbs ? "lbs" : "kg",
+    };
+  }
+
+  if (has("Exercise Name") && has("Set Order")) {
+    return {
+      source: "strong",
+      workoutKey: "Date",
+      date: "Date",
+      title: "Workout Name",
+      workoutNotes: "Workout Notes",
+      exercise: "Exercise Name",
+      exerciseNotes: "Notes",
+      weight: "Weight",
+      weightUnit: has("Weight Unit") ? "Weight Unit" : undefined,
+      reps: "Reps",
+      setType: "Set Order",
+      rpe: has("RPE") ? "RPE" : undefined,
+    };
+  }
+
+  if (has("Exercise") && has("Category") && has("Date")) {
+    const weight =
+      headers.find((h) => /^weight( \((kgs?|lbs)\))?$/i.test(h)) ?? "Weight";
+    return {
+      source: "fitnotes",
+      workoutKey: "Date",
+      date: "Date",
+      exercise: "Exercise",
+      exerciseNotes: "Comment",
+      weight,
+      weightUnit: has("Weight Unit") ? "Weight Unit" : undefined,
+      reps: "Reps",
+      headerUnit: /lbs/i.test(weight)
+        ? "lbs"
+        : /kg/i.test(weight)
+          ? "kg"
+          : undefined,
+    };
+  }
+
+  return null;
+}
+
+// ─── Parse ────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse an export file into workouts. `fallbackUnit` is used when the file
+ * doesn't say which unit its weights are in (older Strong exports).
+ */
+export function parseImportFile(
+  text: string,
+  fallbackUnit: WeightUnit = "kg",
+): ParsedImport {
+  const [headerRow, ...rows] = parseCsv(text);
+  if (!headerRow) throw new Error("The file is empty.");
+
+  const headers = headerRow.map((h) => h.trim());
+  const layout = detectLayout(headers);
+  if (!layout) {
+    throw new Error(
+      "Unrecognised file. Export a CSV from Strong, Hevy or FitNotes and try again.",
+    );
+  }
+
+  const col = (row: string[], name?: string) => {
+    if (!name) return "";
+    const index = headers.indexOf(name);
+    return index === -1 ? "" : (row[index] ?? "").trim();
+  };
+
+  const workouts = new Map<string, ParsedWorkout>();
+  let skippedRows = 0;
+  let sourceUnit: WeightUnit = layout.headerUnit ?? fallbackUnit;
+
+  for (const row of rows) {
+    const date = parseDate(col(row, layout.date));
+    const name = col(row, layout.exercise);
+    const reps = Math.round(parseNumber(col(row, layout.reps)));
+
+    if (!date || !name || !(reps >= 1)) {
+      skippedRows++;
+      continue;
+    }
+
+    const rowUnit = col(row, layout.weightUnit).toLowerCase();
+    const unit: WeightUnit = rowUnit.startsWith("lb")
+      ? "lbs"
+      : rowUnit.startsWith("kg")
+        ? "kg"
+        : (layout.headerUnit ?? fallbackUnit);
+    if (rowUnit) sourceUnit = unit;
+
+    const rawWeight = parseNumber(col(row, layout.weight));
+    const weight = toKg(Number.isFinite(rawWeight) ? Math.max(0, rawWeight) : 0, unit);
+
+    const key = `${col(row, layout.workoutKey)}|${col(row, layout.title)}`;
+    let workout = workouts.get(key);
+    if (!workout) {
+      workout = {
+        date,
+        title: col(row, layout.title) || undefined,
+        notes: col(row, layout.workoutNotes) || undefined,
+        exercises: [],
+        duplicate: false,
+      };
+      workouts.set(key, workout);
+    }
+
+    // Consecutive rows of the same exercise are one exercise block
+    let exercise = workout.exercises[workout.exercises.length - 1];
+    if (!exercise || exercise.name !== name) {
+      exercise = {
+        name,
+        notes: col(row, layout.exerciseNotes) || undefined,
+        sets: [],
+      };
+      workout.exercises.push(exercise);
+    }
+    exercise.sets.push({
+      reps,
+      weight,
+      set_type: parseSetType(col(row, layout.setType)),
+      rpe: normaliseRpe(parseNumber(col(row, layout.rpe))),
+    });
+  }
+
+  return {
+    source: layout.source,
+    workouts: Array.from(workouts.values()).sort((a, b) =>
+      a.date.localeCompare(b.date),
+    ),
+    skippedRows,
+    sourceUnit,
+  };
+}
+
+// ─── Duplicate detection ──────────────────────────────────────────────────────
+
+const workoutKey = (date: string, title?: string | null) =>
+  `${date}|${(title ?? "").trim().toLowerCase()}`;
+
+/**
+ * Flag parsed workouts whose date + title already exist in the account. Paged,
+ * since several years of history runs past PostgREST's row cap.
+ */
+export async function markDuplicates(
+  workouts: ParsedWorkout[],
+): Promise<ParsedWorkout[]> {
+  if (workouts.length === 0) return workouts;
+
+  const userId = await getAuthUserId();
+  const dates = workouts.map((w) => w.date).sort();
+  const existing = new Set<string>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("workouts")
+      .select("date, title")
+      .eq("user_id", userId)
+      .gte("date", dates[0])
+      .lte("date", dates[dates.length - 1])
+      .order("date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("[import] markDuplicates error:", error.message);
+      throw error;
+    }
+
+    (data ?? []).forEach((w: { date: string; title: string | null }) =>
+      existing.add(workoutKey(w.date, w.title)),
+    );
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return workouts.map((w) => ({
+    ...w,
+    duplicate: existing.has(workoutKey(w.date, w.title)),
+  }));
+}
+
+// ─── Exercise matching ────────────────────────────────────────────────────────
+
+/** Letters and digits in any script, lowercased, single-spaced */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Lookup key for an exercise name. Names with no letters or digits (e.g. "—")
+ * normalize to "", so they fall back to the trimmed name rather than all
+ * sharing one key.
+ */
+function exerciseKey(name: string): string {
+  return normalizeName(name) || name.trim().toLowerCase();
+}
+
+function levenshtein(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+}
+
+/** 0–1 similarity: the better of edit-distance and shared-word overlap */
+export function nameSimilarity(a: string, b: string): number {
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  const editScore = 1 - levenshtein(na, nb) / Math.max(na.length, nb.length);
+
+  const wordsA = new Set(na.split(" "));
+  const wordsB = new Set(nb.split(" "));
+  const shared = [...wordsA].filter((w) => wordsB.has(w)).length;
+  const wordScore = shared / Math.max(wordsA.size, wordsB.size);
+
+  return Math.max(editScore, wordScore);
+}
+
+/** Names the user already logs under */
+export async function getKnownExerciseNames(): Promise<string[]> {
+  const exercises = await exerciseApi.getAll();
+
+  const byKey = new Map<string, string>();
+  exercises.forEach((e) => {
+    const key = exerciseKey(e.name);
+    if (key && !byKey.has(key)) byKey.set(key, e.name.trim());
+  });
+  return Array.from(byKey.values()).sort((a, b) => a.localeCompare(b));
+}
+
+export function matchExercises(
+  workouts: ParsedWorkout[],
+  knownNames: string[],
+): ExerciseMatch[] {
+  const setCounts = new Map<string, number>();
+  workouts.forEach((w) =>
+    w.exercises.forEach((ex) =>
+      setCounts.set(ex.name, (setCounts.get(ex.name) ?? 0) + ex.sets.length),
+    ),
+  );
+
+  return Array.from(setCounts.entries())
+    .map(([sourceName, setCount]): ExerciseMatch => {
+      let best = { name: sourceName.trim(), score: 0 };
+      for (const known of knownNames) {
+        const score = nameSimilarity(sourceName, known);
+        if (score > best.score) best = { name: known, score };
+      }
+
+      if (best.score === 1) {
+        return { sourceName, target: best.name, kind: "exact", score: 1, setCount };
+      }
+      if (best.score >= FUZZY_THRESHOLD) {
+        return { sourceName, target: best.name, kind: "fuzzy", score: best.score, setCount };
+      }
+      return { sourceName, target: sourceName.trim(), kind: "new", score: 0, setCount };
+    })
+    .sort((a, b) => a.sourceName.localeCompare(b.sourceName));
+}
+
+// ─── Commit ───────────────────────────────────────────────────────────────────
+
+/**
+ * Create the given workouts, logging each source exercise under its reviewed
+ * target name (creating exercises rows as needed).
+ */
+export async function importWorkouts(
+  workouts: ParsedWorkout[],
+  matches: ExerciseMatch[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<number> {
+  const targetBySource = new Map(
+    matches.map((m) => [m.sourceName, m.target.trim() || m.sourceName.trim()]),
+  );
+
+  // Resolve every target name to an exercises.id up front
+  const exerciseIds = new Map<string, string>();
+  (await exerciseApi.getAll()).forEach((e) =>
+    exerciseIds.set(exerciseKey(e.name), e.id),
+  );
+  for (const target of new Set(targetBySource.values())) {
+    const key = exerciseKey(target);
+    if (!exerciseIds.has(key)) {
+      const created = await exerciseApi.create(target);
+      exerciseIds.set(key, created.id);
+    }
+  }
+
+  let created = 0;
+  for (const workout of workouts) {
+    const input: CreateWorkoutInput = {
+      date: workout.date,
+      title: workout.title,
+      notes: workout.notes,
+      exercises: workout.exercises.map((ex) => ({
+        exercise_id: exerciseIds.get(
+          exerciseKey(targetBySource.get(ex.name) ?? ex.name),
+        )!,
+        notes: ex.notes,
+        sets: ex.sets,
+      })),
+    };
+
+    await workoutApi.create(input);
+    created++;
+    onProgress?.(created, workouts.length);
+  }
+
+  return created;
+}
@@ -0,0 +1,85 @@
+/**
+ * Muscle groups
+ *
+ * Tags live on each exercise: muscle_group is the primary muscle,
+ * secondary_muscles the ones an exercise also works. In weekly analytics a
+ * set counts fully towards its primary muscle and SECONDARY_SET_FACTOR
+ * towards each secondary one.
+ */
+
+import { storage } from "@/lib/storage";
+import type { WeeklyMuscleVolume } from "@/types";
+
+/** Suggestions for the muscle fields — any other name works too */
+export const MUSCLE_GROUPS = [
+  "Chest",
+  "Back",
+  "Shoulders",
+  "Biceps",
+  "Triceps",
+  "Forearms",
+  "Quads",
+  "Hamstrings",
+  "Glutes",
+  "Calves",
+  "Core",
+];
+
+export const SECONDARY_SET_FACTOR = 0.5;
+
+const SET_FLOOR_KEY = "muscle-set-floor";
+const DEFAULT_SET_FLOOR = 10;
+
+/** Floors offered in Settings; 0 turns the warnings off */
+export const SET_FLOOR_PRESETS = [0, 6, 8, 10, 12, 15, 20];
+
+/** "  rear delts " → "Rear Delts", matching initcap() in the RPC */
+export function normaliseMuscle(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+/** "triceps, front delts" → ["Triceps", "Front Delts"], without duplicates */
+export function parseMuscleList(value: string): string[] {
+  const muscles = value
+    .split(",")
+    .map(normaliseMuscle)
+    .filter((m) => m.length > 0);
+  return [...new Set(muscles)];
+}
+
+// ─── Weekly set floor ─────────────────────────────────────────────────────────
+
+/** Fewest weekly sets a trained muscle group should get before it's flagged */
+export function getStoredSetFloor(): number {
+  const stored = storage.get<number>(SET_FLOOR_KEY, DEFAULT_SET_FLOOR);
+  return Number.isFinite(stored) && stored >= 0 ? stored : DEFAULT_SET_FLOOR;
+}
+
+export function setStoredSetFloor(sets: number) {
+  storage.set(SET_FLOOR_KEY, Math.max(0, Math.round(sets)));
+}
+
+/**
+ * Muscle groups trained at some point in `weeks` that got fewer than `floor`
+ * sets in `week`, lowest first. Groups never trained aren't flagged — only
+ * the ones the user has tagged and is neglecting.
+ */
+export function findUndertrainedGroups(
+  weeks: WeeklyMuscleVolume[],
+  week: WeeklyMuscleVolume | undefined,
+  floor: number,
+): { muscle: string; sets: number }[] {
+  if (floor <= 0) return [];
+
+  const trained = new Set(weeks.flatMap((w) => w.groups.map((g) => g.muscle)));
+  return [...trained]
+    .map((muscle) => ({
+      muscle,
+      sets: week?.groups.find((g) => g.muscle === muscle)?.sets ?? 0,
+    }))
+    .filter((g) => g.sets < floor)
+    .sort((a, b) => a.sets - b.sets);
+}
@@ -0,0 +1,483 @@
+/**
+ * Offline Mutation Queue
+ *
+ * IndexedDB-backed queue for workout writes made without a connection. The
+ * Workbox NetworkFirst cache only helps reads; this covers the writes.
+ *
+ *  - Mutations are replayed strictly in the order they were queued.
+ *  - Before replaying a change to an existing workout, the server's
+ *    workouts.updated_at is compared with the value the user was editing. A
+ *    newer server copy is flagged as a conflict instead of being overwritten.
+ *  - A conflicted or failed mutation blocks later mutations for the same
+ *    workout until the user keeps or discards it.
+ *
+ * This module never talks to Supabase — api.ts registers the replay handlers.
+ */
+
+import { cardioColumns } from "@/lib/exerciseKinds";
+import { setTypeColumns } from "@/lib/setTypes";
+import type {
+  CreateWorkoutInput,
+  Exercise,
+  PendingMutation,
+  SaveWorkoutExerciseInput,
+  SetUpdateInput,
+  WorkoutSessionInput,
+  WorkoutWithExercises,
+} from "@/types";
+
+const DB_NAME = "gym-logbook-offline";
+const DB_VERSION = 1;
+const STORE = "mutations";
+
+// ─── IndexedDB helpers ────────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: "seq", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await getDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// ─── Change listeners ─────────────────────────────────────────────────────────
+
+const listeners = new Set<() => void>();
+
+export function subscribeToQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+// ─── Connectivity ─────────────────────────────────────────────────────────────
+
+export function isOffline(): boolean {
+  return typeof navigator !== "undefined" && !navigator.onLine;
+}
+
+/**
+ * True when an error means "the request never reached Supabase" rather than
+ * "Supabase rejected it". Only the former is safe to queue and retry.
+ */
+export function isOfflineError(err: unknown): boolean {
+  if (isOffline()) return true;
+  const message =
+    typeof err === "object" && err !== null && "message" in err
+      ? String((err as { message: unknown }).message)
+      : "";
+  return /failed to fetch|fetch failed|networkerror|load failed|network request failed/i.test(
+    message,
+  );
+}
+
+// ─── Queue CRUD ───────────────────────────────────────────────────────────────
+
+type Unqueued<M> = M extends PendingMutation
+  ? Omit<M, "seq" | "queuedAt" | "status">
+  : never;
+
+export type NewPendingMutation = Unqueued<PendingMutation>;
+
+export async function enqueueMutation(
+  mutation: NewPendingMutation,
+): Promise<void> {
+  await runRequest("readwrite", (store) =>
+    store.add({
+      ...mutation,
+      queuedAt: new Date().toISOString(),
+      status: "pending",
+    }),
+  );
+  notify();
+}
+
+/** All queued mutations in replay order. Never throws — reads must not break. */
+export async function getPendingMutations(): Promise<PendingMutation[]> {
+  if (typeof indexedDB === "undefined") return [];
+  try {
+    const rows = await runRequest("readonly", (store) => store.getAll());
+    return (rows as PendingMutation[]).sort((a, b) => a.seq - b.seq);
+  } catch (err) {
+    console.error("[offlineQueue] getPendingMutations error:", err);
+    return [];
+  }
+}
+
+export async function hasPendingMutations(workoutId: string): Promise<boolean> {
+  const mutations = await getPendingMutations();
+  return mutations.some((m) => m.workoutId === workoutId);
+}
+
+async function putMutation(mutation: PendingMutation): Promise<void> {
+  await runRequest("readwrite", (store) => store.put(mutation));
+}
+
+async function deleteMutation(seq: number): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(seq));
+}
+
+/** Drop a queued change (e.g. the user prefers the server copy after a conflict) */
+export async function discardMutation(seq: number): Promise<void> {
+  await deleteMutation(seq);
+  notify();
+}
+
+/** Re-queue a conflicted/failed change so the next flush overwrites the server */
+export async function overwriteMutation(seq: number): Promise<void> {
+  const mutations = await getPendingMutations();
+  const target = mutations.find((m) => m.seq === seq);
+  if (!target) return;
+  await putMutation({ ...target, status: "pending", force: true, error: undefined });
+  notify();
+}
+
+// ─── Replay ───────────────────────────────────────────────────────────────────
+
+export interface ReplayHandlers {
+  createWorkout(workoutId: string, input: CreateWorkoutInput): Promise<void>;
+  saveExercises(
+    workoutId: string,
+    exercises: SaveWorkoutExerciseInput[],
+  ): Promise<void>;
+  updateSet(setId: string, updates: SetUpdateInput): Promise<void>;
+  updateSession(workoutId: string, times: WorkoutSessionInput): Promise<void>;
+  /** Current server workouts.updated_at, or null if the workout is gone */
+  getUpdatedAt(workoutId: string): Promise<string | null>;
+}
+
+let handlers: ReplayHandlers | null = null;
+
+export function registerReplayHandlers(replayHandlers: ReplayHandlers): void {
+  handlers = replayHandlers;
+}
+
+export interface FlushResult {
+  replayed: number;
+  remaining: number;
+}
+
+let flushing: Promise<FlushResult> | null = null;
+
+/** Replay the queue. Concurrent calls share the same in-flight flush. */
+export function flushQueue(): Promise<FlushResult> {
+  if (!flushing) {
+    flushing = replayAll().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+function replayOne(h: ReplayHandlers, m: PendingMutation): Promise<void> {
+  switch (m.kind) {
+    case "workout.create":
+      return h.createWorkout(m.workoutId, m.payload);
+    case "workout.saveExercises":
+      return h.saveExercises(m.workoutId, m.payload);
+    case "set.update":
+      return h.updateSet(m.payload.setId, m.payload.updates);
+    case "workout.updateSession":
+      return h.updateSession(m.workoutId, m.payload);
+  }
+}
+
+async function replayAll(): Promise<FlushResult> {
+  const mutations = await getPendingMutations();
+  if (!handlers || isOffline()) {
+    return { replayed: 0, remaining: mutations.length };
+  }
+
+  // Workouts with an unresolved conflict/failure earlier in the queue
+  const blocked = new Set<string>();
+  let replayed = 0;
+
+  for (const m of mutations) {
+    if (m.status !== "pending" || blocked.has(m.workoutId)) {
+      blocked.add(m.workoutId);
+      continue;
+    }
+
+    try {
+      const base = m.baseUpdatedAt;
+      if (!m.force && base !== null) {
+        const serverUpdatedAt = await handlers.getUpdatedAt(m.workoutId);
+        const conflict =
+          serverUpdatedAt === null
+            ? "This workout was deleted on another device."
+            : new Date(serverUpdatedAt).getTime() > new Date(base).getTime()
+              ? "This workout was changed on another device while you were offline."
+              : null;
+
+        if (conflict) {
+          await putMutation({ ...m, status: "conflict", error: conflict });
+          blocked.add(m.workoutId);
+          continue;
+        }
+      }
+
+      await replayOne(handlers, m);
+      await deleteMutation(m.seq);
+      replayed++;
+    } catch (err) {
+      // Connection dropped again — keep everything for the next flush
+      if (isOfflineError(err)) break;
+
+      const message = err instanceof Error ? err.message : "Sync failed";
+      console.error("[offlineQueue] replay error:", message);
+      await putMutation({ ...m, status: "failed", error: message });
+      blocked.add(m.workoutId);
+      continue;
+    }
+
+    // The write is applied and off the queue, so a failed read here must not
+    // mark it failed — the workout's later entries wait for the next flush
+    try {
+      await rebaseLaterMutations(
+        mutations,
+        m,
+        await handlers.getUpdatedAt(m.workoutId),
+      );
+    } catch (err) {
+      if (isOfflineError(err)) break;
+
+      const message = err instanceof Error ? err.message : "Sync failed";
+      console.error("[offlineQueue] updated_at error:", message);
+      blocked.add(m.workoutId);
+    }
+  }
+
+  notify();
+  const remaining = (await getPendingMutations()).length;
+  return { replayed, remaining };
+}
+
+/**
+ * After replaying `applied`, point the workout's later entries at the server
+ * copy our own write produced, both in the list being replayed and in
+ * IndexedDB. A flush interrupted here then doesn't read our write as a change
+ * from another device next time.
+ */
+async function rebaseLaterMutations(
+  mutations: PendingMutation[],
+  applied: PendingMutation,
+  updatedAt: string | null,
+): Promise<void> {
+  for (let i = 0; i < mutations.length; i++) {
+    const m = mutations[i];
+    if (m.workoutId !== applied.workoutId || m.seq <= applied.seq) continue;
+    mutations[i] = { ...m, baseUpdatedAt: updatedAt };
+    await putMutation(mutations[i]);
+  }
+}
+
+// ─── Optimistic views ─────────────────────────────────────────────────────────
+// Reads merge queued writes into server data so screens show what the user
+// entered, not what the server last saw.
+
+const PENDING_ID_PREFIX = "pending-";
+
+/** True for placeholder ids of rows that only exist in the queue */
+export function isPendingId(id: string): boolean {
+  return id.startsWith(PENDING_ID_PREFIX);
+}
+
+/** Stand-in for an exercise the server hasn't resolved yet */
+function placeholderExercise(
+  fields: Pick<Exercise, "id" | "user_id" | "name" | "created_at">,
+): Exercise {
+  return {
+    ...fields,
+    kind: "weight_reps",
+    muscle_group: null,
+    secondary_muscles: [],
+    default_reps: 10,
+    default_weight: 0,
+    usage_count: 0,
+    last_used_at: null,
+  };
+}
+
+/** Apply queued exercise/set edits for this workout on top of server data */
+export function applyPendingMutations(
+  workout: WorkoutWithExercises,
+  mutations: PendingMutation[],
+): WorkoutWithExercises {
+  let result = workout;
+
+  for (const m of mutations) {
+    if (m.workoutId !== workout.id) continue;
+
+    if (m.kind === "workout.saveExercises") {
+      const current = result;
+      result = {
+        ...current,
+        workout_exercises: m.payload
+          .filter((ex) => ex.workoutExerciseId || ex.name.trim())
+          .map((ex, i) => {
+            const existing = current.workout_exercises.find(
+              (we) => we.id === ex.workoutExerciseId,
+            );
+            const weId = ex.workoutExerciseId ?? `${PENDING_ID_PREFIX}${ex.clientId}`;
+            return {
+              id: weId,
+              workout_id: current.id,
+              exercise_id: existing?.exercise_id ?? "",
+              exercise:
+                existing?.exercise ??
+                placeholderExercise({
+                  id: "",
+                  user_id: current.user_id,
+                  name: ex.name.trim(),
+                  created_at: m.queuedAt,
+                }),
+              notes: existing?.notes,
+              order_index: i,
+              superset_group: ex.superset_group ?? null,
+              created_at: existing?.created_at ?? m.queuedAt,
+              // Queued sets are replaced on replay, even on a saved exercise
+              sets: ex.sets.map((s, j) => ({
+                id: `${PENDING_ID_PREFIX}${weId}-${j}`,
+                workout_exercise_id: weId,
+                reps: s.reps,
+                weight: s.weight,
+                ...setTypeColumns(s),
+                ...cardioColumns(s),
+                order_index: j,
+                completed_at: s.completed_at ?? null,
+                created_at: m.queuedAt,
+              })),
+            };
+          }),
+      };
+    } else if (m.kind === "workout.updateSession") {
+      result = { ...result, ...m.payload };
+    } else if (m.kind === "set.update") {
+      const { setId, updates } = m.payload;
+      result = {
+        ...result,
+        workout_exercises: result.workout_exercises.map((we) => ({
+          ...we,
+          sets: we.sets.map((s) => (s.id === setId ? { ...s, ...updates } : s)),
+        })),
+      };
+    }
+  }
+
+  return result;
+}
+
+/** Synthesize a workout that so far only exists in the queue */
+export function buildPendingWorkout(
+  workoutId: string,
+  mutations: PendingMutation[],
+): WorkoutWithExercises | null {
+  const create = mutations.find(
+    (m) => m.kind === "workout.create" && m.workoutId === workoutId,
+  );
+  if (!create || create.kind !== "workout.create") return null;
+
+  const input = create.payload;
+  const base: WorkoutWithExercises = {
+    id: workoutId,
+    user_id: "",
+    date: input.date,
+    title: input.title,
+    notes: input.notes,
+    created_at: create.queuedAt,
+    updated_at: create.queuedAt,
+    workout_exercises: input.exercises.map((ex, i) => {
+      const weId = `${PENDING_ID_PREFIX}${workoutId}-${i}`;
+      return {
+        id: weId,
+        workout_id: workoutId,
+        exercise_id: ex.exercise_id,
+        exercise: placeholderExercise({
+          id: ex.exercise_id,
+          user_id: "",
+          name: "",
+          created_at: create.queuedAt,
+        }),
+        notes: ex.notes,
+        order_index: i,
+        superset_group: null,
+        created_at: create.queuedAt,
+        sets: ex.sets.map((s, j) => ({
+          id: `${weId}-${j}`,
+          workout_exercise_id: weId,
+          reps: s.reps,
+          weight: s.weight,
+          ...setTypeColumns(s),
+          ...cardioColumns(s),
+          order_index: j,
+          created_at: create.queuedAt,
+        })),
+      };
+    }),
+  };
+
+  return applyPendingMutations(base, mutations);
+}
+
+/**
+ * Overlay queued edits onto fetched workouts and append queued creates whose
+ * date falls within [startDate, endDate] (YYYY-MM-DD, either bound optional).
+ */
+export function mergePendingWorkouts(
+  workouts: WorkoutWithExercises[],
+  mutations: PendingMutation[],
+  startDate?: string,
+  endDate?: string,
+): WorkoutWithExercises[] {
+  if (mutations.length === 0) return workouts;
+
+  const merged = workouts.map((w) => applyPendingMutations(w, mutations));
+  const knownIds = new Set(merged.map((w) => w.id));
+
+  for (const m of mutations) {
+    if (m.kind !== "workout.create" || knownIds.has(m.workoutId)) continue;
+    if (startDate && m.payload.date < startDate) continue;
+    if (endDate && m.payload.date > endDate) continue;
+
+    const pending = buildPendingWorkout(m.workoutId, mutations);
+    if (pending) {
+      merged.push(pending);
+      knownIds.add(m.workoutId);
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,42 @@
+/**
+ * Estimated one-rep max (e1RM)
+ *
+ * Lets sets of different rep counts be compared on one scale — 100kg×8
+ * estimates higher than 102kg×1. Mirrors public.estimate_one_rep_max() in
+ * supabase/migrations/20261018000002_e1rm_analytics.sql; keep the two in sync.
+ */
+
+import { storage } from "@/lib/storage";
+import type { OneRepMaxFormula } from "@/types";
+
+export const ONE_REP_MAX_FORMULAS: Record<OneRepMaxFormula, string> = {
+  epley: "Epley",
+  brzycki: "Brzycki",
+};
+
+const FORMULA_KEY = "e1rm-formula";
+
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = "epley",
+): number {
+  if (reps <= 0 || weight <= 0) return 0;
+  if (reps === 1) return weight;
+
+  const estimate =
+    formula === "brzycki"
+      ? (weight * 36) / (37 - Math.min(reps, 36))
+      : weight * (1 + reps / 30);
+
+  return Math.round(estimate * 10) / 10;
+}
+
+export function getStoredOneRepMaxFormula(): OneRepMaxFormula {
+  const stored = storage.get<string>(FORMULA_KEY, "epley");
+  return stored === "brzycki" ? "brzycki" : "epley";
+}
+
+export function setStoredOneRepMaxFormula(formula: OneRepMaxFormula) {
+  storage.set(FORMULA_KEY, formula);
+}
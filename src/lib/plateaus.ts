@@ -0,0 +1,200 @@
+/**
+ * Plateau detection
+ *
+ * Each lift's history is bucketed into weeks (Monday start) and the best
+ * working-set e1RM per week compared. e1RM rises with weight or reps, so a
+ * lift still climbing reps under double progression isn't flagged. A lift
+ * is a plateau when its best week is PLATEAU_WEEKS or more behind with at
+ * least MIN_WEEKS_SINCE_BEST training weeks since; a regression when the
+ * latest weeks sit REGRESSION_PERCENT or more under that best. Lifts not
+ * trained in the last STALE_DAYS are skipped.
+ *
+ * Fixes are applied to a week template: a deload marks the lift so the next
+ * week generated from it is DEFAULT_DELOAD_PERCENT (or a chosen percentage)
+ * lighter, a variation swap replaces it with another exercise. The deloaded
+ * session is recorded as scaled, so the week after carries over the weight
+ * from before the deload rather than the lighter one.
+ */
+
+import type { ExerciseHistoryRow } from "@/lib/analyticsService";
+import { estimateOneRepMax } from "@/lib/oneRepMax";
+import { countsTowardStats } from "@/lib/setTypes";
+import { isCardioKind } from "@/lib/exerciseKinds";
+import type {
+  Exercise,
+  OneRepMaxFormula,
+  PlateauFlag,
+  SaveDayInput,
+} from "@/types";
+import {
+  differenceInCalendarDays,
+  differenceInCalendarWeeks,
+  format,
+  parseISO,
+  startOfWeek,
+  subWeeks,
+} from "date-fns";
+
+export const PLATEAU_WEEKS = 4;
+export const REGRESSION_PERCENT = 5;
+export const LOOKBACK_WEEKS = 12;
+const MIN_WEEKS_SINCE_BEST = 3;
+const RECENT_WEEKS = 2;
+const STALE_DAYS = 14;
+
+/** Offered in the fix dialog; weights drop by this percentage */
+export const DELOAD_PRESETS = [10, 15, 20];
+export const DEFAULT_DELOAD_PERCENT = 10;
+
+interface WeekBest {
+  week: string;
+  e1rm: number;
+  weight: number;
+}
+
+function weeklyBests(
+  rows: ExerciseHistoryRow[],
+  formula: OneRepMaxFormula,
+): WeekBest[] {
+  const byWeek = new Map<string, WeekBest>();
+  for (const row of rows) {
+    if (!countsTowardStats(row) || row.weight <= 0 || row.reps <= 0) continue;
+    const week = format(
+      startOfWeek(parseISO(row.workout_date), { weekStartsOn: 1 }),
+      "yyyy-MM-dd",
+    );
+    const e1rm = estimateOneRepMax(row.weight, row.reps, formula);
+    const best = byWeek.get(week) ?? { week, e1rm: 0, weight: 0 };
+    best.e1rm = Math.max(best.e1rm, e1rm);
+    best.weight = Math.max(best.weight, row.weight);
+    byWeek.set(week, best);
+  }
+  return [...byWeek.values()].sort((a, b) => a.week.localeCompare(b.week));
+}
+
+/** A plateau or regression for one lift, or null while it's progressing */
+export function detectPlateau(
+  exerciseName: string,
+  rows: ExerciseHistoryRow[],
+  formula: OneRepMaxFormula,
+  today: Date = new Date(),
+): PlateauFlag | null {
+  const lastDate = rows.reduce(
+    (latest, r) => (r.workout_date > latest ? r.workout_date : latest),
+    "",
+  );
+  if (!lastDate) return null;
+  if (differenceInCalendarDays(today, parseISO(lastDate)) > STALE_DAYS) {
+    return null;
+  }
+
+  const since = format(
+    subWeeks(startOfWeek(today, { weekStartsOn: 1 }), LOOKBACK_WEEKS),
+    "yyyy-MM-dd",
+  );
+  const weeks = weeklyBests(rows, formula).filter((w) => w.week >= since);
+  if (weeks.length <= MIN_WEEKS_SINCE_BEST) return null;
+
+  // Earliest week at the top e1RM, so a repeat of the best still counts
+  const best = weeks.reduce((top, w) => (w.e1rm > top.e1rm ? w : top));
+  const recent = weeks.slice(-RECENT_WEEKS);
+  const recentE1RM = Math.max(...recent.map((w) => w.e1rm));
+  const recentWeight = Math.max(...recent.map((w) => w.weight));
+  const weeksAfterBest = weeks.filter((w) => w.week > best.week).length;
+  const weeksSinceBest = differenceInCalendarWeeks(today, parseISO(best.week), {
+    weekStartsOn: 1,
+  });
+
+  const regressed =
+    weeksAfterBest >= RECENT_WEEKS &&
+    recentE1RM < best.e1rm * (1 - REGRESSION_PERCENT / 100);
+  const stalled =
+    weeksAfterBest >= MIN_WEEKS_SINCE_BEST && weeksSinceBest >= PLATEAU_WEEKS;
+  if (!regressed && !stalled) return null;
+
+  return {
+    exerciseName,
+    status: regressed ? "regression" : "plateau",
+    bestE1RM: Math.round(best.e1rm * 10) / 10,
+    bestWeek: best.week,
+    recentE1RM: Math.round(recentE1RM * 10) / 10,
+    bestWeight: best.weight,
+    recentWeight,
+    weeksSinceBest,
+    lastDate,
+  };
+}
+
+/** Regressions first, then the longest-stalled */
+export function sortPlateaus(flags: PlateauFlag[]): PlateauFlag[] {
+  return [...flags].sort(
+    (a, b) =>
+      Number(b.status === "regression") - Number(a.status === "regression") ||
+      b.weeksSinceBest - a.weeksSinceBest,
+  );
+}
+
+// ─── Template fixes ───────────────────────────────────────────────────────────
+
+function matches(name: string, exerciseName: string): boolean {
+  return name.trim().toLowerCase() === exerciseName.trim().toLowerCase();
+}
+
+/**
+ * Every occurrence of the lift in the template marked for a one-off deload.
+ * The template's own weights stay as written — generation applies the cut.
+ */
+export function scheduleDeload(
+  days: SaveDayInput[],
+  exerciseName: string,
+  percent: number,
+): SaveDayInput[] {
+  return days.map((day) => ({
+    ...day,
+    exercises: day.exercises.map((ex) =>
+      matches(ex.name, exerciseName) ? { ...ex, deload_percent: percent } : ex,
+    ),
+  }));
+}
+
+/**
+ * Every occurrence of the lift replaced by `variation`, keeping its sets and
+ * superset. The progression rule is dropped — it was tuned to the old lift.
+ */
+export function swapExercise(
+  days: SaveDayInput[],
+  exerciseName: string,
+  variation: string,
+): SaveDayInput[] {
+  return days.map((day) => ({
+    ...day,
+    exercises: day.exercises.map((ex) =>
+      matches(ex.name, exerciseName)
+        ? {
+            ...ex,
+            name: variation.trim(),
+            progression: null,
+            deload_percent: null,
+          }
+        : ex,
+    ),
+  }));
+}
+
+/** Library lifts for the same primary muscle, most used first */
+export function variationSuggestions(
+  exerciseName: string,
+  library: Exercise[],
+): string[] {
+  const current = library.find((e) => matches(e.name, exerciseName));
+  if (!current?.muscle_group) return [];
+  return library
+    .filter(
+      (e) =>
+        e.id !== current.id &&
+        e.muscle_group === current.muscle_group &&
+        !isCardioKind(e.kind),
+    )
+    .sort((a, b) => b.usage_count - a.usage_count)
+    .map((e) => e.name);
+}
@@ -0,0 +1,184 @@
+/**
+ * Plates
+ *
+ * Works out how to load a barbell from the user's plate inventory and snaps
+ * weights to totals that can actually be loaded. The bar and plates are in
+ * plate_unit (plates are stamped in one unit); everything going in and out
+ * of this module is kg, like the rest of the app.
+ */
+
+import { storage } from "@/lib/storage";
+import { kgToLbs, lbsToKg } from "@/lib/units";
+import type {
+  PlateLoad,
+  PlateSettings,
+  WeightRounding,
+  WeightUnit,
+} from "@/types";
+
+export const DEFAULT_PLATE_SETTINGS: Record<WeightUnit, PlateSettings> = {
+  kg: {
+    plate_unit: "kg",
+    bar_weight: 20,
+    plates: [
+      { weight: 25, pairs: 4 },
+      { weight: 20, pairs: 1 },
+      { weight: 15, pairs: 1 },
+      { weight: 10, pairs: 1 },
+      { weight: 5, pairs: 1 },
+      { weight: 2.5, pairs: 1 },
+      { weight: 1.25, pairs: 1 },
+    ],
+    weight_rounding: "off",
+  },
+  lbs: {
+    plate_unit: "lbs",
+    bar_weight: 45,
+    plates: [
+      { weight: 45, pairs: 4 },
+      { weight: 35, pairs: 1 },
+      { weight: 25, pairs: 1 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 1 },
+      { weight: 2.5, pairs: 1 },
+    ],
+    weight_rounding: "off",
+  },
+};
+
+export const WEIGHT_ROUNDING: Record<WeightRounding, string> = {
+  off: "Off — keep exact weights",
+  nearest: "Nearest loadable weight",
+  down: "Round down to loadable",
+};
+
+// Plate weights are worked in hundredths so 1.25 / 2.5 add up exactly
+const SCALE = 100;
+const PLATES_KEY = "plate-settings";
+
+// ─── Loadable totals ──────────────────────────────────────────────────────────
+
+/** Per-side sum (in hundredths) → fewest plates making it, heaviest first */
+type SideLoads = Map<number, number[]>;
+
+const sideLoadsCache = new WeakMap<PlateSettings, SideLoads>();
+
+/**
+ * Every per-side load the inventory can make. A bounded knapsack over one
+ * plate of each pair, keeping the combination with the fewest plates.
+ */
+function getSideLoads(settings: PlateSettings): SideLoads {
+  const cached = sideLoadsCache.get(settings);
+  if (cached) return cached;
+
+  const plates = settings.plates
+    .filter((p) => p.weight > 0 && p.pairs > 0)
+    .flatMap((p) =>
+      Array<number>(Math.floor(p.pairs)).fill(Math.round(p.weight * SCALE)),
+    )
+    .sort((a, b) => b - a);
+
+  const max = plates.reduce((sum, w) => sum + w, 0);
+  const best: (number[] | undefined)[] = new Array(max + 1);
+  best[0] = [];
+
+  for (const plate of plates) {
+    for (let sum = max; sum >= plate; sum--) {
+      const without = best[sum - plate];
+      if (!without) continue;
+      const current = best[sum];
+      if (!current || without.length + 1 < current.length) {
+        best[sum] = [...without, plate];
+      }
+    }
+  }
+
+  const loads: SideLoads = new Map();
+  best.forEach((combo, sum) => {
+    if (combo) loads.set(sum, combo);
+  });
+  sideLoadsCache.set(settings, loads);
+  return loads;
+}
+
+function toPlateUnit(kg: number, settings: PlateSettings): number {
+  return settings.plate_unit === "lbs" ? kgToLbs(kg) : kg;
+}
+
+function fromPlateUnit(value: number, settings: PlateSettings): number {
+  return settings.plate_unit === "lbs"
+    ? lbsToKg(value)
+    : Math.round(value * SCALE) / SCALE;
+}
+
+/**
+ * Heaviest load of the bar that doesn't go over `targetKg`. Targets lighter
+ * than the empty bar come back as just the bar, not exact.
+ */
+export function calculatePlates(
+  targetKg: number,
+  settings: PlateSettings,
+): PlateLoad {
+  const target = toPlateUnit(targetKg, settings);
+  const bar = settings.bar_weight;
+  // Half a hundredth of slack absorbs kg ↔ lbs conversion noise
+  const perSide = Math.floor(((target - bar) / 2) * SCALE + 0.5);
+  const loads = getSideLoads(settings);
+
+  let side = 0;
+  for (const sum of loads.keys()) {
+    if (sum <= perSide && sum > side) side = sum;
+  }
+
+  const total = bar + (2 * side) / SCALE;
+  return {
+    target: Math.round(target * SCALE) / SCALE,
+    total,
+    perSide: (loads.get(side) ?? []).map((w) => w / SCALE),
+    exact: Math.abs(total - target) < 0.01,
+  };
+}
+
+/**
+ * Snap a generated weight to a loadable total. Weights under the empty bar
+ * are left alone — they're dumbbell or machine work, not a barbell load.
+ */
+export function snapToLoadable(
+  kg: number,
+  settings: PlateSettings,
+  mode: WeightRounding = settings.weight_rounding,
+): number {
+  if (mode === "off") return kg;
+
+  const target = toPlateUnit(kg, settings);
+  if (target < settings.bar_weight) return kg;
+
+  const down = calculatePlates(kg, settings);
+  if (down.exact || mode === "down") return fromPlateUnit(down.total, settings);
+
+  const perSide = ((target - settings.bar_weight) / 2) * SCALE;
+  let up: number | null = null;
+  for (const sum of getSideLoads(settings).keys()) {
+    if (sum > perSide && (up === null || sum < up)) up = sum;
+  }
+  if (up === null) return fromPlateUnit(down.total, settings);
+
+  const upTotal = settings.bar_weight + (2 * up) / SCALE;
+  // Ties go down — the lighter weight is the safer guess
+  return fromPlateUnit(
+    upTotal - target < target - down.total ? upTotal : down.total,
+    settings,
+  );
+}
+
+// ─── Local cache ──────────────────────────────────────────────────────────────
+// The inventory lives in user_settings; the cached copy keeps the calculator
+// usable offline.
+
+export function getStoredPlateSettings(unit: WeightUnit): PlateSettings {
+  return storage.get<PlateSettings>(PLATES_KEY, DEFAULT_PLATE_SETTINGS[unit]);
+}
+
+export function setStoredPlateSettings(settings: PlateSettings) {
+  storage.set(PLATES_KEY, settings);
+}
@@ -0,0 +1,221 @@
+/**
+ * Program Service Layer
+ *
+ * CRUD for programs → program_weeks, plus scheduling: each program week is
+ * turned into real workouts by generateWeekFromTemplate, scaled to the week's
+ * intensity. Week n of a program starts start_date + 7n days.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type {
+  Program,
+  ProgramWeek,
+  ProgramWithWeeks,
+  SaveProgramWeekInput,
+} from "@/types";
+import { getAuthUserId } from "@/lib/analyticsService";
+import { generateWeekFromTemplate } from "@/lib/weekTemplateService";
+import { addWeeks, differenceInCalendarDays, parseISO } from "date-fns";
+
+function sortWeeks(program: ProgramWithWeeks): ProgramWithWeeks {
+  return {
+    ...program,
+    program_weeks: [...(program.program_weeks ?? [])].sort(
+      (a, b) => a.week_index - b.week_index,
+    ),
+  };
+}
+
+// ─── Week arithmetic ──────────────────────────────────────────────────────────
+
+/** Monday of a program week */
+export function getProgramWeekStart(
+  program: Pick<Program, "start_date">,
+  weekIndex: number,
+): Date {
+  return addWeeks(parseISO(program.start_date), weekIndex);
+}
+
+/**
+ * 0-based index of the week `today` falls in — negative before the program
+ * starts, ≥ weekCount once it has finished.
+ */
+export function getCurrentWeekIndex(
+  program: Pick<Program, "start_date">,
+  today: Date = new Date(),
+): number {
+  return Math.floor(
+    differenceInCalendarDays(today, parseISO(program.start_date)) / 7,
+  );
+}
+
+/**
+ * Week template of the program week running today — the one training is
+ * following right now. The earliest-started program wins if several overlap.
+ */
+export function findActiveWeekTemplateId(
+  programs: ProgramWithWeeks[],
+  today: Date = new Date(),
+): string | null {
+  const running = [...programs]
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+    .map((program) => {
+      const index = getCurrentWeekIndex(program, today);
+      return program.program_weeks.find((w) => w.week_index === index);
+    })
+    .find((week) => week?.week_template_id);
+  return running?.week_template_id ?? null;
+}
+
+// ─── List all programs (with weeks) ───────────────────────────────────────────
+
+export async function getAllPrograms(): Promise<ProgramWithWeeks[]> {
+  const userId = await getAuthUserId();
+
+  const { data, error } = await supabase
+    .from("programs")
+    .select("*, program_weeks (*)")
+    .eq("user_id", userId)
+    .order("start_date", { ascending: false });
+
+  if (error) {
+    console.error("[programService] getAllPrograms error:", error.message);
+    throw error;
+  }
+  return ((data ?? []) as ProgramWithWeeks[]).map(sortWeeks);
+}
+
+// ─── Get single program ───────────────────────────────────────────────────────
+
+export async function getProgramById(id: string): Promise<ProgramWithWeeks> {
+  const { data, error } = await supabase
+    .from("programs")
+    .select("*, program_weeks (*)")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    console.error("[programService] getProgramById error:", error.message);
+    throw error;
+  }
+  return sortWeeks(data as ProgramWithWeeks);
+}
+
+// ─── Create empty program ─────────────────────────────────────────────────────
+
+export async function createProgram(
+  name: string,
+  startDate: string,
+): Promise<Program> {
+  const userId = await getAuthUserId();
+
+  const { data, error } = await supabase
+    .from("programs")
+    .insert({ user_id: userId, name, start_date: startDate })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[programService] createProgram error:", error.message);
+    throw error;
+  }
+  return data;
+}
+
+// ─── Save full program (replace weeks) ────────────────────────────────────────
+
+/**
+ * Updates name/start date and re-inserts every week in order, in one
+ * save_program transaction. scheduled_at is carried in the input so
+ * already-scheduled weeks stay marked.
+ */
+export async function saveProgramFull(
+  programId: string,
+  name: string,
+  startDate: string,
+  weeks: SaveProgramWeekInput[],
+): Promise<void> {
+  const { error } = await supabase.rpc("save_program", {
+    p_program_id: programId,
+    p_name: name,
+    p_start_date: startDate,
+    p_weeks: weeks.map((w) => ({
+      week_template_id: w.week_template_id,
+      label: w.label?.trim() || null,
+      intensity_percent: Math.round(w.intensity_percent),
+      scheduled_at: w.scheduled_at,
+    })),
+  });
+
+  if (error) {
+    console.error("[programService] saveProgramFull error:", error.message);
+    throw error;
+  }
+}
+
+// ─── Delete program ───────────────────────────────────────────────────────────
+
+/** Removes the plan only — workouts it already scheduled are kept */
+export async function deleteProgram(id: string): Promise<void> {
+  const { error } = await supabase.from("programs").delete().eq("id", id);
+
+  if (error) {
+    console.error("[programService] deleteProgram error:", error.message);
+    throw error;
+  }
+}
+
+// ─── Schedule weeks into real workouts ────────────────────────────────────────
+
+/** Generates one program week's workouts and marks it scheduled */
+export async function scheduleProgramWeek(
+  program: Program,
+  week: ProgramWeek,
+): Promise<string[]> {
+  if (!week.week_template_id) {
+    throw new Error(`Week ${week.week_index + 1} has no week template`);
+  }
+
+  const ids = await generateWeekFromTemplate(
+    week.week_template_id,
+    getProgramWeekStart(program, week.week_index),
+    {
+      intensityPercent: week.intensity_percent,
+      titleSuffix: `${program.name} W${week.week_index + 1}${
+        week.label ? ` (${week.label})` : ""
+      }`,
+    },
+  );
+
+  const { error } = await supabase
+    .from("program_weeks")
+    .update({ scheduled_at: new Date().toISOString() })
+    .eq("id", week.id);
+
+  if (error) {
+    console.error(
+      "[programService] scheduleProgramWeek mark error:",
+      error.message,
+    );
+    throw error;
+  }
+
+  return ids;
+}
+
+/**
+ * Schedules every unscheduled week that has a template, in order. Weeks are
+ * prescribed from today's history, so progression rules only advance once;
+ * schedule week by week to let them react to each logged week.
+ */
+export async function scheduleProgram(
+  program: ProgramWithWeeks,
+): Promise<number> {
+  let created = 0;
+  for (const week of program.program_weeks) {
+    if (week.scheduled_at || !week.week_template_id) continue;
+    const ids = await scheduleProgramWeek(program, week);
+    created += ids.length;
+  }
+  return created;
+}
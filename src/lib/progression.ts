@@ -0,0 +1,138 @@
+/**
+ * Progression rules
+ *
+ * Works out the next prescribed sets for a template exercise from the
+ * sessions actually logged for it. Pure functions — weekTemplateService
+ * fetches the history and inserts the result.
+ *
+ * Only "top" sets progress: warm-ups and drop sets keep their template
+ * weight and reps, and are ignored when judging whether a session hit.
+ */
+
+import type {
+  ProgressionRule,
+  ProgressionType,
+  SaveSetInput,
+  SetType,
+} from "@/types";
+
+export const PROGRESSION_TYPES: Record<ProgressionType, string> = {
+  linear: "Linear",
+  double: "Double progression",
+};
+
+export const DEFAULT_PROGRESSION: Record<ProgressionType, ProgressionRule> = {
+  linear: {
+    type: "linear",
+    increment: 2.5,
+    min_reps: 5,
+    max_reps: 5,
+    deload_after: 3,
+    deload_percent: 10,
+  },
+  double: {
+    type: "double",
+    increment: 2.5,
+    min_reps: 8,
+    max_reps: 12,
+    deload_after: 3,
+    deload_percent: 10,
+  },
+};
+
+/** One logged workout of the exercise — sets in the order performed */
+export interface ProgressionSession {
+  date: string;
+  sets: { reps: number; weight: number; set_type: SetType }[];
+}
+
+function isTopSet(set: { set_type?: SetType }): boolean {
+  const type = set.set_type ?? "working";
+  return type !== "warmup" && type !== "drop";
+}
+
+function roundWeight(kg: number): number {
+  return Math.max(0, Math.round(kg * 100) / 100);
+}
+
+/** Every top set in the session reached its target reps */
+function sessionHit(
+  session: ProgressionSession,
+  targetReps: (index: number) => number,
+): boolean {
+  const top = session.sets.filter(isTopSet);
+  return top.length > 0 && top.every((s, i) => s.reps >= targetReps(i));
+}
+
+/**
+ * Next sets for a template exercise. `sessions` is newest first; with no
+ * usable history the template sets come back unchanged.
+ */
+export function prescribeSets(
+  templateSets: SaveSetInput[],
+  rule: ProgressionRule,
+  sessions: ProgressionSession[],
+): SaveSetInput[] {
+  const templateTop = templateSets.filter(isTopSet);
+  const lastTop = sessions[0]?.sets.filter(isTopSet) ?? [];
+  if (templateTop.length === 0 || lastTop.length === 0) return templateSets;
+
+  const maxReps = Math.max(rule.min_reps, rule.max_reps);
+  const templateReps = (i: number) =>
+    templateTop[Math.min(i, templateTop.length - 1)].reps;
+  const successReps = rule.type === "double" ? () => maxReps : templateReps;
+  const minimumReps =
+    rule.type === "double" ? () => rule.min_reps : templateReps;
+
+  let missed = 0;
+  while (
+    missed < sessions.length &&
+    !sessionHit(sessions[missed], minimumReps)
+  ) {
+    missed++;
+  }
+
+  const lastWeight = Math.max(...lastTop.map((s) => s.weight));
+  const deload = rule.deload_after > 0 && missed >= rule.deload_after;
+  const progressed = !deload && sessionHit(sessions[0], successReps);
+
+  const weight = deload
+    ? roundWeight(lastWeight * (1 - rule.deload_percent / 100))
+    : progressed
+      ? roundWeight(lastWeight + rule.increment)
+      : lastWeight;
+
+  let topIndex = 0;
+  return templateSets.map((set) => {
+    if (!isTopSet(set)) return set;
+    const i = topIndex++;
+
+    let reps = set.reps;
+    if (rule.type === "double") {
+      const lastReps = lastTop[Math.min(i, lastTop.length - 1)].reps;
+      reps =
+        deload || progressed
+          ? rule.min_reps
+          : Math.min(maxReps, Math.max(rule.min_reps, lastReps + 1));
+    }
+
+    return { ...set, reps, weight };
+  });
+}
+
+/** How many recent sessions prescribeSets needs to see */
+export function sessionsNeeded(rule: ProgressionRule): number {
+  return Math.max(1, rule.deload_after);
+}
+
+/** Weights scaled to a program week's intensity — 100 leaves them as is */
+export function scaleSets(
+  sets: SaveSetInput[],
+  intensityPercent: number,
+): SaveSetInput[] {
+  if (intensityPercent === 100) return sets;
+  return sets.map((s) => ({
+    ...s,
+    weight: roundWeight((s.weight * intensityPercent) / 100),
+  }));
+}
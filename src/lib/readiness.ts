@@ -0,0 +1,229 @@
+/**
+ * Readiness and workload
+ *
+ * Session load is session RPE × minutes, in arbitrary units. The acute:chronic
+ * workload ratio (ACWR) compares the last 7 days with the weekly average of
+ * the last 28; around 0.8–1.3 is the usual sweet spot and above 1.5 is a
+ * spike worth backing off from. Weekly tonnage gets the same ratio over whole
+ * weeks. Together with the pre-session check-ins these drive the
+ * overreaching warnings on Home and Analytics.
+ */
+
+import type {
+  AcwrZone,
+  FatigueSummary,
+  FatigueWarning,
+  SessionLoad,
+  WeeklyVolumeSummary,
+  WorkloadRatio,
+} from "@/types";
+import {
+  addWeeks,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfWeek,
+} from "date-fns";
+
+export const ACUTE_DAYS = 7;
+export const CHRONIC_WEEKS = 4;
+/** Days of history a ratio needs before it means anything */
+const MIN_HISTORY_DAYS = 21;
+
+/** Borg CR-10 wording for session RPE */
+export const SESSION_RPE_LABELS: Record<number, string> = {
+  1: "Very easy",
+  2: "Easy",
+  3: "Moderate",
+  4: "Somewhat hard",
+  5: "Hard",
+  6: "Hard",
+  7: "Very hard",
+  8: "Very hard",
+  9: "Extremely hard",
+  10: "Maximal",
+};
+
+/** 1–5 check-in scales, lowest first */
+export const SORENESS_LABELS = [
+  "None",
+  "Mild",
+  "Moderate",
+  "Sore",
+  "Very sore",
+];
+export const READINESS_LABELS = ["Drained", "Low", "OK", "Good", "Great"];
+
+export const ACWR_ZONES: Record<
+  AcwrZone,
+  { label: string; className: string }
+> = {
+  low: { label: "Under-loaded", className: "text-muted" },
+  optimal: { label: "Sweet spot", className: "text-success" },
+  caution: { label: "Climbing fast", className: "text-warning" },
+  high: { label: "Spike", className: "text-danger" },
+};
+
+export function acwrZone(ratio: number): AcwrZone {
+  if (ratio < 0.8) return "low";
+  if (ratio <= 1.3) return "optimal";
+  if (ratio <= 1.5) return "caution";
+  return "high";
+}
+
+/** RPE × minutes, or null when either is missing */
+export function sessionLoad(load: SessionLoad): number | null {
+  if (load.sessionRpe === null || load.durationMinutes === null) return null;
+  return load.sessionRpe * load.durationMinutes;
+}
+
+function toRatio(acute: number, chronic: number, enoughHistory: boolean) {
+  const ratio = enoughHistory && chronic > 0 ? acute / chronic : null;
+  return {
+    acute: Math.round(acute),
+    chronic: Math.round(chronic),
+    ratio: ratio === null ? null : Math.round(ratio * 100) / 100,
+    zone: ratio === null ? null : acwrZone(ratio),
+  };
+}
+
+/** Rolling 7-day load against the weekly average of the last 28 days */
+export function sessionLoadRatio(
+  loads: SessionLoad[],
+  today: Date = new Date(),
+): WorkloadRatio {
+  let acute = 0;
+  let chronic = 0;
+  let oldest = 0;
+
+  for (const entry of loads) {
+    const value = sessionLoad(entry);
+    if (value === null) continue;
+    const daysAgo = differenceInCalendarDays(today, parseISO(entry.date));
+    if (daysAgo < 0) continue;
+    oldest = Math.max(oldest, daysAgo);
+    if (daysAgo < ACUTE_DAYS) acute += value;
+    if (daysAgo < ACUTE_DAYS * CHRONIC_WEEKS) chronic += value;
+  }
+
+  return toRatio(acute, chronic / CHRONIC_WEEKS, oldest >= MIN_HISTORY_DAYS);
+}
+
+/**
+ * Last complete week's tonnage against the average of the four complete
+ * weeks ending with it. The current week is left out so a Monday doesn't
+ * read as a sudden drop.
+ */
+export function tonnageRatio(
+  volumes: WeeklyVolumeSummary[],
+  today: Date = new Date(),
+): WorkloadRatio {
+  const lastWeek = addWeeks(startOfWeek(today, { weekStartsOn: 1 }), -1);
+  const byWeek = new Map(volumes.map((v) => [v.weekStart, v.totalVolume]));
+
+  const weeks = Array.from({ length: CHRONIC_WEEKS }, (_, i) =>
+    format(addWeeks(lastWeek, -i), "yyyy-MM-dd"),
+  );
+  const acute = byWeek.get(weeks[0]) ?? 0;
+  const chronic =
+    weeks.reduce((sum, week) => sum + (byWeek.get(week) ?? 0), 0) /
+    CHRONIC_WEEKS;
+  const enoughHistory = volumes.some(
+    (v) => v.totalVolume > 0 && v.weekStart <= weeks[CHRONIC_WEEKS - 1],
+  );
+
+  return toRatio(acute, chronic, enoughHistory);
+}
+
+function ratioWarning(
+  what: string,
+  load: WorkloadRatio,
+): FatigueWarning | null {
+  if (load.ratio === null) return null;
+  if (load.zone === "high") {
+    return {
+      level: "high",
+      message: `${what} is ${load.ratio}× your 4-week average — plan a lighter session or a deload.`,
+    };
+  }
+  if (load.zone === "caution") {
+    return {
+      level: "caution",
+      message: `${what} is ${load.ratio}× your 4-week average — build up gradually.`,
+    };
+  }
+  return null;
+}
+
+/** Recent check-ins (newest last) that point at poor recovery */
+function checkInWarnings(
+  checkIns: SessionLoad[],
+  today: Date,
+): FatigueWarning[] {
+  const rated = checkIns.filter((c) => c.readiness !== null).slice(-3);
+  if (rated.length === 3 && rated.every((c) => c.readiness! <= 2)) {
+    return [
+      {
+        level: "high",
+        message:
+          "Readiness has been low for three sessions in a row — signs of overreaching.",
+      },
+    ];
+  }
+
+  const latest = checkIns[checkIns.length - 1];
+  if (!latest || differenceInCalendarDays(today, parseISO(latest.date)) > 2) {
+    return [];
+  }
+
+  const warnings: FatigueWarning[] = [];
+  if (latest.readiness !== null && latest.readiness <= 2) {
+    warnings.push({
+      level: "caution",
+      message: "Readiness was low last session.",
+    });
+  }
+  if (latest.soreness !== null && latest.soreness >= 4) {
+    warnings.push({
+      level: "caution",
+      message: "Soreness was high last session.",
+    });
+  }
+  if (latest.sleepHours !== null && latest.sleepHours < 6) {
+    warnings.push({
+      level: "caution",
+      message: `Only ${latest.sleepHours} h of sleep before last session.`,
+    });
+  }
+  return warnings;
+}
+
+export function summariseFatigue(
+  loads: SessionLoad[],
+  volumes: WeeklyVolumeSummary[],
+  today: Date = new Date(),
+): FatigueSummary {
+  const session = sessionLoadRatio(loads, today);
+  const tonnage = tonnageRatio(volumes, today);
+  const checkIns = loads.filter(
+    (l) => l.sleepHours !== null || l.soreness !== null || l.readiness !== null,
+  );
+
+  const warnings = [
+    ratioWarning("Your last 7 days' session load", session),
+    ratioWarning("Last week's tonnage", tonnage),
+    ...checkInWarnings(checkIns, today),
+  ].filter((w): w is FatigueWarning => w !== null);
+
+  // Most serious first
+  warnings.sort(
+    (a, b) => Number(b.level === "high") - Number(a.level === "high"),
+  );
+
+  return {
+    sessionLoad: session,
+    tonnage,
+    latestCheckIn: checkIns[checkIns.length - 1] ?? null,
+    warnings,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Rest timer
+ *
+ * Default rest length plus the end-of-rest alert for live sessions. The
+ * countdown itself runs off a wall-clock end time (see RestTimer) so it stays
+ * correct when the browser throttles a backgrounded tab.
+ */
+
+import { storage } from "@/lib/storage";
+
+export const REST_PRESETS = [60, 90, 120, 180, 240];
+
+const REST_KEY = "rest-timer-seconds";
+const DEFAULT_REST_SECONDS = 90;
+
+export function getStoredRestSeconds(): number {
+  const stored = storage.get<number>(REST_KEY, DEFAULT_REST_SECONDS);
+  return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_REST_SECONDS;
+}
+
+export function setStoredRestSeconds(seconds: number) {
+  storage.set(REST_KEY, seconds);
+}
+
+/** "1:30" */
+export function formatDuration(totalSeconds: number): string {
+  const s = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(s / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  const seconds = String(s % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/** Ask once for notification permission — call from a click handler */
+export async function requestRestNotifications(): Promise<void> {
+  if (!("Notification" in window) || Notification.permission !== "default") {
+    return;
+  }
+  try {
+    await Notification.requestPermission();
+  } catch (err) {
+    console.error("[restTimer] permission request failed:", err);
+  }
+}
+
+/**
+ * Buzz and, if the tab is hidden when the timer fires, post a notification.
+ * This relies on the page's own timer: browsers throttle or freeze background
+ * tabs, so the alert can come late or only once the tab is back in view.
+ */
+export async function alertRestOver(body: string): Promise<void> {
+  navigator.vibrate?.([200, 100, 200]);
+
+  if (
+    !document.hidden ||
+    !("Notification" in window) ||
+    Notification.permission !== "granted"
+  ) {
+    return;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    const options = { body, tag: "rest-timer", icon: "/icon-192.png" };
+    if (registration) {
+      await registration.showNotification("Rest over", options);
+    } else {
+      new Notification("Rest over", options);
+    }
+  } catch (err) {
+    console.error("[restTimer] notification failed:", err);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Set types
+ *
+ * Labels and helpers for sets.set_type and the optional RPE / RIR columns.
+ * Warm-ups are the only type left out of volume, PR and e1RM calculations —
+ * the SQL side filters on set_type <> 'warmup' to match countsTowardStats().
+ */
+
+import type { SetType, SetTypeFields } from "@/types";
+
+export const SET_TYPES: Record<SetType, { label: string; short: string }> = {
+  working: { label: "Working set", short: "" },
+  warmup: { label: "Warm-up", short: "W" },
+  drop: { label: "Drop set", short: "D" },
+  failure: { label: "To failure", short: "F" },
+  amrap: { label: "AMRAP", short: "A" },
+};
+
+const SET_TYPE_ORDER = Object.keys(SET_TYPES) as SetType[];
+
+/** The type after this one — the editor cycles through them on tap */
+export function nextSetType(type: SetType = "working"): SetType {
+  const i = SET_TYPE_ORDER.indexOf(type);
+  return SET_TYPE_ORDER[(i + 1) % SET_TYPE_ORDER.length];
+}
+
+export function countsTowardStats(set: { set_type?: SetType }): boolean {
+  return set.set_type !== "warmup";
+}
+
+/** RPE snapped to half steps within 1–10, or null when blank/invalid */
+export function normaliseRpe(value: number | null | undefined): number | null {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return null;
+  }
+  if (value <= 0) return null;
+  return Math.min(10, Math.max(1, Math.round(value * 2) / 2));
+}
+
+/** Whole reps in reserve within 0–10, or null when blank/invalid */
+export function normaliseRir(value: number | null | undefined): number | null {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return null;
+  }
+  return Math.min(10, Math.max(0, Math.round(value)));
+}
+
+/** DB-ready set_type / rpe / rir for a form or import set */
+export function setTypeColumns(set: Partial<SetTypeFields>): SetTypeFields {
+  return {
+    set_type: set.set_type ?? "working",
+    rpe: normaliseRpe(set.rpe),
+    rir: normaliseRir(set.rir),
+  };
+}
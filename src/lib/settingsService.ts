@@ -0,0 +1,143 @@
+/**
+ * User Settings Service
+ *
+ * Per-user preferences stored in the user_settings table (one row per user,
+ * created on first write). Missing rows read as the defaults.
+ */
+
+import { supabase } from "@/lib/supabase";
+import { DEFAULT_PLATE_SETTINGS } from "@/lib/plates";
+import type {
+  PlateSettings,
+  UserRole,
+  UserSettings,
+  WeightUnit,
+} from "@/types";
+
+async function requireUserId(): Promise<string> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+  return user.id;
+}
+
+export async function getUserSettings(): Promise<UserSettings> {
+  const userId = await requireUserId();
+
+  const { data, error } = await supabase
+    .from("user_settings")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[settings] get error:", error.message);
+    throw error;
+  }
+
+  return (
+    (data as UserSettings | null) ?? {
+      user_id: userId,
+      weight_unit: "kg",
+      role: "athlete",
+      weights_converted_at: null,
+      legacy_weights_before: null,
+      updated_at: new Date().toISOString(),
+      ...DEFAULT_PLATE_SETTINGS.kg,
+    }
+  );
+}
+
+export async function updateWeightUnit(
+  unit: WeightUnit,
+): Promise<UserSettings> {
+  const userId = await requireUserId();
+
+  const { data, error } = await supabase
+    .from("user_settings")
+    .upsert(
+      {
+        user_id: userId,
+        weight_unit: unit,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" },
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[settings] updateWeightUnit error:", error.message);
+    throw error;
+  }
+  return data as UserSettings;
+}
+
+/** Save the bar, plate inventory and rounding mode */
+export async function updatePlateSettings(
+  plates: PlateSettings,
+): Promise<UserSettings> {
+  const userId = await requireUserId();
+
+  const { data, error } = await supabase
+    .from("user_settings")
+    .upsert(
+      {
+        user_id: userId,
+        plate_unit: plates.plate_unit,
+        bar_weight: plates.bar_weight,
+        plates: plates.plates,
+        weight_rounding: plates.weight_rounding,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" },
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[settings] updatePlateSettings error:", error.message);
+    throw error;
+  }
+  return data as UserSettings;
+}
+
+export async function updateRole(role: UserRole): Promise<UserSettings> {
+  const userId = await requireUserId();
+
+  const { data, error } = await supabase
+    .from("user_settings")
+    .upsert(
+      {
+        user_id: userId,
+        role,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id" },
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[settings] updateRole error:", error.message);
+    throw error;
+  }
+  return data as UserSettings;
+}
+
+/**
+ * One-time fix for accounts that logged pounds before units existed: rewrites
+ * weights stored before legacy_weights_before from lbs to kg, leaving anything
+ * logged in kg since untouched. The RPC refuses to run twice, so a double tap
+ * can't shrink the numbers again. Returns the updated settings.
+ */
+export async function convertLegacyWeightsFromLbs(): Promise<UserSettings> {
+  const { error } = await supabase.rpc("convert_weights_lbs_to_kg");
+
+  if (error) {
+    console.error("[settings] convertLegacyWeights error:", error.message);
+    throw error;
+  }
+  return getUserSettings();
+}
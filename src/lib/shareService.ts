@@ -0,0 +1,147 @@
+/**
+ * Share Service
+ *
+ * Share links for workouts, day library items and week templates. A link is
+ * an unguessable token; get_shared_item turns it into a read-only snapshot
+ * for anyone who has it, logged in or not. Copying a snapshot clones it into
+ * the viewer's account — a workout or library day becomes a library day, a
+ * week template a new week template — resolving exercises by name.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { ShareKind, ShareLink, SharedItem } from "@/types";
+import { getAuthUserId } from "@/lib/analyticsService";
+import { createDayLibraryItem } from "@/lib/dayLibraryService";
+import {
+  createExerciseLibraryItem,
+  getExerciseLibrary,
+} from "@/lib/exerciseLibraryService";
+import {
+  createWeekTemplate,
+  saveWeekTemplateFull,
+} from "@/lib/weekTemplateService";
+
+export const SHARE_KINDS: Record<ShareKind, string> = {
+  workout: "Workout",
+  day: "Day",
+  week_template: "Week plan",
+};
+
+/** Public URL for a token — served by the /share/:token route */
+export function shareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+// ─── Owner side ───────────────────────────────────────────────────────────────
+
+/** The existing link for an item, or null when it isn't shared */
+export async function getShareLink(
+  kind: ShareKind,
+  targetId: string,
+): Promise<ShareLink | null> {
+  const userId = await getAuthUserId();
+
+  const { data, error } = await supabase
+    .from("share_links")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("kind", kind)
+    .eq("target_id", targetId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[shareService] getShareLink error:", error.message);
+    throw error;
+  }
+  return data as ShareLink | null;
+}
+
+/** Reuses the item's link when there already is one */
+export async function createShareLink(
+  kind: ShareKind,
+  targetId: string,
+): Promise<ShareLink> {
+  const existing = await getShareLink(kind, targetId);
+  if (existing) return existing;
+
+  const userId = await getAuthUserId();
+
+  const { data, error } = await supabase
+    .from("share_links")
+    .insert({ user_id: userId, kind, target_id: targetId })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[shareService] createShareLink error:", error.message);
+    throw error;
+  }
+  return data as ShareLink;
+}
+
+/** Stops sharing — the old URL shows "not found" from then on */
+export async function deleteShareLink(id: string): Promise<void> {
+  const { error } = await supabase.from("share_links").delete().eq("id", id);
+
+  if (error) {
+    console.error("[shareService] deleteShareLink error:", error.message);
+    throw error;
+  }
+}
+
+// ─── Viewer side ──────────────────────────────────────────────────────────────
+
+/** null when the token is unknown, the link was removed or the item deleted */
+export async function getSharedItem(token: string): Promise<SharedItem | null> {
+  const { data, error } = await supabase.rpc("get_shared_item", {
+    p_token: token,
+  });
+
+  if (error) {
+    console.error("[shareService] getSharedItem error:", error.message);
+    throw error;
+  }
+  return (data as SharedItem | null) ?? null;
+}
+
+/**
+ * Exercises the viewer doesn't have yet would be created as weight × reps
+ * by the save paths, so create the timed / distance / bodyweight ones up
+ * front with the sharer's kind.
+ */
+async function createMissingExercises(item: SharedItem): Promise<void> {
+  const library = await getExerciseLibrary();
+  const known = new Set(library.map((e) => e.name.trim().toLowerCase()));
+
+  for (const day of item.days) {
+    for (const ex of day.exercises) {
+      const key = ex.name.trim().toLowerCase();
+      if (known.has(key) || ex.kind === "weight_reps") continue;
+      await createExerciseLibraryItem(ex.name.trim(), null, 10, 0, [], ex.kind);
+      known.add(key);
+    }
+  }
+}
+
+export interface CopiedItem {
+  kind: "day" | "week_template";
+  id: string;
+}
+
+/** Clone a shared snapshot into the current user's account */
+export async function copySharedItem(item: SharedItem): Promise<CopiedItem> {
+  await createMissingExercises(item);
+
+  if (item.kind === "week_template") {
+    const template = await createWeekTemplate(item.name);
+    await saveWeekTemplateFull(template.id, item.name, item.days);
+    return { kind: "week_template", id: template.id };
+  }
+
+  const day = item.days[0];
+  const created = await createDayLibraryItem(
+    item.name,
+    day ? day.exercises : [],
+  );
+  return { kind: "day", id: created.id };
+}
@@ -0,0 +1,157 @@
+/**
+ * Supersets
+ *
+ * Exercises in a day are grouped by superset_group: consecutive exercises
+ * sharing a number are done back to back, one set of each per round. null
+ * means the exercise stands alone. Numbers only mean something within a day
+ * and between neighbours — normaliseGroups() renumbers them 1, 2, 3… in day
+ * order and dissolves any group left with a single exercise.
+ */
+
+interface Groupable {
+  superset_group?: number | null;
+}
+
+/** What a group of `size` exercises is called */
+export function groupLabel(size: number): string {
+  if (size >= 5) return "Circuit";
+  if (size >= 3) return "Giant set";
+  return "Superset";
+}
+
+/**
+ * Renumber groups 1..n in day order. Only neighbours can share a group, so
+ * the same number further down the day starts a new one.
+ */
+export function normaliseGroups<T extends Groupable>(exercises: T[]): T[] {
+  const groups: (number | null)[] = [];
+  let next = 0;
+
+  exercises.forEach((ex, i) => {
+    const raw = ex.superset_group ?? null;
+    if (raw === null) groups.push(null);
+    else if (i > 0 && exercises[i - 1].superset_group === raw) {
+      groups.push(groups[i - 1]);
+    } else groups.push(++next);
+  });
+
+  const sizes = new Map<number, number>();
+  groups.forEach((g) => g !== null && sizes.set(g, (sizes.get(g) ?? 0) + 1));
+
+  // Renumber again so dissolved singles don't leave gaps
+  const renumbered = new Map<number, number>();
+  return exercises.map((ex, i) => {
+    const g = groups[i];
+    let group: number | null = null;
+    if (g !== null && (sizes.get(g) ?? 0) > 1) {
+      if (!renumbered.has(g)) renumbered.set(g, renumbered.size + 1);
+      group = renumbered.get(g)!;
+    }
+    return (ex.superset_group ?? null) === group
+      ? ex
+      : { ...ex, superset_group: group };
+  });
+}
+
+export interface ExerciseRun<T> {
+  /** null for a standalone exercise */
+  group: number | null;
+  items: { exercise: T; index: number }[];
+}
+
+/** Consecutive runs — one per group, and one per standalone exercise */
+export function groupRuns<T extends Groupable>(
+  exercises: T[],
+): ExerciseRun<T>[] {
+  const runs: ExerciseRun<T>[] = [];
+
+  exercises.forEach((exercise, index) => {
+    const group = exercise.superset_group ?? null;
+    const last = runs[runs.length - 1];
+    if (group !== null && last?.group === group) {
+      last.items.push({ exercise, index });
+    } else {
+      runs.push({ group, items: [{ exercise, index }] });
+    }
+  });
+
+  return runs;
+}
+
+/** "A1", "A2", "B1"… for each exercise in a group, null when standalone */
+export function groupPositions<T extends Groupable>(
+  exercises: T[],
+): (string | null)[] {
+  const positions: (string | null)[] = exercises.map(() => null);
+  let letter = 0;
+
+  for (const run of groupRuns(exercises)) {
+    if (run.group === null) continue;
+    const prefix = String.fromCharCode(65 + (letter++ % 26));
+    run.items.forEach(({ index }, i) => {
+      positions[index] = `${prefix}${i + 1}`;
+    });
+  }
+
+  return positions;
+}
+
+function maxGroup(exercises: Groupable[]): number {
+  return exercises.reduce((max, ex) => Math.max(max, ex.superset_group ?? 0), 0);
+}
+
+/** Put exercises[index] and the one after it in the same group */
+export function linkWithNext<T extends Groupable>(
+  exercises: T[],
+  index: number,
+): T[] {
+  if (index < 0 || index >= exercises.length - 1) return exercises;
+  const a = exercises[index].superset_group ?? null;
+  const b = exercises[index + 1].superset_group ?? null;
+
+  const group = a ?? b ?? maxGroup(exercises) + 1;
+  return normaliseGroups(
+    exercises.map((ex, i) =>
+      i === index ||
+      i === index + 1 ||
+      (b !== null && i > index && ex.superset_group === b)
+        ? { ...ex, superset_group: group }
+        : ex,
+    ),
+  );
+}
+
+/** Split the group between exercises[index] and the one after it */
+export function unlinkFromNext<T extends Groupable>(
+  exercises: T[],
+  index: number,
+): T[] {
+  const group = exercises[index]?.superset_group ?? null;
+  if (group === null) return exercises;
+
+  const split = maxGroup(exercises) + 1;
+  let inRun = true;
+  return normaliseGroups(
+    exercises.map((ex, i) => {
+      if (i <= index) return ex;
+      inRun = inRun && ex.superset_group === group;
+      return inRun ? { ...ex, superset_group: split } : ex;
+    }),
+  );
+}
+
+/** Append exercises, keeping their groups apart from the existing ones */
+export function appendGrouped<T extends Groupable>(
+  existing: T[],
+  added: T[],
+): T[] {
+  const offset = maxGroup(existing);
+  return normaliseGroups([
+    ...existing,
+    ...added.map((ex) =>
+      ex.superset_group
+        ? { ...ex, superset_group: ex.superset_group + offset }
+        : ex,
+    ),
+  ]);
+}
@@ -0,0 +1,65 @@
+/**
+ * Weight units
+ *
+ * Every weight in the database is stored in kg. The user's preferred unit
+ * only affects what is shown and typed: convert with toDisplayWeight() on the
+ * way out and fromDisplayWeight() on the way in.
+ */
+
+import { storage } from "@/lib/storage";
+import type { WeightUnit } from "@/types";
+
+export const WEIGHT_UNITS: Record<WeightUnit, string> = {
+  kg: "Kilograms (kg)",
+  lbs: "Pounds (lbs)",
+};
+
+const LBS_TO_KG = 0.45359237;
+const UNIT_KEY = "weight-unit";
+
+/** Input step for weight fields — 0.5kg / 1lb micro plates */
+export const WEIGHT_STEP: Record<WeightUnit, number> = {
+  kg: 0.5,
+  lbs: 1,
+};
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/** Convert pounds to kg, rounded to the 2 decimals the DB keeps */
+export function lbsToKg(lbs: number): number {
+  return round(lbs * LBS_TO_KG, 2);
+}
+
+export function kgToLbs(kg: number): number {
+  return kg / LBS_TO_KG;
+}
+
+/** Stored kg → number in the user's unit */
+export function toDisplayWeight(kg: number, unit: WeightUnit): number {
+  return unit === "lbs" ? round(kgToLbs(kg), 1) : round(kg, 2);
+}
+
+/** Number typed in the user's unit → kg for storage */
+export function fromDisplayWeight(value: number, unit: WeightUnit): number {
+  return unit === "lbs" ? lbsToKg(value) : round(value, 2);
+}
+
+/** e.g. "102.5 kg" / "225 lbs" */
+export function formatWeight(kg: number, unit: WeightUnit): string {
+  return `${toDisplayWeight(kg, unit)} ${unit}`;
+}
+
+// ─── Local cache ──────────────────────────────────────────────────────────────
+// The preference lives in user_settings; the cached copy lets the first render
+// use the right unit before the row has loaded.
+
+export function getStoredWeightUnit(): WeightUnit {
+  return storage.get<string>(UNIT_KEY, "kg") === "lbs" ? "lbs" : "kg";
+}
+
+export function setStoredWeightUnit(unit: WeightUnit) {
+  storage.set(UNIT_KEY, unit);
+}
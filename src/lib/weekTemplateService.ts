@@ -6,8 +6,27 @@
  */
 
 import { supabase } from "@/lib/supabase";
-import type { WeekTemplate, WeekTemplateWithDays, SaveDayInput } from "@/types";
-import { getAuthUserId, getLastUsedWeight } from "@/lib/analyticsService";
+import type {
+  WeekTemplate,
+  WeekTemplateWithDays,
+  SaveDayInput,
+  SaveSetInput,
+  SetTypeFields,
+  CardioFields,
+  ProgressionRule,
+  PlateSettings,
+} from "@/types";
+import {
+  getAuthUserId,
+  getLastUsedWeight,
+  getRecentExerciseSessions,
+} from "@/lib/analyticsService";
+import { prescribeSets, scaleSets, sessionsNeeded } from "@/lib/progression";
+import { snapToLoadable } from "@/lib/plates";
+import { normaliseGroups } from "@/lib/supersets";
+import { getUserSettings } from "@/lib/settingsService";
+import { countsTowardStats, setTypeColumns } from "@/lib/setTypes";
+import { cardioColumns } from "@/lib/exerciseKinds";
 import { format } from "date-fns";
 
 // ─── List all week templates (shallow) ────────────────────────────────────────
@@ -45,6 +64,7 @@ export async function getWeekTemplateById(
         *,
         exercise_templates (
           *,
+          ...exercises (name, kind),
           template_sets (*)
         )
       )
@@ -90,100 +110,75 @@ export async function createWeekTemplate(name: string): Promise<WeekTemplate> {
 
 /**
  * Deletes all existing children (days → exercises → sets cascade-deleted)
- * and re-inserts the full hierarchy from the form state.
+ * and re-inserts the full hierarchy from the form state — all inside the
+ * save_week_template RPC, so a failed save leaves the old template intact.
  */
 export async function saveWeekTemplateFull(
   templateId: string,
   templateName: string,
   days: SaveDayInput[],
 ): Promise<void> {
-  const userId = await getAuthUserId();
-
-  // 1. Update template name
-  const { error: nameErr } = await supabase
-    .from("week_templates")
-    .update({ name: templateName })
-    .eq("id", templateId);
-
-  if (nameErr) {
-    console.error(
-      "[weekTemplateService] saveWeekTemplateFull name update error:",
-      nameErr.message,
-    );
-    throw nameErr;
-  }
-
-  // 2. Delete old day_templates (cascade deletes exercises + sets)
-  const { error: delErr } = await supabase
-    .from("day_templates")
-    .delete()
-    .eq("template_id", templateId);
+  const { error } = await supabase.rpc("save_week_template", {
+    p_template_id: templateId,
+    p_name: templateName,
+    p_days: days.map((day) => ({
+      name: day.name,
+      // Blank rows are skipped by the RPC, so group what actually gets saved
+      exercises: normaliseGroups(
+        day.exercises.filter((exercise) => exercise.name.trim()),
+      ).map((exercise) => ({
+        name: exercise.name,
+        progression: exercise.progression ?? null,
+        superset_group: exercise.superset_group ?? null,
+        deload_percent: exercise.deload_percent ?? null,
+        sets: exercise.sets.map((s) => ({
+          reps: Math.max(1, s.reps),
+          weight: Math.max(0, s.weight),
+          ...setTypeColumns(s),
+          ...cardioColumns(s),
+        })),
+      })),
+    })),
+  });
 
-  if (delErr) {
+  if (error) {
     console.error(
-      "[weekTemplateService] saveWeekTemplateFull delete days error:",
-      delErr.message,
+      "[weekTemplateService] saveWeekTemplateFull error:",
+      error.message,
     );
-    throw delErr;
+    throw error;
   }
+}
 
-  // 3. Re-insert the full hierarchy
-  for (const day of days) {
-    // Insert day
-    const { data: dayRow, error: dayErr } = await supabase
-      .from("day_templates")
-      .insert({ template_id: templateId, name: day.name })
-      .select()
-      .single();
-
-    if (dayErr) {
-      console.error("[weekTemplateService] insert day error:", dayErr.message);
-      throw dayErr;
-    }
+// ─── Revise a saved template ──────────────────────────────────────────────────
+
+/** A loaded template as save input — the inverse of saveWeekTemplateFull */
+export function templateToSaveDays(
+  template: WeekTemplateWithDays,
+): SaveDayInput[] {
+  return (template.day_templates ?? []).map((day) => ({
+    name: day.name,
+    exercises: (day.exercise_templates ?? []).map((ex) => ({
+      name: ex.name,
+      progression: ex.progression,
+      superset_group: ex.superset_group,
+      deload_percent: ex.deload_percent,
+      sets: ex.template_sets ?? [],
+    })),
+  }));
+}
 
-    for (const exercise of day.exercises) {
-      // Sync to exercise library so Exercises tab stays up-to-date
-      if (exercise.name.trim()) {
-        await findOrCreateExercise(userId, exercise.name.trim());
-      }
-
-      // Insert exercise into template hierarchy
-      const { data: exRow, error: exErr } = await supabase
-        .from("exercise_templates")
-        .insert({ day_template_id: dayRow.id, name: exercise.name })
-        .select()
-        .single();
-
-      if (exErr) {
-        console.error(
-          "[weekTemplateService] insert exercise error:",
-          exErr.message,
-        );
-        throw exErr;
-      }
-
-      // Insert sets
-      if (exercise.sets.length > 0) {
-        const setsToInsert = exercise.sets.map((s) => ({
-          exercise_template_id: exRow.id,
-          reps: Math.max(1, s.reps),
-          weight: Math.max(0, s.weight),
-        }));
-
-        const { error: setsErr } = await supabase
-          .from("template_sets")
-          .insert(setsToInsert);
-
-        if (setsErr) {
-          console.error(
-            "[weekTemplateService] insert sets error:",
-            setsErr.message,
-          );
-          throw setsErr;
-        }
-      }
-    }
-  }
+/** Load a template, rewrite its days through `change`, and save it whole */
+export async function reviseWeekTemplate(
+  templateId: string,
+  change: (days: SaveDayInput[]) => SaveDayInput[],
+): Promise<void> {
+  const template = await getWeekTemplateById(templateId);
+  await saveWeekTemplateFull(
+    templateId,
+    template.name,
+    change(templateToSaveDays(template)),
+  );
 }
 
 // ─── Delete week template ─────────────────────────────────────────────────────
@@ -202,17 +197,35 @@ export async function deleteWeekTemplate(id: string): Promise<void> {
 
 // ─── Generate real workouts from template ─────────────────────────────────────
 
+export interface GenerateWeekOptions {
+  /** Scale every prescribed weight, e.g. 60 for a deload week (default 100) */
+  intensityPercent?: number;
+  /** Used in workout titles instead of the template name */
+  titleSuffix?: string;
+}
+
 /**
  * Creates real Workout + WorkoutExercise + Set rows from a week template.
- * Uses weight carry-over: for each exercise, fetch the last used weight from
- * the user's workout history via the RPC; fall back to the template weight.
+ * Exercises with a progression rule get their next sets computed from recent
+ * history (see lib/progression). The rest use weight carry-over: fetch the last
+ * used weight via the RPC; fall back to the template weight. Both read only
+ * full-weight sessions, and each exercise records the intensity it was
+ * generated at, so program percentages scale an unscaled base instead of
+ * compounding week to week. Weights that were
+ * computed rather than carried over (a progression rule, or intensity other
+ * than 100%) are snapped to the user's plates when rounding is on. A pending
+ * one-off deload on an exercise is applied on top and cleared in the same
+ * transaction that writes the workouts.
  */
 export async function generateWeekFromTemplate(
   templateId: string,
   weekStartDate: Date,
+  options: GenerateWeekOptions = {},
 ): Promise<string[]> {
   const userId = await getAuthUserId();
   const template = await getWeekTemplateById(templateId);
+  const plates = await getUserSettings();
+  const intensity = options.intensityPercent ?? 100;
 
   const DAY_OFFSETS: Record<string, number> = {
     Monday: 0,
@@ -224,145 +237,148 @@ export async function generateWeekFromTemplate(
     Sunday: 6,
   };
 
-  const createdWorkoutIds: string[] = [];
+  // Work out every prescription first, then write the week in one RPC
+  const workouts: NewWorkoutPayload[] = [];
+  const deloaded: string[] = [];
 
   for (const day of template.day_templates) {
     const offset = DAY_OFFSETS[day.name] ?? 0;
     const workoutDate = new Date(weekStartDate);
     workoutDate.setDate(workoutDate.getDate() + offset);
-    const dateStr = format(workoutDate, "yyyy-MM-dd");
-
-    // 1. Create workout
-    const { data: workout, error: wErr } = await supabase
-      .from("workouts")
-      .insert({
-        user_id: userId,
-        date: dateStr,
-        title: `${day.name} — ${template.name}`,
-      })
-      .select()
-      .single();
-
-    if (wErr) {
-      console.error(
-        "[weekTemplateService] generateWeek create workout error:",
-        wErr.message,
+
+    const exercises: NewWorkoutPayload["exercises"] = [];
+    for (const exTemplate of day.exercise_templates) {
+      // A pending deload stacks on the week's intensity
+      const exIntensity = exTemplate.deload_percent
+        ? (intensity * (100 - exTemplate.deload_percent)) / 100
+        : intensity;
+      if (exTemplate.deload_percent) deloaded.push(exTemplate.id);
+
+      // Prescribe sets from the progression rule or carry-over weight
+      const prescribed = scaleSets(
+        await prescribeTemplateSets(
+          userId,
+          exTemplate.name,
+          exTemplate.template_sets,
+          exTemplate.progression,
+        ),
+        exIntensity,
       );
-      throw wErr;
+      exercises.push({
+        name: exTemplate.name,
+        superset_group: exTemplate.superset_group,
+        intensity_percent: exIntensity,
+        sets:
+          exTemplate.progression || exIntensity !== 100
+            ? snapSets(prescribed, plates)
+            : prescribed,
+      });
     }
 
-    createdWorkoutIds.push(workout.id);
-
-    // 2. For each exercise template
-    for (let i = 0; i < day.exercise_templates.length; i++) {
-      const exTemplate = day.exercise_templates[i];
-
-      // Find or create the exercise row in the exercises table
-      const exerciseId = await findOrCreateExercise(userId, exTemplate.name);
-
-      // Create workout_exercise
-      const { data: we, error: weErr } = await supabase
-        .from("workout_exercises")
-        .insert({
-          workout_id: workout.id,
-          exercise_id: exerciseId,
-          order_index: i,
-        })
-        .select()
-        .single();
-
-      if (weErr) {
-        console.error(
-          "[weekTemplateService] generateWeek create we error:",
-          weErr.message,
-        );
-        throw weErr;
-      }
-
-      // 3. For each template set, try carry-over weight
-      const setsToInsert = [];
-      for (let j = 0; j < exTemplate.template_sets.length; j++) {
-        const tSet = exTemplate.template_sets[j];
-        let weight = tSet.weight;
-
-        // Weight carry-over: use last used weight if available
-        try {
-          const lastWeight = await getLastUsedWeight(userId, exTemplate.name);
-          if (lastWeight !== null && lastWeight > 0) {
-            weight = lastWeight;
-          }
-        } catch {
-          // Fallback to template weight
-        }
-
-        setsToInsert.push({
-          workout_exercise_id: we.id,
-          reps: tSet.reps,
-          weight,
-          order_index: j,
-        });
-      }
-
-      if (setsToInsert.length > 0) {
-        const { error: sErr } = await supabase
-          .from("sets")
-          .insert(setsToInsert);
-        if (sErr) {
-          console.error(
-            "[weekTemplateService] generateWeek insert sets error:",
-            sErr.message,
-          );
-          throw sErr;
-        }
-      }
-    }
+    workouts.push({
+      date: format(workoutDate, "yyyy-MM-dd"),
+      title: `${day.name} — ${options.titleSuffix ?? template.name}`,
+      exercises,
+    });
   }
 
-  return createdWorkoutIds;
+  return createWorkouts(workouts, deloaded);
 }
 
-// ─── Helper: find or create exercise by name ──────────────────────────────────
+// ─── Helper: round generated weights to the user's plates ─────────────────────
 
-async function findOrCreateExercise(
-  userId: string,
-  name: string,
-): Promise<string> {
-  // Try to find existing exercise (case-insensitive)
-  const { data: existing, error: findErr } = await supabase
-    .from("exercises")
-    .select("id")
-    .eq("user_id", userId)
-    .ilike("name", name)
-    .limit(1);
+function snapSets(
+  sets: SaveSetInput[],
+  plates: PlateSettings,
+): SaveSetInput[] {
+  if (plates.weight_rounding === "off") return sets;
+  return sets.map((s) => ({ ...s, weight: snapToLoadable(s.weight, plates) }));
+}
 
-  if (findErr) {
-    console.error(
-      "[weekTemplateService] findOrCreateExercise find error:",
-      findErr.message,
-    );
-    throw findErr;
-  }
+// ─── Helper: write new workouts in one transaction ────────────────────────────
+
+interface NewWorkoutPayload {
+  date: string;
+  title: string;
+  exercises: {
+    name: string;
+    superset_group: number | null;
+    /** Scale the sets were prescribed at — carry-over skips scaled sessions */
+    intensity_percent?: number;
+    sets: SaveSetInput[];
+  }[];
+}
 
-  if (existing && existing.length > 0) {
-    return existing[0].id;
+/** clearDeloads: exercise templates whose pending deload these workouts used */
+async function createWorkouts(
+  workouts: NewWorkoutPayload[],
+  clearDeloads: string[] = [],
+): Promise<string[]> {
+  if (workouts.length === 0) return [];
+
+  const { data, error } = await supabase.rpc("create_workouts", {
+    p_workouts: workouts.map((w) => ({
+      ...w,
+      exercises: w.exercises.map((ex) => ({
+        name: ex.name,
+        superset_group: ex.superset_group,
+        intensity_percent:
+          ex.intensity_percent === undefined || ex.intensity_percent === 100
+            ? null
+            : ex.intensity_percent,
+        sets: ex.sets.map((s) => ({
+          reps: s.reps,
+          weight: s.weight,
+          ...setTypeColumns(s),
+          ...cardioColumns(s),
+        })),
+      })),
+    })),
+    p_clear_deloads: clearDeloads,
+  });
+
+  if (error) {
+    console.error("[weekTemplateService] createWorkouts error:", error.message);
+    throw error;
   }
+  return (data ?? []) as string[];
+}
 
-  // Create new exercise
-  const { data: created, error: createErr } = await supabase
-    .from("exercises")
-    .insert({ user_id: userId, name })
-    .select()
-    .single();
+// ─── Helper: prescribe sets for a template exercise ───────────────────────────
 
-  if (createErr) {
-    console.error(
-      "[weekTemplateService] findOrCreateExercise create error:",
-      createErr.message,
-    );
-    throw createErr;
+async function prescribeTemplateSets(
+  userId: string,
+  exerciseName: string,
+  templateSets: SaveSetInput[],
+  rule: ProgressionRule | null,
+): Promise<SaveSetInput[]> {
+  if (rule) {
+    try {
+      const sessions = await getRecentExerciseSessions(
+        userId,
+        exerciseName,
+        sessionsNeeded(rule),
+      );
+      return prescribeSets(templateSets, rule, sessions);
+    } catch {
+      // Fallback to template sets
+      return templateSets;
+    }
+  }
+
+  // Weight carry-over: warm-ups keep their template weight — the last
+  // working weight is too heavy for them
+  let lastWeight: number | null = null;
+  try {
+    lastWeight = await getLastUsedWeight(userId, exerciseName);
+  } catch {
+    // Fallback to template weight
   }
+  if (lastWeight === null || lastWeight <= 0) return templateSets;
 
-  return created.id;
+  return templateSets.map((s) =>
+    countsTowardStats(s) ? { ...s, weight: lastWeight } : s,
+  );
 }
 
 // ─── List all days from all week templates ────────────────────────────────────
@@ -385,7 +401,7 @@ export async function getAllDayTemplatesWithWeekNames(): Promise<
 
   const { data, error } = await supabase
     .from("day_templates")
-    .select("id, name, template_id, exercise_templates(id, name)")
+    .select("id, name, template_id, exercise_templates(id, ...exercises(name))")
     .in("template_id", weekIds)
     .order("name");
 
@@ -418,64 +434,56 @@ export async function createWorkoutFromDayTemplate(
   const { data: day, error: dayErr } = await supabase
     .from("day_templates")
     .select(
-      "id, name, exercise_templates(id, name, template_sets(reps, weight))",
+      "id, name, exercise_templates(id, progression, superset_group, deload_percent, ...exercises(name), template_sets(reps, weight, set_type, rpe, rir, duration_seconds, distance_m))",
     )
     .eq("id", dayTemplateId)
     .single();
 
   if (dayErr || !day) throw new Error(dayErr?.message ?? "Day template not found");
 
-  // Create workout shell
-  const { data: workout, error: wErr } = await supabase
-    .from("workouts")
-    .insert({ user_id: userId, date, title: day.name })
-    .select("id")
-    .single();
-
-  if (wErr || !workout) throw new Error(wErr?.message ?? "Failed to create workout");
-
-  // Insert exercises with weight carry-over (same logic as generateWeekFromTemplate)
+  // Prescribe sets (same logic as generateWeekFromTemplate), then one RPC
   const exTemplates = day.exercise_templates as {
     id: string;
     name: string;
-    template_sets: { reps: number; weight: number }[];
+    progression: ProgressionRule | null;
+    superset_group: number | null;
+    deload_percent: number | null;
+    template_sets: ({ reps: number; weight: number } & SetTypeFields &
+      CardioFields)[];
   }[];
 
-  for (let i = 0; i < exTemplates.length; i++) {
-    const et = exTemplates[i];
-    const exerciseId = await findOrCreateExercise(userId, et.name);
-
-    const { data: we, error: weErr } = await supabase
-      .from("workout_exercises")
-      .insert({ workout_id: workout.id, exercise_id: exerciseId, order_index: i })
-      .select("id")
-      .single();
-
-    if (weErr || !we) throw new Error(weErr?.message ?? "Failed to create workout exercise");
-
-    const setsToInsert = [];
-    for (let j = 0; j < et.template_sets.length; j++) {
-      const s = et.template_sets[j];
-      let weight = s.weight;
-      try {
-        const lastWeight = await getLastUsedWeight(userId, et.name);
-        if (lastWeight !== null && lastWeight > 0) weight = lastWeight;
-      } catch {
-        // Fallback to template weight
-      }
-      setsToInsert.push({
-        workout_exercise_id: we.id,
-        reps: s.reps,
-        weight,
-        order_index: j,
-      });
-    }
-
-    if (setsToInsert.length > 0) {
-      const { error: sErr } = await supabase.from("sets").insert(setsToInsert);
-      if (sErr) throw new Error(sErr.message);
-    }
+  const plates = await getUserSettings();
+  const exercises: NewWorkoutPayload["exercises"] = [];
+  const deloaded: string[] = [];
+  for (const et of exTemplates) {
+    // A pending deload is used up by whichever workout is generated first
+    const intensity = et.deload_percent ? 100 - et.deload_percent : 100;
+    if (et.deload_percent) deloaded.push(et.id);
+
+    const prescribed = scaleSets(
+      await prescribeTemplateSets(
+        userId,
+        et.name,
+        et.template_sets,
+        et.progression,
+      ),
+      intensity,
+    );
+    exercises.push({
+      name: et.name,
+      superset_group: et.superset_group,
+      intensity_percent: intensity,
+      sets:
+        et.progression || intensity !== 100
+          ? snapSets(prescribed, plates)
+          : prescribed,
+    });
   }
 
-  return workout.id;
+  const [workoutId] = await createWorkouts(
+    [{ date, title: day.name, exercises }],
+    deloaded,
+  );
+  if (!workoutId) throw new Error("Failed to create workout");
+  return workoutId;
 }
@@ -6,6 +6,7 @@ import { Input, TextArea } from "@/components/ui/Form";
 import { ErrorMessage } from "@/components/ui/ErrorMessage";
 import { DayEditorPanel } from "@/components/ui/DayEditorPanel";
 import { workoutApi, workoutExerciseApi } from "@/lib/api";
+import { recordWorkoutPRs } from "@/lib/analytics";
 import { templateApi } from "@/lib/templates";
 import type { FormExercise, WorkoutTemplateWithExercises } from "@/types";
 import { format, parseISO } from "date-fns";
@@ -128,7 +129,12 @@ export function AddWorkoutScreen() {
         exercises: [],
       });
       // Add exercises via saveAll (handles name→ID resolution)
-      await workoutExerciseApi.saveAll(created.id, validExercises);
+      const outcome = await workoutExerciseApi.saveAll(
+        created.id,
+        validExercises,
+      );
+      // PRs are checked against server records — skipped for a queued save
+      if (outcome === "saved") await recordWorkoutPRs(date, validExercises);
       localStorage.removeItem(DRAFT_KEY);
       navigate(presetWeekStart ? `/week/${presetWeekStart}` : "/");
     } catch (err: unknown) {
@@ -251,6 +257,7 @@ export function AddWorkoutScreen() {
               exercises={formExercises}
               onChange={setFormExercises}
               showImportDay
+              lastSessionScope={{ onOrBefore: date }}
             />
           </Card>
 
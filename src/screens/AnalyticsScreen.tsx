@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { Container, Header, Card, Button } from "@/components/ui/Layout";
 import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
@@ -7,19 +7,74 @@ import {
   getAuthUserId,
   getDistinctExerciseNames,
   getMaxWeightOverTime,
+  getE1RMOverTime,
   getWeeklyVolumes,
   getPersonalRecords,
   getWeekComparison,
+  getWeeklyMuscleVolumes,
+  getCardioOverTime,
+  getSessionLoads,
+  getPlateaus,
 } from "@/lib/analyticsService";
+import { getExerciseLibrary } from "@/lib/exerciseLibraryService";
 import { goalApi } from "@/lib/api";
+import { getGoalProgress } from "@/lib/analytics";
+import { GOAL_TYPES, formatGoalValue, isStrengthGoal } from "@/lib/goals";
+import {
+  getLatestBodyweight,
+  relativeStrength,
+} from "@/lib/bodyMetricsService";
+import { useUnits } from "@/contexts/useUnits";
+import { useCoaching } from "@/contexts/useCoaching";
+import { getAthleteWorkouts } from "@/lib/coachService";
+import {
+  ONE_REP_MAX_FORMULAS,
+  getStoredOneRepMaxFormula,
+  setStoredOneRepMaxFormula,
+} from "@/lib/oneRepMax";
+import {
+  findUndertrainedGroups,
+  getStoredSetFloor,
+} from "@/lib/muscleGroups";
+import {
+  distanceUnitFor,
+  isCardioKind,
+  paceSeconds,
+  speed,
+  toDisplayDistance,
+} from "@/lib/exerciseKinds";
+import { formatDuration } from "@/lib/restTimer";
+import {
+  ACUTE_DAYS,
+  ACWR_ZONES,
+  CHRONIC_WEEKS,
+  READINESS_LABELS,
+  SORENESS_LABELS,
+  summariseFatigue,
+} from "@/lib/readiness";
+import { PLATEAU_WEEKS, REGRESSION_PERCENT } from "@/lib/plateaus";
+import { FatigueWarnings } from "@/components/ui/FatigueWarnings";
+import { PlateauFixModal } from "@/components/ui/PlateauFixModal";
+import { Toast } from "@/components/ui/Toast";
+import { cn } from "@/lib/utils";
 import type {
+  CardioDataPoint,
   ChartDataPoint,
+  E1RMDataPoint,
+  ExerciseKind,
+  OneRepMaxFormula,
   WeeklyVolumeSummary,
   WeekComparison,
   PRSummaryRow,
   ExerciseGoal,
+  FatigueSummary,
+  GoalProgress,
+  PlateauFlag,
+  WeeklyMuscleVolume,
+  WorkloadRatio,
+  Workout,
 } from "@/types";
-import { format, parseISO } from "date-fns";
+import { format, parseISO, subDays } from "date-fns";
 import {
   LineChart,
   Line,
@@ -29,6 +84,7 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
 } from "recharts";
 import {
@@ -38,23 +94,96 @@ import {
   Trophy,
   Target,
   BarChart3,
+  Dumbbell,
+  AlertTriangle,
+  Timer,
+  MessageSquare,
+  Activity,
+  Wrench,
 } from "lucide-react";
 
+type StrengthMetric = "weight" | "e1rm";
+type CardioMetric = "pace" | "speed" | "distance" | "time";
+type MuscleMetric = "sets" | "volume";
+
+const MUSCLE_WEEKS = 8;
+
+const CARDIO_METRICS: Record<ExerciseKind, [CardioMetric, string][]> = {
+  weight_reps: [],
+  bodyweight: [],
+  duration: [["time", "Time"]],
+  distance: [["distance", "Distance"]],
+  duration_distance: [
+    ["pace", "Pace"],
+    ["speed", "Speed"],
+    ["distance", "Distance"],
+    ["time", "Time"],
+  ],
+};
+
+// Stack colours, cycled when more muscles are tagged than there are colours
+const MUSCLE_COLORS = [
+  "#3B82F6",
+  "#22C55E",
+  "#F59E0B",
+  "#EF4444",
+  "#A855F7",
+  "#14B8A6",
+  "#EC4899",
+  "#84CC16",
+  "#F97316",
+  "#6366F1",
+  "#06B6D4",
+  "#EAB308",
+];
+
 export function AnalyticsScreen() {
   const navigate = useNavigate();
+  const { unit, toDisplay, formatWeight } = useUnits();
+  const distanceUnit = distanceUnitFor(unit);
+  // Coaches can switch the whole screen to one of their athletes
+  const { viewedAthlete } = useCoaching();
+  const athleteId = viewedAthlete?.athlete_id ?? null;
+  const title = viewedAthlete
+    ? `Analytics · ${viewedAthlete.athlete_name}`
+    : "Analytics";
 
   const [userId, setUserId] = useState<string | null>(null);
   const [exerciseNames, setExerciseNames] = useState<string[]>([]);
+  // Lower-cased name → kind, to split strength lifts from cardio
+  const [kinds, setKinds] = useState<Map<string, ExerciseKind>>(new Map());
   const [selectedExercise, setSelectedExercise] = useState<string>("");
-  const [strengthData, setStrengthData] = useState<ChartDataPoint[]>([]);
+  const [strengthData, setStrengthData] = useState<
+    (ChartDataPoint | E1RMDataPoint)[]
+  >([]);
+  const [strengthMetric, setStrengthMetric] = useState<StrengthMetric>("weight");
+  const [formula, setFormula] = useState<OneRepMaxFormula>(() =>
+    getStoredOneRepMaxFormula(),
+  );
   const [volumeData, setVolumeData] = useState<WeeklyVolumeSummary[]>([]);
   const [prs, setPrs] = useState<PRSummaryRow[]>([]);
   const [goals, setGoals] = useState<ExerciseGoal[]>([]);
+  const [goalProgress, setGoalProgress] = useState<
+    Record<string, GoalProgress>
+  >({});
+  const [bodyweight, setBodyweight] = useState<number | null>(null);
   const [weekComparison, setWeekComparison] = useState<WeekComparison | null>(
     null,
   );
+  const [muscleVolumes, setMuscleVolumes] = useState<WeeklyMuscleVolume[]>([]);
+  const [fatigue, setFatigue] = useState<FatigueSummary | null>(null);
+  const [plateaus, setPlateaus] = useState<PlateauFlag[]>([]);
+  const [fixing, setFixing] = useState<PlateauFlag | null>(null);
+  const [toast, setToast] = useState("");
+  const [muscleMetric, setMuscleMetric] = useState<MuscleMetric>("sets");
+  const [setFloor] = useState(() => getStoredSetFloor());
+  const [selectedCardio, setSelectedCardio] = useState<string>("");
+  const [cardioData, setCardioData] = useState<CardioDataPoint[]>([]);
+  const [cardioMetric, setCardioMetric] = useState<CardioMetric>("pace");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>("");
+  // Viewed athlete's latest sessions, for opening and leaving feedback
+  const [athleteWorkouts, setAthleteWorkouts] = useState<Workout[]>([]);
 
   // ─── Initial data load ──────────────────────────────────────────────────────
 
@@ -66,29 +195,66 @@ export function AnalyticsScreen() {
         setLoading(true);
         setError("");
 
-        const uid = await getAuthUserId();
+        const uid = athleteId ?? (await getAuthUserId());
         if (cancelled) return;
         setUserId(uid);
 
-        const [names, volumes, records, comparison, goalsData] =
-          await Promise.all([
-            getDistinctExerciseNames(uid),
-            getWeeklyVolumes(uid),
-            getPersonalRecords(uid),
-            getWeekComparison(uid),
-            goalApi.getAll(),
-          ]);
+        const [
+          names,
+          volumes,
+          records,
+          comparison,
+          goalsData,
+          latestBw,
+          muscles,
+          library,
+          loads,
+        ] = await Promise.all([
+          getDistinctExerciseNames(uid),
+          getWeeklyVolumes(uid),
+          getPersonalRecords(uid),
+          getWeekComparison(uid),
+          // Goals and bodyweight stay private to the athlete
+          athleteId ? [] : goalApi.getAll(),
+          athleteId ? null : getLatestBodyweight(),
+          getWeeklyMuscleVolumes(uid, MUSCLE_WEEKS),
+          getExerciseLibrary(uid),
+          getSessionLoads(uid, subDays(new Date(), ACUTE_DAYS * CHRONIC_WEEKS)),
+        ]);
 
         if (cancelled) return;
 
+        const kindByName = new Map(
+          library.map((e) => [e.name.toLowerCase(), e.kind]),
+        );
+        const isCardio = (name: string) =>
+          isCardioKind(kindByName.get(name.toLowerCase()));
         setExerciseNames(names);
+        setKinds(kindByName);
         setVolumeData(volumes);
         setPrs(records);
         setWeekComparison(comparison);
-        setGoals(goalsData);
+        setMuscleVolumes(muscles);
+        setFatigue(summariseFatigue(loads, volumes));
+        const tracked = await getGoalProgress(goalsData);
+        if (cancelled) return;
+        setGoals(tracked.goals);
+        setGoalProgress(
+          Object.fromEntries(tracked.progress.map((p) => [p.goalId, p])),
+        );
+        setBodyweight(latestBw);
 
-        if (names.length > 0) {
-          setSelectedExercise(names[0]);
+        // Cleared first so switching athletes never shows the last one's lift
+        const firstLift = names.find((name) => !isCardio(name));
+        setSelectedExercise(firstLift ?? "");
+        setStrengthData([]);
+        const firstCardio = names.find(isCardio);
+        setSelectedCardio(firstCardio ?? "");
+        setCardioData([]);
+        if (firstCardio) {
+          setCardioMetric(
+            CARDIO_METRICS[kindByName.get(firstCardio.toLowerCase())!][0][0],
+          );
         }
       } catch (err: unknown) {
         if (cancelled) return;
@@ -105,24 +271,183 @@ export function AnalyticsScreen() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [athleteId]);
+
+  useEffect(() => {
+    if (!athleteId) return;
+    let cancelled = false;
+    getAthleteWorkouts(athleteId)
+      .then((data) => !cancelled && setAthleteWorkouts(data))
+      .catch((err) => {
+        console.error("[AnalyticsScreen] loadAthleteWorkouts error:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [athleteId]);
 
-  // ─── Strength chart data (re-loads when exercise changes) ───────────────────
+  // ─── Plateaus (re-detected when the e1RM formula changes) ────────────────────
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    getPlateaus(userId, formula)
+      .then((flags) => !cancelled && setPlateaus(flags))
+      .catch((err) => {
+        console.error("[AnalyticsScreen] loadPlateaus error:", err);
+        if (!cancelled) setPlateaus([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, formula]);
+
+  // ─── Strength chart data (re-loads when exercise or metric changes) ─────────
 
   const loadStrengthData = useCallback(
     async (name: string) => {
       if (!name || !userId) return;
       try {
-        const data = await getMaxWeightOverTime(userId, name);
+        const data =
+          strengthMetric === "e1rm"
+            ? await getE1RMOverTime(userId, name, formula)
+            : await getMaxWeightOverTime(userId, name);
         setStrengthData(data);
       } catch (err) {
         console.error("[AnalyticsScreen] loadStrengthData error:", err);
         setStrengthData([]);
       }
     },
-    [userId],
+    [userId, strengthMetric, formula],
+  );
+
+  const strengthNames = useMemo(
+    () =>
+      exerciseNames.filter((n) => !isCardioKind(kinds.get(n.toLowerCase()))),
+    [exerciseNames, kinds],
+  );
+  const cardioNames = useMemo(
+    () =>
+      exerciseNames.filter((n) => isCardioKind(kinds.get(n.toLowerCase()))),
+    [exerciseNames, kinds],
+  );
+  const cardioKind = kinds.get(selectedCardio.toLowerCase()) ?? "duration";
+
+  function handleCardioChange(name: string) {
+    setSelectedCardio(name);
+    const metrics = CARDIO_METRICS[kinds.get(name.toLowerCase()) ?? "duration"];
+    if (!metrics.some(([m]) => m === cardioMetric)) {
+      setCardioMetric(metrics[0][0]);
+    }
+  }
+
+  useEffect(() => {
+    if (!selectedCardio || !userId) return;
+    let cancelled = false;
+    getCardioOverTime(userId, selectedCardio)
+      .then((data) => !cancelled && setCardioData(data))
+      .catch((err) => {
+        console.error("[AnalyticsScreen] loadCardioData error:", err);
+        if (!cancelled) setCardioData([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCardio, userId]);
+
+  // Pace is seconds per km / mile, speed km/h or mph, time minutes
+  const cardioChartData = useMemo(
+    () =>
+      cardioData.flatMap((p) => {
+        let value: number | null;
+        if (cardioMetric === "pace") {
+          value = paceSeconds(p.seconds, p.distance, distanceUnit);
+        } else if (cardioMetric === "speed") {
+          value = speed(p.seconds, p.distance, distanceUnit);
+        } else if (cardioMetric === "distance") {
+          value =
+            p.distance > 0 ? toDisplayDistance(p.distance, distanceUnit) : null;
+        } else {
+          value =
+            p.seconds > 0 ? Math.round((p.seconds / 60) * 10) / 10 : null;
+        }
+        return value === null ? [] : [{ date: p.date, value }];
+      }),
+    [cardioData, cardioMetric, distanceUnit],
   );
 
+  function formatCardioValue(value: number): string {
+    if (cardioMetric === "pace") {
+      return `${formatDuration(value)} /${distanceUnit}`;
+    }
+    if (cardioMetric === "speed") {
+      return `${value} ${distanceUnit === "mi" ? "mph" : "km/h"}`;
+    }
+    if (cardioMetric === "distance") return `${value} ${distanceUnit}`;
+    return formatDuration(value * 60);
+  }
+
+  // Charts plot the user's unit; the data itself is always kg
+  const strengthChartData = useMemo(
+    () => strengthData.map((p) => ({ ...p, value: toDisplay(p.value) })),
+    [strengthData, toDisplay],
+  );
+
+  const volumeChartData = useMemo(
+    () =>
+      volumeData.map((w) => ({
+        ...w,
+        totalVolume: Math.round(toDisplay(w.totalVolume)),
+      })),
+    [volumeData, toDisplay],
+  );
+
+  // Muscles ordered by total sets over the range, so the biggest sit at the
+  // bottom of each stack and keep their colour between toggles
+  const trainedMuscles = useMemo(() => {
+    const totals = new Map<string, number>();
+    for (const week of muscleVolumes) {
+      for (const g of week.groups) {
+        totals.set(g.muscle, (totals.get(g.muscle) ?? 0) + g.sets);
+      }
+    }
+    return [...totals.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([muscle]) => muscle);
+  }, [muscleVolumes]);
+
+  const muscleChartData = useMemo(
+    () =>
+      muscleVolumes.map((week) => ({
+        weekStart: week.weekStart,
+        ...Object.fromEntries(
+          week.groups.map((g) => [
+            g.muscle,
+            muscleMetric === "sets"
+              ? g.sets
+              : Math.round(toDisplay(g.volume)),
+          ]),
+        ),
+      })),
+    [muscleVolumes, muscleMetric, toDisplay],
+  );
+
+  const undertrained = useMemo(
+    () =>
+      findUndertrainedGroups(
+        muscleVolumes,
+        muscleVolumes[muscleVolumes.length - 1],
+        setFloor,
+      ),
+    [muscleVolumes, setFloor],
+  );
+
+  function handleFormulaChange(next: OneRepMaxFormula) {
+    setFormula(next);
+    setStoredOneRepMaxFormula(next);
+  }
+
   useEffect(() => {
     if (selectedExercise && userId) {
       loadStrengthData(selectedExercise);
@@ -139,6 +464,21 @@ export function AnalyticsScreen() {
     }
   }
 
+  /** "1.5× BW" next to a lift, once a bodyweight has been logged */
+  function RelativeStrength({ weight }: { weight: number }) {
+    const ratio = relativeStrength(weight, bodyweight);
+    if (ratio === null) return null;
+    return (
+      <p className="text-muted text-xs" title="Lift ÷ latest bodyweight">
+        {ratio}× BW
+      </p>
+    );
+  }
+
+  function formatShortDate(dateStr: string): string {
+    return format(parseISO(dateStr), "MMM d, yyyy");
+  }
+
   function TrendIcon({ value }: { value: number }) {
     if (value > 0)
       return <TrendingUp className="w-4 h-4 text-success inline" />;
@@ -152,7 +492,7 @@ export function AnalyticsScreen() {
   if (loading) {
     return (
       <Container>
-        <Header title="Analytics" onBack={() => navigate("/")} />
+        <Header title={title} onBack={() => navigate("/")} athleteSwitcher />
         <div className="text-center py-12">
           <div className="text-muted">Loading analytics...</div>
         </div>
@@ -168,7 +508,7 @@ export function AnalyticsScreen() {
   if (!hasAnyData && !error) {
     return (
       <Container>
-        <Header title="Analytics" onBack={() => navigate("/")} />
+        <Header title={title} onBack={() => navigate("/")} athleteSwitcher />
         <Breadcrumbs
           items={[
             { label: "Home", onClick: () => navigate("/") },
@@ -178,23 +518,64 @@ export function AnalyticsScreen() {
         <div className="text-center py-16 px-4">
           <BarChart3 className="w-12 h-12 text-muted mx-auto mb-4" />
           <h2 className="text-xl text-primary mb-2">No workout data yet</h2>
-          <p className="text-muted mb-6 max-w-sm mx-auto">
-            Log some workouts to see your strength progress, volume trends, and
-            personal records here.
-          </p>
-          <Button onClick={() => navigate("/workout/new")}>
-            Log Your First Workout
-          </Button>
+          {viewedAthlete ? (
+            <p className="text-muted mb-6 max-w-sm mx-auto">
+              {viewedAthlete.athlete_name} hasn't logged any workouts yet.
+            </p>
+          ) : (
+            <>
+              <p className="text-muted mb-6 max-w-sm mx-auto">
+                Log some workouts to see your strength progress, volume trends,
+                and personal records here.
+              </p>
+              <Button onClick={() => navigate("/workout/new")}>
+                Log Your First Workout
+              </Button>
+            </>
+          )}
         </div>
       </Container>
     );
   }
 
+  function renderWorkloadRatio(
+    label: string,
+    load: WorkloadRatio,
+    formatLoad: (value: number) => string,
+    emptyHint: string,
+  ) {
+    return (
+      <div className="bg-elevated rounded-lg p-3">
+        <p className="text-xs text-secondary mb-1">{label}</p>
+        {load.ratio !== null && load.zone ? (
+          <>
+            <p className="text-2xl font-semibold text-primary tabular-nums">
+              {load.ratio.toFixed(2)}
+            </p>
+            <p
+              className={cn(
+                "text-xs font-medium",
+                ACWR_ZONES[load.zone].className,
+              )}
+            >
+              {ACWR_ZONES[load.zone].label}
+            </p>
+            <p className="text-muted text-xs mt-1">
+              {formatLoad(load.acute)} vs {formatLoad(load.chronic)} / wk
+            </p>
+          </>
+        ) : (
+          <p className="text-muted text-xs">{emptyHint}</p>
+        )}
+      </div>
+    );
+  }
+
   // ─── Main render ────────────────────────────────────────────────────────────
 
   return (
     <Container>
-      <Header title="Analytics" onBack={() => navigate("/")} />
+      <Header title={title} onBack={() => navigate("/")} athleteSwitcher />
       <Breadcrumbs
         items={[
           { label: "Home", onClick: () => navigate("/") },
@@ -207,6 +588,37 @@ export function AnalyticsScreen() {
           <ErrorMessage message={error} onDismiss={() => setError("")} />
         )}
 
+        {/* ─── Athlete's Recent Workouts ─────────────────────── */}
+        {viewedAthlete && athleteWorkouts.length > 0 && (
+          <Card className="p-4 sm:p-5">
+            <div className="flex items-center gap-2 mb-1">
+              <MessageSquare className="w-5 h-5 text-accent" />
+              <h2 className="text-lg font-semibold text-primary">
+                Recent Workouts
+              </h2>
+            </div>
+            <p className="text-muted text-xs mb-3">
+              Open a workout to leave feedback on it, an exercise or a set.
+            </p>
+            <div className="space-y-1.5">
+              {athleteWorkouts.map((w) => (
+                <button
+                  key={w.id}
+                  onClick={() => navigate(`/workout/${w.id}`)}
+                  className="w-full flex items-center gap-3 bg-elevated rounded-lg px-3 py-2 text-left hover:bg-card transition-colors"
+                >
+                  <span className="text-secondary text-xs w-20 shrink-0">
+                    {format(parseISO(w.date), "EEE, MMM d")}
+                  </span>
+                  <span className="text-primary text-sm truncate">
+                    {w.title || "Workout"}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* ─── Strength Progress ─────────────────────────────── */}
         <Card className="p-4 sm:p-5">
           <div className="flex items-center gap-2 mb-4">
@@ -216,24 +628,64 @@ export function AnalyticsScreen() {
             </h2>
           </div>
 
-          {exerciseNames.length > 0 ? (
+          {strengthNames.length > 0 ? (
             <>
               <select
                 value={selectedExercise}
                 onChange={(e) => setSelectedExercise(e.target.value)}
                 className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm mb-4 focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
               >
-                {exerciseNames.map((name) => (
+                {strengthNames.map((name) => (
                   <option key={name} value={name}>
                     {name}
                   </option>
                 ))}
               </select>
 
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <div className="flex rounded-lg bg-elevated p-0.5 text-xs">
+                  {(
+                    [
+                      ["weight", "Top weight"],
+                      ["e1rm", "Est. 1RM"],
+                    ] as const
+                  ).map(([metric, label]) => (
+                    <button
+                      key={metric}
+                      onClick={() => setStrengthMetric(metric)}
+                      className={cn(
+                        "px-3 py-1.5 rounded-md transition-colors",
+                        strengthMetric === metric
+                          ? "bg-card text-primary font-medium"
+                          : "text-muted hover:text-primary",
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {strengthMetric === "e1rm" && (
+                  <select
+                    value={formula}
+                    onChange={(e) =>
+                      handleFormulaChange(e.target.value as OneRepMaxFormula)
+                    }
+                    className="px-2 py-1.5 rounded-lg bg-elevated border border-primary text-primary text-xs"
+                    aria-label="e1RM formula"
+                  >
+                    {Object.entries(ONE_REP_MAX_FORMULAS).map(([key, name]) => (
+                      <option key={key} value={key}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
               {strengthData.length > 1 ? (
                 <div className="h-52 sm:h-64">
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={strengthData}>
+                    <LineChart data={strengthChartData}>
                       <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
                       <XAxis
                         dataKey="date"
@@ -244,7 +696,7 @@ export function AnalyticsScreen() {
                       <YAxis
                         stroke="var(--text-muted)"
                         tick={{ fontSize: 11 }}
-                        unit="kg"
+                        unit={unit}
                       />
                       <Tooltip
                         contentStyle={{
@@ -257,7 +709,16 @@ export function AnalyticsScreen() {
                         labelFormatter={(label) =>
                           formatChartDate(String(label))
                         }
-                        formatter={(value) => [`${value} kg`, "Max Weight"]}
+                        formatter={(value, _name, item) => {
+                          if (strengthMetric === "weight") {
+                            return [`${value} ${unit}`, "Max Weight"];
+                          }
+                          const point = item.payload as E1RMDataPoint;
+                          return [
+                            `${value} ${unit} (${formatWeight(point.weight)} × ${point.reps})`,
+                            "Est. 1RM",
+                          ];
+                        }}
                       />
                       <Line
                         type="monotone"
@@ -283,6 +744,163 @@ export function AnalyticsScreen() {
           )}
         </Card>
 
+        {/* ─── Plateaus ──────────────────────────────────────── */}
+        {plateaus.length > 0 && (
+          <Card className="p-4 sm:p-5">
+            <div className="flex items-center gap-2 mb-1">
+              <AlertTriangle className="w-5 h-5 text-warning" />
+              <h2 className="text-lg font-semibold text-primary">Plateaus</h2>
+            </div>
+            <p className="text-muted text-xs mb-3">
+              Lifts whose estimated 1RM hasn't beaten its best in{" "}
+              {PLATEAU_WEEKS}+ weeks, or has dropped {REGRESSION_PERCENT}%+
+              below it for two weeks running.
+            </p>
+            <div className="space-y-2">
+              {plateaus.map((flag) => (
+                <div
+                  key={flag.exerciseName}
+                  className="flex items-center gap-3 bg-elevated rounded-lg px-3 py-2"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => {
+                          setSelectedExercise(flag.exerciseName);
+                          setStrengthMetric("e1rm");
+                        }}
+                        className="text-primary text-sm font-medium truncate hover:text-accent transition-colors"
+                      >
+                        {flag.exerciseName}
+                      </button>
+                      <span
+                        className={cn(
+                          "text-xs font-medium shrink-0",
+                          flag.status === "regression"
+                            ? "text-danger"
+                            : "text-warning",
+                        )}
+                      >
+                        {flag.status === "regression"
+                          ? "Regressing"
+                          : "Plateau"}
+                      </span>
+                    </div>
+                    <p className="text-muted text-xs tabular-nums">
+                      e1RM {formatWeight(flag.recentE1RM)} vs best{" "}
+                      {formatWeight(flag.bestE1RM)} ·{" "}
+                      {flag.weeksSinceBest} wk since best
+                    </p>
+                  </div>
+                  {!athleteId && (
+                    <Button
+                      onClick={() => setFixing(flag)}
+                      className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-xs"
+                    >
+                      <Wrench className="w-3.5 h-3.5" />
+                      Fix
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* ─── Cardio ────────────────────────────────────────── */}
+        {cardioNames.length > 0 && (
+          <Card className="p-4 sm:p-5">
+            <div className="flex items-center gap-2 mb-4">
+              <Timer className="w-5 h-5 text-accent" />
+              <h2 className="text-lg font-semibold text-primary">Cardio</h2>
+            </div>
+
+            <select
+              value={selectedCardio}
+              onChange={(e) => handleCardioChange(e.target.value)}
+              className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm mb-4 focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
+            >
+              {cardioNames.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+
+            {CARDIO_METRICS[cardioKind].length > 1 && (
+              <div className="flex rounded-lg bg-elevated p-0.5 text-xs mb-4 w-fit">
+                {CARDIO_METRICS[cardioKind].map(([metric, label]) => (
+                  <button
+                    key={metric}
+                    onClick={() => setCardioMetric(metric)}
+                    className={cn(
+                      "px-3 py-1.5 rounded-md transition-colors",
+                      cardioMetric === metric
+                        ? "bg-card text-primary font-medium"
+                        : "text-muted hover:text-primary",
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {cardioChartData.length > 1 ? (
+              <div className="h-52 sm:h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={cardioChartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
+                    <XAxis
+                      dataKey="date"
+                      tickFormatter={formatChartDate}
+                      stroke="var(--text-muted)"
+                      tick={{ fontSize: 11 }}
+                    />
+                    <YAxis
+                      stroke="var(--text-muted)"
+                      tick={{ fontSize: 11 }}
+                      // Faster is a lower pace — flip so up still means better
+                      reversed={cardioMetric === "pace"}
+                      tickFormatter={(v: number) =>
+                        cardioMetric === "pace" ? formatDuration(v) : String(v)
+                      }
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "var(--surface-floating)",
+                        border: "1px solid var(--border-primary)",
+                        borderRadius: "8px",
+                        color: "var(--text-primary)",
+                        fontSize: "13px",
+                      }}
+                      labelFormatter={(label) => formatChartDate(String(label))}
+                      formatter={(value) => [
+                        formatCardioValue(Number(value)),
+                        CARDIO_METRICS[cardioKind].find(
+                          ([m]) => m === cardioMetric,
+                        )?.[1] ?? "",
+                      ]}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="value"
+                      stroke="var(--accent-primary)"
+                      strokeWidth={2}
+                      dot={{ fill: "var(--accent-primary)", r: 3 }}
+                      activeDot={{ r: 5 }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-muted text-sm text-center py-8">
+                Not enough data for this exercise yet.
+              </p>
+            )}
+          </Card>
+        )}
+
         {/* ─── Volume Trends ─────────────────────────────────── */}
         <Card className="p-4 sm:p-5">
           <div className="flex items-center gap-2 mb-4">
@@ -293,7 +911,7 @@ export function AnalyticsScreen() {
           {volumeData.length > 1 ? (
             <div className="h-52 sm:h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={volumeData}>
+                <BarChart data={volumeChartData}>
                   <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
                   <XAxis
                     dataKey="weekStart"
@@ -312,7 +930,7 @@ export function AnalyticsScreen() {
                     }}
                     labelFormatter={(label) => formatChartDate(String(label))}
                     formatter={(value) => [
-                      `${Number(value).toLocaleString()} kg`,
+                      `${Number(value).toLocaleString()} ${unit}`,
                       "Total Volume",
                     ]}
                   />
@@ -331,6 +949,162 @@ export function AnalyticsScreen() {
           )}
         </Card>
 
+        {/* ─── Training Load ─────────────────────────────────── */}
+        {fatigue && (
+          <Card className="p-4 sm:p-5">
+            <div className="flex items-center gap-2 mb-1">
+              <Activity className="w-5 h-5 text-accent" />
+              <h2 className="text-lg font-semibold text-primary">
+                Training Load
+              </h2>
+            </div>
+            <p className="text-muted text-xs mb-4">
+              Acute:chronic ratio — last 7 days against your 4-week average.
+              0.8–1.3 is the sweet spot; above 1.5 is a spike.
+            </p>
+
+            <FatigueWarnings warnings={fatigue.warnings} className="mb-4" />
+
+            <div className="grid grid-cols-2 gap-3">
+              {renderWorkloadRatio(
+                "Session load",
+                fatigue.sessionLoad,
+                (v) => `${v.toLocaleString()} AU`,
+                "Rate session RPE on your workouts for 3+ weeks to see this.",
+              )}
+              {renderWorkloadRatio(
+                "Tonnage",
+                fatigue.tonnage,
+                (v) => `${toDisplay(v).toLocaleString()} ${unit}`,
+                "Needs 4 full weeks of training.",
+              )}
+            </div>
+
+            {fatigue.latestCheckIn && (
+              <p className="text-secondary text-xs mt-4">
+                Last check-in ·{" "}
+                {format(parseISO(fatigue.latestCheckIn.date), "MMM d")}
+                {fatigue.latestCheckIn.sleepHours !== null &&
+                  ` · ${fatigue.latestCheckIn.sleepHours} h sleep`}
+                {fatigue.latestCheckIn.soreness !== null &&
+                  ` · soreness ${SORENESS_LABELS[
+                    fatigue.latestCheckIn.soreness - 1
+                  ].toLowerCase()}`}
+                {fatigue.latestCheckIn.readiness !== null &&
+                  ` · readiness ${READINESS_LABELS[
+                    fatigue.latestCheckIn.readiness - 1
+                  ].toLowerCase()}`}
+              </p>
+            )}
+          </Card>
+        )}
+
+        {/* ─── Muscle Groups ─────────────────────────────────── */}
+        <Card className="p-4 sm:p-5">
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <div className="flex items-center gap-2">
+              <Dumbbell className="w-5 h-5 text-accent" />
+              <h2 className="text-lg font-semibold text-primary">
+                Muscle Groups
+              </h2>
+            </div>
+            <div className="flex rounded-lg bg-elevated p-0.5 text-xs">
+              {(
+                [
+                  ["sets", "Sets"],
+                  ["volume", "Volume"],
+                ] as const
+              ).map(([metric, label]) => (
+                <button
+                  key={metric}
+                  onClick={() => setMuscleMetric(metric)}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md transition-colors",
+                    muscleMetric === metric
+                      ? "bg-card text-primary font-medium"
+                      : "text-muted hover:text-primary",
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {trainedMuscles.length > 0 ? (
+            <>
+              <div className="h-64 sm:h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={muscleChartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
+                    <XAxis
+                      dataKey="weekStart"
+                      tickFormatter={formatChartDate}
+                      stroke="var(--text-muted)"
+                      tick={{ fontSize: 11 }}
+                    />
+                    <YAxis stroke="var(--text-muted)" tick={{ fontSize: 11 }} />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "var(--surface-floating)",
+                        border: "1px solid var(--border-primary)",
+                        borderRadius: "8px",
+                        color: "var(--text-primary)",
+                        fontSize: "13px",
+                      }}
+                      labelFormatter={(label) => formatChartDate(String(label))}
+                      formatter={(value, name) => [
+                        muscleMetric === "sets"
+                          ? `${Number(value)} sets`
+                          : `${Number(value).toLocaleString()} ${unit}`,
+                        name,
+                      ]}
+                    />
+                    <Legend wrapperStyle={{ fontSize: "11px" }} />
+                    {trainedMuscles.map((muscle, i) => (
+                      <Bar
+                        key={muscle}
+                        dataKey={muscle}
+                        stackId="muscles"
+                        fill={MUSCLE_COLORS[i % MUSCLE_COLORS.length]}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-muted text-xs mt-2">
+                Secondary muscles count as half a set.
+              </p>
+
+              {undertrained.length > 0 && (
+                <div className="mt-4 p-3 rounded-lg bg-elevated">
+                  <div className="flex items-center gap-2 mb-2">
+                    <AlertTriangle className="w-4 h-4 text-warning" />
+                    <p className="text-sm font-medium text-primary">
+                      Under {setFloor} sets this week
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {undertrained.map((g) => (
+                      <span
+                        key={g.muscle}
+                        className="px-2 py-1 rounded-md bg-card text-xs text-secondary"
+                      >
+                        {g.muscle} · {g.sets}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-muted text-sm text-center py-8">
+              Tag your exercises with muscle groups on the Exercises screen to
+              see volume per muscle.
+            </p>
+          )}
+        </Card>
+
         {/* ─── Weekly Comparison ──────────────────────────────── */}
         {weekComparison && (
           <Card className="p-4 sm:p-5">
@@ -341,7 +1115,10 @@ export function AnalyticsScreen() {
               <div className="text-center">
                 <p className="text-muted text-xs mb-1">Volume</p>
                 <p className="text-primary font-semibold text-sm">
-                  {weekComparison.current.totalVolume.toLocaleString()} kg
+                  {Math.round(
+                    toDisplay(weekComparison.current.totalVolume),
+                  ).toLocaleString()}{" "}
+                  {unit}
                 </p>
                 <p className="text-xs mt-1">
                   <TrendIcon value={weekComparison.volumeChange} />{" "}
@@ -353,7 +1130,9 @@ export function AnalyticsScreen() {
                     }
                   >
                     {weekComparison.volumeChange >= 0 ? "+" : ""}
-                    {weekComparison.volumeChange.toLocaleString()}
+                    {Math.round(
+                      toDisplay(weekComparison.volumeChange),
+                    ).toLocaleString()}
                   </span>
                 </p>
               </div>
@@ -401,12 +1180,12 @@ export function AnalyticsScreen() {
 
         {/* ─── Goal Progress & Personal Records ────────────── */}
         {(() => {
-          // Match goals (with target_weight) to PR data
-          const goalsWithTargetWeight = goals.filter(
-            (g) => g.target_weight && g.exercise?.name,
-          );
+          // Exercises with a strength goal show their PR under Goal Progress
+          const trackedGoals = goals.filter((g) => goalProgress[g.id]);
           const goalExerciseNames = new Set(
-            goalsWithTargetWeight.map((g) => g.exercise!.name),
+            trackedGoals
+              .filter((g) => isStrengthGoal(g.goal_type) && g.exercise?.name)
+              .map((g) => g.exercise!.name),
           );
           const prsWithoutGoals = prs.filter(
             (pr) => !goalExerciseNames.has(pr.exercise_name),
@@ -415,7 +1194,7 @@ export function AnalyticsScreen() {
           return (
             <>
               {/* Goal Progress Section */}
-              {goalsWithTargetWeight.length > 0 && (
+              {trackedGoals.length > 0 && (
                 <Card className="p-4 sm:p-5">
                   <div className="flex items-center gap-2 mb-4">
                     <Target className="w-5 h-5 text-accent" />
@@ -425,18 +1204,18 @@ export function AnalyticsScreen() {
                   </div>
 
                   <div className="space-y-3">
-                    {goalsWithTargetWeight.map((goal) => {
-                      const exerciseName = goal.exercise!.name;
-                      const matchingPR = prs.find(
-                        (pr) => pr.exercise_name === exerciseName,
-                      );
-                      const currentBest = matchingPR?.max_weight ?? 0;
-                      const target = goal.target_weight!;
-                      const pct = Math.min(
-                        Math.round((currentBest / target) * 100),
-                        100,
-                      );
-                      const achieved = currentBest >= target;
+                    {trackedGoals.map((goal) => {
+                      const {
+                        current,
+                        target,
+                        percent: pct,
+                        achieved,
+                        projectedDate,
+                      } = goalProgress[goal.id];
+                      const late =
+                        !!projectedDate &&
+                        !!goal.target_date &&
+                        projectedDate > goal.target_date;
 
                       return (
                         <div
@@ -448,15 +1227,19 @@ export function AnalyticsScreen() {
                           }`}
                         >
                           <div className="flex items-center justify-between mb-2">
-                            <div className="flex items-center gap-2">
+                            <div className="flex items-center gap-2 min-w-0">
                               {achieved && (
                                 <Trophy className="w-4 h-4 text-warning" />
                               )}
-                              <p className="text-primary font-medium text-sm">
-                                {exerciseName}
+                              <p className="text-primary font-medium text-sm truncate">
+                                {goal.exercise?.name ?? "Training frequency"}
+                                <span className="text-muted font-normal">
+                                  {" "}
+                                  · {GOAL_TYPES[goal.goal_type]}
+                                </span>
                               </p>
                             </div>
-                            <p className="text-sm">
+                            <p className="text-sm shrink-0">
                               <span
                                 className={
                                   achieved
@@ -464,11 +1247,11 @@ export function AnalyticsScreen() {
                                     : "text-primary"
                                 }
                               >
-                                {currentBest} kg
+                                {formatGoalValue(goal.goal_type, current, unit)}
                               </span>
                               <span className="text-muted">
                                 {" "}
-                                / {target} kg
+                                / {formatGoalValue(goal.goal_type, target, unit)}
                               </span>
                             </p>
                           </div>
@@ -488,19 +1271,32 @@ export function AnalyticsScreen() {
                               style={{ width: `${pct}%` }}
                             />
                           </div>
-                          <div className="flex justify-between mt-1">
+                          <div className="flex justify-between gap-2 mt-1">
                             <p className="text-xs text-muted">
-                              {achieved ? "Goal reached!" : `${pct}% of target`}
+                              {!achieved
+                                ? `${pct}% of target`
+                                : goal.achieved_at
+                                  ? `Reached ${formatShortDate(goal.achieved_at)}`
+                                  : "Goal reached!"}
                             </p>
-                            {matchingPR && (
-                              <p className="text-xs text-muted">
-                                PR:{" "}
-                                {format(
-                                  parseISO(matchingPR.best_date),
-                                  "MMM d, yyyy",
-                                )}
-                              </p>
-                            )}
+                            {!achieved &&
+                              (projectedDate || goal.target_date) && (
+                                <p
+                                  className={cn(
+                                    "text-xs",
+                                    late ? "text-warning" : "text-muted",
+                                  )}
+                                >
+                                  {[
+                                    projectedDate &&
+                                      `ETA ${formatShortDate(projectedDate)}`,
+                                    goal.target_date &&
+                                      `due ${formatShortDate(goal.target_date)}`,
+                                  ]
+                                    .filter(Boolean)
+                                    .join(" · ")}
+                                </p>
+                              )}
                           </div>
                         </div>
                       );
@@ -516,6 +1312,11 @@ export function AnalyticsScreen() {
                   <h2 className="text-lg font-semibold text-primary">
                     Personal Records
                   </h2>
+                  {bodyweight !== null && (
+                    <span className="ml-auto text-muted text-xs">
+                      at {formatWeight(bodyweight)} bodyweight
+                    </span>
+                  )}
                 </div>
 
                 {prsWithoutGoals.length > 0 ? (
@@ -535,8 +1336,9 @@ export function AnalyticsScreen() {
                         </div>
                         <div className="text-right">
                           <p className="text-warning font-semibold text-sm">
-                            {pr.max_weight} kg
+                            {formatWeight(pr.max_weight)}
                           </p>
+                          <RelativeStrength weight={pr.max_weight} />
                         </div>
                       </div>
                     ))}
@@ -564,6 +1366,19 @@ export function AnalyticsScreen() {
           Back to Home
         </Button>
       </div>
+
+      {fixing && (
+        <PlateauFixModal
+          isOpen
+          onClose={() => setFixing(null)}
+          flag={fixing}
+          onApplied={(message) => {
+            setFixing(null);
+            setToast(message);
+          }}
+        />
+      )}
+      {toast && <Toast message={toast} onDismiss={() => setToast("")} />}
     </Container>
   );
 }
@@ -0,0 +1,460 @@
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Container, Header, Card, Button } from "@/components/ui/Layout";
+import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
+import { Input } from "@/components/ui/Form";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { Toast } from "@/components/ui/Toast";
+import { SkeletonList } from "@/components/ui/SkeletonCard";
+import {
+  getBodyMetrics,
+  saveBodyMetric,
+  deleteBodyMetric,
+  uploadProgressPhoto,
+  removeProgressPhoto,
+  getProgressPhotoUrls,
+} from "@/lib/bodyMetricsService";
+import { useUnits } from "@/contexts/useUnits";
+import { WEIGHT_STEP } from "@/lib/units";
+import type { BodyMeasurement, BodyMetric } from "@/types";
+import { format, parseISO } from "date-fns";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Camera, Ruler, Scale, Trash2 } from "lucide-react";
+
+const MEASUREMENTS: { key: BodyMeasurement; label: string; color: string }[] =
+  [
+    { key: "waist_cm", label: "Waist", color: "var(--accent-primary)" },
+    { key: "chest_cm", label: "Chest", color: "var(--success)" },
+    { key: "arm_cm", label: "Arm", color: "var(--warning)" },
+  ];
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "var(--surface-floating)",
+  border: "1px solid var(--border-primary)",
+  borderRadius: "8px",
+  color: "var(--text-primary)",
+  fontSize: "13px",
+};
+
+interface EntryDraft {
+  date: string;
+  bodyweight: string;
+  waist_cm: string;
+  arm_cm: string;
+  chest_cm: string;
+}
+
+function parseOptional(value: string): number | null {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function formatChartDate(dateStr: string): string {
+  try {
+    return format(parseISO(dateStr), "MMM d");
+  } catch {
+    return dateStr;
+  }
+}
+
+export function BodyMetricsScreen() {
+  const navigate = useNavigate();
+  const { unit, toDisplay, fromDisplay, formatWeight } = useUnits();
+
+  const [metrics, setMetrics] = useState<BodyMetric[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [toast, setToast] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<BodyMetric | null>(null);
+
+  const [draft, setDraft] = useState<EntryDraft>(() => ({
+    date: format(new Date(), "yyyy-MM-dd"),
+    bodyweight: "",
+    waist_cm: "",
+    arm_cm: "",
+    chest_cm: "",
+  }));
+  const [photo, setPhoto] = useState<File | null>(null);
+
+  useEffect(() => {
+    void loadMetrics();
+  }, []);
+
+  async function loadMetrics() {
+    try {
+      setLoading(true);
+      setError("");
+      const data = await getBodyMetrics();
+      setMetrics(data);
+
+      const paths = data
+        .map((m) => m.photo_path)
+        .filter((p): p is string => !!p);
+      setPhotoUrls(await getProgressPhotoUrls(paths));
+    } catch (err: unknown) {
+      const msg =
+        err instanceof Error ? err.message : "Failed to load body metrics";
+      setError(msg);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Picking a date that already has an entry loads it for editing
+  const existing = metrics.find((m) => m.date === draft.date) ?? null;
+
+  function handleDateChange(date: string) {
+    const entry = metrics.find((m) => m.date === date);
+    const num = (v: number | null | undefined) => (v != null ? String(v) : "");
+    setDraft({
+      date,
+      bodyweight:
+        entry?.bodyweight != null ? String(toDisplay(entry.bodyweight)) : "",
+      waist_cm: num(entry?.waist_cm),
+      arm_cm: num(entry?.arm_cm),
+      chest_cm: num(entry?.chest_cm),
+    });
+    setPhoto(null);
+  }
+
+  async function handleSave() {
+    if (!draft.date) return;
+    const bodyweight = parseOptional(draft.bodyweight);
+    const waist = parseOptional(draft.waist_cm);
+    const arm = parseOptional(draft.arm_cm);
+    const chest = parseOptional(draft.chest_cm);
+
+    if (!bodyweight && !waist && !arm && !chest && !photo) {
+      setError("Enter a bodyweight, a measurement or a photo");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError("");
+
+      const previousPhoto = existing?.photo_path ?? null;
+      const photoPath = photo
+        ? await uploadProgressPhoto(photo, draft.date)
+        : previousPhoto;
+
+      await saveBodyMetric({
+        date: draft.date,
+        bodyweight: bodyweight != null ? fromDisplay(bodyweight) : null,
+        waist_cm: waist,
+        arm_cm: arm,
+        chest_cm: chest,
+        photo_path: photoPath,
+      });
+
+      if (previousPhoto && previousPhoto !== photoPath) {
+        await removeProgressPhoto(previousPhoto);
+      }
+
+      setPhoto(null);
+      setToast(existing ? "Entry updated" : "Entry saved");
+      await loadMetrics();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "Failed to save entry";
+      setError(msg);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteTarget) return;
+    try {
+      await deleteBodyMetric(deleteTarget);
+      setToast("Entry deleted");
+      setDeleteTarget(null);
+      await loadMetrics();
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "Failed to delete entry";
+      setError(msg);
+      setDeleteTarget(null);
+    }
+  }
+
+  // Charts plot the user's unit; bodyweight itself is always kg
+  const bodyweightChartData = useMemo(
+    () =>
+      metrics
+        .filter((m) => m.bodyweight != null)
+        .map((m) => ({ date: m.date, value: toDisplay(m.bodyweight!) })),
+    [metrics, toDisplay],
+  );
+
+  const measurementChartData = useMemo(
+    () =>
+      metrics.filter((m) => MEASUREMENTS.some(({ key }) => m[key] != null)),
+    [metrics],
+  );
+
+  const newestFirst = useMemo(() => [...metrics].reverse(), [metrics]);
+
+  return (
+    <Container>
+      <Header title="Body Metrics" onBack={() => navigate("/")} />
+      <Breadcrumbs
+        items={[
+          { label: "Home", onClick: () => navigate("/") },
+          { label: "Body Metrics" },
+        ]}
+      />
+
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 space-y-6">
+        {error && (
+          <ErrorMessage message={error} onDismiss={() => setError("")} />
+        )}
+
+        {/* ─── Log Entry ─────────────────────────────────────── */}
+        <Card className="p-4 sm:p-5 space-y-4">
+          <h2 className="text-lg font-semibold text-primary">
+            {existing ? "Edit Entry" : "Log Entry"}
+          </h2>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Date"
+              type="date"
+              value={draft.date}
+              onChange={handleDateChange}
+            />
+            <Input
+              label={`Bodyweight (${unit})`}
+              type="number"
+              value={draft.bodyweight}
+              onChange={(v) => setDraft({ ...draft, bodyweight: v })}
+              min={0}
+              step={WEIGHT_STEP[unit]}
+            />
+            {MEASUREMENTS.map(({ key, label }) => (
+              <Input
+                key={key}
+                label={`${label} (cm)`}
+                type="number"
+                value={draft[key]}
+                onChange={(v) => setDraft({ ...draft, [key]: v })}
+                min={0}
+                step={0.5}
+              />
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-secondary text-sm cursor-pointer">
+            <Camera className="w-4 h-4 text-muted" />
+            <span className="truncate">
+              {photo
+                ? photo.name
+                : existing?.photo_path
+                  ? "Replace progress photo"
+                  : "Add progress photo (optional)"}
+            </span>
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+            />
+          </label>
+
+          <Button onClick={handleSave} disabled={saving || !draft.date}>
+            {saving ? "Saving…" : existing ? "Update Entry" : "Save Entry"}
+          </Button>
+        </Card>
+
+        {loading && <SkeletonList count={3} lines={2} />}
+
+        {/* ─── Bodyweight Trend ──────────────────────────────── */}
+        {!loading && (
+          <Card className="p-4 sm:p-5">
+            <div className="flex items-center gap-2 mb-4">
+              <Scale className="w-5 h-5 text-accent" />
+              <h2 className="text-lg font-semibold text-primary">Bodyweight</h2>
+            </div>
+
+            {bodyweightChartData.length > 1 ? (
+              <div className="h-52 sm:h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={bodyweightChartData}>
+                    <CartesianGrid
+                      strokeDasharray="3 3"
+                      stroke="var(--border-primary)"
+                    />
+                    <XAxis
+                      dataKey="date"
+                      tickFormatter={formatChartDate}
+                      stroke="var(--text-muted)"
+                      tick={{ fontSize: 11 }}
+                    />
+                    <YAxis
+                      stroke="var(--text-muted)"
+                      tick={{ fontSize: 11 }}
+                      unit={unit}
+                      domain={["auto", "auto"]}
+                    />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      labelFormatter={(label) => formatChartDate(String(label))}
+                      formatter={(value) => [`${value} ${unit}`, "Bodyweight"]}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="value"
+                      stroke="var(--accent-primary)"
+                      strokeWidth={2}
+                      dot={{ fill: "var(--accent-primary)", r: 3 }}
+                      activeDot={{ r: 5 }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-muted text-sm text-center py-8">
+                Log your bodyweight on two or more days to see the trend.
+              </p>
+            )}
+          </Card>
+        )}
+
+        {/* ─── Measurements Trend ────────────────────────────── */}
+        {!loading && measurementChartData.length > 1 && (
+          <Card className="p-4 sm:p-5">
+            <div className="flex items-center gap-2 mb-4">
+              <Ruler className="w-5 h-5 text-accent" />
+              <h2 className="text-lg font-semibold text-primary">
+                Measurements
+              </h2>
+            </div>
+            <div className="h-52 sm:h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={measurementChartData}>
+                  <CartesianGrid
+                    strokeDasharray="3 3"
+                    stroke="var(--border-primary)"
+                  />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={formatChartDate}
+                    stroke="var(--text-muted)"
+                    tick={{ fontSize: 11 }}
+                  />
+                  <YAxis
+                    stroke="var(--text-muted)"
+                    tick={{ fontSize: 11 }}
+                    unit="cm"
+                    domain={["auto", "auto"]}
+                  />
+                  <Tooltip
+                    contentStyle={TOOLTIP_STYLE}
+                    labelFormatter={(label) => formatChartDate(String(label))}
+                    formatter={(value, name) => [`${value} cm`, name]}
+                  />
+                  <Legend wrapperStyle={{ fontSize: "12px" }} />
+                  {MEASUREMENTS.map(({ key, label, color }) => (
+                    <Line
+                      key={key}
+                      type="monotone"
+                      dataKey={key}
+                      name={label}
+                      stroke={color}
+                      strokeWidth={2}
+                      dot={{ fill: color, r: 3 }}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+        )}
+
+        {/* ─── History ───────────────────────────────────────── */}
+        {!loading && newestFirst.length > 0 && (
+          <Card className="p-4 sm:p-5">
+            <h2 className="text-lg font-semibold text-primary mb-4">History</h2>
+            <div className="space-y-2">
+              {newestFirst.map((m) => {
+                const url = m.photo_path ? photoUrls[m.photo_path] : undefined;
+                const measurements = MEASUREMENTS.filter(
+                  ({ key }) => m[key] != null,
+                )
+                  .map(({ key, label }) => `${label} ${m[key]}cm`)
+                  .join(" · ");
+
+                return (
+                  <div
+                    key={m.id}
+                    className="flex items-center gap-3 bg-elevated rounded-lg p-3"
+                  >
+                    {url && (
+                      <a href={url} target="_blank" rel="noreferrer">
+                        <img
+                          src={url}
+                          alt={`Progress photo ${m.date}`}
+                          className="w-12 h-12 rounded-md object-cover"
+                        />
+                      </a>
+                    )}
+                    <button
+                      onClick={() => handleDateChange(m.date)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-primary font-medium text-sm">
+                        {format(parseISO(m.date), "EEE, MMM d, yyyy")}
+                      </p>
+                      <p className="text-muted text-xs truncate">
+                        {[
+                          m.bodyweight != null
+                            ? formatWeight(m.bodyweight)
+                            : null,
+                          measurements || null,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ") || "Photo only"}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => setDeleteTarget(m)}
+                      className="p-2 text-danger hover:bg-danger-surface rounded-lg transition-colors"
+                      title="Delete"
+                      aria-label={`Delete entry for ${m.date}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </Card>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        title="Delete Entry"
+        message={`Delete the entry for ${
+          deleteTarget ? format(parseISO(deleteTarget.date), "MMM d, yyyy") : ""
+        }? Its progress photo is deleted too.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+
+      {toast && <Toast message={toast} onDismiss={() => setToast("")} />}
+    </Container>
+  );
+}
@@ -0,0 +1,437 @@
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Container, Header, Card } from "@/components/ui/Layout";
+import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { SkeletonList } from "@/components/ui/SkeletonCard";
+import { goalApi, workoutApi } from "@/lib/api";
+import {
+  computeWeekStreaks,
+  heatLevel,
+  summariseDays,
+  workoutsPerWeek,
+} from "@/lib/calendar";
+import type { HeatLevel, TrainingDay } from "@/lib/calendar";
+import { useUnits } from "@/contexts/useUnits";
+import { useSync } from "@/contexts/useSync";
+import { cn } from "@/lib/utils";
+import type { WeekWorkouts } from "@/types";
+import {
+  addDays,
+  addMonths,
+  addYears,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
+import { ChevronLeft, ChevronRight, Flame, Trophy, Target } from "lucide-react";
+
+type CalendarView = "month" | "year";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const HEAT_CLASSES: Record<HeatLevel, string> = {
+  0: "bg-elevated",
+  1: "bg-accent-primary opacity-30",
+  2: "bg-accent-primary opacity-55",
+  3: "bg-accent-primary opacity-80",
+  4: "bg-accent-primary",
+};
+
+/** Weekly target when the user has no workouts-per-week goal */
+const DEFAULT_WEEKLY_TARGET = 1;
+
+export function CalendarScreen() {
+  const navigate = useNavigate();
+  const { formatWeight } = useUnits();
+  const { syncVersion } = useSync();
+
+  const [weeks, setWeeks] = useState<WeekWorkouts[]>([]);
+  const [weeklyTarget, setWeeklyTarget] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [view, setView] = useState<CalendarView>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadCalendar() {
+      try {
+        setLoading(true);
+        setError("");
+        const [allWeeks, goals] = await Promise.all([
+          workoutApi.getByWeeks(),
+          goalApi.getAll(),
+        ]);
+        if (cancelled) return;
+
+        setWeeks(allWeeks);
+        setWeeklyTarget(
+          goals.find((g) => g.goal_type === "frequency")?.target_workouts ??
+            null,
+        );
+      } catch (err: unknown) {
+        if (cancelled) return;
+        const msg =
+          err instanceof Error ? err.message : "Failed to load calendar";
+        setError(msg);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadCalendar();
+    return () => {
+      cancelled = true;
+    };
+  }, [syncVersion]);
+
+  const target = weeklyTarget ?? DEFAULT_WEEKLY_TARGET;
+  const days = useMemo(() => summariseDays(weeks), [weeks]);
+  const perWeek = useMemo(() => workoutsPerWeek(weeks), [weeks]);
+  const streaks = useMemo(
+    () => computeWeekStreaks(weeks, target),
+    [weeks, target],
+  );
+
+  // ─── Visible range ──────────────────────────────────────────────────────────
+
+  const rangeStart =
+    view === "month" ? startOfMonth(cursor) : startOfYear(cursor);
+  const rangeEnd = view === "month" ? endOfMonth(cursor) : endOfYear(cursor);
+  const gridDays = eachDayOfInterval({
+    start: startOfWeek(rangeStart, { weekStartsOn: 1 }),
+    end: endOfWeek(rangeEnd, { weekStartsOn: 1 }),
+  });
+
+  const inRange = (date: Date) => date >= rangeStart && date <= rangeEnd;
+  const dayOf = (date: Date) => days.get(format(date, "yyyy-MM-dd"));
+
+  // Heat is relative to the busiest day on screen
+  const maxVolume = gridDays
+    .filter(inRange)
+    .reduce((max, d) => Math.max(max, dayOf(d)?.volume ?? 0), 0);
+
+  const mondays = gridDays.filter((_, i) => i % 7 === 0);
+  const thisWeekKey = format(
+    startOfWeek(new Date(), { weekStartsOn: 1 }),
+    "yyyy-MM-dd",
+  );
+  const visibleWeeks = mondays.map((monday) => {
+    const key = format(monday, "yyyy-MM-dd");
+    return { monday, key, count: perWeek.get(key) ?? 0 };
+  });
+  // Weeks that have started — future weeks can't be on or off target yet
+  const elapsedWeeks = visibleWeeks.filter((w) => w.key <= thisWeekKey);
+  const weeksOnTarget = elapsedWeeks.filter((w) => w.count >= target).length;
+  const workoutsInRange = gridDays
+    .filter(inRange)
+    .reduce((sum, d) => sum + (dayOf(d)?.workouts.length ?? 0), 0);
+
+  function moveCursor(step: number) {
+    setCursor((c) =>
+      view === "month" ? addMonths(c, step) : addYears(c, step),
+    );
+  }
+
+  function openDay(day: TrainingDay | undefined, date: Date) {
+    if (!day) return;
+    if (day.workouts.length === 1) {
+      navigate(`/workout/${day.workouts[0].id}`);
+    } else {
+      const monday = startOfWeek(date, { weekStartsOn: 1 });
+      navigate(`/week/${format(monday, "yyyy-MM-dd")}`);
+    }
+  }
+
+  function describeDay(date: Date, day: TrainingDay | undefined): string {
+    const label = format(date, "EEE, MMM d");
+    if (!day) return `${label} — rest`;
+    const titles = day.workouts.map((w) => w.title || "Workout").join(", ");
+    return `${label} — ${titles} · ${formatWeight(Math.round(day.volume))}`;
+  }
+
+  return (
+    <Container>
+      <Header title="Calendar" onBack={() => navigate("/")} />
+      <Breadcrumbs
+        items={[
+          { label: "Home", onClick: () => navigate("/") },
+          { label: "Calendar" },
+        ]}
+      />
+
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 space-y-4">
+        {error && (
+          <ErrorMessage message={error} onDismiss={() => setError("")} />
+        )}
+
+        {loading && <SkeletonList count={3} lines={3} />}
+
+        {!loading && (
+          <>
+            {/* ─── Streaks ───────────────────────────────────── */}
+            <Card className="p-4 sm:p-5">
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div>
+                  <Flame className="w-5 h-5 text-warning mx-auto mb-1" />
+                  <p className="text-primary font-semibold">
+                    {streaks.current} wk
+                  </p>
+                  <p className="text-muted text-xs">Current streak</p>
+                </div>
+                <div>
+                  <Trophy className="w-5 h-5 text-warning mx-auto mb-1" />
+                  <p className="text-primary font-semibold">
+                    {streaks.longest} wk
+                  </p>
+                  <p className="text-muted text-xs">Longest streak</p>
+                </div>
+                <div>
+                  <Target className="w-5 h-5 text-accent mx-auto mb-1" />
+                  <p className="text-primary font-semibold">
+                    {perWeek.get(thisWeekKey) ?? 0} / {target}
+                  </p>
+                  <p className="text-muted text-xs">This week</p>
+                </div>
+              </div>
+              <p className="text-muted text-xs text-center mt-3">
+                A streak counts weeks with at least {target} workout
+                {target === 1 ? "" : "s"}.{" "}
+                <button
+                  onClick={() => navigate("/goals")}
+                  className="text-accent hover:underline"
+                >
+                  {weeklyTarget === null
+                    ? "Set a weekly target"
+                    : "Change target"}
+                </button>
+              </p>
+            </Card>
+
+            {/* ─── Calendar / Heatmap ────────────────────────── */}
+            <Card className="p-4 sm:p-5">
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <div className="flex rounded-lg bg-elevated p-0.5 text-xs">
+                  {(
+                    [
+                      ["month", "Month"],
+                      ["year", "Year"],
+                    ] as const
+                  ).map(([v, label]) => (
+                    <button
+                      key={v}
+                      onClick={() => setView(v)}
+                      className={cn(
+                        "px-3 py-1.5 rounded-md transition-colors",
+                        view === v
+                          ? "bg-card text-primary font-medium"
+                          : "text-muted hover:text-primary",
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => moveCursor(-1)}
+                    className="p-1.5 rounded-lg text-muted hover:text-primary hover:bg-elevated"
+                    aria-label="Previous"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </button>
+                  <span className="text-primary text-sm font-medium min-w-24 text-center">
+                    {format(cursor, view === "month" ? "MMMM yyyy" : "yyyy")}
+                  </span>
+                  <button
+                    onClick={() => moveCursor(1)}
+                    className="p-1.5 rounded-lg text-muted hover:text-primary hover:bg-elevated"
+                    aria-label="Next"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {view === "month" ? (
+                <div className="grid grid-cols-7 gap-1 text-center">
+                  {WEEKDAYS.map((d) => (
+                    <div key={d} className="text-muted text-xs pb-1">
+                      {d}
+                    </div>
+                  ))}
+                  {gridDays.map((date) => {
+                    const day = dayOf(date);
+                    const level = heatLevel(day, maxVolume);
+                    return (
+                      <button
+                        key={date.toISOString()}
+                        onClick={() => openDay(day, date)}
+                        disabled={!day}
+                        title={describeDay(date, day)}
+                        className={cn(
+                          "relative aspect-square rounded-lg text-xs sm:text-sm flex items-center justify-center",
+                          !isSameMonth(date, cursor) && "opacity-30",
+                          isToday(date) && "ring-2 ring-(--border-focus)",
+                        )}
+                      >
+                        <span
+                          className={cn(
+                            "absolute inset-0 rounded-lg",
+                            HEAT_CLASSES[level],
+                          )}
+                        />
+                        <span
+                          className={cn(
+                            "relative",
+                            level >= 3
+                              ? "text-white font-semibold"
+                              : "text-primary",
+                          )}
+                        >
+                          {format(date, "d")}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <div className="inline-flex gap-0.75">
+                    <div className="flex flex-col gap-0.75 mr-1 pt-4">
+                      {WEEKDAYS.map((d, i) => (
+                        <span
+                          key={d}
+                          className="h-2.5 sm:h-3 text-[9px] leading-none text-muted"
+                        >
+                          {i % 2 === 0 ? d : ""}
+                        </span>
+                      ))}
+                    </div>
+                    {mondays.map((monday) => (
+                      <div
+                        key={monday.toISOString()}
+                        className="flex flex-col gap-0.75"
+                      >
+                        <span className="h-3 text-[9px] leading-none text-muted whitespace-nowrap">
+                          {monday.getDate() <= 7 && inRange(monday)
+                            ? format(monday, "MMM")
+                            : ""}
+                        </span>
+                        {WEEKDAYS.map((_, i) => {
+                          const date = addDays(monday, i);
+                          const day = dayOf(date);
+                          return (
+                            <button
+                              key={i}
+                              onClick={() => openDay(day, date)}
+                              disabled={!day}
+                              title={describeDay(date, day)}
+                              className={cn(
+                                "w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-sm",
+                                inRange(date)
+                                  ? HEAT_CLASSES[heatLevel(day, maxVolume)]
+                                  : "invisible",
+                              )}
+                            />
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-end gap-1 mt-3 text-[10px] text-muted">
+                Less
+                {([0, 1, 2, 3, 4] as HeatLevel[]).map((level) => (
+                  <span
+                    key={level}
+                    className={cn(
+                      "w-2.5 h-2.5 rounded-sm",
+                      HEAT_CLASSES[level],
+                    )}
+                  />
+                ))}
+                More
+              </div>
+            </Card>
+
+            {/* ─── Weekly Frequency ──────────────────────────── */}
+            <Card className="p-4 sm:p-5">
+              <div className="flex items-baseline justify-between mb-3">
+                <h2 className="text-lg font-semibold text-primary">
+                  Weekly Frequency
+                </h2>
+                <p className="text-muted text-xs">
+                  {workoutsInRange} workout{workoutsInRange === 1 ? "" : "s"}
+                  {elapsedWeeks.length > 0 &&
+                    ` · ${weeksOnTarget}/${elapsedWeeks.length} weeks on target`}
+                </p>
+              </div>
+
+              {view === "month" ? (
+                <div className="space-y-2">
+                  {visibleWeeks.map(({ monday, key, count }) => (
+                    <div key={key} className="flex items-center gap-3">
+                      <span className="text-muted text-xs w-24 shrink-0">
+                        {format(monday, "MMM d")} –{" "}
+                        {format(addDays(monday, 6), "MMM d")}
+                      </span>
+                      <div className="flex-1 h-2 bg-elevated rounded-full overflow-hidden">
+                        <div
+                          className={cn(
+                            "h-full rounded-full",
+                            count >= target
+                              ? "bg-success"
+                              : "bg-accent-primary",
+                          )}
+                          style={{
+                            width: `${Math.min(100, (count / target) * 100)}%`,
+                          }}
+                        />
+                      </div>
+                      <span
+                        className={cn(
+                          "text-xs w-10 text-right",
+                          count >= target ? "text-success" : "text-secondary",
+                        )}
+                      >
+                        {count} / {target}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex items-end gap-px h-16">
+                  {visibleWeeks.map(({ key, count }) => (
+                    <div
+                      key={key}
+                      title={`Week of ${key}: ${count} / ${target}`}
+                      className={cn(
+                        "flex-1 rounded-t-sm",
+                        count >= target ? "bg-success" : "bg-accent-primary",
+                      )}
+                      style={{
+                        height: `${Math.min(100, (count / target) * 100)}%`,
+                      }}
+                    />
+                  ))}
+                </div>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </Container>
+  );
+}
@@ -78,9 +78,18 @@ export function EditWeekTemplateScreen() {
         exercises: (d.exercise_templates ?? []).map((ex) => ({
           clientId: crypto.randomUUID(),
           name: ex.name,
+          kind: ex.kind,
+          progression: ex.progression ?? null,
+          superset_group: ex.superset_group,
+          deload_percent: ex.deload_percent,
           sets: (ex.template_sets ?? []).map((s) => ({
             reps: s.reps,
             weight: s.weight,
+            set_type: s.set_type,
+            rpe: s.rpe,
+            rir: s.rir,
+            duration_seconds: s.duration_seconds,
+            distance_m: s.distance_m,
           })),
         })),
       }));
@@ -142,9 +151,15 @@ export function EditWeekTemplateScreen() {
           .filter((ex) => ex.name.trim())
           .map((ex) => ({
             name: ex.name.trim(),
+            superset_group: ex.superset_group,
             sets: ex.sets.map((s) => ({
               reps: Math.max(1, s.reps || 1),
               weight: Math.max(0, s.weight || 0),
+              set_type: s.set_type,
+              rpe: s.rpe,
+              rir: s.rir,
+              duration_seconds: s.duration_seconds,
+              distance_m: s.distance_m,
             })),
           })),
       });
@@ -202,10 +217,17 @@ export function EditWeekTemplateScreen() {
         .map(
           (ex): SaveExerciseInput => ({
             name: ex.name.trim(),
+            progression: ex.progression ?? null,
+            deload_percent: ex.deload_percent ?? null,
             sets: ex.sets.map(
               (s): SaveSetInput => ({
                 reps: Math.max(1, s.reps || 1),
                 weight: Math.max(0, s.weight || 0),
+                set_type: s.set_type,
+                rpe: s.rpe,
+                rir: s.rir,
+                duration_seconds: s.duration_seconds,
+                distance_m: s.distance_m,
               }),
             ),
           }),
@@ -338,6 +360,7 @@ export function EditWeekTemplateScreen() {
               exercises={day.exercises}
               onChange={(exercises) => updateDayExercises(dayIndex, exercises)}
               showImportDay
+              showProgression
             />
           </Card>
         ))}
@@ -21,8 +21,9 @@ import { Toast } from "@/components/ui/Toast";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 import { DayEditorPanel } from "@/components/ui/DayEditorPanel";
 import { workoutApi, workoutExerciseApi } from "@/lib/api";
+import { recordWorkoutPRs } from "@/lib/analytics";
 import { saveDayToLibrary } from "@/lib/dayLibraryService";
-import type { FormExercise } from "@/types";
+import type { FormExercise, SaveWorkoutExerciseInput } from "@/types";
 import { format, parseISO } from "date-fns";
 import { Save, BookmarkPlus } from "lucide-react";
 
@@ -30,8 +31,7 @@ import { Save, BookmarkPlus } from "lucide-react";
 // workoutExerciseId: references workout_exercises.id (undefined for new exercises)
 // dbExerciseId: references exercises.id (undefined for new exercises)
 
-interface LiveExercise extends FormExercise {
-  workoutExerciseId?: string;
+interface LiveExercise extends SaveWorkoutExerciseInput {
   dbExerciseId?: string;
 }
 
@@ -45,6 +45,8 @@ export function EditWorkoutDayScreen() {
   const [workoutDate, setWorkoutDate] = useState("");
   const [weekStart, setWeekStart] = useState<string | null>(null);
   const [dayName, setDayName] = useState("");
+  // workouts.updated_at at load time — lets an offline save detect edits made elsewhere
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState<string | null>(null);
 
   const [liveExercises, setLiveExercises] = useState<LiveExercise[]>([]);
   const [loading, setLoading] = useState(true);
@@ -64,6 +66,7 @@ export function EditWorkoutDayScreen() {
 
       setWorkoutTitle(data.title || "");
       setWorkoutDate(data.date);
+      setBaseUpdatedAt(data.updated_at);
 
       const dateObj = parseISO(data.date);
       setDayName(format(dateObj, "EEEE"));
@@ -80,9 +83,17 @@ export function EditWorkoutDayScreen() {
         (we) => ({
           clientId: crypto.randomUUID(),
           name: we.exercise?.name ?? "",
+          kind: we.exercise?.kind,
+          superset_group: we.superset_group,
           sets: (we.sets ?? []).map((s) => ({
             reps: s.reps,
             weight: s.weight,
+            set_type: s.set_type,
+            rpe: s.rpe,
+            rir: s.rir,
+            duration_seconds: s.duration_seconds,
+            distance_m: s.distance_m,
+            completed_at: s.completed_at,
           })),
           workoutExerciseId: we.id,
           dbExerciseId: we.exercise_id,
@@ -138,8 +149,22 @@ export function EditWorkoutDayScreen() {
     try {
       setSaving(true);
       setError("");
-      await workoutExerciseApi.saveAll(workoutId, validExercises);
-      setToast("Workout saved!");
+      const outcome = await workoutExerciseApi.saveAll(
+        workoutId,
+        validExercises,
+        { baseUpdatedAt },
+      );
+      const prs =
+        outcome === "saved"
+          ? await recordWorkoutPRs(workoutDate, validExercises)
+          : 0;
+      setToast(
+        outcome === "queued"
+          ? "Saved on this device — will sync when you're back online"
+          : prs > 0
+            ? `Workout saved — ${prs} new PR${prs === 1 ? "" : "s"}!`
+            : "Workout saved!",
+      );
       await loadWorkout();
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : "Failed to save";
@@ -163,9 +188,15 @@ export function EditWorkoutDayScreen() {
         name: dayName,
         exercises: validExercises.map((ex) => ({
           name: ex.name.trim(),
+          superset_group: ex.superset_group,
           sets: ex.sets.map((s) => ({
             reps: Math.max(1, s.reps || 1),
             weight: Math.max(0, s.weight || 0),
+            set_type: s.set_type,
+            rpe: s.rpe,
+            rir: s.rir,
+            duration_seconds: s.duration_seconds,
+            distance_m: s.distance_m,
           })),
         })),
       });
@@ -265,6 +296,10 @@ export function EditWorkoutDayScreen() {
             exercises={liveExercises}
             onChange={handleExercisesChange}
             showImportDay
+            lastSessionScope={{
+              onOrBefore: workoutDate || undefined,
+              excludeWorkoutId: workoutId,
+            }}
           />
         </Card>
 
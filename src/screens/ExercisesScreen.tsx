@@ -4,9 +4,14 @@ import { Container, Header, Card, Button } from "@/components/ui/Layout";
 import { Input, Modal } from "@/components/ui/Form";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { ExerciseMergeModal } from "@/components/ui/ExerciseMergeModal";
+import { Toast } from "@/components/ui/Toast";
 import { exerciseApi } from "@/lib/api";
-import type { Exercise } from "@/types";
-import { Trash2, Edit2, Dumbbell } from "lucide-react";
+import { updateExerciseLibraryItem } from "@/lib/exerciseLibraryService";
+import { MUSCLE_GROUPS, parseMuscleList } from "@/lib/muscleGroups";
+import { EXERCISE_KINDS } from "@/lib/exerciseKinds";
+import type { Exercise, ExerciseKind } from "@/types";
+import { Trash2, Edit2, Dumbbell, Merge } from "lucide-react";
 
 export function ExercisesScreen() {
   const navigate = useNavigate();
@@ -14,9 +19,14 @@ export function ExercisesScreen() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>("");
   const [saving, setSaving] = useState(false);
+  const [showMerge, setShowMerge] = useState(false);
+  const [toast, setToast] = useState("");
 
   const [editingExercise, setEditingExercise] = useState<Exercise | null>(null);
   const [editName, setEditName] = useState("");
+  const [editMuscle, setEditMuscle] = useState("");
+  const [editSecondary, setEditSecondary] = useState("");
+  const [editKind, setEditKind] = useState<ExerciseKind>("weight_reps");
   const [deleteConfirm, setDeleteConfirm] = useState<{
     id: string;
     name: string;
@@ -60,6 +70,9 @@ export function ExercisesScreen() {
   function handleEditClick(exercise: Exercise) {
     setEditingExercise(exercise);
     setEditName(exercise.name);
+    setEditMuscle(exercise.muscle_group ?? "");
+    setEditSecondary(exercise.secondary_muscles.join(", "));
+    setEditKind(exercise.kind);
   }
 
   async function handleRename(e: React.FormEvent) {
@@ -69,7 +82,13 @@ export function ExercisesScreen() {
     try {
       setSaving(true);
       setError("");
-      await exerciseApi.update(editingExercise.id, editName.trim());
+      await updateExerciseLibraryItem(editingExercise.id, {
+        name: editName,
+        muscle_group: editMuscle.trim() || null,
+        secondary_muscles: parseMuscleList(editSecondary),
+        kind: editKind,
+      });
+
       setEditingExercise(null);
       setEditName("");
       loadExercises();
@@ -116,16 +135,41 @@ export function ExercisesScreen() {
 
         {!loading && exercises.length > 0 && (
           <div className="space-y-2">
-            <p className="text-xs text-muted px-1 mb-3">
-              {exercises.length} exercise{exercises.length !== 1 ? "s" : ""} —
-              synced from your weekly templates
-            </p>
+            <div className="flex items-center justify-between gap-2 px-1 mb-3">
+              <p className="text-xs text-muted">
+                {exercises.length} exercise{exercises.length !== 1 ? "s" : ""}{" "}
+                — synced from your weekly templates
+              </p>
+              {exercises.length > 1 && (
+                <button
+                  onClick={() => setShowMerge(true)}
+                  className="flex items-center gap-1.5 text-xs text-accent hover:underline shrink-0"
+                >
+                  <Merge className="w-3.5 h-3.5" />
+                  Merge duplicates
+                </button>
+              )}
+            </div>
             {exercises.map((exercise) => (
               <Card key={exercise.id} className="p-4">
                 <div className="flex items-center justify-between">
-                  <span className="text-primary font-medium">
-                    {exercise.name}
-                  </span>
+                  <div className="min-w-0">
+                    <span className="text-primary font-medium">
+                      {exercise.name}
+                    </span>
+                    {exercise.muscle_group && (
+                      <p className="text-muted text-xs truncate">
+                        {exercise.muscle_group}
+                        {exercise.secondary_muscles.length > 0 &&
+                          ` · also ${exercise.secondary_muscles.join(", ")}`}
+                      </p>
+                    )}
+                    {exercise.kind !== "weight_reps" && (
+                      <p className="text-accent text-xs">
+                        {EXERCISE_KINDS[exercise.kind]}
+                      </p>
+                    )}
+                  </div>
                   <div className="flex gap-2">
                     <button
                       onClick={() => handleEditClick(exercise)}
@@ -158,7 +202,7 @@ export function ExercisesScreen() {
           setEditingExercise(null);
           setEditName("");
         }}
-        title="Rename Exercise"
+        title="Edit Exercise"
       >
         <form onSubmit={handleRename} className="space-y-4">
           <Input
@@ -168,6 +212,51 @@ export function ExercisesScreen() {
             placeholder="e.g., Bench Press"
             required
           />
+          <div className="flex flex-col gap-1.5 sm:gap-2">
+            <label className="text-xs sm:text-sm font-medium text-secondary block">
+              Primary Muscle
+            </label>
+            <input
+              value={editMuscle}
+              onChange={(e) => setEditMuscle(e.target.value)}
+              placeholder="e.g., Chest"
+              list="exercise-muscle-options"
+              className="w-full min-w-0 px-3 sm:px-4 py-2 rounded-lg text-sm sm:text-base bg-elevated border border-primary text-primary placeholder-muted focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
+            />
+            <datalist id="exercise-muscle-options">
+              {MUSCLE_GROUPS.map((m) => (
+                <option key={m} value={m} />
+              ))}
+            </datalist>
+          </div>
+          <Input
+            label="Also Works (comma-separated)"
+            value={editSecondary}
+            onChange={setEditSecondary}
+            placeholder="e.g., Triceps, Shoulders"
+          />
+          <div className="flex flex-col gap-1.5 sm:gap-2">
+            <label className="text-xs sm:text-sm font-medium text-secondary block">
+              Records
+            </label>
+            <select
+              value={editKind}
+              onChange={(e) => setEditKind(e.target.value as ExerciseKind)}
+              className="w-full min-w-0 px-3 sm:px-4 py-2 rounded-lg text-sm sm:text-base bg-elevated border border-primary text-primary focus:outline-none focus:ring-2 focus:ring-(--border-focus) focus:border-transparent"
+            >
+              {Object.entries(EXERCISE_KINDS).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {editingExercise && editKind !== editingExercise.kind && (
+              <p className="text-muted text-xs">
+                Sets already logged keep their reps, weight, time and
+                distance — only the inputs and stats change.
+              </p>
+            )}
+          </div>
           <div className="flex gap-3">
             <Button
               type="button"
@@ -182,7 +271,7 @@ export function ExercisesScreen() {
               disabled={saving || !editName.trim()}
               className="flex-1"
             >
-              {saving ? "Saving..." : "Rename"}
+              {saving ? "Saving..." : "Save"}
             </Button>
           </div>
         </form>
@@ -198,6 +287,18 @@ export function ExercisesScreen() {
         onConfirm={() => deleteConfirm && handleDelete(deleteConfirm.id)}
         onCancel={() => setDeleteConfirm(null)}
       />
+
+      <ExerciseMergeModal
+        isOpen={showMerge}
+        onClose={() => setShowMerge(false)}
+        exercises={exercises}
+        onMerged={(name) => {
+          setToast(`Merged into "${name}"`);
+          loadExercises();
+        }}
+      />
+
+      {toast && <Toast message={toast} onDismiss={() => setToast("")} />}
     </Container>
   );
 }
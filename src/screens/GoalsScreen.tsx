@@ -7,23 +7,47 @@ import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 import { ErrorMessage } from "@/components/ui/ErrorMessage";
 import { Toast } from "@/components/ui/Toast";
 import { exerciseApi, goalApi } from "@/lib/api";
-import type { Exercise, ExerciseGoal } from "@/types";
-import { Trash2, Save } from "lucide-react";
+import { getGoalProgress } from "@/lib/analytics";
+import { GOAL_TYPES, formatGoalValue, isStrengthGoal } from "@/lib/goals";
+import { useUnits } from "@/contexts/useUnits";
+import { WEIGHT_STEP } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import type { Exercise, ExerciseGoal, GoalProgress, GoalType } from "@/types";
+import { format, parseISO } from "date-fns";
+import { Trash2, Save, Trophy } from "lucide-react";
 
-type GoalDraft = Partial<ExerciseGoal> & { exercise_id: string };
+/** A goal being edited — `key` is the row id, or a temporary one until saved */
+type GoalDraft = Partial<ExerciseGoal> & {
+  key: string;
+  goal_type: GoalType;
+  exercise_id: string | null;
+};
+
+type TargetField =
+  | "target_reps"
+  | "target_weight"
+  | "target_volume"
+  | "target_workouts";
+
+const WEIGHT_FIELDS: TargetField[] = ["target_weight", "target_volume"];
+
+let nextDraftKey = 0;
 
 export function GoalsScreen() {
   const navigate = useNavigate();
+  const { unit, toDisplay, fromDisplay } = useUnits();
   const [exercises, setExercises] = useState<Exercise[]>([]);
-  const [goals, setGoals] = useState<Record<string, GoalDraft>>({});
+  const [goals, setGoals] = useState<GoalDraft[]>([]);
+  const [progress, setProgress] = useState<Record<string, GoalProgress>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>("");
   const [success, setSuccess] = useState<string>("");
   const [saving, setSaving] = useState(false);
   const [edited, setEdited] = useState<Set<string>>(new Set());
   const [showAddModal, setShowAddModal] = useState(false);
+  const [addType, setAddType] = useState<GoalType>("weight");
   const [search, setSearch] = useState("");
-  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<GoalDraft | null>(null);
 
   useEffect(() => {
     loadData();
@@ -37,15 +61,13 @@ export function GoalsScreen() {
         exerciseApi.getAll(),
         goalApi.getAll(),
       ]);
-
       setExercises(exs);
 
-      // Map goals by exercise_id for easy lookup
-      const goalsMap: Record<string, GoalDraft> = {};
-      gls.forEach((goal) => {
-        goalsMap[goal.exercise_id] = goal;
-      });
-      setGoals(goalsMap);
+      const tracked = await getGoalProgress(gls);
+      setGoals(tracked.goals.map((g) => ({ ...g, key: g.id })));
+      setProgress(
+        Object.fromEntries(tracked.progress.map((p) => [p.goalId, p]))
+      );
     } catch (err: unknown) {
       console.error(err);
       setError(err instanceof Error ? err.message : 'Failed to load goals');
@@ -55,25 +77,48 @@ export function GoalsScreen() {
   }
 
   function updateGoal(
-    exerciseId: string,
-    field: "reps" | "weight",
+    key: string,
+    field: TargetField | "target_date",
     value: string
   ) {
-    const numValue =
-      field === "reps"
-        ? parseInt(value) || undefined
-        : parseFloat(value) || undefined;
+    let next: number | string | null | undefined;
+    if (field === "target_date") {
+      next = value || null;
+    } else {
+      const parsed =
+        field === "target_reps" || field === "target_workouts"
+          ? parseInt(value)
+          : parseFloat(value);
+      next = !parsed
+        ? undefined
+        : WEIGHT_FIELDS.includes(field)
+          ? fromDisplay(parsed)
+          : parsed;
+    }
 
-    setGoals((prev) => ({
+    setGoals((prev) =>
+      prev.map((g) => (g.key === key ? { ...g, [field]: next } : g))
+    );
+    setEdited((prev) => new Set([...prev, key]));
+  }
+
+  function addGoal(type: GoalType, exerciseId: string | null) {
+    const key = `new-${nextDraftKey++}`;
+    const exercise = exercises.find((e) => e.id === exerciseId);
+    setGoals((prev) => [
       ...prev,
-      [exerciseId]: {
-        ...(prev[exerciseId] ?? { exercise_id: exerciseId }),
-        [field === "reps" ? "target_reps" : "target_weight"]: numValue,
+      {
+        key,
+        goal_type: type,
         exercise_id: exerciseId,
+        exercise,
+        target_date: null,
+        achieved_at: null,
       },
-    }));
-
-    setEdited((prev) => new Set([...prev, exerciseId]));
+    ]);
+    setEdited((prev) => new Set([...prev, key]));
+    setShowAddModal(false);
+    setSearch("");
   }
 
   async function saveGoals() {
@@ -81,19 +126,25 @@ export function GoalsScreen() {
       setSaving(true);
       setError("");
 
-      const savePromises = Array.from(edited).map((exerciseId) => {
-        const goal = goals[exerciseId];
-        return goalApi.upsert(
-          exerciseId,
-          goal?.target_reps,
-          goal?.target_weight
-        );
-      });
-
-      await Promise.all(savePromises);
+      await Promise.all(
+        goals
+          .filter((g) => edited.has(g.key))
+          .map((g) =>
+            goalApi.save(g.id ?? null, {
+              exercise_id: g.exercise_id,
+              goal_type: g.goal_type,
+              target_reps: g.target_reps,
+              target_weight: g.target_weight,
+              target_volume: g.target_volume,
+              target_workouts: g.target_workouts,
+              target_date: g.target_date ?? null,
+            })
+          )
+      );
 
       setEdited(new Set());
       setSuccess("Goals saved successfully!");
+      await loadData();
     } catch (err: unknown) {
       console.error(err);
       setError(err instanceof Error ? err.message : 'Failed to save goals');
@@ -107,14 +158,11 @@ export function GoalsScreen() {
 
     try {
       setError("");
-      await goalApi.delete(deleteConfirm);
-
-      const newGoals = { ...goals };
-      delete newGoals[deleteConfirm];
-      setGoals(newGoals);
+      if (deleteConfirm.id) await goalApi.delete(deleteConfirm.id);
 
+      setGoals((prev) => prev.filter((g) => g.key !== deleteConfirm.key));
       const newEdited = new Set(edited);
-      newEdited.delete(deleteConfirm);
+      newEdited.delete(deleteConfirm.key);
       setEdited(newEdited);
       setDeleteConfirm(null);
     } catch (err: unknown) {
@@ -124,6 +172,29 @@ export function GoalsScreen() {
     }
   }
 
+  /** "On pace for Mar 3", flagged when it lands after the target date */
+  function describeForecast(goal: GoalDraft, p: GoalProgress) {
+    if (p.achieved || !isStrengthGoal(goal.goal_type)) return null;
+    if (!p.projectedDate) {
+      return <span className="text-muted">Not trending up yet</span>;
+    }
+    const late = !!goal.target_date && p.projectedDate > goal.target_date;
+    return (
+      <span className={late ? "text-warning" : "text-success"}>
+        On pace for {format(parseISO(p.projectedDate), "MMM d, yyyy")}
+        {late && " — after your target date"}
+      </span>
+    );
+  }
+
+  const availableExercises = exercises
+    .filter(
+      (ex) =>
+        !goals.some((g) => g.exercise_id === ex.id && g.goal_type === addType)
+    )
+    .filter((ex) => ex.name.toLowerCase().includes(search.toLowerCase()));
+  const hasFrequencyGoal = goals.some((g) => g.goal_type === "frequency");
+
   if (loading) {
     return (
       <Container>
@@ -138,7 +209,7 @@ export function GoalsScreen() {
   return (
     <Container>
       <Header
-        title="Exercise Goals"
+        title="Goals"
         onBack={() => navigate("/")}
         action={
           edited.size > 0 ? (
@@ -163,93 +234,192 @@ export function GoalsScreen() {
           <Toast message={success} onDismiss={() => setSuccess("")} />
         )}
 
-        {exercises.length === 0 ? (
-          <Card className="p-8 text-center">
-            <p className="text-muted mb-4">No exercises yet</p>
-            <Button onClick={() => navigate("/exercises")}>
-              Create Exercises First
-            </Button>
-          </Card>
-        ) : (
-          <div className="space-y-4">
-            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-              <h2 className="text-lg font-semibold text-primary">Your Goals</h2>
-              <div className="flex gap-2">
-                <Button
-                  variant="secondary"
-                  onClick={() => setShowAddModal(true)}
-                >
-                  + Add Goal
-                </Button>
-              </div>
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <h2 className="text-lg font-semibold text-primary">Your Goals</h2>
+            <div className="flex gap-2">
+              <Button
+                variant="secondary"
+                onClick={() => setShowAddModal(true)}
+              >
+                + Add Goal
+              </Button>
             </div>
+          </div>
+
+          {goals.length === 0 ? (
+            <Card className="p-6 text-center">
+              <p className="text-muted mb-3">No goals yet.</p>
+              <Button onClick={() => setShowAddModal(true)}>
+                Add Your First Goal
+              </Button>
+            </Card>
+          ) : (
+            <div className="space-y-3 sm:space-y-4">
+              {goals.map((goal) => {
+                const p = goal.id && !edited.has(goal.key)
+                  ? progress[goal.id]
+                  : undefined;
 
-            {Object.keys(goals).length === 0 ? (
-              <Card className="p-6 text-center">
-                <p className="text-muted mb-3">No goals yet.</p>
-                <Button onClick={() => setShowAddModal(true)}>
-                  Add Your First Goal
-                </Button>
-              </Card>
-            ) : (
-              <div className="space-y-3 sm:space-y-4">
-                {Object.keys(goals)
-                  .map((id) => ({
-                    id,
-                    exercise: exercises.find((e) => e.id === id),
-                    goal: goals[id],
-                  }))
-                  .filter((item) => item.exercise)
-                  .sort((a, b) =>
-                    a.exercise!.name.localeCompare(b.exercise!.name)
-                  )
-                  .map(({ id, exercise, goal }) => (
-                    <Card key={id} className="p-4 sm:p-5">
-                      <div className="flex items-start justify-between mb-4 gap-2">
+                return (
+                  <Card key={goal.key} className="p-4 sm:p-5">
+                    <div className="flex items-start justify-between mb-4 gap-2">
+                      <div className="min-w-0">
                         <h3 className="text-base sm:text-lg font-semibold text-primary truncate">
-                          {exercise?.name}
+                          {goal.goal_type === "frequency"
+                            ? "Training frequency"
+                            : goal.exercise?.name}
                         </h3>
+                        <p className="text-muted text-xs">
+                          {GOAL_TYPES[goal.goal_type]}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {goal.achieved_at && (
+                          <span className="flex items-center gap-1 text-warning text-xs font-medium">
+                            <Trophy className="w-4 h-4" />
+                            {format(parseISO(goal.achieved_at), "MMM d")}
+                          </span>
+                        )}
                         <button
-                          onClick={() => setDeleteConfirm(id)}
+                          onClick={() => setDeleteConfirm(goal)}
                           className="p-2 hover:bg-elevated rounded-lg transition-colors"
                         >
                           <Trash2 className="w-4 h-4 text-muted" />
                         </button>
                       </div>
+                    </div>
 
-                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      {goal.goal_type === "weight" && (
                         <Input
                           label="Target Reps"
                           type="number"
                           value={
-                            goal?.target_reps ? String(goal.target_reps) : ""
+                            goal.target_reps ? String(goal.target_reps) : ""
+                          }
+                          onChange={(v) =>
+                            updateGoal(goal.key, "target_reps", v)
                           }
-                          onChange={(v) => updateGoal(id, "reps", v)}
-                          placeholder="e.g., 12"
+                          placeholder="e.g., 5"
                           min={0}
                         />
+                      )}
+                      {isStrengthGoal(goal.goal_type) && (
                         <Input
-                          label="Target Weight (kg)"
+                          label={`${
+                            goal.goal_type === "e1rm"
+                              ? "Target e1RM"
+                              : "Target Weight"
+                          } (${unit})`}
                           type="number"
                           value={
-                            goal?.target_weight
-                              ? String(goal.target_weight)
+                            goal.target_weight
+                              ? String(toDisplay(goal.target_weight))
                               : ""
                           }
-                          onChange={(v) => updateGoal(id, "weight", v)}
-                          placeholder="e.g., 50"
+                          onChange={(v) =>
+                            updateGoal(goal.key, "target_weight", v)
+                          }
+                          placeholder={unit === "lbs" ? "e.g., 225" : "e.g., 100"}
                           min={0}
-                          step={0.5}
+                          step={WEIGHT_STEP[unit]}
                         />
+                      )}
+                      {goal.goal_type === "weekly_volume" && (
+                        <Input
+                          label={`Volume per Week (${unit})`}
+                          type="number"
+                          value={
+                            goal.target_volume
+                              ? String(Math.round(toDisplay(goal.target_volume)))
+                              : ""
+                          }
+                          onChange={(v) =>
+                            updateGoal(goal.key, "target_volume", v)
+                          }
+                          placeholder={unit === "lbs" ? "e.g., 20000" : "e.g., 10000"}
+                          min={0}
+                        />
+                      )}
+                      {goal.goal_type === "frequency" && (
+                        <Input
+                          label="Workouts per Week"
+                          type="number"
+                          value={
+                            goal.target_workouts
+                              ? String(goal.target_workouts)
+                              : ""
+                          }
+                          onChange={(v) =>
+                            updateGoal(goal.key, "target_workouts", v)
+                          }
+                          placeholder="e.g., 4"
+                          min={1}
+                        />
+                      )}
+                      <Input
+                        label="Target Date"
+                        type="date"
+                        value={goal.target_date ?? ""}
+                        onChange={(v) => updateGoal(goal.key, "target_date", v)}
+                      />
+                    </div>
+
+                    {p && (
+                      <div className="mt-4">
+                        <div className="flex justify-between text-sm mb-1.5">
+                          <span className="text-secondary">
+                            {isStrengthGoal(goal.goal_type)
+                              ? "Best"
+                              : "This week"}
+                          </span>
+                          <span>
+                            <span
+                              className={
+                                p.achieved
+                                  ? "text-warning font-semibold"
+                                  : "text-primary"
+                              }
+                            >
+                              {formatGoalValue(goal.goal_type, p.current, unit)}
+                            </span>
+                            <span className="text-muted">
+                              {" "}
+                              / {formatGoalValue(goal.goal_type, p.target, unit)}
+                            </span>
+                          </span>
+                        </div>
+                        <div className="w-full h-2 bg-elevated rounded-full overflow-hidden">
+                          <div
+                            className={cn(
+                              "h-full rounded-full transition-all duration-500",
+                              p.achieved ? "bg-warning" : "bg-accent-primary"
+                            )}
+                            style={{ width: `${p.percent}%` }}
+                          />
+                        </div>
+                        <p className="text-xs mt-1.5">
+                          {p.achieved ? (
+                            <span className="text-warning">Goal reached!</span>
+                          ) : (
+                            describeForecast(goal, p) ?? (
+                              <span className="text-muted">
+                                {p.percent}% of target
+                              </span>
+                            )
+                          )}
+                        </p>
                       </div>
-                    </Card>
-                  ))}
-              </div>
-            )}
-          </div>
-        )}
+                    )}
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
 
-        {exercises.length > 0 && edited.size > 0 && (
+        {edited.size > 0 && (
           <div className="mt-6 flex gap-3">
             <Button
               onClick={() => {
@@ -287,52 +457,78 @@ export function GoalsScreen() {
             </div>
 
             <div className="space-y-3">
-              <div>
-                <label className="text-xs sm:text-sm font-medium text-secondary">
-                  Search exercises
-                </label>
-                <input
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
-                  placeholder="Type to search"
-                  className="w-full mt-1 px-3 py-2 rounded-lg bg-elevated border border-primary text-primary placeholder-muted focus:outline-none focus:ring-2 focus:ring-(--border-focus)"
-                />
+              <div className="grid grid-cols-2 gap-1 rounded-lg bg-elevated p-0.5 text-xs">
+                {(Object.keys(GOAL_TYPES) as GoalType[]).map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => setAddType(type)}
+                    className={cn(
+                      "px-3 py-1.5 rounded-md transition-colors",
+                      addType === type
+                        ? "bg-card text-primary font-medium"
+                        : "text-muted hover:text-primary"
+                    )}
+                  >
+                    {GOAL_TYPES[type]}
+                  </button>
+                ))}
               </div>
 
-              <div className="space-y-2 max-h-64 overflow-y-auto">
-                {exercises
-                  .filter((ex) => !goals[ex.id])
-                  .filter((ex) =>
-                    ex.name.toLowerCase().includes(search.toLowerCase())
-                  )
-                  .map((exercise) => (
-                    <button
-                      key={exercise.id}
-                      onClick={() => {
-                        setGoals((prev) => ({
-                          ...prev,
-                          [exercise.id]: { exercise_id: exercise.id },
-                        }));
-                        setEdited((prev) => new Set([...prev, exercise.id]));
-                        setShowAddModal(false);
-                        setSearch("");
-                      }}
-                      className="w-full text-left p-3 rounded-lg bg-elevated hover:bg-surface border border-primary hover:border-secondary transition-all"
-                    >
-                      <p className="text-primary font-medium">{exercise.name}</p>
-                    </button>
-                  ))}
-
-                {exercises
-                  .filter((ex) => !goals[ex.id])
-                  .filter((ex) =>
-                    ex.name.toLowerCase().includes(search.toLowerCase())
-                  ).length === 0 && (
+              {addType === "frequency" ? (
+                hasFrequencyGoal ? (
                   <p className="text-muted text-sm text-center py-6">
-                    No exercises available.
+                    You already have a frequency goal.
                   </p>
-                )}
-              </div>
+                ) : (
+                  <Button
+                    className="w-full"
+                    onClick={() => addGoal("frequency", null)}
+                  >
+                    Add Workouts per Week Goal
+                  </Button>
+                )
+              ) : exercises.length === 0 ? (
+                <div className="text-center py-6">
+                  <p className="text-muted text-sm mb-3">No exercises yet</p>
+                  <Button onClick={() => navigate("/exercises")}>
+                    Create Exercises First
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label className="text-xs sm:text-sm font-medium text-secondary">
+                      Search exercises
+                    </label>
+                    <input
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Type to search"
+                      className="w-full mt-1 px-3 py-2 rounded-lg bg-elevated border border-primary text-primary placeholder-muted focus:outline-none focus:ring-2 focus:ring-(--border-focus)"
+                    />
+                  </div>
+
+                  <div className="space-y-2 max-h-64 overflow-y-auto">
+                    {availableExercises.map((exercise) => (
+                      <button
+                        key={exercise.id}
+                        onClick={() => addGoal(addType, exercise.id)}
+                        className="w-full text-left p-3 rounded-lg bg-elevated hover:bg-surface border border-primary hover:border-secondary transition-all"
+                      >
+                        <p className="text-primary font-medium">
+                          {exercise.name}
+                        </p>
+                      </button>
+                    ))}
+
+                    {availableExercises.length === 0 && (
+                      <p className="text-muted text-sm text-center py-6">
+                        No exercises available.
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -3,18 +3,21 @@ import { useNavigate } from "react-router-dom";
 import { Container, Header, Card, Button } from "@/components/ui/Layout";
 import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
 import { SkeletonList } from "@/components/ui/SkeletonCard";
+import { FatigueWarnings } from "@/components/ui/FatigueWarnings";
 import { workoutApi } from "@/lib/api";
+import { getFatigueSummary } from "@/lib/analytics";
 import { auth } from "@/lib/auth";
 import { isOnboardingDone } from "@/screens/OnboardingScreen";
-import type { WeekWorkouts } from "@/types";
+import type { FatigueWarning, WeekWorkouts } from "@/types";
 import { format, parseISO, getISOWeek } from "date-fns";
-import { Plus, ChevronRight, LogOut } from "lucide-react";
+import { Plus, ChevronRight, LogOut, Settings } from "lucide-react";
 
 export function HomeScreen() {
   const navigate = useNavigate();
   const [weeks, setWeeks] = useState<WeekWorkouts[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [fatigueWarnings, setFatigueWarnings] = useState<FatigueWarning[]>([]);
 
   async function handleLogout() {
     try {
@@ -29,6 +32,13 @@ export function HomeScreen() {
     loadWeeks();
   }, []);
 
+  // Best-effort — Home works without it
+  useEffect(() => {
+    getFatigueSummary()
+      .then((summary) => setFatigueWarnings(summary.warnings))
+      .catch((err) => console.error("[HomeScreen] fatigue error:", err));
+  }, []);
+
   async function loadWeeks() {
     try {
       setLoading(true);
@@ -85,10 +95,32 @@ export function HomeScreen() {
             >
               Analytics
             </Button>
+            <Button
+              variant="secondary"
+              onClick={() => navigate("/calendar")}
+              className="hidden sm:inline-flex"
+            >
+              Calendar
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => navigate("/body")}
+              className="hidden sm:inline-flex"
+            >
+              Body
+            </Button>
             <Button onClick={() => navigate("/workout/new")}>
               <Plus className="w-4 h-4 sm:w-5 sm:h-5 inline sm:mr-1" />
               <span className="hidden sm:inline">New</span>
             </Button>
+            <Button
+              variant="secondary"
+              onClick={() => navigate("/settings")}
+              className="p-2"
+              aria-label="Settings"
+            >
+              <Settings className="w-4 h-4 sm:w-5 sm:h-5" />
+            </Button>
             <Button variant="secondary" onClick={handleLogout} className="p-2">
               <LogOut className="w-4 h-4 sm:w-5 sm:h-5" />
             </Button>
@@ -110,8 +142,23 @@ export function HomeScreen() {
           <Button variant="secondary" onClick={() => navigate("/analytics")}>
             Analytics
           </Button>
+          <Button variant="secondary" onClick={() => navigate("/calendar")}>
+            Calendar
+          </Button>
+          <Button variant="secondary" onClick={() => navigate("/body")}>
+            Body
+          </Button>
         </div>
 
+        <FatigueWarnings
+          warnings={fatigueWarnings}
+          action={{
+            label: "See training load",
+            onClick: () => navigate("/analytics"),
+          }}
+          className="mb-4"
+        />
+
         {loading && <SkeletonList count={4} lines={3} />}
 
         {error && (
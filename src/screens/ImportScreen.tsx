@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Container, Header, Card, Button } from "@/components/ui/Layout";
+import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { Toast } from "@/components/ui/Toast";
+import { useUnits } from "@/contexts/useUnits";
+import {
+  getKnownExerciseNames,
+  importWorkouts,
+  markDuplicates,
+  matchExercises,
+  parseImportFile,
+} from "@/lib/importService";
+import { cn } from "@/lib/utils";
+import type {
+  ExerciseMatch,
+  ExerciseMatchKind,
+  ParsedImport,
+  WeightUnit,
+} from "@/types";
+import { format, parseISO } from "date-fns";
+import { Upload } from "lucide-react";
+
+const SOURCE_LABELS: Record<ParsedImport["source"], string> = {
+  strong: "Strong",
+  hevy: "Hevy",
+  fitnotes: "FitNotes",
+};
+
+const MATCH_STYLES: Record<ExerciseMatchKind, string> = {
+  exact: "text-success",
+  fuzzy: "text-warning",
+  new: "text-muted",
+};
+
+export function ImportScreen() {
+  const navigate = useNavigate();
+  const { unit } = useUnits();
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [fallbackUnit, setFallbackUnit] = useState<WeightUnit>(unit);
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [matches, setMatches] = useState<ExerciseMatch[]>([]);
+  const [knownNames, setKnownNames] = useState<string[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState("");
+  const [toast, setToast] = useState("");
+
+  // ─── Dry run: parse + match, nothing is written ─────────────────────────────
+
+  async function analyze(text: string, unit: WeightUnit) {
+    try {
+      setAnalyzing(true);
+      setError("");
+      const result = parseImportFile(text, unit);
+      const [workouts, names] = await Promise.all([
+        markDuplicates(result.workouts),
+        getKnownExerciseNames(),
+      ]);
+      setParsed({ ...result, workouts });
+      setKnownNames(names);
+      setMatches(matchExercises(workouts, names));
+    } catch (err: unknown) {
+      console.error(err);
+      setParsed(null);
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    } finally {
+      setAnalyzing(false);
+    }
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setFileText(text);
+    await analyze(text, fallbackUnit);
+  }
+
+  function handleUnitChange(unit: WeightUnit) {
+    setFallbackUnit(unit);
+    if (fileText) analyze(fileText, unit);
+  }
+
+  function updateTarget(sourceName: string, target: string) {
+    setMatches((prev) =>
+      prev.map((m) => (m.sourceName === sourceName ? { ...m, target } : m)),
+    );
+  }
+
+  // ─── Commit ─────────────────────────────────────────────────────────────────
+
+  const toImport =
+    parsed?.workouts.filter((w) => includeDuplicates || !w.duplicate) ?? [];
+
+  async function handleImport() {
+    if (toImport.length === 0) return;
+    try {
+      setError("");
+      setProgress({ done: 0, total: toImport.length });
+      const created = await importWorkouts(toImport, matches, (done, total) =>
+        setProgress({ done, total }),
+      );
+      setToast(`Imported ${created} workouts`);
+      setParsed(null);
+      setFileText(null);
+      setMatches([]);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  const duplicateCount = parsed?.workouts.filter((w) => w.duplicate).length ?? 0;
+  const setCount = toImport.reduce(
+    (sum, w) => sum + w.exercises.reduce((s, ex) => s + ex.sets.length, 0),
+    0,
+  );
+  const firstDate = parsed?.workouts[0]?.date;
+  const lastDate = parsed?.workouts[parsed.workouts.length - 1]?.date;
+
+  return (
+    <Container>
+      <Header title="Import History" onBack={() => navigate("/settings")} />
+      <Breadcrumbs
+        items={[
+          { label: "Home", onClick: () => navigate("/") },
+          { label: "Settings", onClick: () => navigate("/settings") },
+          { label: "Import" },
+        ]}
+      />
+
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 space-y-4">
+        {error && (
+          <ErrorMessage message={error} onDismiss={() => setError("")} />
+        )}
+
+        {/* Step 1 — pick a file */}
+        <Card className="p-4 sm:p-5">
+          <h2 className="text-lg font-semibold text-primary mb-1">
+            1. Choose a CSV export
+          </h2>
+          <p className="text-secondary text-sm mb-4">
+            Supports exports from Strong, Hevy and FitNotes. Nothing is saved
+            until you confirm the preview below.
+          </p>
+          <label className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg border border-dashed border-primary text-secondary hover:bg-elevated cursor-pointer transition-colors">
+            <Upload className="w-4 h-4" />
+            <span className="text-sm truncate">
+              {fileName || "Select file…"}
+            </span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+          <div className="flex items-center gap-2 mt-3 text-sm">
+            <span className="text-secondary">
+              If the file doesn't say, weights are in
+            </span>
+            <select
+              value={fallbackUnit}
+              onChange={(e) => handleUnitChange(e.target.value as WeightUnit)}
+              className="px-2 py-1 rounded-lg bg-elevated border border-primary text-primary"
+            >
+              <option value="kg">kg</option>
+              <option value="lbs">lbs</option>
+            </select>
+          </div>
+        </Card>
+
+        {analyzing && (
+          <p className="text-secondary text-sm text-center">Reading file…</p>
+        )}
+
+        {parsed && !analyzing && (
+          <>
+            {/* Step 2 — preview */}
+            <Card className="p-4 sm:p-5">
+              <h2 className="text-lg font-semibold text-primary mb-3">
+                2. Preview
+              </h2>
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                <dt className="text-secondary">Source</dt>
+                <dd className="text-primary">
+                  {SOURCE_LABELS[parsed.source]} ({parsed.sourceUnit}
+                  {parsed.sourceUnit === "lbs" ? ", converted to kg" : ""})
+                </dd>
+                <dt className="text-secondary">Workouts</dt>
+                <dd className="text-primary">{parsed.workouts.length}</dd>
+                {firstDate && lastDate && (
+                  <>
+                    <dt className="text-secondary">Date range</dt>
+                    <dd className="text-primary">
+                      {format(parseISO(firstDate), "MMM d, yyyy")} –{" "}
+                      {format(parseISO(lastDate), "MMM d, yyyy")}
+                    </dd>
+                  </>
+                )}
+                <dt className="text-secondary">Sets to import</dt>
+                <dd className="text-primary">{setCount}</dd>
+                {parsed.skippedRows > 0 && (
+                  <>
+                    <dt className="text-secondary">Skipped rows</dt>
+                    <dd className="text-muted">
+                      {parsed.skippedRows} (no reps — cardio or timed)
+                    </dd>
+                  </>
+                )}
+              </dl>
+
+              {duplicateCount > 0 && (
+                <label className="flex items-center gap-2 mt-4 text-sm text-secondary">
+                  <input
+                    type="checkbox"
+                    checked={includeDuplicates}
+                    onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                  />
+                  {duplicateCount} workout{duplicateCount !== 1 ? "s" : ""}{" "}
+                  already exist on the same day with the same name — import
+                  them anyway
+                </label>
+              )}
+            </Card>
+
+            {/* Step 3 — exercise mapping */}
+            <Card className="p-4 sm:p-5">
+              <h2 className="text-lg font-semibold text-primary mb-1">
+                3. Review exercises
+              </h2>
+              <p className="text-secondary text-sm mb-4">
+                Each exercise in the file is logged under the name on the
+                right. Pick one of your exercises or type a new name.
+              </p>
+              <datalist id="import-exercise-names">
+                {knownNames.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+              <div className="space-y-3">
+                {matches.map((m) => (
+                  <div
+                    key={m.sourceName}
+                    className="grid grid-cols-1 sm:grid-cols-2 gap-1 sm:gap-3 items-center"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-primary text-sm truncate">
+                        {m.sourceName}
+                      </p>
+                      <p className={cn("text-xs", MATCH_STYLES[m.kind])}>
+                        {m.kind === "exact" && "Matched"}
+                        {m.kind === "fuzzy" &&
+                          `Suggested (${Math.round(m.score * 100)}% similar)`}
+                        {m.kind === "new" && "New exercise"} · {m.setCount} sets
+                      </p>
+                    </div>
+                    <input
+                      list="import-exercise-names"
+                      value={m.target}
+                      onChange={(e) => updateTarget(m.sourceName, e.target.value)}
+                      className="w-full min-w-0 px-3 py-2 rounded-lg text-sm bg-elevated border border-primary text-primary focus:outline-none focus:ring-2 focus:ring-(--border-focus)"
+                    />
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            <Button
+              className="w-full"
+              onClick={handleImport}
+              disabled={progress !== null || toImport.length === 0}
+            >
+              {progress
+                ? `Importing ${progress.done} / ${progress.total}…`
+                : `Import ${toImport.length} workout${toImport.length !== 1 ? "s" : ""}`}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {toast && <Toast message={toast} onDismiss={() => setToast("")} />}
+    </Container>
+  );
+}
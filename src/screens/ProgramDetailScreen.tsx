@@ -0,0 +1,458 @@
+/**
+ * ProgramDetailScreen
+ *
+ * Edits a program's week sequence — which weekly plan each week runs, its
+ * label and intensity — and schedules weeks into real workouts. Scheduling
+ * saves the form first so the weeks being generated match what's on screen.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Container, Header, Card, Button } from "@/components/ui/Layout";
+import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { Input } from "@/components/ui/Form";
+import { Toast } from "@/components/ui/Toast";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { SkeletonList } from "@/components/ui/SkeletonCard";
+import {
+  getProgramById,
+  saveProgramFull,
+  scheduleProgram,
+  scheduleProgramWeek,
+  getCurrentWeekIndex,
+  getProgramWeekStart,
+} from "@/lib/programService";
+import { getAllWeekTemplates } from "@/lib/weekTemplateService";
+import type {
+  ProgramWithWeeks,
+  SaveProgramWeekInput,
+  WeekTemplate,
+} from "@/types";
+import {
+  ArrowDown,
+  ArrowUp,
+  CalendarCheck,
+  CalendarPlus,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+import { format, parseISO, startOfWeek } from "date-fns";
+
+// ─── Local form state ─────────────────────────────────────────────────────────
+
+interface FormWeek extends SaveProgramWeekInput {
+  /** Stable React key */
+  clientId: string;
+}
+
+const DEFAULT_WEEK: SaveProgramWeekInput = {
+  week_template_id: null,
+  label: null,
+  intensity_percent: 100,
+  scheduled_at: null,
+};
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export function ProgramDetailScreen() {
+  const navigate = useNavigate();
+  const { programId } = useParams<{ programId: string }>();
+
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [weeks, setWeeks] = useState<FormWeek[]>([]);
+  const [weekTemplates, setWeekTemplates] = useState<WeekTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [scheduling, setScheduling] = useState(false);
+  const [scheduleAllConfirm, setScheduleAllConfirm] = useState(false);
+  const [error, setError] = useState("");
+  const [toast, setToast] = useState("");
+
+  // ─── Load ────────────────────────────────────────────────────────────────────
+
+  const applyProgram = useCallback((program: ProgramWithWeeks) => {
+    setName(program.name);
+    setStartDate(program.start_date);
+    setWeeks(
+      program.program_weeks.map((w) => ({
+        clientId: crypto.randomUUID(),
+        week_template_id: w.week_template_id,
+        label: w.label,
+        intensity_percent: w.intensity_percent,
+        scheduled_at: w.scheduled_at,
+      })),
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!programId) return;
+
+    void (async () => {
+      try {
+        setLoading(true);
+        setError("");
+        const [program, templates] = await Promise.all([
+          getProgramById(programId),
+          getAllWeekTemplates(),
+        ]);
+        applyProgram(program);
+        setWeekTemplates(templates);
+      } catch (err: unknown) {
+        const msg =
+          err instanceof Error ? err.message : "Failed to load program";
+        setError(msg);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [programId, applyProgram]);
+
+  // ─── Week operations ─────────────────────────────────────────────────────────
+
+  function addWeek() {
+    const last = weeks[weeks.length - 1];
+    setWeeks([
+      ...weeks,
+      {
+        ...DEFAULT_WEEK,
+        week_template_id:
+          last?.week_template_id ?? weekTemplates[0]?.id ?? null,
+        clientId: crypto.randomUUID(),
+      },
+    ]);
+  }
+
+  function updateWeek(index: number, changes: Partial<SaveProgramWeekInput>) {
+    setWeeks(weeks.map((w, i) => (i === index ? { ...w, ...changes } : w)));
+  }
+
+  function removeWeek(index: number) {
+    setWeeks(weeks.filter((_, i) => i !== index));
+  }
+
+  function moveWeek(from: number, to: number) {
+    if (to < 0 || to >= weeks.length) return;
+    const updated = [...weeks];
+    const [moved] = updated.splice(from, 1);
+    updated.splice(to, 0, moved);
+    setWeeks(updated);
+  }
+
+  // ─── Save / schedule ─────────────────────────────────────────────────────────
+
+  /** Saves the form and returns the program as stored */
+  async function persist(): Promise<ProgramWithWeeks> {
+    const monday = startOfWeek(parseISO(startDate), { weekStartsOn: 1 });
+    await saveProgramFull(
+      programId!,
+      name.trim(),
+      format(monday, "yyyy-MM-dd"),
+      weeks.map((w) => ({
+        week_template_id: w.week_template_id,
+        label: w.label,
+        intensity_percent: w.intensity_percent,
+        scheduled_at: w.scheduled_at,
+      })),
+    );
+    const program = await getProgramById(programId!);
+    applyProgram(program);
+    return program;
+  }
+
+  async function handleSave() {
+    if (!programId) return;
+    if (!name.trim()) {
+      setError("Program name is required");
+      return;
+    }
+    try {
+      setSaving(true);
+      setError("");
+      await persist();
+      setToast("Program saved!");
+    } catch (err: unknown) {
+      const msg =
+        err instanceof Error ? err.message : "Failed to save program";
+      setError(msg);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleScheduleWeek(index: number) {
+    if (!programId) return;
+    try {
+      setScheduling(true);
+      setError("");
+      const program = await persist();
+      const ids = await scheduleProgramWeek(
+        program,
+        program.program_weeks[index],
+      );
+      applyProgram(await getProgramById(programId));
+      setToast(
+        `Created ${ids.length} workout${ids.length !== 1 ? "s" : ""} for week ${index + 1}`,
+      );
+    } catch (err: unknown) {
+      const msg =
+        err instanceof Error ? err.message : "Failed to schedule week";
+      setError(msg);
+    } finally {
+      setScheduling(false);
+    }
+  }
+
+  async function handleScheduleAll() {
+    if (!programId) return;
+    try {
+      setScheduling(true);
+      setError("");
+      const program = await persist();
+      const created = await scheduleProgram(program);
+      applyProgram(await getProgramById(programId));
+      setToast(
+        `Created ${created} workout${created !== 1 ? "s" : ""} across the program`,
+      );
+    } catch (err: unknown) {
+      const msg =
+        err instanceof Error ? err.message : "Failed to schedule program";
+      setError(msg);
+    } finally {
+      setScheduling(false);
+      setScheduleAllConfirm(false);
+    }
+  }
+
+  // ─── Render ──────────────────────────────────────────────────────────────────
+
+  if (loading) {
+    return (
+      <Container>
+        <Header title="Program" onBack={() => navigate("/programs")} />
+        <div className="container mx-auto px-4 py-6">
+          <SkeletonList count={3} lines={2} />
+        </div>
+      </Container>
+    );
+  }
+
+  const programStart = startDate
+    ? {
+        start_date: format(
+          startOfWeek(parseISO(startDate), { weekStartsOn: 1 }),
+          "yyyy-MM-dd",
+        ),
+      }
+    : null;
+  const currentIndex = programStart ? getCurrentWeekIndex(programStart) : -1;
+  const unscheduledCount = weeks.filter(
+    (w) => !w.scheduled_at && w.week_template_id,
+  ).length;
+
+  return (
+    <Container>
+      <Header
+        title="Edit Program"
+        onBack={() => navigate("/programs")}
+        action={
+          <Button onClick={handleSave} disabled={saving || scheduling}>
+            <Save className="w-4 h-4 inline mr-1" />
+            {saving ? "Saving…" : "Save"}
+          </Button>
+        }
+      />
+      <Breadcrumbs
+        items={[
+          { label: "Home", onClick: () => navigate("/") },
+          { label: "Programs", onClick: () => navigate("/programs") },
+          { label: name || "Edit" },
+        ]}
+      />
+
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 space-y-5">
+        {error && (
+          <ErrorMessage message={error} onDismiss={() => setError("")} />
+        )}
+
+        <Card className="p-4 space-y-4">
+          <Input
+            label="Program Name"
+            value={name}
+            onChange={(v) => setName(v)}
+            placeholder="e.g. Hypertrophy Block"
+          />
+          <Input
+            label="Start week (rounded to its Monday on save)"
+            type="date"
+            value={startDate}
+            onChange={(v) => setStartDate(v)}
+          />
+        </Card>
+
+        {weekTemplates.length === 0 && (
+          <p className="text-secondary text-sm text-center">
+            Create a weekly plan first — each program week runs one.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {weeks.map((week, index) => {
+            const weekStart = programStart
+              ? getProgramWeekStart(programStart, index)
+              : null;
+            const isCurrent = index === currentIndex;
+
+            return (
+              <Card
+                key={week.clientId}
+                className={`p-3 ${isCurrent ? "ring-2 ring-(--border-focus)" : ""}`}
+              >
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <p className="text-primary font-semibold text-sm">
+                    Week {index + 1}
+                    {weekStart && (
+                      <span className="text-muted font-normal text-xs ml-2">
+                        {format(weekStart, "MMM d")}
+                      </span>
+                    )}
+                    {isCurrent && (
+                      <span className="text-accent text-xs ml-2">
+                        This week
+                      </span>
+                    )}
+                  </p>
+                  <div className="flex items-center gap-1">
+                    {week.scheduled_at ? (
+                      <span className="flex items-center gap-1 text-xs text-success px-2">
+                        <CalendarCheck className="w-3.5 h-3.5" />
+                        Scheduled
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => handleScheduleWeek(index)}
+                        disabled={scheduling || !week.week_template_id}
+                        className="p-1.5 text-success hover:bg-success-surface rounded-lg transition-colors disabled:opacity-25 disabled:cursor-not-allowed"
+                        title="Schedule this week"
+                        aria-label={`Schedule week ${index + 1}`}
+                      >
+                        <CalendarPlus className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => moveWeek(index, index - 1)}
+                      disabled={index === 0}
+                      aria-label="Move week up"
+                      className="p-1 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveWeek(index, index + 1)}
+                      disabled={index === weeks.length - 1}
+                      aria-label="Move week down"
+                      className="p-1 text-muted hover:text-primary disabled:opacity-25 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => removeWeek(index)}
+                      aria-label={`Remove week ${index + 1}`}
+                      className="p-1 text-muted hover:text-danger transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-[1fr_1fr_4.5rem] gap-2">
+                  <select
+                    value={week.week_template_id ?? ""}
+                    onChange={(e) =>
+                      updateWeek(index, {
+                        week_template_id: e.target.value || null,
+                      })
+                    }
+                    aria-label={`Week ${index + 1} plan`}
+                    className="w-full min-w-0 px-2 py-1.5 rounded bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                  >
+                    <option value="">Choose a weekly plan…</option>
+                    {weekTemplates.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={week.label ?? ""}
+                    onChange={(e) =>
+                      updateWeek(index, { label: e.target.value || null })
+                    }
+                    placeholder="Label (e.g. Deload)"
+                    aria-label={`Week ${index + 1} label`}
+                    className="w-full min-w-0 px-2 py-1.5 rounded bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                  />
+                  <label className="flex items-center gap-1 text-xs text-muted">
+                    <input
+                      type="number"
+                      value={week.intensity_percent || ""}
+                      onChange={(e) =>
+                        updateWeek(index, {
+                          intensity_percent: Math.min(
+                            150,
+                            Math.max(10, parseInt(e.target.value) || 100),
+                          ),
+                        })
+                      }
+                      min={10}
+                      max={150}
+                      step={5}
+                      aria-label={`Week ${index + 1} intensity percent`}
+                      className="w-full min-w-0 px-2 py-1.5 rounded bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                    />
+                    %
+                  </label>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            className="flex-1"
+            onClick={addWeek}
+            disabled={weekTemplates.length === 0}
+          >
+            <Plus className="w-4 h-4 inline mr-1" />
+            Add Week
+          </Button>
+          <Button
+            className="flex-1"
+            onClick={() => setScheduleAllConfirm(true)}
+            disabled={scheduling || unscheduledCount === 0}
+          >
+            <CalendarPlus className="w-4 h-4 inline mr-1" />
+            {scheduling ? "Scheduling…" : "Schedule All"}
+          </Button>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={scheduleAllConfirm}
+        title="Schedule Program"
+        message={`Create workouts for the ${unscheduledCount} unscheduled week${unscheduledCount !== 1 ? "s" : ""}? Progression rules are worked out from today's history, so scheduling week by week lets them react to what you log.`}
+        confirmLabel={scheduling ? "Scheduling…" : "Schedule"}
+        cancelLabel="Cancel"
+        isDestructive={false}
+        onConfirm={handleScheduleAll}
+        onCancel={() => setScheduleAllConfirm(false)}
+      />
+
+      {toast && <Toast message={toast} onDismiss={() => setToast("")} />}
+    </Container>
+  );
+}
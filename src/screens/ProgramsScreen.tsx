@@ -0,0 +1,236 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Container, Header, Card, Button } from "@/components/ui/Layout";
+import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { Toast } from "@/components/ui/Toast";
+import { SkeletonList } from "@/components/ui/SkeletonCard";
+import {
+  getAllPrograms,
+  createProgram,
+  deleteProgram,
+  getCurrentWeekIndex,
+} from "@/lib/programService";
+import type { ProgramWithWeeks } from "@/types";
+import { ChevronRight, Layers, Plus, Trash2 } from "lucide-react";
+import { addWeeks, format, parseISO, startOfWeek } from "date-fns";
+
+/** "Week 3 of 8 · Heavy", "Starts Mar 3" or "Finished" */
+function describeProgress(program: ProgramWithWeeks): string {
+  const weekCount = program.program_weeks.length;
+  if (weekCount === 0) return "No weeks yet";
+
+  const index = getCurrentWeekIndex(program);
+  if (index < 0) {
+    return `Starts ${format(parseISO(program.start_date), "MMM d")}`;
+  }
+  if (index >= weekCount) return "Finished";
+
+  const label = program.program_weeks[index].label;
+  return `Week ${index + 1} of ${weekCount}${label ? ` · ${label}` : ""}`;
+}
+
+export function ProgramsScreen() {
+  const navigate = useNavigate();
+  const [programs, setPrograms] = useState<ProgramWithWeeks[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [toast, setToast] = useState("");
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newStart, setNewStart] = useState(() =>
+    format(
+      addWeeks(startOfWeek(new Date(), { weekStartsOn: 1 }), 1),
+      "yyyy-MM-dd",
+    ),
+  );
+  const [creating, setCreating] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<ProgramWithWeeks | null>(
+    null,
+  );
+
+  useEffect(() => {
+    void loadPrograms();
+  }, []);
+
+  async function loadPrograms() {
+    try {
+      setLoading(true);
+      setError("");
+      setPrograms(await getAllPrograms());
+    } catch (err: unknown) {
+      const msg =
+        err instanceof Error ? err.message : "Failed to load programs";
+      setError(msg);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleCreate() {
+    if (!newName.trim() || !newStart) return;
+    try {
+      setCreating(true);
+      const monday = startOfWeek(parseISO(newStart), { weekStartsOn: 1 });
+      const created = await createProgram(
+        newName.trim(),
+        format(monday, "yyyy-MM-dd"),
+      );
+      navigate(`/programs/${created.id}`);
+    } catch (err: unknown) {
+      const msg =
+        err instanceof Error ? err.message : "Failed to create program";
+      setError(msg);
+      setCreating(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteTarget) return;
+    try {
+      await deleteProgram(deleteTarget.id);
+      setToast(`"${deleteTarget.name}" deleted`);
+      setDeleteTarget(null);
+      await loadPrograms();
+    } catch (err: unknown) {
+      const msg =
+        err instanceof Error ? err.message : "Failed to delete program";
+      setError(msg);
+      setDeleteTarget(null);
+    }
+  }
+
+  return (
+    <Container>
+      <Header
+        title="Programs"
+        onBack={() => navigate("/templates?tab=weekly")}
+        action={
+          <Button onClick={() => setShowCreate(true)}>
+            <Plus className="w-4 h-4 inline mr-1" />
+            New
+          </Button>
+        }
+      />
+      <Breadcrumbs
+        items={[
+          { label: "Home", onClick: () => navigate("/") },
+          {
+            label: "Templates",
+            onClick: () => navigate("/templates?tab=weekly"),
+          },
+          { label: "Programs" },
+        ]}
+      />
+
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 space-y-4">
+        {error && (
+          <ErrorMessage message={error} onDismiss={() => setError("")} />
+        )}
+
+        {showCreate && (
+          <Card className="p-4 space-y-3">
+            <h3 className="text-primary font-semibold">New Program</h3>
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Program name (e.g. Hypertrophy Block)"
+              autoFocus
+              className="w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-2 focus:ring-(--border-focus)"
+            />
+            <label className="block text-secondary text-xs">
+              Start week (rounded to its Monday)
+              <input
+                type="date"
+                value={newStart}
+                onChange={(e) => setNewStart(e.target.value)}
+                className="mt-1.5 w-full px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm focus:outline-none focus:ring-2 focus:ring-(--border-focus)"
+              />
+            </label>
+            <div className="flex gap-2">
+              <Button
+                onClick={handleCreate}
+                disabled={creating || !newName.trim() || !newStart}
+              >
+                {creating ? "…" : "Create"}
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  setShowCreate(false);
+                  setNewName("");
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {loading && <SkeletonList count={3} lines={2} />}
+
+        {!loading && programs.length === 0 && !showCreate && (
+          <div className="text-center py-16 px-4">
+            <Layers className="w-12 h-12 text-muted mx-auto mb-4" />
+            <h2 className="text-xl text-primary mb-2">No Programs Yet</h2>
+            <p className="text-secondary mb-6 max-w-sm mx-auto">
+              A program runs your weekly plans back to back for a training
+              block — each week with its own intensity, ending in a deload.
+            </p>
+            <Button onClick={() => setShowCreate(true)}>
+              <Plus className="w-4 h-4 inline mr-1" />
+              Create Your First Program
+            </Button>
+          </div>
+        )}
+
+        {!loading &&
+          programs.map((p) => (
+            <Card
+              key={p.id}
+              className="p-4"
+              onClick={() => navigate(`/programs/${p.id}`)}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-primary font-semibold truncate">
+                    {p.name}
+                  </h3>
+                  <p className="text-muted text-xs mt-1">
+                    {describeProgress(p)} · from{" "}
+                    {format(parseISO(p.start_date), "MMM d, yyyy")}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setDeleteTarget(p);
+                  }}
+                  className="p-2 text-danger hover:bg-danger-surface rounded-lg transition-colors"
+                  title="Delete"
+                  aria-label={`Delete ${p.name}`}
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+                <ChevronRight className="w-5 h-5 text-muted shrink-0" />
+              </div>
+            </Card>
+          ))}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!deleteTarget}
+        title="Delete Program"
+        message={`Delete "${deleteTarget?.name}"? Workouts it already scheduled are kept.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteTarget(null)}
+      />
+
+      {toast && <Toast message={toast} onDismiss={() => setToast("")} />}
+    </Container>
+  );
+}
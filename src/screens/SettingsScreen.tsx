@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Container, Header, Card, Button } from "@/components/ui/Layout";
+import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { PlateSettingsCard } from "@/components/ui/PlateSettingsCard";
+import { CoachingCard } from "@/components/ui/CoachingCard";
+import { Toast } from "@/components/ui/Toast";
+import { useUnits } from "@/contexts/useUnits";
+import {
+  buildExportBundle,
+  downloadFile,
+  flattenSets,
+  setsToCsv,
+} from "@/lib/exportService";
+import {
+  SET_FLOOR_PRESETS,
+  getStoredSetFloor,
+  setStoredSetFloor,
+} from "@/lib/muscleGroups";
+import {
+  ONE_REP_MAX_FORMULAS,
+  getStoredOneRepMaxFormula,
+  setStoredOneRepMaxFormula,
+} from "@/lib/oneRepMax";
+import {
+  REST_PRESETS,
+  formatDuration,
+  getStoredRestSeconds,
+  setStoredRestSeconds,
+} from "@/lib/restTimer";
+import { WEIGHT_UNITS } from "@/lib/units";
+import type { OneRepMaxFormula, WeightUnit } from "@/types";
+import { format, parseISO } from "date-fns";
+import {
+  Download,
+  FileJson,
+  FileSpreadsheet,
+  SlidersHorizontal,
+  Upload,
+} from "lucide-react";
+
+type ExportFormat = "json" | "csv";
+
+export function SettingsScreen() {
+  const navigate = useNavigate();
+  const {
+    unit,
+    setUnit,
+    weightsConvertedAt,
+    legacyWeightsBefore,
+    convertLegacyWeights,
+  } = useUnits();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState("");
+  const [toast, setToast] = useState("");
+  const [formula, setFormula] = useState<OneRepMaxFormula>(() =>
+    getStoredOneRepMaxFormula(),
+  );
+  const [restSeconds, setRestSeconds] = useState(() => getStoredRestSeconds());
+  const [setFloor, setSetFloor] = useState(() => getStoredSetFloor());
+  const [showConvertConfirm, setShowConvertConfirm] = useState(false);
+  const [converting, setConverting] = useState(false);
+
+  function handleFormulaChange(next: OneRepMaxFormula) {
+    setFormula(next);
+    setStoredOneRepMaxFormula(next);
+  }
+
+  function handleSetFloorChange(next: number) {
+    setSetFloor(next);
+    setStoredSetFloor(next);
+  }
+
+  function handleRestChange(next: number) {
+    setRestSeconds(next);
+    setStoredRestSeconds(next);
+  }
+
+  async function handleUnitChange(next: WeightUnit) {
+    try {
+      setError("");
+      await setUnit(next);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to save unit");
+    }
+  }
+
+  async function handleConvert() {
+    setShowConvertConfirm(false);
+    try {
+      setConverting(true);
+      setError("");
+      await convertLegacyWeights();
+      setToast("Existing weights converted from lbs to kg");
+    } catch (err: unknown) {
+      console.error(err);
+      setError(
+        err instanceof Error ? err.message : "Failed to convert weights",
+      );
+    } finally {
+      setConverting(false);
+    }
+  }
+
+  async function handleExport(kind: ExportFormat) {
+    try {
+      setExporting(kind);
+      setError("");
+      const bundle = await buildExportBundle();
+      const stamp = format(new Date(), "yyyy-MM-dd");
+
+      if (kind === "json") {
+        downloadFile(
+          `gym-logbook-export-${stamp}.json`,
+          JSON.stringify(bundle, null, 2),
+          "application/json",
+        );
+        setToast(`Exported ${bundle.data.workouts.length} workouts`);
+      } else {
+        const rows = flattenSets(bundle.data.workouts);
+        downloadFile(
+          `gym-logbook-sets-${stamp}.csv`,
+          setsToCsv(rows),
+          "text/csv;charset=utf-8",
+        );
+        setToast(`Exported ${rows.length} sets`);
+      }
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to export data");
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  return (
+    <Container>
+      <Header title="Settings" onBack={() => navigate("/")} />
+      <Breadcrumbs
+        items={[
+          { label: "Home", onClick: () => navigate("/") },
+          { label: "Settings" },
+        ]}
+      />
+
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 space-y-4">
+        {error && (
+          <ErrorMessage message={error} onDismiss={() => setError("")} />
+        )}
+
+        {/* Preferences */}
+        <Card className="p-4 sm:p-5">
+          <div className="flex items-center gap-2 mb-4">
+            <SlidersHorizontal className="w-5 h-5 text-accent" />
+            <h2 className="text-lg font-semibold text-primary">Preferences</h2>
+          </div>
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <div>
+              <p className="text-primary text-sm">Weight unit</p>
+              <p className="text-muted text-xs">
+                Used everywhere weights are shown or entered
+              </p>
+            </div>
+            <select
+              value={unit}
+              onChange={(e) => handleUnitChange(e.target.value as WeightUnit)}
+              className="px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm"
+            >
+              {Object.entries(WEIGHT_UNITS).map(([key, name]) => (
+                <option key={key} value={key}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <div>
+              <p className="text-primary text-sm">Rest timer</p>
+              <p className="text-muted text-xs">
+                Countdown between sets in a live session
+              </p>
+            </div>
+            <select
+              value={restSeconds}
+              onChange={(e) => handleRestChange(Number(e.target.value))}
+              className="px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm"
+            >
+              {REST_PRESETS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {formatDuration(seconds)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="text-primary text-sm">Estimated 1RM formula</p>
+              <p className="text-muted text-xs">
+                Used for e1RM charts and PR detection
+              </p>
+            </div>
+            <select
+              value={formula}
+              onChange={(e) =>
+                handleFormulaChange(e.target.value as OneRepMaxFormula)
+              }
+              className="px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm"
+            >
+              {Object.entries(ONE_REP_MAX_FORMULAS).map(([key, name]) => (
+                <option key={key} value={key}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="text-primary text-sm">Weekly set floor</p>
+              <p className="text-muted text-xs">
+                Flag muscle groups trained less than this in a week
+              </p>
+            </div>
+            <select
+              value={setFloor}
+              onChange={(e) => handleSetFloorChange(Number(e.target.value))}
+              className="px-3 py-2 rounded-lg bg-elevated border border-primary text-primary text-sm"
+            >
+              {(SET_FLOOR_PRESETS.includes(setFloor)
+                ? SET_FLOOR_PRESETS
+                : [...SET_FLOOR_PRESETS, setFloor].sort((a, b) => a - b)
+              ).map((sets) => (
+                <option key={sets} value={sets}>
+                  {sets === 0 ? "Off" : `${sets} sets`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Accounts created after units existed have nothing to convert */}
+          {legacyWeightsBefore && (
+            <div className="mt-4 pt-4 border-t border-primary">
+              <p className="text-primary text-sm">Logged in pounds before?</p>
+              {weightsConvertedAt ? (
+                <p className="text-muted text-xs">
+                  Existing weights were converted from lbs on{" "}
+                  {format(parseISO(weightsConvertedAt), "MMM d, yyyy")}.
+                </p>
+              ) : (
+                <>
+                  <p className="text-muted text-xs mb-3">
+                    Weights are stored in kg. If you entered pounds before unit
+                    support existed, convert the workouts, templates, goals and
+                    PRs you created before{" "}
+                    {format(parseISO(legacyWeightsBefore), "MMM d, yyyy")} once
+                    so they show correctly. Anything logged since stays as it
+                    is.
+                  </p>
+                  <Button
+                    variant="secondary"
+                    onClick={() => setShowConvertConfirm(true)}
+                    disabled={converting}
+                  >
+                    {converting ? "Converting…" : "Convert existing data from lbs"}
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </Card>
+
+        <PlateSettingsCard
+          onSaved={() => setToast("Plate settings saved")}
+          onError={setError}
+        />
+
+        <CoachingCard onSaved={setToast} onError={setError} />
+
+        {/* Export */}
+        <Card className="p-4 sm:p-5">
+          <div className="flex items-center gap-2 mb-1">
+            <Download className="w-5 h-5 text-accent" />
+            <h2 className="text-lg font-semibold text-primary">
+              Export your data
+            </h2>
+          </div>
+          <p className="text-secondary text-sm mb-4">
+            Download everything you have logged. The JSON file contains
+            workouts, goals, PRs, templates and libraries; the CSV has one row
+            per set for spreadsheets.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button
+              onClick={() => handleExport("json")}
+              disabled={exporting !== null}
+            >
+              <FileJson className="w-4 h-4 inline mr-2" />
+              {exporting === "json" ? "Exporting…" : "Download JSON"}
+            </Button>
+            <Button
+              variant="secondary"
+              onClick={() => handleExport("csv")}
+              disabled={exporting !== null}
+            >
+              <FileSpreadsheet className="w-4 h-4 inline mr-2" />
+              {exporting === "csv" ? "Exporting…" : "Download CSV"}
+            </Button>
+          </div>
+        </Card>
+
+        {/* Import */}
+        <Card className="p-4 sm:p-5">
+          <div className="flex items-center gap-2 mb-1">
+            <Upload className="w-5 h-5 text-accent" />
+            <h2 className="text-lg font-semibold text-primary">
+              Import history
+            </h2>
+          </div>
+          <p className="text-secondary text-sm mb-4">
+            Bring in your logs from Strong, Hevy or FitNotes. You'll review
+            exercise names and see a preview before anything is saved.
+          </p>
+          <Button variant="secondary" onClick={() => navigate("/import")}>
+            Import from CSV
+          </Button>
+        </Card>
+      </div>
+
+      <ConfirmDialog
+        isOpen={showConvertConfirm}
+        title="Convert from lbs"
+        message="Every weight logged before unit support existed will be divided by 2.2046 and your unit set to lbs. This can only be done once."
+        confirmLabel="Convert"
+        cancelLabel="Cancel"
+        onConfirm={handleConvert}
+        onCancel={() => setShowConvertConfirm(false)}
+      />
+
+      {toast && <Toast message={toast} onDismiss={() => setToast("")} />}
+    </Container>
+  );
+}
@@ -0,0 +1,238 @@
+/**
+ * SharedItemScreen
+ *
+ * Public, read-only view of a shared workout, library day or week template
+ * (/share/:token). Works without an account; logged-in visitors can copy it
+ * into their own — see lib/shareService.
+ */
+
+import { Fragment, useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Container, Header, Card, Button } from "@/components/ui/Layout";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { SkeletonList } from "@/components/ui/SkeletonCard";
+import { Toast } from "@/components/ui/Toast";
+import { useUnits } from "@/contexts/useUnits";
+import {
+  SHARE_KINDS,
+  copySharedItem,
+  getSharedItem,
+} from "@/lib/shareService";
+import { SET_TYPES } from "@/lib/setTypes";
+import { groupLabel, groupPositions, groupRuns } from "@/lib/supersets";
+import { formatDuration } from "@/lib/restTimer";
+import {
+  KIND_FIELDS,
+  distanceUnitFor,
+  toDisplayDistance,
+} from "@/lib/exerciseKinds";
+import type { SharedExercise, SharedItem, SharedSet } from "@/types";
+import { format, parseISO } from "date-fns";
+import { Copy, LogIn } from "lucide-react";
+
+interface SharedItemScreenProps {
+  signedIn: boolean;
+}
+
+export function SharedItemScreen({ signedIn }: SharedItemScreenProps) {
+  const navigate = useNavigate();
+  const { token } = useParams<{ token: string }>();
+  const { formatWeight, unit } = useUnits();
+  const distanceUnit = distanceUnitFor(unit);
+
+  const [item, setItem] = useState<SharedItem | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [copying, setCopying] = useState(false);
+  const [error, setError] = useState("");
+  const [toast, setToast] = useState("");
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    getSharedItem(token)
+      .then((data) => {
+        if (!cancelled) setItem(data);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.error(err);
+        setError(err instanceof Error ? err.message : "Failed to load link");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  async function handleCopy() {
+    if (!item) return;
+    try {
+      setCopying(true);
+      setError("");
+      const copied = await copySharedItem(item);
+      if (copied.kind === "week_template") {
+        navigate(`/week-templates/${copied.id}/edit`);
+      } else {
+        setToast(
+          `"${item.name}" saved to your day library — import it from any day editor.`,
+        );
+      }
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to copy");
+    } finally {
+      setCopying(false);
+    }
+  }
+
+  function describeSet(set: SharedSet, ex: SharedExercise): string {
+    const fields = KIND_FIELDS[ex.kind];
+    if (fields.reps) {
+      return ex.kind === "bodyweight" && set.weight === 0
+        ? `${set.reps} reps`
+        : `${set.reps} × ${formatWeight(set.weight)}`;
+    }
+    const parts: string[] = [];
+    if (fields.duration && set.duration_seconds) {
+      parts.push(formatDuration(set.duration_seconds));
+    }
+    if (fields.distance && set.distance_m) {
+      parts.push(
+        `${toDisplayDistance(set.distance_m, distanceUnit)} ${distanceUnit}`,
+      );
+    }
+    return parts.join(" · ") || "—";
+  }
+
+  const onBack = signedIn ? () => navigate("/") : undefined;
+
+  if (loading) {
+    return (
+      <Container>
+        <Header title="Shared" onBack={onBack} />
+        <div className="container mx-auto px-4 py-6">
+          <SkeletonList count={3} lines={4} />
+        </div>
+      </Container>
+    );
+  }
+
+  if (!item) {
+    return (
+      <Container>
+        <Header title="Not Found" onBack={onBack} />
+        <div className="container mx-auto px-4 py-12 text-center">
+          {error ? (
+            <ErrorMessage message={error} />
+          ) : (
+            <p className="text-secondary">
+              This link doesn't exist or is no longer shared.
+            </p>
+          )}
+        </div>
+      </Container>
+    );
+  }
+
+  return (
+    <Container>
+      <Header
+        title={item.name}
+        onBack={onBack}
+        action={
+          signedIn ? (
+            <Button onClick={handleCopy} disabled={copying}>
+              <span className="inline-flex items-center gap-2">
+                <Copy className="w-4 h-4" />
+                {copying ? "Copying…" : "Copy into my account"}
+              </span>
+            </Button>
+          ) : (
+            <Button onClick={() => navigate("/login")}>
+              <span className="inline-flex items-center gap-2">
+                <LogIn className="w-4 h-4" />
+                Log in to copy
+              </span>
+            </Button>
+          )
+        }
+      />
+
+      <div className="container mx-auto px-4 py-4 sm:py-6 space-y-4">
+        <p className="text-secondary text-xs sm:text-sm">
+          Shared {SHARE_KINDS[item.kind].toLowerCase()}
+          {item.date && ` · ${format(parseISO(item.date), "MMMM d, yyyy")}`}
+          {item.kind === "workout" &&
+            signedIn &&
+            " · copies into your day library"}
+        </p>
+
+        {error && <ErrorMessage message={error} />}
+
+        {item.days.map((day, dayIndex) => {
+          const positions = groupPositions(day.exercises);
+          const groupHeaders = new Map(
+            groupRuns(day.exercises)
+              .filter((run) => run.group !== null)
+              .map((run) => [
+                run.items[0].index,
+                groupLabel(run.items.length),
+              ]),
+          );
+
+          return (
+            <Card key={dayIndex} className="p-4 space-y-3">
+              {item.kind === "week_template" && (
+                <h2 className="text-primary font-semibold">{day.name}</h2>
+              )}
+              {day.exercises.length === 0 && (
+                <p className="text-muted text-sm">Rest day</p>
+              )}
+              {day.exercises.map((ex, i) => (
+                <Fragment key={i}>
+                  {groupHeaders.has(i) && (
+                    <p className="text-xs font-medium text-accent uppercase tracking-wide">
+                      {groupHeaders.get(i)}
+                    </p>
+                  )}
+                  <div>
+                    <p className="text-primary text-sm font-medium">
+                      {positions[i] && (
+                        <span className="text-accent mr-1.5">
+                          {positions[i]}
+                        </span>
+                      )}
+                      {ex.name}
+                    </p>
+                    <ul className="mt-1 space-y-0.5">
+                      {ex.sets.map((set, setIndex) => (
+                        <li
+                          key={setIndex}
+                          className="flex gap-3 text-xs text-secondary"
+                        >
+                          <span className="w-16 shrink-0 text-muted">
+                            {set.set_type === "working"
+                              ? `Set ${setIndex + 1}`
+                              : SET_TYPES[set.set_type].label}
+                          </span>
+                          <span>{describeSet(set, ex)}</span>
+                          {set.rpe !== null && <span>RPE {set.rpe}</span>}
+                          {set.rir !== null && <span>{set.rir} RIR</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </Fragment>
+              ))}
+            </Card>
+          );
+        })}
+      </div>
+
+      {toast && <Toast message={toast} onDismiss={() => setToast("")} />}
+    </Container>
+  );
+}
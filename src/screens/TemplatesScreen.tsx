@@ -6,6 +6,10 @@ import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 import { ErrorMessage } from "@/components/ui/ErrorMessage";
 import { Toast } from "@/components/ui/Toast";
 import { SkeletonList } from "@/components/ui/SkeletonCard";
+import { ShareLinkModal } from "@/components/ui/ShareLinkModal";
+import { Modal } from "@/components/ui/Form";
+import { useCoaching } from "@/contexts/useCoaching";
+import { sendWeekTemplateToAthlete } from "@/lib/coachService";
 import {
   getAllWeekTemplates,
   createWeekTemplate,
@@ -24,6 +28,8 @@ import {
   Calendar,
   Play,
   Dumbbell,
+  Share2,
+  Send,
 } from "lucide-react";
 import { format, startOfWeek } from "date-fns";
 import { supabase } from "@/lib/supabase";
@@ -61,6 +67,15 @@ export function TemplatesScreen() {
   const [weekGenerateTarget, setWeekGenerateTarget] =
     useState<WeekTemplate | null>(null);
   const [generatingWeek, setGeneratingWeek] = useState(false);
+  const [weekShareTarget, setWeekShareTarget] = useState<WeekTemplate | null>(
+    null,
+  );
+  const [weekSendTarget, setWeekSendTarget] = useState<WeekTemplate | null>(
+    null,
+  );
+  const [sendingWeek, setSendingWeek] = useState(false);
+  const { role, athletes } = useCoaching();
+  const canSend = role === "coach" && athletes.length > 0;
 
   // ─── Shared state ────────────────────────────────────────────────────────────
 
@@ -112,7 +127,8 @@ export function TemplatesScreen() {
 
   // ─── Daily: use a day template ───────────────────────────────────────────────
 
-  async function handleUseDay() {
+  // "edit" logs the day after the fact; "session" walks it set-by-set live
+  async function handleUseDay(mode: "edit" | "session") {
     if (!useDayTarget) return;
     try {
       setCreatingFromDay(true);
@@ -122,7 +138,7 @@ export function TemplatesScreen() {
         useDayDate,
       );
       setUseDayTarget(null);
-      navigate(`/workout/${workoutId}/edit`);
+      navigate(`/workout/${workoutId}/${mode}`);
     } catch (err: unknown) {
       const msg =
         err instanceof Error ? err.message : "Failed to create workout";
@@ -168,6 +184,24 @@ export function TemplatesScreen() {
     }
   }
 
+  // ─── Weekly: send to athlete ─────────────────────────────────────────────────
+
+  async function handleWeekSend(athleteId: string, athleteName: string) {
+    if (!weekSendTarget) return;
+    try {
+      setSendingWeek(true);
+      await sendWeekTemplateToAthlete(weekSendTarget.id, athleteId);
+      setToast(`"${weekSendTarget.name}" sent to ${athleteName}`);
+    } catch (err: unknown) {
+      const msg =
+        err instanceof Error ? err.message : "Failed to send template";
+      setError(msg);
+    } finally {
+      setSendingWeek(false);
+      setWeekSendTarget(null);
+    }
+  }
+
   // ─── Weekly: generate week ───────────────────────────────────────────────────
 
   async function handleWeekGenerate() {
@@ -248,6 +282,15 @@ export function TemplatesScreen() {
             >
               Exercises
             </Button>
+            {activeTab === "weekly" && (
+              <Button
+                variant="secondary"
+                onClick={() => navigate("/programs")}
+                className="text-xs px-2 py-1"
+              >
+                Programs
+              </Button>
+            )}
             {activeTab === "weekly" && (
               <Button onClick={() => setShowWeekCreate(true)}>
                 <Plus className="w-4 h-4 inline mr-1" />
@@ -459,6 +502,22 @@ export function TemplatesScreen() {
                       >
                         <Edit className="w-5 h-5" />
                       </button>
+                      <button
+                        onClick={() => setWeekShareTarget(t)}
+                        className="p-2 text-secondary hover:bg-elevated rounded-lg transition-colors"
+                        title="Share"
+                      >
+                        <Share2 className="w-5 h-5" />
+                      </button>
+                      {canSend && (
+                        <button
+                          onClick={() => setWeekSendTarget(t)}
+                          className="p-2 text-secondary hover:bg-elevated rounded-lg transition-colors"
+                          title="Send to athlete"
+                        >
+                          <Send className="w-5 h-5" />
+                        </button>
+                      )}
                       <button
                         onClick={() => setWeekDeleteTarget(t)}
                         className="p-2 text-danger hover:bg-danger-surface rounded-lg transition-colors"
@@ -509,17 +568,64 @@ export function TemplatesScreen() {
                 Cancel
               </Button>
               <Button
+                variant="secondary"
                 className="flex-1"
-                onClick={handleUseDay}
+                onClick={() => handleUseDay("edit")}
                 disabled={creatingFromDay || !useDayDate}
               >
-                {creatingFromDay ? "Creating…" : "Start Workout"}
+                Log Workout
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => handleUseDay("session")}
+                disabled={creatingFromDay || !useDayDate}
+              >
+                {creatingFromDay ? "Creating…" : "Start Session"}
               </Button>
             </div>
           </div>
         </div>
       )}
 
+      {/* ── Share weekly plan ── */}
+      {weekShareTarget && (
+        <ShareLinkModal
+          isOpen
+          onClose={() => setWeekShareTarget(null)}
+          kind="week_template"
+          targetId={weekShareTarget.id}
+          name={weekShareTarget.name}
+        />
+      )}
+
+      {/* ── Send weekly plan to an athlete ── */}
+      <Modal
+        isOpen={!!weekSendTarget}
+        onClose={() => setWeekSendTarget(null)}
+        title="Send to athlete"
+      >
+        <div className="space-y-3">
+          <p className="text-secondary text-sm">
+            Adds a copy of "{weekSendTarget?.name}" to the athlete's weekly
+            plans, ready for them to generate workouts from.
+          </p>
+          <div className="space-y-1">
+            {athletes.map((link) => (
+              <button
+                key={link.id}
+                onClick={() =>
+                  handleWeekSend(link.athlete_id!, link.athlete_name ?? "")
+                }
+                disabled={sendingWeek}
+                className="w-full text-left px-3 py-3 rounded-lg hover:bg-elevated text-primary text-sm disabled:opacity-50 transition-colors"
+              >
+                {link.athlete_name}
+              </button>
+            ))}
+          </div>
+        </div>
+      </Modal>
+
       {/* ── Delete weekly plan ── */}
       <ConfirmDialog
         isOpen={!!weekDeleteTarget}
@@ -3,6 +3,7 @@ import { useNavigate, useParams } from "react-router-dom";
 import { Container, Header, Card, Button } from "@/components/ui/Layout";
 import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
 import { workoutApi } from "@/lib/api";
+import { useSync } from "@/contexts/useSync";
 import type { WorkoutWithExercises } from "@/types";
 import {
   format,
@@ -12,7 +13,7 @@ import {
   endOfWeek,
   getISOWeek,
 } from "date-fns";
-import { ChevronRight, Plus, Edit2 } from "lucide-react";
+import { ChevronRight, Plus, Edit2, CloudOff } from "lucide-react";
 import { AdBanner } from "@/components/ui/AdBanner";
 import { SkeletonList } from "@/components/ui/SkeletonCard";
 
@@ -21,7 +22,9 @@ export function WeekDetailScreen() {
   const { weekStart } = useParams<{ weekStart: string }>();
   const [workouts, setWorkouts] = useState<WorkoutWithExercises[]>([]);
   const [loading, setLoading] = useState(true);
+  const { isWorkoutPending, syncVersion } = useSync();
 
+  // Re-fetch after a background sync so queued edits are replaced by server data
   useEffect(() => {
     if (weekStart) {
       loadWeekWorkouts();
@@ -43,7 +46,7 @@ export function WeekDetailScreen() {
         setLoading(false);
       }
     }
-  }, [weekStart]);
+  }, [weekStart, syncVersion]);
 
   function getWeekDays() {
     if (!weekStart) return [];
@@ -133,6 +136,12 @@ export function WeekDetailScreen() {
                         <span className="text-sm text-muted">
                           {dayDate}
                         </span>
+                        {workout && isWorkoutPending(workout.id) && (
+                          <span className="flex items-center gap-1 text-xs text-warning">
+                            <CloudOff className="w-3 h-3" />
+                            Pending sync
+                          </span>
+                        )}
                       </div>
                       <p
                         className={cn(
@@ -1,15 +1,55 @@
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { Container, Header, Card, Button } from "@/components/ui/Layout";
 import { Breadcrumbs } from "@/components/ui/Breadcrumbs";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 import { ErrorMessage } from "@/components/ui/ErrorMessage";
 import { workoutApi } from "@/lib/api";
+import { useSync } from "@/contexts/useSync";
+import { useUnits } from "@/contexts/useUnits";
+import { useCoaching } from "@/contexts/useCoaching";
 import { ExerciseProgress } from "@/components/ui/ExerciseProgress";
+import { PlateCalculatorModal } from "@/components/ui/PlateCalculatorModal";
+import { ShareLinkModal } from "@/components/ui/ShareLinkModal";
+import { CommentThread } from "@/components/ui/CommentThread";
+import { CheckInCard } from "@/components/ui/CheckInCard";
 import { SkeletonList } from "@/components/ui/SkeletonCard";
-import type { WorkoutWithExercises } from "@/types";
-import { format, parseISO } from "date-fns";
-import { Edit2, Trash2 } from "lucide-react";
+import { PRBadge } from "@/components/ui/PRBadge";
+import { getWorkoutPRs } from "@/lib/analytics";
+import {
+  addWorkoutComment,
+  commentsAt,
+  deleteWorkoutComment,
+  getWorkoutComments,
+  isUnread,
+  markWorkoutCommentsRead,
+} from "@/lib/commentService";
+import type {
+  CommentAnchor,
+  PRType,
+  WorkoutCommentThread,
+  WorkoutWithExercises,
+} from "@/types";
+import { formatDuration } from "@/lib/restTimer";
+import { SET_TYPES, countsTowardStats } from "@/lib/setTypes";
+import { groupLabel, groupPositions, groupRuns } from "@/lib/supersets";
+import { cn } from "@/lib/utils";
+import {
+  distanceUnitFor,
+  formatPace,
+  isCardioKind,
+  toDisplayDistance,
+} from "@/lib/exerciseKinds";
+import { differenceInSeconds, format, parseISO } from "date-fns";
+import {
+  CloudOff,
+  Edit2,
+  MessageSquare,
+  Play,
+  Share2,
+  Timer,
+  Trash2,
+} from "lucide-react";
 
 export function WorkoutDetailScreen() {
   const navigate = useNavigate();
@@ -18,7 +58,20 @@ export function WorkoutDetailScreen() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>("");
   const [deleteConfirm, setDeleteConfirm] = useState(false);
+  // Weight (kg) the plate calculator is open for
+  const [plateWeight, setPlateWeight] = useState<number | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [comments, setComments] = useState<WorkoutCommentThread | null>(null);
+  // Key of the exercise or set thread that's expanded
+  const [openThread, setOpenThread] = useState<string | null>(null);
+  // PR types per "workoutExerciseId:setIndex"
+  const [prs, setPrs] = useState<Map<string, PRType[]>>(new Map());
+  const { isWorkoutPending, syncVersion } = useSync();
+  const { athletes } = useCoaching();
+  const { unit, toDisplay } = useUnits();
+  const distanceUnit = distanceUnitFor(unit);
 
+  // Re-fetch after a background sync so queued edits are replaced by server data
   useEffect(() => {
     if (workoutId) {
       loadWorkout();
@@ -39,7 +92,101 @@ export function WorkoutDetailScreen() {
         setLoading(false);
       }
     }
-  }, [workoutId]);
+  }, [workoutId, syncVersion]);
+
+  // Offline-only workouts can't have comments until they reach the server.
+  // Highlights use the marker as fetched; the stored one moves to now.
+  useEffect(() => {
+    if (!workoutId || isWorkoutPending(workoutId)) return;
+    let cancelled = false;
+    getWorkoutComments(workoutId)
+      .then((data) => {
+        if (cancelled) return;
+        setComments(data);
+        return markWorkoutCommentsRead(workoutId);
+      })
+      .catch((err: unknown) => {
+        console.error("[WorkoutDetailScreen] comments error:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workoutId, isWorkoutPending]);
+
+  // Records only exist for synced saves, so queued workouts show no badges
+  useEffect(() => {
+    if (!workout || isWorkoutPending(workout.id)) return;
+    let cancelled = false;
+    getWorkoutPRs(workout)
+      .then((data) => {
+        if (!cancelled) setPrs(data);
+      })
+      .catch((err: unknown) => {
+        console.error("[WorkoutDetailScreen] PRs error:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workout, isWorkoutPending]);
+
+  async function handleAddComment(anchor: CommentAnchor, body: string) {
+    const comment = await addWorkoutComment(workoutId!, anchor, body);
+    setComments(
+      (prev) => prev && { ...prev, comments: [...prev.comments, comment] },
+    );
+  }
+
+  async function handleDeleteComment(id: string) {
+    await deleteWorkoutComment(id);
+    setComments(
+      (prev) =>
+        prev && {
+          ...prev,
+          comments: prev.comments.filter((c) => c.id !== id),
+        },
+    );
+  }
+
+  function renderThread(anchor: CommentAnchor, placeholder?: string) {
+    if (!comments) return null;
+    return (
+      <CommentThread
+        comments={commentsAt(comments.comments, anchor)}
+        userId={comments.userId}
+        readAt={comments.readAt}
+        onAdd={(body) => handleAddComment(anchor, body)}
+        onDelete={handleDeleteComment}
+        placeholder={placeholder}
+      />
+    );
+  }
+
+  function renderThreadToggle(key: string, anchor: CommentAnchor) {
+    if (!comments) return null;
+    const thread = commentsAt(comments.comments, anchor);
+    const unread = thread.some((c) =>
+      isUnread(c, comments.userId, comments.readAt),
+    );
+    return (
+      <button
+        onClick={() => setOpenThread(openThread === key ? null : key)}
+        aria-label={`${thread.length} comments`}
+        className={cn(
+          "flex items-center gap-1 p-1 rounded text-xs hover:bg-card transition-colors shrink-0",
+          unread
+            ? "text-accent"
+            : thread.length > 0 || openThread === key
+              ? "text-secondary"
+              : "text-muted",
+        )}
+      >
+        <MessageSquare className="w-3.5 h-3.5" />
+        {thread.length > 0 && thread.length}
+      </button>
+    );
+  }
 
   async function handleDelete() {
     if (!workoutId) return;
@@ -87,9 +234,25 @@ export function WorkoutDetailScreen() {
   }
 
   const workoutDate = parseISO(workout.date);
+  const positions = groupPositions(workout.workout_exercises);
+  // Index of each group's first exercise → label shown above it
+  const groupHeaders = new Map(
+    groupRuns(workout.workout_exercises)
+      .filter((run) => run.group !== null)
+      .map((run) => [
+        run.items[0].index,
+        `${groupLabel(run.items.length)} · ${Math.max(
+          ...run.items.map(({ exercise }) => exercise.sets?.length ?? 0),
+        )} rounds`,
+      ]),
+  );
   const headerTitle = `${format(workoutDate, "EEEE")}${
     workout.title ? ` – ${workout.title}` : ""
   }`;
+  // Coaches read their athletes' workouts; only the owner edits them
+  const coachView = athletes.some(
+    (link) => link.athlete_id === workout.user_id,
+  );
 
   return (
     <Container>
@@ -97,22 +260,34 @@ export function WorkoutDetailScreen() {
         title={headerTitle}
         onBack={() => navigate(-1)}
         action={
-          <div className="flex gap-2">
-            <Button
-              variant="secondary"
-              onClick={() => navigate(`/workout/${workoutId}/edit`)}
-              aria-label="Edit workout"
-            >
-              <Edit2 className="w-4 h-4" />
-            </Button>
-            <Button
-              variant="danger"
-              onClick={() => setDeleteConfirm(true)}
-              aria-label="Delete workout"
-            >
-              <Trash2 className="w-4 h-4" />
-            </Button>
-          </div>
+          !coachView && (
+            <div className="flex gap-2">
+              {/* Offline-only workouts have nothing on the server to share yet */}
+              {!isWorkoutPending(workout.id) && (
+                <Button
+                  variant="secondary"
+                  onClick={() => setSharing(true)}
+                  aria-label="Share workout"
+                >
+                  <Share2 className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                variant="secondary"
+                onClick={() => navigate(`/workout/${workoutId}/edit`)}
+                aria-label="Edit workout"
+              >
+                <Edit2 className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="danger"
+                onClick={() => setDeleteConfirm(true)}
+                aria-label="Delete workout"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          )
         }
       />
       <Breadcrumbs
@@ -129,14 +304,57 @@ export function WorkoutDetailScreen() {
 
         {/* Date and notes */}
         <div className="mb-4 sm:mb-6">
-          <p className="text-secondary text-xs sm:text-sm mb-2">
-            {format(workoutDate, "MMMM d, yyyy")}
-          </p>
+          <div className="flex items-center gap-3 mb-2">
+            <p className="text-secondary text-xs sm:text-sm">
+              {format(workoutDate, "MMMM d, yyyy")}
+            </p>
+            {isWorkoutPending(workout.id) && (
+              <span className="flex items-center gap-1 text-xs text-warning">
+                <CloudOff className="w-3 h-3" />
+                Pending sync — saved on this device
+              </span>
+            )}
+            {workout.started_at && workout.ended_at && (
+              <span className="flex items-center gap-1 text-xs text-muted">
+                <Timer className="w-3 h-3" />
+                {formatDuration(
+                  differenceInSeconds(
+                    parseISO(workout.ended_at),
+                    parseISO(workout.started_at),
+                  ),
+                )}
+              </span>
+            )}
+          </div>
           {workout.notes && (
             <Card className="p-3 sm:p-4">
               <p className="text-secondary text-sm">{workout.notes}</p>
             </Card>
           )}
+          <div className="mt-3">
+            <CheckInCard
+              key={workout.id}
+              workout={workout}
+              readOnly={coachView}
+              onSaved={(patch) =>
+                setWorkout((prev) => prev && { ...prev, ...patch })
+              }
+            />
+          </div>
+          {comments && (
+            <Card className="p-3 sm:p-4 mt-3">
+              <div className="flex items-center gap-2 mb-2">
+                <MessageSquare className="w-4 h-4 text-accent" />
+                <h2 className="text-sm font-semibold text-primary">
+                  Comments
+                </h2>
+              </div>
+              {renderThread(
+                {},
+                coachView ? "Feedback on this workout" : "Add a comment",
+              )}
+            </Card>
+          )}
         </div>
 
         {/* Exercises list */}
@@ -144,80 +362,213 @@ export function WorkoutDetailScreen() {
           {workout.workout_exercises.length === 0 ? (
             <div className="text-center py-12">
               <p className="text-secondary mb-4">No exercises logged yet</p>
-              <Button
-                onClick={() => navigate(`/workout/${workoutId}/edit`)}
-              >
-                Add Exercise
-              </Button>
+              {!coachView && (
+                <Button
+                  onClick={() => navigate(`/workout/${workoutId}/edit`)}
+                >
+                  Add Exercise
+                </Button>
+              )}
             </div>
           ) : (
             <>
-              {workout.workout_exercises.map((workoutExercise) => (
-                <Card key={workoutExercise.id} className="p-4 sm:p-5">
-                  <div className="flex items-start justify-between mb-3 sm:mb-4">
-                    <div className="flex-1 min-w-0">
-                      <h3 className="text-base sm:text-lg font-semibold text-primary mb-1 truncate">
-                        {workoutExercise.exercise?.name || "Unknown Exercise"}
-                      </h3>
-                      {workoutExercise.notes && (
-                        <p className="text-secondary text-sm">
-                          {workoutExercise.notes}
-                        </p>
-                      )}
+              {!workout.ended_at && !coachView && (
+                <Button
+                  onClick={() => navigate(`/workout/${workoutId}/session`)}
+                  className="w-full"
+                >
+                  <Play className="w-4 h-4 inline mr-1" />
+                  {workout.started_at ? "Resume Session" : "Start Session"}
+                </Button>
+              )}
+
+              {workout.workout_exercises.map((workoutExercise, exIndex) => (
+                <Fragment key={workoutExercise.id}>
+                  {groupHeaders.has(exIndex) && (
+                    <p className="text-xs font-semibold text-accent uppercase tracking-wide -mb-1">
+                      {groupHeaders.get(exIndex)}
+                    </p>
+                  )}
+                  <Card
+                    className={
+                      positions[exIndex]
+                        ? "p-4 sm:p-5 border-accent"
+                        : "p-4 sm:p-5"
+                    }
+                  >
+                    <div className="flex items-start justify-between mb-3 sm:mb-4">
+                      <div className="flex-1 min-w-0">
+                        <h3 className="text-base sm:text-lg font-semibold text-primary mb-1 truncate">
+                          {positions[exIndex] && (
+                            <span className="text-accent mr-2">
+                              {positions[exIndex]}
+                            </span>
+                          )}
+                          {workoutExercise.exercise?.name || "Unknown Exercise"}
+                        </h3>
+                        {workoutExercise.notes && (
+                          <p className="text-secondary text-sm">
+                            {workoutExercise.notes}
+                          </p>
+                        )}
+                      </div>
+                      {renderThreadToggle(`exercise:${workoutExercise.id}`, {
+                        workoutExerciseId: workoutExercise.id,
+                      })}
                     </div>
-                  </div>
-
-                  {/* Sets */}
-                  <div className="space-y-2">
-                    {workoutExercise.sets && workoutExercise.sets.length > 0 ? (
-                      workoutExercise.sets.map((set, setIndex) => (
-                        <div
-                          key={set.id}
-                          className="flex items-center gap-2 bg-elevated rounded-lg p-2 sm:p-3"
-                        >
-                          <span className="text-muted font-medium w-12 text-xs sm:text-sm shrink-0">
-                            Set {setIndex + 1}
-                          </span>
-                          <div className="flex items-center gap-2 flex-1 min-w-0">
-                            <div className="flex items-center gap-1">
-                              <span className="text-primary font-semibold text-sm sm:text-base">
-                                {set.reps}
-                              </span>
-                              <span className="text-secondary text-xs">
-                                reps
-                              </span>
-                            </div>
-                            <span className="text-muted text-xs">×</span>
-                            <div className="flex items-center gap-1">
-                              <span className="text-primary font-semibold text-sm sm:text-base">
-                                {set.weight}
-                              </span>
-                              <span className="text-secondary text-xs">
-                                kg
+
+                    {/* Sets */}
+                    <div className="space-y-2">
+                      {workoutExercise.sets && workoutExercise.sets.length > 0 ? (
+                        workoutExercise.sets.map((set, setIndex) => (
+                          <Fragment key={set.id}>
+                            <div className="flex items-center gap-2 bg-elevated rounded-lg p-2 sm:p-3">
+                              <span className="text-muted font-medium w-12 text-xs sm:text-sm shrink-0">
+                                {set.set_type === "working"
+                                  ? `Set ${setIndex + 1}`
+                                  : SET_TYPES[set.set_type].label}
                               </span>
+                              <div className="flex items-center gap-2 flex-1 min-w-0">
+                                {isCardioKind(workoutExercise.exercise?.kind) ? (
+                                  <div className="flex items-center gap-2 text-sm sm:text-base">
+                                    {set.duration_seconds !== null && (
+                                      <span className="text-primary font-semibold">
+                                        {formatDuration(set.duration_seconds)}
+                                      </span>
+                                    )}
+                                    {set.distance_m !== null && (
+                                      <span className="text-primary font-semibold">
+                                        {toDisplayDistance(
+                                          set.distance_m,
+                                          distanceUnit,
+                                        )}{" "}
+                                        <span className="text-secondary text-xs font-normal">
+                                          {distanceUnit}
+                                        </span>
+                                      </span>
+                                    )}
+                                    {set.duration_seconds !== null &&
+                                      set.distance_m !== null && (
+                                        <span className="text-muted text-xs">
+                                          {formatPace(
+                                            set.duration_seconds,
+                                            set.distance_m,
+                                            distanceUnit,
+                                          )}
+                                        </span>
+                                      )}
+                                  </div>
+                                ) : (
+                                  <>
+                                    <div className="flex items-center gap-1">
+                                      <span className="text-primary font-semibold text-sm sm:text-base">
+                                        {set.reps}
+                                      </span>
+                                      <span className="text-secondary text-xs">
+                                        reps
+                                      </span>
+                                    </div>
+                                    <span className="text-muted text-xs">×</span>
+                                    {workoutExercise.exercise?.kind ===
+                                    "bodyweight" ? (
+                                      <span className="text-primary font-semibold text-sm sm:text-base">
+                                        BW
+                                        {set.weight > 0 && (
+                                          <span className="text-secondary text-xs font-normal">
+                                            {" "}
+                                            + {toDisplay(set.weight)} {unit}
+                                          </span>
+                                        )}
+                                      </span>
+                                    ) : (
+                                      <button
+                                        onClick={() => setPlateWeight(set.weight)}
+                                        title="Plate calculator"
+                                        className="flex items-center gap-1 rounded hover:bg-card transition-colors"
+                                      >
+                                        <span className="text-primary font-semibold text-sm sm:text-base">
+                                          {toDisplay(set.weight)}
+                                        </span>
+                                        <span className="text-secondary text-xs">
+                                          {unit}
+                                        </span>
+                                      </button>
+                                    )}
+                                  </>
+                                )}
+                                {set.rpe !== null && (
+                                  <span className="text-muted text-xs">
+                                    @{set.rpe}
+                                  </span>
+                                )}
+                                {set.rir !== null && (
+                                  <span className="text-muted text-xs">
+                                    {set.rir} RIR
+                                  </span>
+                                )}
+                                {prs
+                                  .get(`${workoutExercise.id}:${setIndex}`)
+                                  ?.map((type) => (
+                                    <PRBadge key={type} type={type} />
+                                  ))}
+                              </div>
+                              {renderThreadToggle(
+                                `set:${workoutExercise.id}:${setIndex}`,
+                                {
+                                  workoutExerciseId: workoutExercise.id,
+                                  setIndex,
+                                },
+                              )}
                             </div>
-                          </div>
-                        </div>
-                      ))
-                    ) : (
-                      <p className="text-muted text-sm italic">
-                        No sets logged
-                      </p>
+                            {openThread ===
+                              `set:${workoutExercise.id}:${setIndex}` && (
+                              <div className="pl-3 border-l-2 border-primary">
+                                {renderThread(
+                                  {
+                                    workoutExerciseId: workoutExercise.id,
+                                    setIndex,
+                                  },
+                                  `Comment on set ${setIndex + 1}`,
+                                )}
+                              </div>
+                            )}
+                          </Fragment>
+                        ))
+                      ) : (
+                        <p className="text-muted text-sm italic">
+                          No sets logged
+                        </p>
+                      )}
+                    </div>
+
+                    {openThread === `exercise:${workoutExercise.id}` && (
+                      <div className="mt-3 pt-3 border-t border-primary">
+                        {renderThread(
+                          { workoutExerciseId: workoutExercise.id },
+                          `Comment on ${
+                            workoutExercise.exercise?.name ?? "this exercise"
+                          }`,
+                        )}
+                      </div>
                     )}
-                  </div>
-
-                  {/* Exercise Progress Comparison */}
-                  {workoutExercise.exercise?.name && workout && (
-                    <ExerciseProgress
-                      exerciseName={workoutExercise.exercise.name}
-                      currentWorkoutId={workout.id}
-                      currentMaxWeight={Math.max(
-                        ...(workoutExercise.sets || []).map((s) => s.weight),
-                        0,
+
+                    {/* Exercise Progress Comparison */}
+                    {workoutExercise.exercise?.name &&
+                      !isCardioKind(workoutExercise.exercise.kind) &&
+                      workout && (
+                        <ExerciseProgress
+                          exerciseName={workoutExercise.exercise.name}
+                          currentWorkoutId={workout.id}
+                          currentMaxWeight={Math.max(
+                            ...(workoutExercise.sets || [])
+                              .filter(countsTowardStats)
+                              .map((s) => s.weight),
+                            0,
+                          )}
+                        />
                       )}
-                    />
-                  )}
-                </Card>
+                  </Card>
+                </Fragment>
               ))}
 
               <Button
@@ -232,6 +583,24 @@ export function WorkoutDetailScreen() {
         </div>
       </div>
 
+      {plateWeight !== null && (
+        <PlateCalculatorModal
+          isOpen
+          onClose={() => setPlateWeight(null)}
+          weight={plateWeight}
+        />
+      )}
+
+      {sharing && (
+        <ShareLinkModal
+          isOpen
+          onClose={() => setSharing(false)}
+          kind="workout"
+          targetId={workout.id}
+          name={headerTitle}
+        />
+      )}
+
       <ConfirmDialog
         isOpen={deleteConfirm}
         title="Delete Workout"
@@ -0,0 +1,585 @@
+/**
+ * WorkoutSessionScreen
+ *
+ * Live "in the gym" mode for one workout. Walks the sets in order: adjust
+ * reps/weight if needed, tick the set off, and a rest timer runs before the
+ * next one. Timed and distance exercises log time / distance instead.
+ * Opening the screen stamps workouts.started_at (or resumes a
+ * finished session); Finish stamps ended_at. Each ticked set records
+ * sets.completed_at.
+ *
+ * Writes go through setApi / workoutApi, so they queue like any other edit
+ * when the gym has no signal.
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Container, Header, Card, Button } from "@/components/ui/Layout";
+import { ErrorMessage } from "@/components/ui/ErrorMessage";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { SkeletonList } from "@/components/ui/SkeletonCard";
+import { RestTimer } from "@/components/ui/RestTimer";
+import { DurationInput } from "@/components/ui/DurationInput";
+import { setApi, workoutApi } from "@/lib/api";
+import { recordWorkoutPRs } from "@/lib/analytics";
+import { isPendingId } from "@/lib/offlineQueue";
+import {
+  alertRestOver,
+  formatDuration,
+  getStoredRestSeconds,
+  requestRestNotifications,
+} from "@/lib/restTimer";
+import { SET_TYPES, normaliseRpe } from "@/lib/setTypes";
+import {
+  KIND_FIELDS,
+  cardioColumns,
+  distanceUnitFor,
+  fromDisplayDistance,
+  toDisplayDistance,
+} from "@/lib/exerciseKinds";
+import { WEIGHT_STEP } from "@/lib/units";
+import { useUnits } from "@/contexts/useUnits";
+import type {
+  ExerciseKind,
+  Set,
+  SetUpdateInput,
+  WorkoutWithExercises,
+} from "@/types";
+import { Check, Clock, Flag } from "lucide-react";
+
+export function WorkoutSessionScreen() {
+  const navigate = useNavigate();
+  const { workoutId } = useParams<{ workoutId: string }>();
+  const { unit, toDisplay, fromDisplay, formatWeight } = useUnits();
+  const distanceUnit = distanceUnitFor(unit);
+
+  const [workout, setWorkout] = useState<WorkoutWithExercises | null>(null);
+  // workouts.updated_at after our latest write — base for edits that get queued
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState<string | null>(null);
+  const [activeSetId, setActiveSetId] = useState<string | null>(null);
+  const [restSeconds] = useState(getStoredRestSeconds);
+  const [restEndsAt, setRestEndsAt] = useState<number | null>(null);
+  const [restTotal, setRestTotal] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [unsynced, setUnsynced] = useState(false);
+  const [finishConfirm, setFinishConfirm] = useState(false);
+  const [finishing, setFinishing] = useState(false);
+
+  // ─── Load + start ────────────────────────────────────────────────────────────
+
+  // Our own writes bump workouts.updated_at on the server; track it so a later
+  // queued edit isn't mistaken for a conflict with another device
+  async function refreshBase(id: string) {
+    try {
+      setBaseUpdatedAt(await workoutApi.getUpdatedAt(id));
+    } catch (err) {
+      console.error("[WorkoutSessionScreen] refreshBase error:", err);
+    }
+  }
+
+  useEffect(() => {
+    if (!workoutId) return;
+    let cancelled = false;
+
+    async function load() {
+      try {
+        setLoading(true);
+        setError("");
+        const data = await workoutApi.getById(workoutId!);
+        if (cancelled) return;
+
+        // Rows created offline have placeholder ids that set edits can't target
+        const pending = data.workout_exercises.some(
+          (we) => isPendingId(we.id) || we.sets.some((s) => isPendingId(s.id)),
+        );
+        setUnsynced(pending);
+        setWorkout(data);
+        setBaseUpdatedAt(data.updated_at);
+        if (pending) return;
+
+        if (!data.started_at || data.ended_at) {
+          const times = {
+            started_at: data.started_at ?? new Date().toISOString(),
+            ended_at: null,
+          };
+          const outcome = await workoutApi.updateSession(data, times);
+          if (cancelled) return;
+          setWorkout({ ...data, ...times });
+          if (outcome === "saved") await refreshBase(data.id);
+        }
+      } catch (err: unknown) {
+        if (cancelled) return;
+        console.error(err);
+        setError(err instanceof Error ? err.message : "Failed to start session");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [workoutId]);
+
+  // Elapsed session clock
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // ─── Derived ─────────────────────────────────────────────────────────────────
+
+  const sessionSets = useMemo(
+    () =>
+      (workout?.workout_exercises ?? []).flatMap((we) =>
+        we.sets.map((set) => ({
+          set,
+          exerciseName: we.exercise?.name || "Exercise",
+          kind: we.exercise?.kind ?? "weight_reps",
+        })),
+      ),
+    [workout],
+  );
+
+  const remainingSets = sessionSets.filter((s) => !s.set.completed_at);
+  const active =
+    remainingSets.find((s) => s.set.id === activeSetId) ?? remainingSets[0];
+  const nextLabel = active
+    ? `${active.exerciseName} · ${describeSet(active.set, active.kind)}`
+    : undefined;
+
+  function describeSet(set: Set, kind: ExerciseKind): string {
+    const fields = KIND_FIELDS[kind];
+    if (fields.reps) return `${set.reps} × ${formatWeight(set.weight)}`;
+    const parts: string[] = [];
+    if (fields.duration && set.duration_seconds) {
+      parts.push(formatDuration(set.duration_seconds));
+    }
+    if (fields.distance && set.distance_m) {
+      parts.push(
+        `${toDisplayDistance(set.distance_m, distanceUnit)} ${distanceUnit}`,
+      );
+    }
+    return parts.join(" · ") || "—";
+  }
+
+  // ─── Set edits ───────────────────────────────────────────────────────────────
+
+  function patchSet(setId: string, updates: SetUpdateInput) {
+    setWorkout(
+      (prev) =>
+        prev && {
+          ...prev,
+          workout_exercises: prev.workout_exercises.map((we) => ({
+            ...we,
+            sets: we.sets.map((s) =>
+              s.id === setId ? { ...s, ...updates } : s,
+            ),
+          })),
+        },
+    );
+  }
+
+  async function writeSet(setId: string, updates: SetUpdateInput) {
+    if (!workout) return;
+    const saved = await setApi.update(setId, updates, {
+      id: workout.id,
+      updated_at: baseUpdatedAt ?? workout.updated_at,
+    });
+    if (saved) await refreshBase(workout.id);
+  }
+
+  async function handleDone(target: Set) {
+    void requestRestNotifications();
+
+    const updates: SetUpdateInput = {
+      reps: Math.max(1, target.reps || 1),
+      weight: Math.max(0, target.weight || 0),
+      rpe: normaliseRpe(target.rpe),
+      ...cardioColumns(target),
+      completed_at: new Date().toISOString(),
+    };
+    patchSet(target.id, updates);
+    setActiveSetId(null);
+
+    if (remainingSets.some((s) => s.set.id !== target.id)) {
+      setRestTotal(restSeconds);
+      setRestEndsAt(Date.now() + restSeconds * 1000);
+    }
+
+    try {
+      setError("");
+      await writeSet(target.id, updates);
+    } catch (err: unknown) {
+      console.error(err);
+      patchSet(target.id, { completed_at: null });
+      setError(err instanceof Error ? err.message : "Failed to save set");
+    }
+  }
+
+  async function handleUndo(target: Set) {
+    patchSet(target.id, { completed_at: null });
+    setActiveSetId(target.id);
+
+    try {
+      setError("");
+      await writeSet(target.id, { completed_at: null });
+    } catch (err: unknown) {
+      console.error(err);
+      patchSet(target.id, { completed_at: target.completed_at });
+      setError(err instanceof Error ? err.message : "Failed to update set");
+    }
+  }
+
+  // ─── Rest timer ──────────────────────────────────────────────────────────────
+
+  function adjustRest(deltaSeconds: number) {
+    setRestEndsAt((prev) =>
+      prev === null ? null : Math.max(Date.now(), prev + deltaSeconds * 1000),
+    );
+    setRestTotal((t) => Math.max(0, t + deltaSeconds));
+  }
+
+  const handleRestFinish = useCallback(() => {
+    setRestEndsAt(null);
+    void alertRestOver(nextLabel ? `Next: ${nextLabel}` : "Time for your next set");
+  }, [nextLabel]);
+
+  // ─── Finish ──────────────────────────────────────────────────────────────────
+
+  async function handleFinish() {
+    if (!workout) return;
+    setFinishConfirm(false);
+
+    try {
+      setFinishing(true);
+      setError("");
+      const outcome = await workoutApi.updateSession(
+        { id: workout.id, updated_at: baseUpdatedAt ?? workout.updated_at },
+        { ended_at: new Date().toISOString() },
+      );
+      // Only sets actually ticked off can be PRs
+      if (outcome === "saved") {
+        await recordWorkoutPRs(
+          workout.date,
+          workout.workout_exercises.map((we) => ({
+            name: we.exercise.name,
+            sets: we.sets.filter((s) => s.completed_at),
+          })),
+        );
+      }
+      navigate(`/workout/${workout.id}`);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to finish session");
+      setFinishing(false);
+    }
+  }
+
+  // ─── Render ──────────────────────────────────────────────────────────────────
+
+  const handleBack = () => navigate(`/workout/${workoutId}`);
+
+  if (loading) {
+    return (
+      <Container>
+        <Header title="Session" onBack={handleBack} />
+        <div className="container mx-auto px-4 py-6">
+          <SkeletonList count={3} lines={4} />
+        </div>
+      </Container>
+    );
+  }
+
+  const elapsed = workout?.started_at
+    ? (now - new Date(workout.started_at).getTime()) / 1000
+    : 0;
+  const doneCount = sessionSets.length - remainingSets.length;
+
+  return (
+    <Container>
+      <Header
+        title={workout?.title || "Session"}
+        onBack={handleBack}
+        action={
+          workout?.started_at && (
+            <span className="flex items-center gap-1 text-secondary text-sm tabular-nums">
+              <Clock className="w-4 h-4" />
+              {formatDuration(elapsed)}
+            </span>
+          )
+        }
+      />
+
+      <div
+        className={`container mx-auto px-3 sm:px-4 py-4 sm:py-6 space-y-4 ${
+          restEndsAt !== null ? "pb-28" : ""
+        }`}
+      >
+        {error && (
+          <ErrorMessage message={error} onDismiss={() => setError("")} />
+        )}
+
+        {unsynced && (
+          <Card className="p-4">
+            <p className="text-secondary text-sm">
+              This workout hasn't finished syncing yet. Start the session once
+              you're back online.
+            </p>
+          </Card>
+        )}
+
+        {workout && !unsynced && sessionSets.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-secondary mb-4">No sets to log yet</p>
+            <Button onClick={() => navigate(`/workout/${workout.id}/edit`)}>
+              Add Exercises
+            </Button>
+          </div>
+        )}
+
+        {workout && !unsynced && sessionSets.length > 0 && (
+          <>
+            {/* Progress */}
+            <div>
+              <div className="flex justify-between text-xs text-muted mb-1">
+                <span>
+                  {doneCount} of {sessionSets.length} sets done
+                </span>
+                <span>Rest {formatDuration(restSeconds)}</span>
+              </div>
+              <div className="w-full h-2 bg-elevated rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-success rounded-full transition-all duration-500"
+                  style={{
+                    width: `${(doneCount / sessionSets.length) * 100}%`,
+                  }}
+                />
+              </div>
+            </div>
+
+            {workout.workout_exercises.map((we) => {
+              const fields = KIND_FIELDS[we.exercise?.kind ?? "weight_reps"];
+              return (
+                <Card key={we.id} className="p-4">
+                  <h3 className="text-primary font-semibold mb-3 truncate">
+                    {we.exercise?.name || "Exercise"}
+                  </h3>
+
+                  <div className="space-y-1.5">
+                    {we.sets.map((set, i) => {
+                      if (active?.set.id === set.id) {
+                        return (
+                          <div
+                            key={set.id}
+                            className="bg-elevated rounded-lg p-3 ring-2 ring-(--border-focus)"
+                          >
+                            <p className="text-xs text-muted mb-2">
+                              Set {i + 1}
+                              {set.set_type !== "working" &&
+                                ` · ${SET_TYPES[set.set_type].label}`}
+                            </p>
+                            <div className="grid grid-cols-[1fr_1fr_3.5rem_auto] gap-2 items-end">
+                              {fields.reps ? (
+                                <>
+                                  <label className="text-xs text-muted">
+                                    Reps
+                                    <input
+                                      type="number"
+                                      value={set.reps || ""}
+                                      onChange={(e) =>
+                                        patchSet(set.id, {
+                                          reps: parseInt(e.target.value) || 0,
+                                        })
+                                      }
+                                      min={1}
+                                      className="mt-1 w-full px-2 py-2 rounded bg-card border border-primary text-primary text-base focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                                    />
+                                  </label>
+                                  <label className="text-xs text-muted">
+                                    {we.exercise?.kind === "bodyweight"
+                                      ? "+Load"
+                                      : "Weight"}{" "}
+                                    ({unit})
+                                    <input
+                                      type="number"
+                                      value={toDisplay(set.weight) || ""}
+                                      onChange={(e) =>
+                                        patchSet(set.id, {
+                                          weight: fromDisplay(
+                                            parseFloat(e.target.value) || 0,
+                                          ),
+                                        })
+                                      }
+                                      min={0}
+                                      step={WEIGHT_STEP[unit]}
+                                      className="mt-1 w-full px-2 py-2 rounded bg-card border border-primary text-primary text-base focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                                    />
+                                  </label>
+                                </>
+                              ) : (
+                                <>
+                                  <label className="text-xs text-muted">
+                                    Time
+                                    {fields.duration ? (
+                                      <DurationInput
+                                        seconds={set.duration_seconds}
+                                        onChange={(seconds) =>
+                                          patchSet(set.id, {
+                                            duration_seconds: seconds,
+                                          })
+                                        }
+                                        label={`Set ${i + 1} time`}
+                                        className="mt-1 px-2 py-2 rounded bg-card text-base"
+                                      />
+                                    ) : (
+                                      <p className="mt-1 py-2 text-muted">—</p>
+                                    )}
+                                  </label>
+                                  <label className="text-xs text-muted">
+                                    Distance ({distanceUnit})
+                                    {fields.distance ? (
+                                      <input
+                                        type="number"
+                                        value={
+                                          set.distance_m
+                                            ? toDisplayDistance(
+                                                set.distance_m,
+                                                distanceUnit,
+                                              )
+                                            : ""
+                                        }
+                                        onChange={(e) => {
+                                          const value = parseFloat(e.target.value);
+                                          patchSet(set.id, {
+                                            distance_m:
+                                              value > 0
+                                                ? fromDisplayDistance(
+                                                    value,
+                                                    distanceUnit,
+                                                  )
+                                                : null,
+                                          });
+                                        }}
+                                        min={0}
+                                        step={0.01}
+                                        className="mt-1 w-full px-2 py-2 rounded bg-card border border-primary text-primary text-base focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                                      />
+                                    ) : (
+                                      <p className="mt-1 py-2 text-muted">—</p>
+                                    )}
+                                  </label>
+                                </>
+                              )}
+                              <label className="text-xs text-muted">
+                                RPE
+                                <input
+                                  type="number"
+                                  value={set.rpe ?? ""}
+                                  onChange={(e) =>
+                                    patchSet(set.id, {
+                                      rpe:
+                                        e.target.value === ""
+                                          ? null
+                                          : parseFloat(e.target.value),
+                                    })
+                                  }
+                                  min={1}
+                                  max={10}
+                                  step={0.5}
+                                  className="mt-1 w-full px-2 py-2 rounded bg-card border border-primary text-primary text-base focus:outline-none focus:ring-1 focus:ring-(--border-focus)"
+                                />
+                              </label>
+                              <Button
+                                onClick={() => handleDone(set)}
+                                aria-label={`Mark set ${i + 1} done`}
+                              >
+                                <Check className="w-5 h-5" />
+                              </Button>
+                            </div>
+                          </div>
+                        );
+                      }
+
+                      const done = !!set.completed_at;
+                      return (
+                        <button
+                          key={set.id}
+                          onClick={() =>
+                            done ? handleUndo(set) : setActiveSetId(set.id)
+                          }
+                          aria-label={
+                            done
+                              ? `Mark set ${i + 1} not done`
+                              : `Log set ${i + 1} next`
+                          }
+                          className="w-full flex items-center gap-3 bg-elevated rounded-lg px-3 py-2 text-left"
+                        >
+                          <span
+                            className={`w-5 h-5 rounded-full flex items-center justify-center shrink-0 ${
+                              done
+                                ? "bg-success-surface text-success"
+                                : "border border-primary"
+                            }`}
+                          >
+                            {done && <Check className="w-3.5 h-3.5" />}
+                          </span>
+                          <span className="text-muted text-xs w-10">
+                            {SET_TYPES[set.set_type].short || `Set ${i + 1}`}
+                          </span>
+                          <span
+                            className={`text-sm ${done ? "text-secondary" : "text-primary"}`}
+                          >
+                            {describeSet(set, we.exercise?.kind ?? "weight_reps")}
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </Card>
+              );
+            })}
+
+            <Button
+              onClick={() =>
+                remainingSets.length > 0
+                  ? setFinishConfirm(true)
+                  : handleFinish()
+              }
+              disabled={finishing}
+              className="w-full"
+            >
+              <Flag className="w-4 h-4 inline mr-1" />
+              {finishing ? "Finishing…" : "Finish Session"}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {restEndsAt !== null && (
+        <RestTimer
+          endsAt={restEndsAt}
+          totalSeconds={restTotal}
+          nextLabel={nextLabel}
+          onAdjust={adjustRest}
+          onSkip={() => setRestEndsAt(null)}
+          onFinish={handleRestFinish}
+        />
+      )}
+
+      <ConfirmDialog
+        isOpen={finishConfirm}
+        title="Finish Session"
+        message={`${remainingSets.length} set${remainingSets.length === 1 ? " is" : "s are"} not checked off. Finish anyway?`}
+        confirmLabel="Finish"
+        cancelLabel="Keep going"
+        isDestructive={false}
+        onConfirm={handleFinish}
+        onCancel={() => setFinishConfirm(false)}
+      />
+    </Container>
+  );
+}
@@ -3,30 +3,113 @@
  */
 
 // Database types
+/**
+ * The one record per exercise: workouts, templates, day library entries,
+ * PRs and goals all reference it by id. Names are unique per user
+ * (case-insensitive), and the library fields live here too.
+ */
+/**
+ * What a set of the exercise records. bodyweight uses weight as added load;
+ * the last three log time and/or distance, with reps left at 1.
+ */
+export type ExerciseKind =
+  | "weight_reps"
+  | "bodyweight"
+  | "duration"
+  | "distance"
+  | "duration_distance";
+
 export interface Exercise {
   id: string;
   user_id: string;
   name: string;
+  kind: ExerciseKind;
+  /** Primary muscle trained */
+  muscle_group: string | null;
+  /** Also worked — counted at half a set each in muscle-group analytics */
+  secondary_muscles: string[];
+  default_reps: number;
+  default_weight: number;
+  usage_count: number;
+  last_used_at: string | null;
   created_at: string;
 }
 
+/**
+ * weight: lift target_weight (kg) for target_reps.
+ * e1rm: reach an estimated 1RM of target_weight.
+ * weekly_volume: move target_volume kg of the exercise in one week.
+ * frequency: log target_workouts workouts in one week.
+ */
+export type GoalType = "weight" | "e1rm" | "weekly_volume" | "frequency";
+
 export interface ExerciseGoal {
   id: string;
   user_id: string;
-  exercise_id: string;
+  /** null for frequency goals, which count workouts of any kind */
+  exercise_id: string | null;
   exercise?: Exercise;
+  goal_type: GoalType;
   target_reps?: number;
   target_weight?: number;
+  target_volume?: number;
+  target_workouts?: number;
+  target_date: string | null; // YYYY-MM-DD
+  /** Set the first time the target is reached; cleared when it changes */
+  achieved_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
-export interface Set {
+export type SaveGoalInput = Pick<
+  ExerciseGoal,
+  | "exercise_id"
+  | "goal_type"
+  | "target_reps"
+  | "target_weight"
+  | "target_volume"
+  | "target_workouts"
+  | "target_date"
+>;
+
+/** Where a goal stands right now, computed by analyticsService */
+export interface GoalProgress {
+  goalId: string;
+  current: number;
+  target: number;
+  /** 0–100 */
+  percent: number;
+  achieved: boolean;
+  /** Trend-based finish date for strength goals; null when not trending up */
+  projectedDate: string | null;
+}
+
+/** How a set counts — warm-ups are logged but left out of volume, PRs and e1RM */
+export type SetType = "working" | "warmup" | "drop" | "failure" | "amrap";
+
+/** Kind + effort columns shared by sets, template_sets and day_library_sets */
+export interface SetTypeFields {
+  set_type: SetType;
+  /** Rate of perceived exertion, 1–10 in half steps */
+  rpe: number | null;
+  /** Reps in reserve */
+  rir: number | null;
+}
+
+/** Time and distance columns shared by sets, template_sets and day_library_sets */
+export interface CardioFields {
+  duration_seconds: number | null;
+  /** Always metres — see lib/exerciseKinds for km / mi display */
+  distance_m: number | null;
+}
+
+export interface Set extends SetTypeFields, CardioFields {
   id: string;
   workout_exercise_id: string;
   reps: number;
-  weight: number; // in kg or lbs
+  weight: number; // always kg — see lib/units for display conversion
   order_index: number; // Order of the set
+  completed_at?: string | null; // Checked off during a live session
   created_at: string;
 }
 
@@ -38,6 +121,8 @@ export interface WorkoutExercise {
   sets?: Set[]; // Populated via join
   notes?: string;
   order_index: number; // Order in the workout
+  /** Neighbours sharing a number form a superset — see lib/supersets */
+  superset_group: number | null;
   created_at: string;
 }
 
@@ -47,10 +132,42 @@ export interface Workout {
   date: string; // YYYY-MM-DD format
   title?: string;
   notes?: string;
+  /** Live session timestamps — null for workouts logged after the fact */
+  started_at?: string | null;
+  ended_at?: string | null;
+  /** How hard the whole session felt, 1–10 */
+  session_rpe?: number | null;
+  /** Hand-entered duration; otherwise taken from the live session */
+  session_minutes?: number | null;
+  /** Pre-session check-in: hours slept, soreness and readiness (1–5) */
+  sleep_hours?: number | null;
+  soreness?: number | null;
+  readiness?: number | null;
   created_at: string;
   updated_at: string;
 }
 
+/** Editable columns of a set row */
+export interface SetUpdateInput extends Partial<CardioFields> {
+  reps?: number;
+  weight?: number;
+  rpe?: number | null;
+  completed_at?: string | null;
+}
+
+/** Live session times and check-in fields for workoutApi.updateSession */
+export interface WorkoutSessionInput extends Partial<WorkoutCheckIn> {
+  started_at?: string;
+  ended_at?: string | null;
+}
+
+export type WorkoutCheckIn = Required<
+  Pick<
+    Workout,
+    "session_rpe" | "session_minutes" | "sleep_hours" | "soreness" | "readiness"
+  >
+>;
+
 // Workout Templates
 export interface WorkoutTemplate {
   id: string;
@@ -95,7 +212,9 @@ export interface WeekWorkouts {
 }
 
 // Form types
-export interface CreateSetInput {
+export interface CreateSetInput
+  extends Partial<SetTypeFields>,
+    Partial<CardioFields> {
   reps: number;
   weight: number;
 }
@@ -131,6 +250,8 @@ export interface CreateTemplateInput {
 export interface PersonalRecord {
   id: string;
   user_id: string;
+  exercise_id: string;
+  /** From the joined exercise */
   exercise_name: string;
   weight: number;
   reps: number;
@@ -138,6 +259,12 @@ export interface PersonalRecord {
   created_at: string;
 }
 
+// Strength estimation
+export type OneRepMaxFormula = "epley" | "brzycki";
+
+/** What a set beat: heaviest weight, most reps at that weight, or best e1RM */
+export type PRType = "weight" | "reps" | "e1rm";
+
 // Exercise Progress Comparison
 export interface ExerciseComparison {
   exerciseName: string;
@@ -154,6 +281,20 @@ export interface ChartDataPoint {
   value: number;
 }
 
+/** e1RM chart point — value is the day's best estimate, from this set */
+export interface E1RMDataPoint extends ChartDataPoint {
+  weight: number;
+  reps: number;
+}
+
+/** One day's time and distance for a cardio exercise */
+export interface CardioDataPoint {
+  date: string;
+  seconds: number;
+  /** Metres */
+  distance: number;
+}
+
 // Weekly volume summary
 export interface WeeklyVolumeSummary {
   weekStart: string;
@@ -171,6 +312,18 @@ export interface WeekComparison {
   exercisesChange: number;
 }
 
+/** One muscle group's work in a week — secondary hits already weighted */
+export interface MuscleGroupVolume {
+  muscle: string;
+  sets: number;
+  volume: number;
+}
+
+export interface WeeklyMuscleVolume {
+  weekStart: string;
+  groups: MuscleGroupVolume[];
+}
+
 // ─── RPC Return Types ─────────────────────────────────────────────────────────
 
 export interface PRSummaryRow {
@@ -179,12 +332,25 @@ export interface PRSummaryRow {
   best_date: string;
 }
 
+/** What references an exercise — shown before merging it into another */
+export interface ExerciseUsage {
+  exerciseId: string;
+  workouts: number;
+  sets: number;
+  personalRecords: number;
+  goals: number;
+  templates: number;
+  dayLibrary: number;
+}
+
 // ─── Week Template Types ──────────────────────────────────────────────────────
 
 export interface WeekTemplate {
   id: string;
   user_id: string;
   name: string;
+  /** The owner, or the coach who wrote it into the owner's account */
+  created_by: string | null;
   created_at: string;
 }
 
@@ -197,10 +363,37 @@ export interface DayTemplate {
 export interface ExerciseTemplate {
   id: string;
   day_template_id: string;
+  exercise_id: string;
+  /** name and kind come from the joined exercise */
   name: string;
+  kind: ExerciseKind;
+  progression: ProgressionRule | null;
+  superset_group: number | null;
+  /** One-off cut for the next generated week, then cleared — see lib/plateaus */
+  deload_percent: number | null;
 }
 
-export interface TemplateSet {
+/**
+ * linear: add `increment` once every top set hits the template reps.
+ * double: climb reps within min_reps–max_reps, then add `increment` and drop
+ * back to min_reps.
+ */
+export type ProgressionType = "linear" | "double";
+
+/** Stored as exercise_templates.progression (jsonb) — weights in kg */
+export interface ProgressionRule {
+  type: ProgressionType;
+  increment: number;
+  /** Double progression rep range (ignored by linear) */
+  min_reps: number;
+  max_reps: number;
+  /** Deload after this many missed sessions in a row — 0 turns it off */
+  deload_after: number;
+  /** Percent taken off the weight on a deload */
+  deload_percent: number;
+}
+
+export interface TemplateSet extends SetTypeFields, CardioFields {
   id: string;
   exercise_template_id: string;
   reps: number;
@@ -219,9 +412,47 @@ export interface WeekTemplateWithDays extends WeekTemplate {
   day_templates: DayTemplateWithExercises[];
 }
 
+// ─── Program Types ────────────────────────────────────────────────────────────
+// A program sequences week templates over consecutive weeks from start_date.
+
+export interface Program {
+  id: string;
+  user_id: string;
+  name: string;
+  start_date: string; // YYYY-MM-DD, a Monday
+  created_at: string;
+}
+
+export interface ProgramWeek {
+  id: string;
+  program_id: string;
+  /** 0-based; the week starts start_date + 7 × week_index days */
+  week_index: number;
+  /** null once the week template has been deleted */
+  week_template_id: string | null;
+  label: string | null;
+  /** Template weights are scaled by this for the week (100 = as written) */
+  intensity_percent: number;
+  /** When the week was turned into real workouts */
+  scheduled_at: string | null;
+}
+
+export interface ProgramWithWeeks extends Program {
+  program_weeks: ProgramWeek[];
+}
+
+export interface SaveProgramWeekInput {
+  week_template_id: string | null;
+  label: string | null;
+  intensity_percent: number;
+  scheduled_at: string | null;
+}
+
 // ─── Week Template Form Types ─────────────────────────────────────────────────
 
-export interface SaveSetInput {
+export interface SaveSetInput
+  extends Partial<SetTypeFields>,
+    Partial<CardioFields> {
   reps: number;
   weight: number;
 }
@@ -229,6 +460,9 @@ export interface SaveSetInput {
 export interface SaveExerciseInput {
   name: string;
   sets: SaveSetInput[];
+  progression?: ProgressionRule | null;
+  superset_group?: number | null;
+  deload_percent?: number | null;
 }
 
 export interface SaveDayInput {
@@ -241,9 +475,13 @@ export interface SaveDayInput {
 // workouts). clientId is a stable React key that survives reordering without
 // causing input focus loss.
 
-export interface FormSet {
+export interface FormSet
+  extends Partial<SetTypeFields>,
+    Partial<CardioFields> {
   reps: number;
   weight: number;
+  /** Live-session check-off, carried through so re-saving a day keeps it */
+  completed_at?: string | null;
 }
 
 export interface FormExercise {
@@ -251,22 +489,47 @@ export interface FormExercise {
   clientId: string;
   name: string;
   sets: FormSet[];
+  /** Template days only — live workouts leave it undefined */
+  progression?: ProgressionRule | null;
+  /** Template days only — pending one-off deload for the next generated week */
+  deload_percent?: number | null;
+  /** Neighbours sharing a number form a superset — see lib/supersets */
+  superset_group?: number | null;
+  /** From the exercise — decides which set inputs the editor shows */
+  kind?: ExerciseKind;
 }
 
-// ─── Exercise Library Types ───────────────────────────────────────────────────
+/** Exercise payload for workoutExerciseApi.saveAll — a FormExercise plus its DB link */
+export interface SaveWorkoutExerciseInput extends FormExercise {
+  /** workout_exercises.id for rows that already exist; undefined for new ones */
+  workoutExerciseId?: string;
+}
 
-export interface ExerciseLibraryItem {
-  id: string;
-  user_id: string;
-  name: string;
-  muscle_group: string | null;
-  default_reps: number;
-  default_weight: number;
-  usage_count: number;
-  last_used_at: string | null;
-  created_at: string;
+/** A set as it was logged last time — the editor's ghost "last time" column */
+export interface LastSessionSet extends SetTypeFields, CardioFields {
+  reps: number;
+  weight: number;
+}
+
+/** The latest workout that logged an exercise, with its sets in order */
+export interface LastExerciseSession {
+  exerciseName: string;
+  workoutId: string;
+  date: string; // YYYY-MM-DD
+  notes: string | null;
+  sets: LastSessionSet[];
 }
 
+/** Which workouts count as "last time" for the day being edited */
+export interface LastSessionScope {
+  /** Later workouts are ignored — YYYY-MM-DD, defaults to today */
+  onOrBefore?: string;
+  /** The workout being edited, so it never compares with itself */
+  excludeWorkoutId?: string;
+}
+
+// ─── Exercise Library Types ───────────────────────────────────────────────────
+
 export type ExerciseLibrarySortMode =
   | "recent"
   | "frequent"
@@ -276,7 +539,7 @@ export type ExerciseLibrarySortMode =
 
 // ─── Day Library Types ────────────────────────────────────────────────────────
 
-export interface DayLibrarySet {
+export interface DayLibrarySet extends SetTypeFields, CardioFields {
   id: string;
   day_library_exercise_id: string;
   reps: number;
@@ -286,9 +549,13 @@ export interface DayLibrarySet {
 export interface DayLibraryExercise {
   id: string;
   day_library_id: string;
+  exercise_id: string;
+  /** name, muscle_group and kind come from the joined exercise */
   name: string;
   muscle_group: string | null;
+  kind: ExerciseKind;
   order_index: number;
+  superset_group: number | null;
   day_library_sets: DayLibrarySet[];
 }
 
@@ -299,3 +566,358 @@ export interface DayLibraryItem {
   created_at: string;
   day_library_exercises: DayLibraryExercise[];
 }
+
+// ─── Offline Sync Types ───────────────────────────────────────────────────────
+// Mutations recorded while offline and replayed in order once connectivity
+// returns. Stored in IndexedDB by lib/offlineQueue.
+
+export type PendingMutationStatus = "pending" | "conflict" | "failed";
+
+interface PendingMutationBase {
+  /** Auto-incremented IndexedDB key — defines replay order */
+  seq: number;
+  /** Workout the mutation belongs to (client-generated for offline creates) */
+  workoutId: string;
+  /** workouts.updated_at the user was looking at; null for brand-new workouts */
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+  status: PendingMutationStatus;
+  /** Set when the user chose to overwrite the server copy after a conflict */
+  force?: boolean;
+  error?: string;
+}
+
+export type PendingMutation =
+  | (PendingMutationBase & {
+      kind: "workout.create";
+      payload: CreateWorkoutInput;
+    })
+  | (PendingMutationBase & {
+      kind: "workout.saveExercises";
+      payload: SaveWorkoutExerciseInput[];
+    })
+  | (PendingMutationBase & {
+      kind: "set.update";
+      payload: { setId: string; updates: SetUpdateInput };
+    })
+  | (PendingMutationBase & {
+      kind: "workout.updateSession";
+      payload: WorkoutSessionInput;
+    });
+
+export type PendingMutationKind = PendingMutation["kind"];
+
+/** Whether a write reached Supabase or was queued on this device */
+export type WriteOutcome = "saved" | "queued";
+
+// ─── Body Metrics Types ───────────────────────────────────────────────────────
+
+/** One day's bodyweight (kg), measurements (cm) and optional progress photo */
+export interface BodyMetric {
+  id: string;
+  user_id: string;
+  date: string; // YYYY-MM-DD
+  bodyweight: number | null;
+  waist_cm: number | null;
+  arm_cm: number | null;
+  chest_cm: number | null;
+  /** Object path in the progress-photos bucket */
+  photo_path: string | null;
+  created_at: string;
+}
+
+export type BodyMeasurement = "waist_cm" | "arm_cm" | "chest_cm";
+
+export type SaveBodyMetricInput = Pick<
+  BodyMetric,
+  "date" | "bodyweight" | "waist_cm" | "arm_cm" | "chest_cm" | "photo_path"
+>;
+
+// ─── Data Export Types ────────────────────────────────────────────────────────
+
+/** Everything a user owns, as written by lib/exportService */
+export interface ExportBundle {
+  app: "gym-logbook";
+  /** Bundle format version — bump when the shape below changes */
+  version: number;
+  exportedAt: string;
+  userId: string;
+  data: {
+    exercises: Exercise[];
+    workouts: WorkoutWithExercises[];
+    exercise_goals: ExerciseGoal[];
+    personal_records: PersonalRecord[];
+    week_templates: WeekTemplateWithDays[];
+    day_library: DayLibraryItem[];
+    /** Since v4 */
+    programs: ProgramWithWeeks[];
+    /** Since v5 — photo_path points into storage; the images aren't bundled */
+    body_metrics: BodyMetric[];
+    /** Unit, plate inventory and role — null if never saved (since v3) */
+    user_settings: UserSettings | null;
+  };
+}
+
+/**
+ * One logged set, flattened for the CSV export. The workout's check-in
+ * repeats on each of its sets, like the date and title.
+ */
+export interface ExportSetRow extends WorkoutCheckIn {
+  date: string;
+  workout: string;
+  exercise: string;
+  set_number: number;
+  set_type: SetType;
+  reps: number;
+  weight: number;
+  rpe: number | null;
+  rir: number | null;
+  duration_seconds: number | null;
+  distance_m: number | null;
+}
+
+// ─── History Import Types ─────────────────────────────────────────────────────
+// CSV exports from other logging apps, parsed by lib/importService.
+
+export type ImportSource = "strong" | "hevy" | "fitnotes";
+
+export interface ParsedExercise {
+  /** Exercise name exactly as it appears in the source file */
+  name: string;
+  notes?: string;
+  sets: CreateSetInput[];
+}
+
+export interface ParsedWorkout {
+  date: string; // YYYY-MM-DD
+  title?: string;
+  notes?: string;
+  exercises: ParsedExercise[];
+  /** A workout with the same date and title already exists in the account */
+  duplicate: boolean;
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  workouts: ParsedWorkout[];
+  /** Rows without reps (cardio, timed holds, rest timers) that were left out */
+  skippedRows: number;
+  /** Unit the file's weights were in — stored weights are always converted to kg */
+  sourceUnit: WeightUnit;
+}
+
+export type ExerciseMatchKind = "exact" | "fuzzy" | "new";
+
+/** How one source exercise name maps onto the user's existing exercises */
+export interface ExerciseMatch {
+  sourceName: string;
+  /** Name the sets will be logged under — an existing exercise or a new one */
+  target: string;
+  kind: ExerciseMatchKind;
+  /** Similarity of the suggested target, 0–1 */
+  score: number;
+  setCount: number;
+}
+
+// ─── User Settings Types ──────────────────────────────────────────────────────
+
+export type WeightUnit = "kg" | "lbs";
+
+/** Coaches can invite athletes — see lib/coachService */
+export type UserRole = "athlete" | "coach";
+
+export interface UserSettings extends PlateSettings {
+  user_id: string;
+  weight_unit: WeightUnit;
+  role: UserRole;
+  /** Set once the user's legacy lbs rows have been converted to kg */
+  weights_converted_at: string | null;
+  /**
+   * Rows created before this may hold pounds; null for accounts created after
+   * units existed, which have nothing to convert
+   */
+  legacy_weights_before: string | null;
+  updated_at: string;
+}
+
+// ─── Plate Types ──────────────────────────────────────────────────────────────
+
+/** What happens to generated weights: kept exact, or snapped to a loadable total */
+export type WeightRounding = "off" | "nearest" | "down";
+
+export interface PlateInventoryItem {
+  /** In PlateSettings.plate_unit */
+  weight: number;
+  /** Plates come in pairs — one for each side of the bar */
+  pairs: number;
+}
+
+/** The user's bar and plates. Weights here are in plate_unit, not kg. */
+export interface PlateSettings {
+  plate_unit: WeightUnit;
+  bar_weight: number;
+  plates: PlateInventoryItem[];
+  weight_rounding: WeightRounding;
+}
+
+/** How to load the bar for a target weight, in plate_unit */
+export interface PlateLoad {
+  target: number;
+  /** Bar plus plates — equals target when `exact` */
+  total: number;
+  /** Plates for one side, heaviest first */
+  perSide: number[];
+  exact: boolean;
+}
+
+// ─── Share Link Types ─────────────────────────────────────────────────────────
+// Anyone with a link's token can read a snapshot of the item through the
+// get_shared_item RPC — see lib/shareService.
+
+export type ShareKind = "workout" | "day" | "week_template";
+
+export interface ShareLink {
+  id: string;
+  user_id: string;
+  token: string;
+  kind: ShareKind;
+  target_id: string;
+  created_at: string;
+}
+
+export interface SharedSet extends SetTypeFields, CardioFields {
+  reps: number;
+  weight: number;
+}
+
+export interface SharedExercise {
+  name: string;
+  kind: ExerciseKind;
+  superset_group: number | null;
+  sets: SharedSet[];
+}
+
+export interface SharedDay {
+  name: string;
+  exercises: SharedExercise[];
+}
+
+/** A workout or library day has a single day; a week template one per day */
+export interface SharedItem {
+  kind: ShareKind;
+  name: string;
+  /** Workouts only */
+  date: string | null;
+  days: SharedDay[];
+}
+
+// ─── Coaching Types ───────────────────────────────────────────────────────────
+// A coach's invite becomes a link once an athlete accepts it. While linked
+// the coach can read the athlete's training and write week templates into
+// their account.
+
+export interface CoachLink {
+  id: string;
+  coach_id: string;
+  /** The coach's email */
+  coach_name: string;
+  /** null while the invite is pending */
+  athlete_id: string | null;
+  athlete_name: string | null;
+  invite_code: string;
+  created_at: string;
+  accepted_at: string | null;
+}
+
+// ─── Comment Types ────────────────────────────────────────────────────────────
+// Threads hang off a workout, one of its exercises, or a set. Set comments
+// are anchored by position because sets are re-inserted on every save.
+
+export interface WorkoutComment {
+  id: string;
+  workout_id: string;
+  /** null for a workout-level comment */
+  workout_exercise_id: string | null;
+  /** Position of the set within its exercise; null above set level */
+  set_index: number | null;
+  author_id: string;
+  /** The author's email */
+  author_name: string;
+  body: string;
+  created_at: string;
+}
+
+/** Where a new comment goes — omit both for the workout itself */
+export interface CommentAnchor {
+  workoutExerciseId?: string;
+  setIndex?: number;
+}
+
+export interface WorkoutCommentThread {
+  comments: WorkoutComment[];
+  /** When the current user last opened this workout's comments, if ever */
+  readAt: string | null;
+  userId: string;
+}
+
+// ─── Fatigue Types ────────────────────────────────────────────────────────────
+// Session load is session RPE × minutes. The acute:chronic workload ratio
+// compares the last 7 days with the weekly average of the last 28 — see
+// lib/readiness.
+
+/** One workout's check-in, from the get_session_loads RPC */
+export interface SessionLoad {
+  date: string; // YYYY-MM-DD
+  sessionRpe: number | null;
+  durationMinutes: number | null;
+  sleepHours: number | null;
+  soreness: number | null;
+  readiness: number | null;
+}
+
+export type AcwrZone = "low" | "optimal" | "caution" | "high";
+
+export interface WorkloadRatio {
+  acute: number;
+  /** Weekly average over the chronic window */
+  chronic: number;
+  /** null until there's chronic load to compare against */
+  ratio: number | null;
+  zone: AcwrZone | null;
+}
+
+export interface FatigueWarning {
+  level: "caution" | "high";
+  message: string;
+}
+
+export interface FatigueSummary {
+  /** From session RPE × duration */
+  sessionLoad: WorkloadRatio;
+  /** From weekly tonnage */
+  tonnage: WorkloadRatio;
+  /** Most recent check-in with any readiness data */
+  latestCheckIn: SessionLoad | null;
+  warnings: FatigueWarning[];
+}
+
+// ─── Plateau Types ────────────────────────────────────────────────────────────
+// Found by lib/plateaus over each lift's weekly best e1RM.
+
+export type PlateauStatus = "plateau" | "regression";
+
+export interface PlateauFlag {
+  exerciseName: string;
+  status: PlateauStatus;
+  /** Best weekly e1RM in the lookback window, and the week it was set */
+  bestE1RM: number;
+  bestWeek: string; // YYYY-MM-DD, a Monday
+  /** Best e1RM over the latest two training weeks */
+  recentE1RM: number;
+  /** Heaviest top set in the best week and in the latest two weeks */
+  bestWeight: number;
+  recentWeight: number;
+  /** Calendar weeks since the best week */
+  weeksSinceBest: number;
+  lastDate: string; // YYYY-MM-DD
+}
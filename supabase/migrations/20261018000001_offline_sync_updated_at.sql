@@ -0,0 +1,55 @@
+-- ================================================================
+-- Migration: Offline Sync — bump workouts.updated_at on child edits
+-- Date: 2026-10-18
+-- ================================================================
+-- The offline write queue detects conflicts by comparing the
+-- workouts.updated_at a change was made against with the server's
+-- current value. Editing exercises or sets must therefore touch the
+-- parent workout, not just workout_exercises / sets rows.
+
+-- ─── 1. Touch function ───────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.touch_workout_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workout_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'workout_exercises' THEN
+    IF TG_OP = 'DELETE' THEN
+      v_workout_id := OLD.workout_id;
+    ELSE
+      v_workout_id := NEW.workout_id;
+    END IF;
+  ELSE
+    SELECT we.workout_id INTO v_workout_id
+    FROM public.workout_exercises we
+    WHERE we.id = CASE WHEN TG_OP = 'DELETE' THEN OLD.workout_exercise_id ELSE NEW.workout_exercise_id END;
+  END IF;
+
+  IF v_workout_id IS NOT NULL THEN
+    UPDATE public.workouts SET updated_at = now() WHERE id = v_workout_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ─── 2. Triggers ──────────────────────────────────────────────────────────────
+
+DROP TRIGGER IF EXISTS touch_workout_on_exercise_change ON public.workout_exercises;
+
+CREATE TRIGGER touch_workout_on_exercise_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.workout_exercises
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_workout_updated_at();
+
+DROP TRIGGER IF EXISTS touch_workout_on_set_change ON public.sets;
+
+CREATE TRIGGER touch_workout_on_set_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.sets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_workout_updated_at();
@@ -0,0 +1,77 @@
+-- ================================================================
+-- Migration: Estimated One-Rep Max (e1RM) analytics
+-- Date: 2026-10-18
+-- ================================================================
+
+-- ─── 1. e1RM helper ───────────────────────────────────────────────────────────
+-- Mirrors estimateOneRepMax() in src/lib/oneRepMax.ts — keep the two in sync.
+
+CREATE OR REPLACE FUNCTION public.estimate_one_rep_max(
+    p_weight numeric,
+    p_reps integer,
+    p_formula text DEFAULT 'epley'
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_reps <= 0 OR p_weight <= 0 THEN 0
+        WHEN p_reps = 1 THEN p_weight
+        WHEN p_formula = 'brzycki' THEN round(p_weight * 36 / (37 - LEAST(p_reps, 36)), 1)
+        ELSE round(p_weight * (1 + p_reps / 30.0), 1)
+    END;
+$$;
+
+-- ─── 2. Caller Check ──────────────────────────────────────────────────────────
+-- Analytics RPCs run as the definer and take the user id as an
+-- argument, so each one calls this first: a user may only read their
+-- own numbers.
+
+CREATE OR REPLACE FUNCTION public.assert_can_read_user(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to read this user''s data'
+      USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- ─── 3. Best e1RM per workout day ─────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.get_exercise_e1rm_over_time(
+    p_user_id uuid,
+    p_exercise_name text,
+    p_formula text DEFAULT 'epley'
+)
+RETURNS TABLE(
+    workout_date text,
+    e1rm numeric,
+    weight numeric,
+    reps integer
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    SELECT DISTINCT ON (w.date)
+        to_char(w.date, 'YYYY-MM-DD') AS workout_date,
+        public.estimate_one_rep_max(s.weight, s.reps, p_formula) AS e1rm,
+        s.weight,
+        s.reps
+    FROM workouts w
+    JOIN workout_exercises we ON we.workout_id = w.id
+    JOIN exercises e ON e.id = we.exercise_id
+    JOIN sets s ON s.workout_exercise_id = we.id
+    WHERE w.user_id = p_user_id
+      AND lower(e.name) = lower(p_exercise_name)
+    ORDER BY w.date, public.estimate_one_rep_max(s.weight, s.reps, p_formula) DESC;
+$$;
@@ -0,0 +1,112 @@
+-- ================================================================
+-- Migration: Unit system — per-user weight unit, canonical kg storage
+-- Date: 2026-10-18
+-- ================================================================
+-- All weight columns hold kilograms from now on; the app converts to
+-- the user's preferred unit for display and input. Accounts that
+-- logged pounds before this existed can opt in to a one-time
+-- conversion of their rows (section 4) from the Settings screen. Only
+-- rows written before this migration ran are converted — anything
+-- logged or imported since is already kg.
+
+-- ─── 1. User Settings Table ───────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.user_settings (
+    user_id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+    weight_unit text NOT NULL DEFAULT 'kg' CHECK (weight_unit IN ('kg', 'lbs')),
+    weights_converted_at timestamp with time zone,
+    legacy_weights_before timestamp with time zone,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- ─── 2. RLS on user_settings ──────────────────────────────────────────────────
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings" ON public.user_settings FOR
+SELECT USING (auth.uid () = user_id);
+
+CREATE POLICY "Users can insert their own settings" ON public.user_settings FOR
+INSERT
+WITH
+    CHECK (auth.uid () = user_id);
+
+CREATE POLICY "Users can update their own settings" ON public.user_settings FOR
+UPDATE USING (auth.uid () = user_id);
+
+-- ─── 3. Legacy Cutoff ─────────────────────────────────────────────────────────
+-- Every existing account gets a settings row stamped with now(): rows
+-- created before it may hold pounds. Accounts created later have
+-- always stored kg and keep legacy_weights_before NULL.
+
+INSERT INTO public.user_settings (user_id, legacy_weights_before)
+SELECT id, now() FROM auth.users
+ON CONFLICT (user_id) DO NOTHING;
+
+-- ─── 4. One-time lbs → kg conversion ──────────────────────────────────────────
+-- Runs for the calling user only and at most once: weights_converted_at
+-- is checked and set in the same transaction. Rows are matched to the
+-- cutoff by their own or their parent's created_at.
+
+CREATE OR REPLACE FUNCTION public.convert_weights_lbs_to_kg()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_factor constant numeric := 0.45359237;
+  v_before timestamp with time zone;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT legacy_weights_before INTO v_before
+  FROM user_settings
+  WHERE user_id = v_user_id AND weights_converted_at IS NULL
+  FOR UPDATE;
+
+  IF v_before IS NULL THEN
+    RAISE EXCEPTION 'No weights to convert';
+  END IF;
+
+  UPDATE sets s SET weight = round(s.weight * v_factor, 2)
+  FROM workout_exercises we
+  JOIN workouts w ON w.id = we.workout_id
+  WHERE s.workout_exercise_id = we.id
+    AND w.user_id = v_user_id
+    AND w.created_at < v_before;
+
+  UPDATE template_sets ts SET weight = round(ts.weight * v_factor, 2)
+  FROM exercise_templates et
+  JOIN day_templates dt ON dt.id = et.day_template_id
+  JOIN week_templates wt ON wt.id = dt.template_id
+  WHERE ts.exercise_template_id = et.id
+    AND wt.user_id = v_user_id
+    AND wt.created_at < v_before;
+
+  UPDATE day_library_sets dls SET weight = round(dls.weight * v_factor, 2)
+  FROM day_library_exercises dle
+  JOIN day_library dl ON dl.id = dle.day_library_id
+  WHERE dls.day_library_exercise_id = dle.id
+    AND dl.user_id = v_user_id
+    AND dl.created_at < v_before;
+
+  UPDATE exercise_library SET default_weight = round(default_weight * v_factor, 2)
+  WHERE user_id = v_user_id AND created_at < v_before;
+
+  UPDATE exercise_goals SET target_weight = round(target_weight * v_factor, 2)
+  WHERE user_id = v_user_id
+    AND target_weight IS NOT NULL
+    AND created_at < v_before;
+
+  UPDATE personal_records SET weight = round(weight * v_factor, 2)
+  WHERE user_id = v_user_id AND created_at < v_before;
+
+  UPDATE user_settings
+  SET weights_converted_at = now(), weight_unit = 'lbs', updated_at = now()
+  WHERE user_id = v_user_id;
+END;
+$$;
@@ -0,0 +1,28 @@
+-- ================================================================
+-- Migration: Live workout sessions
+-- Date: 2026-10-18
+-- ================================================================
+-- Session mode walks a workout set-by-set in the gym. The workout
+-- records when the session started and finished; each set records
+-- when it was checked off. All three stay NULL for workouts logged
+-- after the fact.
+
+-- ─── 1. Session timestamps on workouts ───────────────────────────────────────
+
+ALTER TABLE public.workouts
+ADD COLUMN IF NOT EXISTS started_at timestamp with time zone,
+ADD COLUMN IF NOT EXISTS ended_at timestamp with time zone;
+
+ALTER TABLE public.workouts
+DROP CONSTRAINT IF EXISTS workouts_session_order_check;
+
+ALTER TABLE public.workouts
+ADD CONSTRAINT workouts_session_order_check CHECK (
+    ended_at IS NULL
+    OR (started_at IS NOT NULL AND ended_at >= started_at)
+);
+
+-- ─── 2. Set completion ────────────────────────────────────────────────────────
+
+ALTER TABLE public.sets
+ADD COLUMN IF NOT EXISTS completed_at timestamp with time zone;
@@ -0,0 +1,170 @@
+-- ================================================================
+-- Migration: Set types (warm-up, drop, failure, AMRAP) and RPE / RIR
+-- Date: 2026-10-18
+-- ================================================================
+-- Every set row gets a type plus optional effort ratings. Existing
+-- rows default to 'working'. Warm-ups stay in the log but are left
+-- out of volume, PR, e1RM and carry-over calculations (section 4),
+-- matching countsTowardStats() in src/lib/setTypes.ts.
+
+-- ─── 1. sets ──────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.sets
+ADD COLUMN IF NOT EXISTS set_type text NOT NULL DEFAULT 'working'
+    CHECK (set_type IN ('working', 'warmup', 'drop', 'failure', 'amrap')),
+ADD COLUMN IF NOT EXISTS rpe numeric(3, 1) CHECK (rpe BETWEEN 1 AND 10),
+ADD COLUMN IF NOT EXISTS rir integer CHECK (rir BETWEEN 0 AND 10);
+
+-- ─── 2. template_sets ─────────────────────────────────────────────────────────
+
+ALTER TABLE public.template_sets
+ADD COLUMN IF NOT EXISTS set_type text NOT NULL DEFAULT 'working'
+    CHECK (set_type IN ('working', 'warmup', 'drop', 'failure', 'amrap')),
+ADD COLUMN IF NOT EXISTS rpe numeric(3, 1) CHECK (rpe BETWEEN 1 AND 10),
+ADD COLUMN IF NOT EXISTS rir integer CHECK (rir BETWEEN 0 AND 10);
+
+-- ─── 3. day_library_sets ──────────────────────────────────────────────────────
+
+ALTER TABLE public.day_library_sets
+ADD COLUMN IF NOT EXISTS set_type text NOT NULL DEFAULT 'working'
+    CHECK (set_type IN ('working', 'warmup', 'drop', 'failure', 'amrap')),
+ADD COLUMN IF NOT EXISTS rpe numeric(3, 1) CHECK (rpe BETWEEN 1 AND 10),
+ADD COLUMN IF NOT EXISTS rir integer CHECK (rir BETWEEN 0 AND 10);
+
+-- ─── 4. Analytics RPCs without warm-ups ───────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.get_weekly_volume(p_user_id uuid)
+RETURNS TABLE(
+    week_start text,
+    total_volume numeric,
+    total_sets bigint,
+    total_exercises bigint
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    SELECT
+        to_char(date_trunc('week', w.date), 'YYYY-MM-DD') AS week_start,
+        COALESCE(SUM(s.weight * s.reps), 0) AS total_volume,
+        COUNT(s.id) AS total_sets,
+        COUNT(DISTINCT we.id) AS total_exercises
+    FROM workouts w
+    JOIN workout_exercises we ON we.workout_id = w.id
+    JOIN sets s ON s.workout_exercise_id = we.id
+    WHERE w.user_id = p_user_id
+      AND s.set_type <> 'warmup'
+    GROUP BY date_trunc('week', w.date)
+    ORDER BY week_start;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_exercise_max_weight_over_time(
+    p_user_id uuid,
+    p_exercise_name text
+)
+RETURNS TABLE(
+    workout_date text,
+    max_weight numeric
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    SELECT
+        to_char(w.date, 'YYYY-MM-DD') AS workout_date,
+        MAX(s.weight) AS max_weight
+    FROM workouts w
+    JOIN workout_exercises we ON we.workout_id = w.id
+    JOIN exercises e ON e.id = we.exercise_id
+    JOIN sets s ON s.workout_exercise_id = we.id
+    WHERE w.user_id = p_user_id
+      AND lower(e.name) = lower(p_exercise_name)
+      AND s.set_type <> 'warmup'
+    GROUP BY w.date
+    ORDER BY w.date;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_personal_records_summary(p_user_id uuid)
+RETURNS TABLE(
+    exercise_name text,
+    max_weight numeric,
+    best_date text
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    SELECT DISTINCT ON (e.name)
+        e.name AS exercise_name,
+        s.weight AS max_weight,
+        to_char(w.date, 'YYYY-MM-DD') AS best_date
+    FROM exercises e
+    JOIN workout_exercises we ON we.exercise_id = e.id
+    JOIN workouts w ON w.id = we.workout_id
+    JOIN sets s ON s.workout_exercise_id = we.id
+    WHERE w.user_id = p_user_id
+      AND s.set_type <> 'warmup'
+    ORDER BY e.name, s.weight DESC, w.date DESC;
+$$;
+
+-- Carry-over should suggest the last working weight, not the last warm-up
+CREATE OR REPLACE FUNCTION public.get_last_used_weight(
+    p_user_id uuid,
+    p_exercise_name text
+)
+RETURNS numeric
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    SELECT s.weight
+    FROM sets s
+    JOIN workout_exercises we ON we.id = s.workout_exercise_id
+    JOIN exercises e ON e.id = we.exercise_id
+    JOIN workouts w ON w.id = we.workout_id
+    WHERE w.user_id = p_user_id
+      AND lower(e.name) = lower(p_exercise_name)
+      AND s.set_type <> 'warmup'
+    ORDER BY w.date DESC, s.created_at DESC
+    LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_exercise_e1rm_over_time(
+    p_user_id uuid,
+    p_exercise_name text,
+    p_formula text DEFAULT 'epley'
+)
+RETURNS TABLE(
+    workout_date text,
+    e1rm numeric,
+    weight numeric,
+    reps integer
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    SELECT DISTINCT ON (w.date)
+        to_char(w.date, 'YYYY-MM-DD') AS workout_date,
+        public.estimate_one_rep_max(s.weight, s.reps, p_formula) AS e1rm,
+        s.weight,
+        s.reps
+    FROM workouts w
+    JOIN workout_exercises we ON we.workout_id = w.id
+    JOIN exercises e ON e.id = we.exercise_id
+    JOIN sets s ON s.workout_exercise_id = we.id
+    WHERE w.user_id = p_user_id
+      AND lower(e.name) = lower(p_exercise_name)
+      AND s.set_type <> 'warmup'
+    ORDER BY w.date, public.estimate_one_rep_max(s.weight, s.reps, p_formula) DESC;
+$$;
@@ -0,0 +1,16 @@
+-- ================================================================
+-- Migration: Progression rules on template exercises
+-- Date: 2026-10-18
+-- ================================================================
+-- A nullable jsonb rule per exercise template, read when a week is
+-- generated (see src/lib/progression.ts for the shape). NULL keeps
+-- the plain last-used-weight carry-over.
+
+-- ─── 1. exercise_templates.progression ────────────────────────────────────────
+
+ALTER TABLE public.exercise_templates
+ADD COLUMN IF NOT EXISTS progression jsonb
+    CHECK (
+        progression IS NULL
+        OR progression ->> 'type' IN ('linear', 'double')
+    );
@@ -0,0 +1,145 @@
+-- ================================================================
+-- Migration: Training programs (multi-week blocks / mesocycles)
+-- Date: 2026-10-18
+-- ================================================================
+-- A program runs a sequence of week templates from a start date —
+-- e.g. three building weeks at rising intensity and a deload week.
+-- Each program week can scale its template's weights and records
+-- when it was scheduled into real workouts.
+--
+-- Generated exercises remember the scale they were written at. Weight
+-- carry-over skips scaled sessions, so a 90% week followed by an 80%
+-- week prescribes 80% of the full weight rather than 72%, and the
+-- week after a deload goes back to full weight.
+
+-- ─── 1. Program Tables ────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.programs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid (),
+    user_id uuid REFERENCES auth.users (id) ON DELETE CASCADE NOT NULL,
+    name text NOT NULL CHECK (char_length(name) > 0),
+    start_date date NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.program_weeks (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid (),
+    program_id uuid REFERENCES public.programs (id) ON DELETE CASCADE NOT NULL,
+    week_index integer NOT NULL CHECK (week_index >= 0),
+    week_template_id uuid REFERENCES public.week_templates (id) ON DELETE SET NULL,
+    label text,
+    intensity_percent integer NOT NULL DEFAULT 100 CHECK (
+        intensity_percent BETWEEN 10 AND 150
+    ),
+    scheduled_at timestamp with time zone,
+    UNIQUE (program_id, week_index)
+);
+
+-- ─── 2. Indexes ───────────────────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS idx_programs_user_id ON public.programs (user_id);
+
+CREATE INDEX IF NOT EXISTS idx_program_weeks_program_id ON public.program_weeks (program_id);
+
+-- ─── 3. RLS ───────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.programs ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.program_weeks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their programs" ON public.programs FOR ALL USING (auth.uid () = user_id)
+WITH
+    CHECK (auth.uid () = user_id);
+
+CREATE POLICY "Users can manage their program weeks" ON public.program_weeks FOR ALL USING (
+    EXISTS (
+        SELECT 1
+        FROM public.programs p
+        WHERE
+            p.id = program_weeks.program_id
+            AND p.user_id = auth.uid ()
+    )
+)
+WITH
+    CHECK (
+        EXISTS (
+            SELECT 1
+            FROM public.programs p
+            WHERE
+                p.id = program_weeks.program_id
+                AND p.user_id = auth.uid ()
+        )
+    );
+
+-- ─── 4. Scaled Sessions ───────────────────────────────────────────────────────
+-- NULL means the exercise was logged at full weight.
+
+ALTER TABLE public.workout_exercises
+ADD COLUMN IF NOT EXISTS intensity_percent numeric CHECK (intensity_percent > 0);
+
+CREATE OR REPLACE FUNCTION public.get_last_used_weight(
+    p_user_id uuid,
+    p_exercise_name text
+)
+RETURNS numeric
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    SELECT s.weight
+    FROM sets s
+    JOIN workout_exercises we ON we.id = s.workout_exercise_id
+    JOIN exercises e ON e.id = we.exercise_id
+    JOIN workouts w ON w.id = we.workout_id
+    WHERE w.user_id = p_user_id
+      AND lower(e.name) = lower(p_exercise_name)
+      AND s.set_type <> 'warmup'
+      AND COALESCE(we.intensity_percent, 100) = 100
+    ORDER BY w.date DESC, s.created_at DESC
+    LIMIT 1;
+$$;
+
+-- ─── 5. Save a Full Program ───────────────────────────────────────────────────
+-- p_weeks: [{ week_template_id, label, intensity_percent, scheduled_at }]
+-- in order. The program and all of its weeks are rewritten in one
+-- transaction, so a failed save can't leave the program without weeks.
+
+CREATE OR REPLACE FUNCTION public.save_program(
+    p_program_id uuid,
+    p_name text,
+    p_start_date date,
+    p_weeks jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE programs
+  SET name = p_name, start_date = p_start_date
+  WHERE id = p_program_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Program not found';
+  END IF;
+
+  DELETE FROM program_weeks WHERE program_id = p_program_id;
+
+  INSERT INTO program_weeks (
+      program_id, week_index, week_template_id, label,
+      intensity_percent, scheduled_at
+  )
+  SELECT
+      p_program_id,
+      (w.ordinality - 1)::integer,
+      (w.value ->> 'week_template_id')::uuid,
+      NULLIF(btrim(w.value ->> 'label'), ''),
+      round((w.value ->> 'intensity_percent')::numeric)::integer,
+      (w.value ->> 'scheduled_at')::timestamptz
+  FROM jsonb_array_elements(COALESCE(p_weeks, '[]'::jsonb))
+      WITH ORDINALITY AS w(value, ordinality);
+END;
+$$;
@@ -0,0 +1,298 @@
+-- ================================================================
+-- Migration: Transactional saves for workouts and week templates
+-- Date: 2026-10-18
+-- ================================================================
+-- Multi-row saves used to run as dozens of separate requests from the
+-- browser, so a dropped connection could leave a workout with its sets
+-- deleted but not re-inserted. Each save below takes the whole payload
+-- as jsonb and runs in a single transaction: it lands completely or
+-- not at all.
+--
+-- The functions are SECURITY INVOKER, so the existing RLS policies
+-- still decide what the caller may touch.
+
+-- ─── 1. Exercise lookup helper ────────────────────────────────────────────────
+-- Case-insensitive match on the caller's exercises, created when missing.
+
+CREATE OR REPLACE FUNCTION public.find_or_create_exercise(p_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO v_id
+  FROM exercises
+  WHERE user_id = v_user_id AND lower(name) = lower(btrim(p_name))
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_id IS NULL THEN
+    INSERT INTO exercises (user_id, name)
+    VALUES (v_user_id, btrim(p_name))
+    RETURNING id INTO v_id;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ─── 2. Set rows from a jsonb array ───────────────────────────────────────────
+-- [{ reps, weight, set_type, rpe, rir, completed_at }] → sets rows in
+-- array order. Shared by the workout saves below.
+
+CREATE OR REPLACE FUNCTION public.insert_sets_from_json(
+    p_workout_exercise_id uuid,
+    p_sets jsonb
+)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    INSERT INTO sets (
+        workout_exercise_id, reps, weight, set_type, rpe, rir,
+        completed_at, order_index
+    )
+    SELECT
+        p_workout_exercise_id,
+        GREATEST(1, COALESCE((s.value ->> 'reps')::integer, 1)),
+        GREATEST(0, COALESCE((s.value ->> 'weight')::numeric, 0)),
+        COALESCE(s.value ->> 'set_type', 'working'),
+        (s.value ->> 'rpe')::numeric,
+        (s.value ->> 'rir')::integer,
+        (s.value ->> 'completed_at')::timestamptz,
+        (s.ordinality - 1)::integer
+    FROM jsonb_array_elements(COALESCE(p_sets, '[]'::jsonb))
+        WITH ORDINALITY AS s(value, ordinality);
+$$;
+
+-- ─── 3. Save a workout's exercises ────────────────────────────────────────────
+-- p_exercises: [{ workout_exercise_id | null, name, sets: [...] }] in
+-- display order. Rows missing from the payload are deleted; existing
+-- rows are re-ordered and their sets replaced; new rows are created.
+
+CREATE OR REPLACE FUNCTION public.save_workout_exercises(
+    p_workout_id uuid,
+    p_exercises jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_ex record;
+  v_we_id uuid;
+  v_name text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM workouts
+    WHERE id = p_workout_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Workout not found';
+  END IF;
+
+  DELETE FROM workout_exercises
+  WHERE workout_id = p_workout_id
+    AND id NOT IN (
+      SELECT (e ->> 'workout_exercise_id')::uuid
+      FROM jsonb_array_elements(p_exercises) e
+      WHERE e ->> 'workout_exercise_id' IS NOT NULL
+    );
+
+  FOR v_ex IN
+    SELECT value, ordinality
+    FROM jsonb_array_elements(p_exercises) WITH ORDINALITY
+  LOOP
+    v_we_id := (v_ex.value ->> 'workout_exercise_id')::uuid;
+
+    IF v_we_id IS NOT NULL THEN
+      UPDATE workout_exercises
+      SET order_index = v_ex.ordinality - 1
+      WHERE id = v_we_id AND workout_id = p_workout_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Workout exercise % not found', v_we_id;
+      END IF;
+
+      DELETE FROM sets WHERE workout_exercise_id = v_we_id;
+    ELSE
+      v_name := btrim(COALESCE(v_ex.value ->> 'name', ''));
+      CONTINUE WHEN v_name = '';
+
+      INSERT INTO workout_exercises (workout_id, exercise_id, order_index)
+      VALUES (
+        p_workout_id,
+        public.find_or_create_exercise(v_name),
+        v_ex.ordinality - 1
+      )
+      RETURNING id INTO v_we_id;
+    END IF;
+
+    PERFORM public.insert_sets_from_json(v_we_id, v_ex.value -> 'sets');
+  END LOOP;
+END;
+$$;
+
+-- ─── 4. Create workouts in one go ─────────────────────────────────────────────
+-- p_workouts: [{ id?, date, title, notes?, exercises: [{ exercise_id |
+-- name, notes?, intensity_percent?, sets: [...] }] }]. Used when generating a week or a
+-- single day from templates, and for workouts logged in the app, which
+-- pass a client-generated id so the offline queue can replay them.
+-- Returns the workout ids in payload order.
+
+CREATE OR REPLACE FUNCTION public.create_workouts(p_workouts jsonb)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_workout record;
+  v_ex record;
+  v_workout_id uuid;
+  v_we_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR v_workout IN
+    SELECT value, ordinality
+    FROM jsonb_array_elements(p_workouts) WITH ORDINALITY
+    ORDER BY ordinality
+  LOOP
+    v_workout_id := COALESCE(
+      (v_workout.value ->> 'id')::uuid,
+      gen_random_uuid()
+    );
+
+    -- A replayed offline create arrives again under the same id: its
+    -- header is rewritten and the exercises from the last attempt dropped
+    INSERT INTO workouts (id, user_id, date, title, notes)
+    VALUES (
+      v_workout_id,
+      v_user_id,
+      (v_workout.value ->> 'date')::date,
+      v_workout.value ->> 'title',
+      v_workout.value ->> 'notes'
+    )
+    ON CONFLICT (id) DO UPDATE
+    SET date = EXCLUDED.date,
+        title = EXCLUDED.title,
+        notes = EXCLUDED.notes
+    WHERE workouts.user_id = v_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Workout % not found', v_workout_id;
+    END IF;
+
+    DELETE FROM workout_exercises WHERE workout_id = v_workout_id;
+
+    FOR v_ex IN
+      SELECT value, ordinality
+      FROM jsonb_array_elements(COALESCE(v_workout.value -> 'exercises', '[]'::jsonb))
+        WITH ORDINALITY
+    LOOP
+      INSERT INTO workout_exercises (
+          workout_id, exercise_id, notes, order_index, intensity_percent
+      )
+      VALUES (
+        v_workout_id,
+        COALESCE(
+          (v_ex.value ->> 'exercise_id')::uuid,
+          public.find_or_create_exercise(v_ex.value ->> 'name')
+        ),
+        v_ex.value ->> 'notes',
+        v_ex.ordinality - 1,
+        (v_ex.value ->> 'intensity_percent')::numeric
+      )
+      RETURNING id INTO v_we_id;
+
+      PERFORM public.insert_sets_from_json(v_we_id, v_ex.value -> 'sets');
+    END LOOP;
+
+    RETURN NEXT v_workout_id;
+  END LOOP;
+END;
+$$;
+
+-- ─── 5. Save a full week template ─────────────────────────────────────────────
+-- p_days: [{ name, exercises: [{ name, progression, sets: [{ reps,
+-- weight, set_type, rpe, rir }] }] }]. Replaces every day under the
+-- template (exercises and sets cascade) and adds any new exercise
+-- names to the caller's exercises so the Exercises tab stays in sync.
+
+CREATE OR REPLACE FUNCTION public.save_week_template(
+    p_template_id uuid,
+    p_name text,
+    p_days jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_day record;
+  v_ex record;
+  v_day_id uuid;
+  v_ex_id uuid;
+BEGIN
+  UPDATE week_templates
+  SET name = p_name
+  WHERE id = p_template_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Week template not found';
+  END IF;
+
+  DELETE FROM day_templates WHERE template_id = p_template_id;
+
+  FOR v_day IN
+    SELECT value FROM jsonb_array_elements(p_days)
+  LOOP
+    INSERT INTO day_templates (template_id, name)
+    VALUES (p_template_id, v_day.value ->> 'name')
+    RETURNING id INTO v_day_id;
+
+    FOR v_ex IN
+      SELECT value
+      FROM jsonb_array_elements(COALESCE(v_day.value -> 'exercises', '[]'::jsonb))
+    LOOP
+      IF btrim(COALESCE(v_ex.value ->> 'name', '')) <> '' THEN
+        PERFORM public.find_or_create_exercise(v_ex.value ->> 'name');
+      END IF;
+
+      INSERT INTO exercise_templates (day_template_id, name, progression)
+      VALUES (
+        v_day_id,
+        v_ex.value ->> 'name',
+        NULLIF(v_ex.value -> 'progression', 'null'::jsonb)
+      )
+      RETURNING id INTO v_ex_id;
+
+      INSERT INTO template_sets (
+          exercise_template_id, reps, weight, set_type, rpe, rir
+      )
+      SELECT
+          v_ex_id,
+          GREATEST(1, COALESCE((s.value ->> 'reps')::integer, 1)),
+          GREATEST(0, COALESCE((s.value ->> 'weight')::numeric, 0)),
+          COALESCE(s.value ->> 'set_type', 'working'),
+          (s.value ->> 'rpe')::numeric,
+          (s.value ->> 'rir')::integer
+      FROM jsonb_array_elements(COALESCE(v_ex.value -> 'sets', '[]'::jsonb)) s;
+    END LOOP;
+  END LOOP;
+END;
+$$;
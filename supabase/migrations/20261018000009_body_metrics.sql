@@ -0,0 +1,66 @@
+-- ================================================================
+-- Migration: Body metrics (bodyweight, measurements, progress photos)
+-- Date: 2026-10-18
+-- ================================================================
+-- One row per user per day. Bodyweight is stored in kg like every other
+-- weight; measurements are in cm. Progress photos live in the private
+-- progress-photos Storage bucket under <user_id>/…, and the row keeps
+-- only the object path.
+
+-- ─── 1. Body Metrics Table ────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.body_metrics (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid (),
+    user_id uuid REFERENCES auth.users (id) ON DELETE CASCADE NOT NULL,
+    date date NOT NULL,
+    bodyweight numeric(6, 2) CHECK (bodyweight > 0),
+    waist_cm numeric(5, 1) CHECK (waist_cm > 0),
+    arm_cm numeric(5, 1) CHECK (arm_cm > 0),
+    chest_cm numeric(5, 1) CHECK (chest_cm > 0),
+    photo_path text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (user_id, date)
+);
+
+-- ─── 2. Indexes ───────────────────────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS idx_body_metrics_user_date ON public.body_metrics (user_id, date DESC);
+
+-- ─── 3. RLS ───────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.body_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their body metrics" ON public.body_metrics FOR ALL USING (auth.uid () = user_id)
+WITH
+    CHECK (auth.uid () = user_id);
+
+-- ─── 4. Progress Photo Storage ────────────────────────────────────────────────
+-- Private bucket; the first path segment must be the owner's id.
+
+INSERT INTO
+    storage.buckets (id, name, public)
+VALUES (
+        'progress-photos',
+        'progress-photos',
+        false
+    )
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read their progress photos" ON storage.objects FOR
+SELECT USING (
+        bucket_id = 'progress-photos'
+        AND (storage.foldername (name))[1] = auth.uid ()::text
+    );
+
+CREATE POLICY "Users can upload their progress photos" ON storage.objects FOR
+INSERT
+WITH
+    CHECK (
+        bucket_id = 'progress-photos'
+        AND (storage.foldername (name))[1] = auth.uid ()::text
+    );
+
+CREATE POLICY "Users can delete their progress photos" ON storage.objects FOR DELETE USING (
+    bucket_id = 'progress-photos'
+    AND (storage.foldername (name))[1] = auth.uid ()::text
+);
@@ -0,0 +1,76 @@
+-- ================================================================
+-- Migration: Goal types, target dates and achievement tracking
+-- Date: 2026-10-18
+-- ================================================================
+-- exercise_goals only held target_reps / target_weight. Goals now have a
+-- type — weight at reps, e1RM, weekly volume or workout frequency — an
+-- optional target date, and achieved_at, stamped by the app the first
+-- time the target is reached.
+--
+-- Frequency goals count every workout, so they have no exercise. An
+-- exercise can now hold one goal of each type.
+
+-- ─── 1. New Columns ───────────────────────────────────────────────────────────
+
+ALTER TABLE public.exercise_goals
+ADD COLUMN IF NOT EXISTS goal_type text NOT NULL DEFAULT 'weight' CHECK (
+    goal_type IN (
+        'weight',
+        'e1rm',
+        'weekly_volume',
+        'frequency'
+    )
+),
+ADD COLUMN IF NOT EXISTS target_volume numeric CHECK (target_volume > 0),
+ADD COLUMN IF NOT EXISTS target_workouts integer CHECK (
+    target_workouts BETWEEN 1 AND 14
+),
+ADD COLUMN IF NOT EXISTS target_date date,
+ADD COLUMN IF NOT EXISTS achieved_at timestamp with time zone;
+
+-- ─── 2. Exercise Optional For Frequency Goals ─────────────────────────────────
+
+ALTER TABLE public.exercise_goals ALTER COLUMN exercise_id DROP NOT NULL;
+
+ALTER TABLE public.exercise_goals
+DROP CONSTRAINT IF EXISTS exercise_goals_exercise_matches_type;
+
+ALTER TABLE public.exercise_goals
+ADD CONSTRAINT exercise_goals_exercise_matches_type CHECK (
+    (goal_type = 'frequency') = (exercise_id IS NULL)
+);
+
+ALTER TABLE public.exercise_goals
+DROP CONSTRAINT IF EXISTS exercise_goals_user_exercise_uniq;
+
+ALTER TABLE public.exercise_goals
+DROP CONSTRAINT IF EXISTS exercise_goals_user_exercise_type_uniq;
+
+ALTER TABLE public.exercise_goals
+ADD CONSTRAINT exercise_goals_user_exercise_type_uniq UNIQUE NULLS NOT DISTINCT (user_id, exercise_id, goal_type);
+
+-- ─── 3. Reset Achievement When The Target Moves ───────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.reset_goal_achieved()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.goal_type IS DISTINCT FROM OLD.goal_type
+    OR NEW.target_reps IS DISTINCT FROM OLD.target_reps
+    OR NEW.target_weight IS DISTINCT FROM OLD.target_weight
+    OR NEW.target_volume IS DISTINCT FROM OLD.target_volume
+    OR NEW.target_workouts IS DISTINCT FROM OLD.target_workouts
+  THEN
+    NEW.achieved_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_exercise_goals_reset_achieved ON public.exercise_goals;
+
+CREATE TRIGGER trg_exercise_goals_reset_achieved
+BEFORE UPDATE ON public.exercise_goals
+FOR EACH ROW
+EXECUTE PROCEDURE public.reset_goal_achieved();
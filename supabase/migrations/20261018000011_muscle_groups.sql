@@ -0,0 +1,72 @@
+-- ================================================================
+-- Migration: Muscle-group volume analytics
+-- Date: 2026-10-18
+-- ================================================================
+-- exercise_library.muscle_group is the primary muscle an exercise
+-- trains; secondary_muscles lists the ones it also hits (e.g. triceps
+-- and front delts for bench press). get_weekly_muscle_volume() joins
+-- logged sets to those tags by exercise name and returns per-week set
+-- counts and volume for every tagged muscle. The app weights secondary
+-- work (half a set per set) — the RPC returns the raw counts.
+
+-- ─── 1. Secondary Muscles ─────────────────────────────────────────────────────
+
+ALTER TABLE public.exercise_library
+ADD COLUMN IF NOT EXISTS secondary_muscles text[] NOT NULL DEFAULT '{}';
+
+-- ─── 2. Weekly Volume Per Muscle Group ────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.get_weekly_muscle_volume(
+    p_user_id uuid,
+    p_since date
+)
+RETURNS TABLE(
+    week_start text,
+    muscle text,
+    is_primary boolean,
+    total_sets bigint,
+    total_volume numeric
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    WITH tagged AS (
+        SELECT
+            date_trunc('week', w.date) AS week,
+            s.reps,
+            s.weight,
+            el.muscle_group,
+            el.secondary_muscles
+        FROM workouts w
+        JOIN workout_exercises we ON we.workout_id = w.id
+        JOIN exercises e ON e.id = we.exercise_id
+        JOIN sets s ON s.workout_exercise_id = we.id
+        JOIN exercise_library el
+          ON el.user_id = w.user_id
+         AND lower(el.name) = lower(e.name)
+        WHERE w.user_id = p_user_id
+          AND w.date >= p_since
+          AND s.set_type <> 'warmup'
+    ),
+    hits AS (
+        SELECT week, reps, weight, muscle_group AS muscle, true AS is_primary
+        FROM tagged
+        WHERE btrim(COALESCE(muscle_group, '')) <> ''
+        UNION ALL
+        SELECT week, reps, weight, m.muscle, false
+        FROM tagged, unnest(secondary_muscles) AS m(muscle)
+        WHERE btrim(m.muscle) <> ''
+    )
+    SELECT
+        to_char(week, 'YYYY-MM-DD') AS week_start,
+        initcap(btrim(muscle)) AS muscle,
+        is_primary,
+        COUNT(*) AS total_sets,
+        COALESCE(SUM(weight * reps), 0) AS total_volume
+    FROM hits
+    GROUP BY week, initcap(btrim(muscle)), is_primary
+    ORDER BY week_start, muscle;
+$$;
@@ -0,0 +1,413 @@
+-- ================================================================
+-- Migration: One canonical exercise per name
+-- Date: 2026-10-18
+-- ================================================================
+-- An exercise used to live in three places: `exercises` rows (what
+-- workouts reference), `exercise_library` rows (muscle tags and
+-- defaults) and free-text names in exercise_templates,
+-- day_library_exercises and personal_records. Renaming an exercise
+-- only touched the first, orphaning its templates and PRs.
+--
+-- `exercises` is now the only exercise entity:
+--   * duplicates (same name, ignoring case and surrounding spaces) are
+--     merged into the oldest row and names are unique per user
+--   * the library's muscle tags, defaults and usage move onto it and
+--     exercise_library is dropped
+--   * templates, day library exercises and PRs reference it by
+--     exercise_id; their name columns are dropped
+--
+-- Names that only existed in the library, a template or a PR get an
+-- exercises row of their own so nothing is lost.
+
+-- ─── 1. Merge Duplicate Exercises ─────────────────────────────────────────────
+
+CREATE TEMP TABLE exercise_merge AS
+SELECT
+    id AS exercise_id,
+    first_value(id) OVER (
+        PARTITION BY user_id, lower(btrim(name))
+        ORDER BY created_at, id
+    ) AS keeper_id
+FROM public.exercises;
+
+-- A merged exercise keeps the oldest goal of each type
+DELETE FROM public.exercise_goals g
+USING exercise_merge m
+WHERE m.exercise_id = g.exercise_id
+  AND EXISTS (
+      SELECT 1
+      FROM public.exercise_goals o
+      JOIN exercise_merge om ON om.exercise_id = o.exercise_id
+      WHERE om.keeper_id = m.keeper_id
+        AND o.goal_type = g.goal_type
+        AND (o.created_at, o.id) < (g.created_at, g.id)
+  );
+
+UPDATE public.exercise_goals g
+SET exercise_id = m.keeper_id
+FROM exercise_merge m
+WHERE m.exercise_id = g.exercise_id AND m.exercise_id <> m.keeper_id;
+
+UPDATE public.workout_exercises we
+SET exercise_id = m.keeper_id
+FROM exercise_merge m
+WHERE m.exercise_id = we.exercise_id AND m.exercise_id <> m.keeper_id;
+
+DELETE FROM public.exercises e
+USING exercise_merge m
+WHERE m.exercise_id = e.id AND m.exercise_id <> m.keeper_id;
+
+DROP TABLE exercise_merge;
+
+UPDATE public.exercises SET name = btrim(name) WHERE name <> btrim(name);
+
+CREATE UNIQUE INDEX IF NOT EXISTS exercises_user_name_key
+ON public.exercises (user_id, lower(name));
+
+-- ─── 2. Exercises For Names Used Elsewhere ────────────────────────────────────
+
+INSERT INTO public.exercises (user_id, name, created_at)
+SELECT DISTINCT ON (n.user_id, lower(btrim(n.name)))
+    n.user_id,
+    btrim(n.name),
+    n.created_at
+FROM (
+    SELECT user_id, name, created_at
+    FROM public.exercise_library
+    UNION ALL
+    SELECT wt.user_id, et.name, wt.created_at
+    FROM public.exercise_templates et
+    JOIN public.day_templates dt ON dt.id = et.day_template_id
+    JOIN public.week_templates wt ON wt.id = dt.template_id
+    UNION ALL
+    SELECT dl.user_id, dle.name, dl.created_at
+    FROM public.day_library_exercises dle
+    JOIN public.day_library dl ON dl.id = dle.day_library_id
+    UNION ALL
+    SELECT user_id, exercise_name, created_at
+    FROM public.personal_records
+) n
+WHERE btrim(n.name) <> ''
+ORDER BY n.user_id, lower(btrim(n.name)), n.created_at
+ON CONFLICT (user_id, lower(name)) DO NOTHING;
+
+-- ─── 3. Library Fields On Exercises ───────────────────────────────────────────
+
+ALTER TABLE public.exercises
+ADD COLUMN IF NOT EXISTS muscle_group text,
+ADD COLUMN IF NOT EXISTS secondary_muscles text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS default_reps integer NOT NULL DEFAULT 10 CHECK (default_reps > 0),
+ADD COLUMN IF NOT EXISTS default_weight numeric(10, 2) NOT NULL DEFAULT 0 CHECK (default_weight >= 0),
+ADD COLUMN IF NOT EXISTS usage_count integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_used_at timestamp with time zone;
+
+-- Duplicate library entries: the most used one wins
+UPDATE public.exercises e
+SET
+    muscle_group = l.muscle_group,
+    secondary_muscles = l.secondary_muscles,
+    default_reps = l.default_reps,
+    default_weight = l.default_weight,
+    usage_count = l.usage_count,
+    last_used_at = l.last_used_at
+FROM (
+    SELECT DISTINCT ON (user_id, lower(btrim(name))) *
+    FROM public.exercise_library
+    ORDER BY user_id, lower(btrim(name)), usage_count DESC, created_at
+) l
+WHERE l.user_id = e.user_id AND lower(btrim(l.name)) = lower(e.name);
+
+-- Day library exercises carried their own muscle group
+UPDATE public.exercises e
+SET muscle_group = dle.muscle_group
+FROM public.day_library_exercises dle
+JOIN public.day_library dl ON dl.id = dle.day_library_id
+WHERE dl.user_id = e.user_id
+  AND lower(btrim(dle.name)) = lower(e.name)
+  AND e.muscle_group IS NULL
+  AND btrim(COALESCE(dle.muscle_group, '')) <> '';
+
+DROP TABLE IF EXISTS public.exercise_library;
+
+-- ─── 4. Reference Exercises By Id ─────────────────────────────────────────────
+-- Rows whose name is blank can't be matched to an exercise and are
+-- dropped — the editors never let those be used anyway.
+
+ALTER TABLE public.exercise_templates
+ADD COLUMN IF NOT EXISTS exercise_id uuid REFERENCES public.exercises (id) ON DELETE CASCADE;
+
+UPDATE public.exercise_templates et
+SET exercise_id = e.id
+FROM public.day_templates dt
+JOIN public.week_templates wt ON wt.id = dt.template_id
+JOIN public.exercises e ON e.user_id = wt.user_id
+WHERE dt.id = et.day_template_id
+  AND lower(e.name) = lower(btrim(et.name));
+
+DELETE FROM public.exercise_templates WHERE exercise_id IS NULL;
+
+ALTER TABLE public.exercise_templates
+ALTER COLUMN exercise_id SET NOT NULL,
+DROP COLUMN name;
+
+CREATE INDEX IF NOT EXISTS idx_exercise_templates_exercise_id ON public.exercise_templates (exercise_id);
+
+ALTER TABLE public.day_library_exercises
+ADD COLUMN IF NOT EXISTS exercise_id uuid REFERENCES public.exercises (id) ON DELETE CASCADE;
+
+UPDATE public.day_library_exercises dle
+SET exercise_id = e.id
+FROM public.day_library dl
+JOIN public.exercises e ON e.user_id = dl.user_id
+WHERE dl.id = dle.day_library_id
+  AND lower(e.name) = lower(btrim(dle.name));
+
+DELETE FROM public.day_library_exercises WHERE exercise_id IS NULL;
+
+ALTER TABLE public.day_library_exercises
+ALTER COLUMN exercise_id SET NOT NULL,
+DROP COLUMN name,
+DROP COLUMN muscle_group;
+
+CREATE INDEX IF NOT EXISTS idx_day_library_exercises_exercise_id ON public.day_library_exercises (exercise_id);
+
+ALTER TABLE public.personal_records
+ADD COLUMN IF NOT EXISTS exercise_id uuid REFERENCES public.exercises (id) ON DELETE CASCADE;
+
+UPDATE public.personal_records pr
+SET exercise_id = e.id
+FROM public.exercises e
+WHERE e.user_id = pr.user_id
+  AND lower(e.name) = lower(btrim(pr.exercise_name));
+
+DELETE FROM public.personal_records WHERE exercise_id IS NULL;
+
+ALTER TABLE public.personal_records
+ALTER COLUMN exercise_id SET NOT NULL,
+DROP COLUMN exercise_name;
+
+CREATE INDEX IF NOT EXISTS idx_personal_records_exercise_id ON public.personal_records (exercise_id);
+
+-- ─── 5. Exercise Lookup Helper ────────────────────────────────────────────────
+-- Names are unique per user now, so concurrent saves can't create the
+-- same exercise twice.
+
+CREATE OR REPLACE FUNCTION public.find_or_create_exercise(p_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF btrim(COALESCE(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'Exercise name is required';
+  END IF;
+
+  INSERT INTO exercises (user_id, name)
+  VALUES (v_user_id, btrim(p_name))
+  ON CONFLICT (user_id, lower(name)) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id
+    FROM exercises
+    WHERE user_id = v_user_id AND lower(name) = lower(btrim(p_name));
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ─── 6. Week Template Save ────────────────────────────────────────────────────
+-- Same payload as before; exercise names resolve to exercise ids.
+
+CREATE OR REPLACE FUNCTION public.save_week_template(
+    p_template_id uuid,
+    p_name text,
+    p_days jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_day record;
+  v_ex record;
+  v_day_id uuid;
+  v_ex_id uuid;
+BEGIN
+  UPDATE week_templates
+  SET name = p_name
+  WHERE id = p_template_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Week template not found';
+  END IF;
+
+  DELETE FROM day_templates WHERE template_id = p_template_id;
+
+  FOR v_day IN
+    SELECT value FROM jsonb_array_elements(p_days)
+  LOOP
+    INSERT INTO day_templates (template_id, name)
+    VALUES (p_template_id, v_day.value ->> 'name')
+    RETURNING id INTO v_day_id;
+
+    FOR v_ex IN
+      SELECT value
+      FROM jsonb_array_elements(COALESCE(v_day.value -> 'exercises', '[]'::jsonb))
+    LOOP
+      CONTINUE WHEN btrim(COALESCE(v_ex.value ->> 'name', '')) = '';
+
+      INSERT INTO exercise_templates (day_template_id, exercise_id, progression)
+      VALUES (
+        v_day_id,
+        public.find_or_create_exercise(v_ex.value ->> 'name'),
+        NULLIF(v_ex.value -> 'progression', 'null'::jsonb)
+      )
+      RETURNING id INTO v_ex_id;
+
+      INSERT INTO template_sets (
+          exercise_template_id, reps, weight, set_type, rpe, rir
+      )
+      SELECT
+          v_ex_id,
+          GREATEST(1, COALESCE((s.value ->> 'reps')::integer, 1)),
+          GREATEST(0, COALESCE((s.value ->> 'weight')::numeric, 0)),
+          COALESCE(s.value ->> 'set_type', 'working'),
+          (s.value ->> 'rpe')::numeric,
+          (s.value ->> 'rir')::integer
+      FROM jsonb_array_elements(COALESCE(v_ex.value -> 'sets', '[]'::jsonb)) s;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- ─── 7. Weekly Volume Per Muscle Group ────────────────────────────────────────
+-- Tags now sit on the exercise itself.
+
+CREATE OR REPLACE FUNCTION public.get_weekly_muscle_volume(
+    p_user_id uuid,
+    p_since date
+)
+RETURNS TABLE(
+    week_start text,
+    muscle text,
+    is_primary boolean,
+    total_sets bigint,
+    total_volume numeric
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    WITH tagged AS (
+        SELECT
+            date_trunc('week', w.date) AS week,
+            s.reps,
+            s.weight,
+            e.muscle_group,
+            e.secondary_muscles
+        FROM workouts w
+        JOIN workout_exercises we ON we.workout_id = w.id
+        JOIN exercises e ON e.id = we.exercise_id
+        JOIN sets s ON s.workout_exercise_id = we.id
+        WHERE w.user_id = p_user_id
+          AND w.date >= p_since
+          AND s.set_type <> 'warmup'
+    ),
+    hits AS (
+        SELECT week, reps, weight, muscle_group AS muscle, true AS is_primary
+        FROM tagged
+        WHERE btrim(COALESCE(muscle_group, '')) <> ''
+        UNION ALL
+        SELECT week, reps, weight, m.muscle, false
+        FROM tagged, unnest(secondary_muscles) AS m(muscle)
+        WHERE btrim(m.muscle) <> ''
+    )
+    SELECT
+        to_char(week, 'YYYY-MM-DD') AS week_start,
+        initcap(btrim(muscle)) AS muscle,
+        is_primary,
+        COUNT(*) AS total_sets,
+        COALESCE(SUM(weight * reps), 0) AS total_volume
+    FROM hits
+    GROUP BY week, initcap(btrim(muscle)), is_primary
+    ORDER BY week_start, muscle;
+$$;
+
+-- ─── 8. lbs → kg Conversion ───────────────────────────────────────────────────
+-- Default weights moved from exercise_library to exercises.
+
+CREATE OR REPLACE FUNCTION public.convert_weights_lbs_to_kg()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_factor constant numeric := 0.45359237;
+  v_before timestamp with time zone;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT legacy_weights_before INTO v_before
+  FROM user_settings
+  WHERE user_id = v_user_id AND weights_converted_at IS NULL
+  FOR UPDATE;
+
+  IF v_before IS NULL THEN
+    RAISE EXCEPTION 'No weights to convert';
+  END IF;
+
+  UPDATE sets s SET weight = round(s.weight * v_factor, 2)
+  FROM workout_exercises we
+  JOIN workouts w ON w.id = we.workout_id
+  WHERE s.workout_exercise_id = we.id
+    AND w.user_id = v_user_id
+    AND w.created_at < v_before;
+
+  UPDATE template_sets ts SET weight = round(ts.weight * v_factor, 2)
+  FROM exercise_templates et
+  JOIN day_templates dt ON dt.id = et.day_template_id
+  JOIN week_templates wt ON wt.id = dt.template_id
+  WHERE ts.exercise_template_id = et.id
+    AND wt.user_id = v_user_id
+    AND wt.created_at < v_before;
+
+  UPDATE day_library_sets dls SET weight = round(dls.weight * v_factor, 2)
+  FROM day_library_exercises dle
+  JOIN day_library dl ON dl.id = dle.day_library_id
+  WHERE dls.day_library_exercise_id = dle.id
+    AND dl.user_id = v_user_id
+    AND dl.created_at < v_before;
+
+  UPDATE exercises SET default_weight = round(default_weight * v_factor, 2)
+  WHERE user_id = v_user_id AND created_at < v_before;
+
+  UPDATE exercise_goals SET target_weight = round(target_weight * v_factor, 2)
+  WHERE user_id = v_user_id
+    AND target_weight IS NOT NULL
+    AND created_at < v_before;
+
+  UPDATE personal_records SET weight = round(weight * v_factor, 2)
+  WHERE user_id = v_user_id AND created_at < v_before;
+
+  UPDATE user_settings
+  SET weights_converted_at = now(), weight_unit = 'lbs', updated_at = now()
+  WHERE user_id = v_user_id;
+END;
+$$;
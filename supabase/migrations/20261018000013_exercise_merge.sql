@@ -0,0 +1,205 @@
+-- ================================================================
+-- Migration: Merge exercises
+-- Date: 2026-10-18
+-- ================================================================
+-- "Bench", "Bench Press" and "Flat Bench" are separate exercises as
+-- far as analytics are concerned. merge_exercises() folds any number of
+-- them into one: workouts, week templates, day library entries and
+-- goals are repointed to the exercise being kept, the others are
+-- deleted and the kept exercise's personal_records are rebuilt from
+-- its (now combined) set history — all in one transaction.
+--
+-- get_exercise_usage() counts what each exercise is referenced by, so
+-- the app can preview a merge before running it.
+--
+-- Both functions are SECURITY INVOKER: RLS limits them to the caller's
+-- own rows.
+
+-- ─── 1. Usage Per Exercise ────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.get_exercise_usage(p_exercise_ids uuid[])
+RETURNS TABLE(
+    exercise_id uuid,
+    workouts bigint,
+    sets bigint,
+    personal_records bigint,
+    goals bigint,
+    templates bigint,
+    day_library bigint
+)
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        e.id,
+        (SELECT COUNT(DISTINCT we.workout_id)
+         FROM workout_exercises we WHERE we.exercise_id = e.id),
+        (SELECT COUNT(*)
+         FROM workout_exercises we
+         JOIN sets s ON s.workout_exercise_id = we.id
+         WHERE we.exercise_id = e.id),
+        (SELECT COUNT(*) FROM personal_records pr WHERE pr.exercise_id = e.id),
+        (SELECT COUNT(*) FROM exercise_goals g WHERE g.exercise_id = e.id),
+        (SELECT COUNT(*) FROM exercise_templates et WHERE et.exercise_id = e.id),
+        (SELECT COUNT(*) FROM day_library_exercises dle WHERE dle.exercise_id = e.id)
+    FROM exercises e
+    WHERE e.id = ANY(p_exercise_ids)
+      AND e.user_id = auth.uid();
+$$;
+
+-- ─── 2. Rebuild Personal Records ──────────────────────────────────────────────
+-- One record per day the exercise's heaviest working set beat every
+-- earlier day, with the most reps done at that weight.
+
+CREATE OR REPLACE FUNCTION public.recompute_personal_records(p_exercise_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM exercises
+    WHERE id = p_exercise_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Exercise not found';
+  END IF;
+
+  DELETE FROM personal_records WHERE exercise_id = p_exercise_id;
+
+  INSERT INTO personal_records (user_id, exercise_id, weight, reps, date)
+  SELECT v_user_id, p_exercise_id, weight, reps, date
+  FROM (
+      SELECT
+          date,
+          weight,
+          reps,
+          MAX(weight) OVER (
+              ORDER BY date
+              ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+          ) AS previous_best
+      FROM (
+          SELECT DISTINCT ON (w.date) w.date, s.weight, s.reps
+          FROM workouts w
+          JOIN workout_exercises we ON we.workout_id = w.id
+          JOIN sets s ON s.workout_exercise_id = we.id
+          WHERE w.user_id = v_user_id
+            AND we.exercise_id = p_exercise_id
+            AND s.set_type <> 'warmup'
+          ORDER BY w.date, s.weight DESC, s.reps DESC
+      ) day_best
+  ) running
+  WHERE previous_best IS NULL OR weight > previous_best;
+END;
+$$;
+
+-- ─── 3. Merge ─────────────────────────────────────────────────────────────────
+-- p_name renames the kept exercise once the others are gone (NULL or
+-- blank keeps its name). Library fields are combined: usage adds up,
+-- the latest use wins, and muscle tags are filled from the merged
+-- exercises where the kept one has none.
+
+CREATE OR REPLACE FUNCTION public.merge_exercises(
+    p_target_id uuid,
+    p_source_ids uuid[],
+    p_name text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_sources uuid[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM exercises
+    WHERE id = p_target_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Exercise not found';
+  END IF;
+
+  SELECT COALESCE(array_agg(id), '{}') INTO v_sources
+  FROM exercises
+  WHERE id = ANY(p_source_ids)
+    AND id <> p_target_id
+    AND user_id = v_user_id;
+
+  IF cardinality(v_sources) <> (
+    SELECT COUNT(DISTINCT s) FROM unnest(p_source_ids) s
+    WHERE s <> p_target_id
+  ) THEN
+    RAISE EXCEPTION 'Exercise not found';
+  END IF;
+
+  IF cardinality(v_sources) = 0 THEN
+    RAISE EXCEPTION 'Pick at least one exercise to merge';
+  END IF;
+
+  -- One goal per type: the kept exercise's, else the oldest
+  DELETE FROM exercise_goals g
+  WHERE g.exercise_id = ANY(v_sources)
+    AND EXISTS (
+        SELECT 1 FROM exercise_goals o
+        WHERE o.goal_type = g.goal_type
+          AND o.id <> g.id
+          AND (
+              o.exercise_id = p_target_id
+              OR (
+                  o.exercise_id = ANY(v_sources)
+                  AND (o.created_at, o.id) < (g.created_at, g.id)
+              )
+          )
+    );
+
+  UPDATE exercise_goals SET exercise_id = p_target_id
+  WHERE exercise_id = ANY(v_sources);
+
+  UPDATE workout_exercises SET exercise_id = p_target_id
+  WHERE exercise_id = ANY(v_sources);
+
+  UPDATE exercise_templates SET exercise_id = p_target_id
+  WHERE exercise_id = ANY(v_sources);
+
+  UPDATE day_library_exercises SET exercise_id = p_target_id
+  WHERE exercise_id = ANY(v_sources);
+
+  UPDATE exercises t
+  SET
+      usage_count = t.usage_count + (
+          SELECT SUM(usage_count) FROM exercises WHERE id = ANY(v_sources)
+      ),
+      last_used_at = GREATEST(t.last_used_at, (
+          SELECT MAX(last_used_at) FROM exercises WHERE id = ANY(v_sources)
+      )),
+      muscle_group = COALESCE(t.muscle_group, (
+          SELECT muscle_group FROM exercises
+          WHERE id = ANY(v_sources) AND muscle_group IS NOT NULL
+          ORDER BY usage_count DESC
+          LIMIT 1
+      )),
+      secondary_muscles = CASE
+          WHEN cardinality(t.secondary_muscles) > 0 THEN t.secondary_muscles
+          ELSE COALESCE((
+              SELECT secondary_muscles FROM exercises
+              WHERE id = ANY(v_sources) AND cardinality(secondary_muscles) > 0
+              ORDER BY usage_count DESC
+              LIMIT 1
+          ), '{}')
+      END
+  WHERE t.id = p_target_id;
+
+  -- Their personal_records go with them (ON DELETE CASCADE)
+  DELETE FROM exercises WHERE id = ANY(v_sources);
+
+  IF btrim(COALESCE(p_name, '')) <> '' THEN
+    UPDATE exercises SET name = btrim(p_name) WHERE id = p_target_id;
+  END IF;
+
+  PERFORM public.recompute_personal_records(p_target_id);
+END;
+$$;
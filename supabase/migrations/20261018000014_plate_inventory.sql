@@ -0,0 +1,52 @@
+-- ================================================================
+-- Migration: Plate inventory and loadable weights
+-- Date: 2026-10-18
+-- ================================================================
+-- The bar and plates a user trains with, for the plate calculator and
+-- for rounding generated weights to something that can actually be
+-- loaded. Unlike every other weight column these are NOT kg: bar_weight
+-- and plates are in plate_unit, because plates are stamped in one unit
+-- and a 45 lb plate isn't 20.41 kg. plates is a list of
+-- {"weight": number, "pairs": integer} — pairs, since a bar is loaded
+-- symmetrically.
+--
+-- weight_rounding controls what happens to weights the app generates
+-- (progression rules, week intensity): 'off' keeps them exact,
+-- 'nearest' / 'down' snap them to a loadable total.
+
+-- ─── 1. Columns ───────────────────────────────────────────────────────────────
+
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS plate_unit text NOT NULL DEFAULT 'kg'
+    CHECK (plate_unit IN ('kg', 'lbs')),
+ADD COLUMN IF NOT EXISTS bar_weight numeric(6, 2) NOT NULL DEFAULT 20
+    CHECK (bar_weight >= 0),
+ADD COLUMN IF NOT EXISTS plates jsonb NOT NULL DEFAULT '[
+    {"weight": 25, "pairs": 4},
+    {"weight": 20, "pairs": 1},
+    {"weight": 15, "pairs": 1},
+    {"weight": 10, "pairs": 1},
+    {"weight": 5, "pairs": 1},
+    {"weight": 2.5, "pairs": 1},
+    {"weight": 1.25, "pairs": 1}
+]'::jsonb
+    CHECK (jsonb_typeof(plates) = 'array'),
+ADD COLUMN IF NOT EXISTS weight_rounding text NOT NULL DEFAULT 'off'
+    CHECK (weight_rounding IN ('off', 'nearest', 'down'));
+
+-- ─── 2. Pound Defaults ────────────────────────────────────────────────────────
+-- Users who already display pounds most likely train with pound plates.
+
+UPDATE public.user_settings
+SET
+    plate_unit = 'lbs',
+    bar_weight = 45,
+    plates = '[
+        {"weight": 45, "pairs": 4},
+        {"weight": 35, "pairs": 1},
+        {"weight": 25, "pairs": 1},
+        {"weight": 10, "pairs": 2},
+        {"weight": 5, "pairs": 1},
+        {"weight": 2.5, "pairs": 1}
+    ]'::jsonb
+WHERE weight_unit = 'lbs';
@@ -0,0 +1,252 @@
+-- ================================================================
+-- Migration: Supersets and circuits
+-- Date: 2026-10-18
+-- ================================================================
+-- Exercises in a workout, a week template day or a day library entry
+-- can be grouped: neighbours with the same superset_group are done
+-- back to back, one set of each per round (a superset for two, a giant
+-- set or circuit for more). NULL means the exercise stands alone. The
+-- numbers are only compared between neighbours in the same day — the
+-- app renumbers them 1, 2, 3… before saving.
+--
+-- The save RPCs are recreated to read superset_group from each
+-- exercise in their payloads; everything else about them is unchanged.
+
+-- ─── 1. Group Columns ─────────────────────────────────────────────────────────
+
+ALTER TABLE public.workout_exercises
+ADD COLUMN IF NOT EXISTS superset_group smallint
+    CHECK (superset_group > 0);
+
+ALTER TABLE public.exercise_templates
+ADD COLUMN IF NOT EXISTS superset_group smallint
+    CHECK (superset_group > 0);
+
+ALTER TABLE public.day_library_exercises
+ADD COLUMN IF NOT EXISTS superset_group smallint
+    CHECK (superset_group > 0);
+
+-- ─── 2. Save a workout's exercises ────────────────────────────────────────────
+-- p_exercises: [{ workout_exercise_id | null, name, superset_group,
+-- sets: [...] }] in display order.
+
+CREATE OR REPLACE FUNCTION public.save_workout_exercises(
+    p_workout_id uuid,
+    p_exercises jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_ex record;
+  v_we_id uuid;
+  v_name text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM workouts
+    WHERE id = p_workout_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Workout not found';
+  END IF;
+
+  DELETE FROM workout_exercises
+  WHERE workout_id = p_workout_id
+    AND id NOT IN (
+      SELECT (e ->> 'workout_exercise_id')::uuid
+      FROM jsonb_array_elements(p_exercises) e
+      WHERE e ->> 'workout_exercise_id' IS NOT NULL
+    );
+
+  FOR v_ex IN
+    SELECT value, ordinality
+    FROM jsonb_array_elements(p_exercises) WITH ORDINALITY
+  LOOP
+    v_we_id := (v_ex.value ->> 'workout_exercise_id')::uuid;
+
+    IF v_we_id IS NOT NULL THEN
+      UPDATE workout_exercises
+      SET
+          order_index = v_ex.ordinality - 1,
+          superset_group = (v_ex.value ->> 'superset_group')::smallint
+      WHERE id = v_we_id AND workout_id = p_workout_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Workout exercise % not found', v_we_id;
+      END IF;
+
+      DELETE FROM sets WHERE workout_exercise_id = v_we_id;
+    ELSE
+      v_name := btrim(COALESCE(v_ex.value ->> 'name', ''));
+      CONTINUE WHEN v_name = '';
+
+      INSERT INTO workout_exercises (
+          workout_id, exercise_id, order_index, superset_group
+      )
+      VALUES (
+        p_workout_id,
+        public.find_or_create_exercise(v_name),
+        v_ex.ordinality - 1,
+        (v_ex.value ->> 'superset_group')::smallint
+      )
+      RETURNING id INTO v_we_id;
+    END IF;
+
+    PERFORM public.insert_sets_from_json(v_we_id, v_ex.value -> 'sets');
+  END LOOP;
+END;
+$$;
+
+-- ─── 3. Create workouts in one go ─────────────────────────────────────────────
+-- p_workouts: [{ id?, date, title, notes?, exercises: [{ exercise_id |
+-- name, notes?, superset_group, intensity_percent?, sets: [...] }] }].
+
+CREATE OR REPLACE FUNCTION public.create_workouts(p_workouts jsonb)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_workout record;
+  v_ex record;
+  v_workout_id uuid;
+  v_we_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR v_workout IN
+    SELECT value, ordinality
+    FROM jsonb_array_elements(p_workouts) WITH ORDINALITY
+    ORDER BY ordinality
+  LOOP
+    v_workout_id := COALESCE(
+      (v_workout.value ->> 'id')::uuid,
+      gen_random_uuid()
+    );
+
+    -- A replayed offline create arrives again under the same id: its
+    -- header is rewritten and the exercises from the last attempt dropped
+    INSERT INTO workouts (id, user_id, date, title, notes)
+    VALUES (
+      v_workout_id,
+      v_user_id,
+      (v_workout.value ->> 'date')::date,
+      v_workout.value ->> 'title',
+      v_workout.value ->> 'notes'
+    )
+    ON CONFLICT (id) DO UPDATE
+    SET date = EXCLUDED.date,
+        title = EXCLUDED.title,
+        notes = EXCLUDED.notes
+    WHERE workouts.user_id = v_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Workout % not found', v_workout_id;
+    END IF;
+
+    DELETE FROM workout_exercises WHERE workout_id = v_workout_id;
+
+    FOR v_ex IN
+      SELECT value, ordinality
+      FROM jsonb_array_elements(COALESCE(v_workout.value -> 'exercises', '[]'::jsonb))
+        WITH ORDINALITY
+    LOOP
+      INSERT INTO workout_exercises (
+          workout_id, exercise_id, notes, order_index, superset_group,
+          intensity_percent
+      )
+      VALUES (
+        v_workout_id,
+        COALESCE(
+          (v_ex.value ->> 'exercise_id')::uuid,
+          public.find_or_create_exercise(v_ex.value ->> 'name')
+        ),
+        v_ex.value ->> 'notes',
+        v_ex.ordinality - 1,
+        (v_ex.value ->> 'superset_group')::smallint,
+        (v_ex.value ->> 'intensity_percent')::numeric
+      )
+      RETURNING id INTO v_we_id;
+
+      PERFORM public.insert_sets_from_json(v_we_id, v_ex.value -> 'sets');
+    END LOOP;
+
+    RETURN NEXT v_workout_id;
+  END LOOP;
+END;
+$$;
+
+-- ─── 4. Save a full week template ─────────────────────────────────────────────
+-- p_days: [{ name, exercises: [{ name, progression, superset_group,
+-- sets: [...] }] }].
+
+CREATE OR REPLACE FUNCTION public.save_week_template(
+    p_template_id uuid,
+    p_name text,
+    p_days jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_day record;
+  v_ex record;
+  v_day_id uuid;
+  v_ex_id uuid;
+BEGIN
+  UPDATE week_templates
+  SET name = p_name
+  WHERE id = p_template_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Week template not found';
+  END IF;
+
+  DELETE FROM day_templates WHERE template_id = p_template_id;
+
+  FOR v_day IN
+    SELECT value FROM jsonb_array_elements(p_days)
+  LOOP
+    INSERT INTO day_templates (template_id, name)
+    VALUES (p_template_id, v_day.value ->> 'name')
+    RETURNING id INTO v_day_id;
+
+    FOR v_ex IN
+      SELECT value
+      FROM jsonb_array_elements(COALESCE(v_day.value -> 'exercises', '[]'::jsonb))
+    LOOP
+      CONTINUE WHEN btrim(COALESCE(v_ex.value ->> 'name', '')) = '';
+
+      INSERT INTO exercise_templates (
+          day_template_id, exercise_id, progression, superset_group
+      )
+      VALUES (
+        v_day_id,
+        public.find_or_create_exercise(v_ex.value ->> 'name'),
+        NULLIF(v_ex.value -> 'progression', 'null'::jsonb),
+        (v_ex.value ->> 'superset_group')::smallint
+      )
+      RETURNING id INTO v_ex_id;
+
+      INSERT INTO template_sets (
+          exercise_template_id, reps, weight, set_type, rpe, rir
+      )
+      SELECT
+          v_ex_id,
+          GREATEST(1, COALESCE((s.value ->> 'reps')::integer, 1)),
+          GREATEST(0, COALESCE((s.value ->> 'weight')::numeric, 0)),
+          COALESCE(s.value ->> 'set_type', 'working'),
+          (s.value ->> 'rpe')::numeric,
+          (s.value ->> 'rir')::integer
+      FROM jsonb_array_elements(COALESCE(v_ex.value -> 'sets', '[]'::jsonb)) s;
+    END LOOP;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,212 @@
+-- ================================================================
+-- Migration: Exercise kinds — cardio, timed and bodyweight work
+-- Date: 2026-10-18
+-- ================================================================
+-- Not everything is reps × weight. exercises.kind says what a set of
+-- the exercise records:
+--
+--   weight_reps        reps × weight (the default)
+--   bodyweight         reps, with weight as added load (0 = bodyweight)
+--   duration           time only (planks, holds)
+--   distance           distance only (carries, sled pushes)
+--   duration_distance  time and distance (running, rowing, cycling)
+--
+-- Sets gain duration_seconds and distance_m (metres) for the last
+-- three; reps stays 1 for them. Those kinds are left out of tonnage
+-- in get_weekly_volume(), and get_exercise_cardio_over_time() totals
+-- time and distance per day for pace and speed charts.
+
+-- ─── 1. Exercise Kind ─────────────────────────────────────────────────────────
+
+ALTER TABLE public.exercises
+ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'weight_reps'
+    CHECK (kind IN (
+        'weight_reps', 'bodyweight', 'duration', 'distance', 'duration_distance'
+    ));
+
+-- ─── 2. Time and Distance Columns ─────────────────────────────────────────────
+
+ALTER TABLE public.sets
+ADD COLUMN IF NOT EXISTS duration_seconds integer CHECK (duration_seconds >= 0),
+ADD COLUMN IF NOT EXISTS distance_m numeric(10, 2) CHECK (distance_m >= 0);
+
+ALTER TABLE public.template_sets
+ADD COLUMN IF NOT EXISTS duration_seconds integer CHECK (duration_seconds >= 0),
+ADD COLUMN IF NOT EXISTS distance_m numeric(10, 2) CHECK (distance_m >= 0);
+
+ALTER TABLE public.day_library_sets
+ADD COLUMN IF NOT EXISTS duration_seconds integer CHECK (duration_seconds >= 0),
+ADD COLUMN IF NOT EXISTS distance_m numeric(10, 2) CHECK (distance_m >= 0);
+
+-- ─── 3. Set rows from a jsonb array ───────────────────────────────────────────
+-- [{ reps, weight, set_type, rpe, rir, duration_seconds, distance_m,
+-- completed_at }] → sets rows in array order.
+
+CREATE OR REPLACE FUNCTION public.insert_sets_from_json(
+    p_workout_exercise_id uuid,
+    p_sets jsonb
+)
+RETURNS void
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    INSERT INTO sets (
+        workout_exercise_id, reps, weight, set_type, rpe, rir,
+        duration_seconds, distance_m, completed_at, order_index
+    )
+    SELECT
+        p_workout_exercise_id,
+        GREATEST(1, COALESCE((s.value ->> 'reps')::integer, 1)),
+        GREATEST(0, COALESCE((s.value ->> 'weight')::numeric, 0)),
+        COALESCE(s.value ->> 'set_type', 'working'),
+        (s.value ->> 'rpe')::numeric,
+        (s.value ->> 'rir')::integer,
+        (s.value ->> 'duration_seconds')::integer,
+        (s.value ->> 'distance_m')::numeric,
+        (s.value ->> 'completed_at')::timestamptz,
+        (s.ordinality - 1)::integer
+    FROM jsonb_array_elements(COALESCE(p_sets, '[]'::jsonb))
+        WITH ORDINALITY AS s(value, ordinality);
+$$;
+
+-- ─── 4. Save a full week template ─────────────────────────────────────────────
+-- Template sets keep their time and distance too.
+
+CREATE OR REPLACE FUNCTION public.save_week_template(
+    p_template_id uuid,
+    p_name text,
+    p_days jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_day record;
+  v_ex record;
+  v_day_id uuid;
+  v_ex_id uuid;
+BEGIN
+  UPDATE week_templates
+  SET name = p_name
+  WHERE id = p_template_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Week template not found';
+  END IF;
+
+  DELETE FROM day_templates WHERE template_id = p_template_id;
+
+  FOR v_day IN
+    SELECT value FROM jsonb_array_elements(p_days)
+  LOOP
+    INSERT INTO day_templates (template_id, name)
+    VALUES (p_template_id, v_day.value ->> 'name')
+    RETURNING id INTO v_day_id;
+
+    FOR v_ex IN
+      SELECT value
+      FROM jsonb_array_elements(COALESCE(v_day.value -> 'exercises', '[]'::jsonb))
+    LOOP
+      CONTINUE WHEN btrim(COALESCE(v_ex.value ->> 'name', '')) = '';
+
+      INSERT INTO exercise_templates (
+          day_template_id, exercise_id, progression, superset_group
+      )
+      VALUES (
+        v_day_id,
+        public.find_or_create_exercise(v_ex.value ->> 'name'),
+        NULLIF(v_ex.value -> 'progression', 'null'::jsonb),
+        (v_ex.value ->> 'superset_group')::smallint
+      )
+      RETURNING id INTO v_ex_id;
+
+      INSERT INTO template_sets (
+          exercise_template_id, reps, weight, set_type, rpe, rir,
+          duration_seconds, distance_m
+      )
+      SELECT
+          v_ex_id,
+          GREATEST(1, COALESCE((s.value ->> 'reps')::integer, 1)),
+          GREATEST(0, COALESCE((s.value ->> 'weight')::numeric, 0)),
+          COALESCE(s.value ->> 'set_type', 'working'),
+          (s.value ->> 'rpe')::numeric,
+          (s.value ->> 'rir')::integer,
+          (s.value ->> 'duration_seconds')::integer,
+          (s.value ->> 'distance_m')::numeric
+      FROM jsonb_array_elements(COALESCE(v_ex.value -> 'sets', '[]'::jsonb)) s;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- ─── 5. Weekly Volume Without Cardio ──────────────────────────────────────────
+-- Timed and distance sets still count as sets, but add nothing to
+-- tonnage even when logged with a weight (a weighted vest, a sled).
+
+CREATE OR REPLACE FUNCTION public.get_weekly_volume(p_user_id uuid)
+RETURNS TABLE(
+    week_start text,
+    total_volume numeric,
+    total_sets bigint,
+    total_exercises bigint
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    SELECT
+        to_char(date_trunc('week', w.date), 'YYYY-MM-DD') AS week_start,
+        COALESCE(SUM(
+            CASE WHEN e.kind IN ('weight_reps', 'bodyweight')
+                THEN s.weight * s.reps
+                ELSE 0
+            END
+        ), 0) AS total_volume,
+        COUNT(s.id) AS total_sets,
+        COUNT(DISTINCT we.id) AS total_exercises
+    FROM workouts w
+    JOIN workout_exercises we ON we.workout_id = w.id
+    JOIN exercises e ON e.id = we.exercise_id
+    JOIN sets s ON s.workout_exercise_id = we.id
+    WHERE w.user_id = p_user_id
+      AND s.set_type <> 'warmup'
+    GROUP BY date_trunc('week', w.date)
+    ORDER BY week_start;
+$$;
+
+-- ─── 6. Time and Distance Per Workout Day ─────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.get_exercise_cardio_over_time(
+    p_user_id uuid,
+    p_exercise_name text
+)
+RETURNS TABLE(
+    workout_date text,
+    total_seconds bigint,
+    total_distance_m numeric
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    SELECT
+        to_char(w.date, 'YYYY-MM-DD') AS workout_date,
+        COALESCE(SUM(s.duration_seconds), 0) AS total_seconds,
+        COALESCE(SUM(s.distance_m), 0) AS total_distance_m
+    FROM workouts w
+    JOIN workout_exercises we ON we.workout_id = w.id
+    JOIN exercises e ON e.id = we.exercise_id
+    JOIN sets s ON s.workout_exercise_id = we.id
+    WHERE w.user_id = p_user_id
+      AND lower(e.name) = lower(p_exercise_name)
+      AND s.set_type <> 'warmup'
+    GROUP BY w.date
+    ORDER BY w.date;
+$$;
@@ -0,0 +1,206 @@
+-- ================================================================
+-- Migration: Share links for workouts, library days and week templates
+-- Date: 2026-10-18
+-- ================================================================
+-- A share link is an unguessable token pointing at one of the
+-- owner's workouts, day library items or week templates. Anyone with
+-- the token — logged in or not — can read a snapshot of it through
+-- get_shared_item(); nothing else about the owner is exposed.
+-- Deleting the link (or the item) stops the sharing.
+
+-- ─── 1. Share Links Table ─────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.share_links (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid (),
+    user_id uuid REFERENCES auth.users (id) ON DELETE CASCADE NOT NULL,
+    token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid ()::text, '-', ''),
+    kind text NOT NULL CHECK (kind IN ('workout', 'day', 'week_template')),
+    target_id uuid NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (user_id, kind, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_user_id ON public.share_links (user_id);
+
+-- ─── 2. RLS ───────────────────────────────────────────────────────────────────
+-- Owners manage their links, and can only link to items they own.
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their share links" ON public.share_links FOR
+SELECT USING (auth.uid () = user_id);
+
+CREATE POLICY "Users can delete their share links" ON public.share_links FOR DELETE USING (auth.uid () = user_id);
+
+CREATE POLICY "Users can share their own items" ON public.share_links FOR
+INSERT
+WITH
+    CHECK (
+        auth.uid () = user_id
+        AND CASE kind
+            WHEN 'workout' THEN EXISTS (
+                SELECT 1
+                FROM public.workouts w
+                WHERE
+                    w.id = target_id
+                    AND w.user_id = auth.uid ()
+            )
+            WHEN 'day' THEN EXISTS (
+                SELECT 1
+                FROM public.day_library d
+                WHERE
+                    d.id = target_id
+                    AND d.user_id = auth.uid ()
+            )
+            WHEN 'week_template' THEN EXISTS (
+                SELECT 1
+                FROM public.week_templates t
+                WHERE
+                    t.id = target_id
+                    AND t.user_id = auth.uid ()
+            )
+            ELSE false
+        END
+    );
+
+-- ─── 3. Read a Shared Item ────────────────────────────────────────────────────
+-- Returns { kind, name, date, days: [{ name, exercises: [{ name, kind,
+-- superset_group, sets: [...] }] }] } — a workout or library day is a
+-- single day. NULL when the token is unknown or the item is gone.
+-- Runs as the definer so visitors without an account can read it; the
+-- owner check guards against links to someone else's rows.
+
+CREATE OR REPLACE FUNCTION public.get_shared_item(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link share_links;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_link FROM share_links WHERE token = p_token;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_link.kind = 'workout' THEN
+    SELECT jsonb_build_object(
+      'kind', 'workout',
+      'name', COALESCE(w.title, 'Workout'),
+      'date', w.date,
+      'days', jsonb_build_array(jsonb_build_object(
+        'name', COALESCE(w.title, 'Workout'),
+        'exercises', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'name', e.name,
+            'kind', e.kind,
+            'superset_group', we.superset_group,
+            'sets', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object(
+                'reps', s.reps,
+                'weight', s.weight,
+                'set_type', s.set_type,
+                'rpe', s.rpe,
+                'rir', s.rir,
+                'duration_seconds', s.duration_seconds,
+                'distance_m', s.distance_m
+              ) ORDER BY s.order_index)
+              FROM sets s
+              WHERE s.workout_exercise_id = we.id
+            ), '[]'::jsonb)
+          ) ORDER BY we.order_index)
+          FROM workout_exercises we
+          JOIN exercises e ON e.id = we.exercise_id
+          WHERE we.workout_id = w.id
+        ), '[]'::jsonb)
+      ))
+    )
+    INTO v_result
+    FROM workouts w
+    WHERE w.id = v_link.target_id AND w.user_id = v_link.user_id;
+
+  ELSIF v_link.kind = 'day' THEN
+    SELECT jsonb_build_object(
+      'kind', 'day',
+      'name', d.name,
+      'date', NULL,
+      'days', jsonb_build_array(jsonb_build_object(
+        'name', d.name,
+        'exercises', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'name', e.name,
+            'kind', e.kind,
+            'superset_group', dle.superset_group,
+            'sets', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object(
+                'reps', s.reps,
+                'weight', s.weight,
+                'set_type', s.set_type,
+                'rpe', s.rpe,
+                'rir', s.rir,
+                'duration_seconds', s.duration_seconds,
+                'distance_m', s.distance_m
+              ))
+              FROM day_library_sets s
+              WHERE s.day_library_exercise_id = dle.id
+            ), '[]'::jsonb)
+          ) ORDER BY dle.order_index)
+          FROM day_library_exercises dle
+          JOIN exercises e ON e.id = dle.exercise_id
+          WHERE dle.day_library_id = d.id
+        ), '[]'::jsonb)
+      ))
+    )
+    INTO v_result
+    FROM day_library d
+    WHERE d.id = v_link.target_id AND d.user_id = v_link.user_id;
+
+  ELSE
+    SELECT jsonb_build_object(
+      'kind', 'week_template',
+      'name', t.name,
+      'date', NULL,
+      'days', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'name', dt.name,
+          'exercises', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+              'name', e.name,
+              'kind', e.kind,
+              'superset_group', et.superset_group,
+              'sets', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object(
+                  'reps', s.reps,
+                  'weight', s.weight,
+                  'set_type', s.set_type,
+                  'rpe', s.rpe,
+                  'rir', s.rir,
+                  'duration_seconds', s.duration_seconds,
+                  'distance_m', s.distance_m
+                ))
+                FROM template_sets s
+                WHERE s.exercise_template_id = et.id
+              ), '[]'::jsonb)
+            ))
+            FROM exercise_templates et
+            JOIN exercises e ON e.id = et.exercise_id
+            WHERE et.day_template_id = dt.id
+          ), '[]'::jsonb)
+        ))
+        FROM day_templates dt
+        WHERE dt.template_id = t.id
+      ), '[]'::jsonb)
+    )
+    INTO v_result
+    FROM week_templates t
+    WHERE t.id = v_link.target_id AND t.user_id = v_link.user_id;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_item(text) TO anon, authenticated;
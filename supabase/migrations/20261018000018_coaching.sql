@@ -0,0 +1,400 @@
+-- ================================================================
+-- Migration: Coach / athlete accounts with delegated access
+-- Date: 2026-10-18
+-- ================================================================
+-- A user with the coach role creates an invite code and hands it to a
+-- lifter; when the lifter accepts it the two are linked. While linked
+-- the coach can read the athlete's workouts (with their exercises and
+-- sets), exercises and personal records, query the athlete's analytics
+-- RPCs, and can write week templates into the athlete's account.
+-- Either side can remove the link at any time, which ends the access.
+--
+-- Templates record who created them, so a coach can only edit or
+-- delete the ones they wrote; the athlete keeps full control of all of
+-- theirs.
+
+-- ─── 1. Coach Role ────────────────────────────────────────────────────────────
+
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'athlete'
+    CHECK (role IN ('athlete', 'coach'));
+
+-- ─── 2. Coach Links ───────────────────────────────────────────────────────────
+-- athlete_id is NULL until the invite is accepted. Names are the two
+-- accounts' emails, copied at invite / accept time so neither side
+-- needs to read auth.users.
+
+CREATE TABLE IF NOT EXISTS public.coach_links (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid (),
+    coach_id uuid REFERENCES auth.users (id) ON DELETE CASCADE NOT NULL,
+    coach_name text NOT NULL,
+    athlete_id uuid REFERENCES auth.users (id) ON DELETE CASCADE,
+    athlete_name text,
+    invite_code text NOT NULL UNIQUE DEFAULT upper(
+        substr(replace(gen_random_uuid ()::text, '-', ''), 1, 8)
+    ),
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    accepted_at timestamp with time zone,
+    UNIQUE (coach_id, athlete_id),
+    CHECK (athlete_id IS NULL OR athlete_id <> coach_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coach_links_coach_id ON public.coach_links (coach_id);
+
+CREATE INDEX IF NOT EXISTS idx_coach_links_athlete_id ON public.coach_links (athlete_id);
+
+-- Links are created and accepted through the RPCs below; either side
+-- can see and remove them.
+
+ALTER TABLE public.coach_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their coach links" ON public.coach_links FOR
+SELECT USING (
+        auth.uid () = coach_id
+        OR auth.uid () = athlete_id
+    );
+
+CREATE POLICY "Users can remove their coach links" ON public.coach_links FOR DELETE USING (
+    auth.uid () = coach_id
+    OR auth.uid () = athlete_id
+);
+
+-- ─── 3. Access Helper ─────────────────────────────────────────────────────────
+-- True when the current user coaches p_athlete_id through an accepted
+-- link. Runs as the definer so policies can call it without recursing
+-- into coach_links' own RLS.
+
+CREATE OR REPLACE FUNCTION public.is_coach_of(p_athlete_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM coach_links
+        WHERE coach_id = auth.uid()
+          AND athlete_id = p_athlete_id
+          AND accepted_at IS NOT NULL
+    );
+$$;
+
+-- Analytics RPCs take the user id as an argument; widen their caller
+-- check so a coach can read a linked athlete's numbers too.
+
+CREATE OR REPLACE FUNCTION public.assert_can_read_user(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid()
+     AND NOT public.is_coach_of(p_user_id) THEN
+    RAISE EXCEPTION 'Not allowed to read this user''s data'
+      USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- ─── 4. Invites ───────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.create_coach_invite()
+RETURNS public.coach_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link coach_links;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_settings
+    WHERE user_id = auth.uid() AND role = 'coach'
+  ) THEN
+    RAISE EXCEPTION 'Only coaches can invite athletes';
+  END IF;
+
+  INSERT INTO coach_links (coach_id, coach_name)
+  SELECT auth.uid(), COALESCE(u.email, 'Coach')
+  FROM auth.users u
+  WHERE u.id = auth.uid()
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_coach_invite(p_code text)
+RETURNS public.coach_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link coach_links;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_link
+  FROM coach_links
+  WHERE invite_code = upper(btrim(p_code)) AND athlete_id IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite code not found or already used';
+  END IF;
+
+  IF v_link.coach_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t accept your own invite';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM coach_links
+    WHERE coach_id = v_link.coach_id AND athlete_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You are already linked to this coach';
+  END IF;
+
+  UPDATE coach_links
+  SET athlete_id = auth.uid(),
+      athlete_name = (
+        SELECT COALESCE(u.email, 'Athlete') FROM auth.users u
+        WHERE u.id = auth.uid()
+      ),
+      accepted_at = now()
+  WHERE id = v_link.id
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$;
+
+-- ─── 5. Coach Read Access ─────────────────────────────────────────────────────
+-- Added alongside the owners' policies; Postgres ORs them together.
+
+CREATE POLICY "Coaches can view their athletes' workouts" ON public.workouts FOR
+SELECT USING (public.is_coach_of (user_id));
+
+CREATE POLICY "Coaches can view their athletes' workout exercises" ON public.workout_exercises FOR
+SELECT USING (
+        EXISTS (
+            SELECT 1
+            FROM public.workouts w
+            WHERE
+                w.id = workout_exercises.workout_id
+                AND public.is_coach_of (w.user_id)
+        )
+    );
+
+CREATE POLICY "Coaches can view their athletes' sets" ON public.sets FOR
+SELECT USING (
+        EXISTS (
+            SELECT 1
+            FROM public.workout_exercises we
+                JOIN public.workouts w ON w.id = we.workout_id
+            WHERE
+                we.id = sets.workout_exercise_id
+                AND public.is_coach_of (w.user_id)
+        )
+    );
+
+CREATE POLICY "Coaches can view their athletes' exercises" ON public.exercises FOR
+SELECT USING (public.is_coach_of (user_id));
+
+CREATE POLICY "Coaches can view their athletes' personal records" ON public.personal_records FOR
+SELECT USING (public.is_coach_of (user_id));
+
+-- ─── 6. Coach-Written Week Templates ──────────────────────────────────────────
+
+ALTER TABLE public.week_templates
+ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES auth.users (id) ON DELETE SET NULL DEFAULT auth.uid ();
+
+CREATE POLICY "Coaches can view their athletes' week templates" ON public.week_templates FOR
+SELECT USING (public.is_coach_of (user_id));
+
+CREATE POLICY "Coaches can add week templates for their athletes" ON public.week_templates FOR
+INSERT
+WITH
+    CHECK (
+        public.is_coach_of (user_id)
+        AND created_by = auth.uid ()
+    );
+
+CREATE POLICY "Coaches can edit the week templates they wrote" ON public.week_templates FOR
+UPDATE USING (
+    public.is_coach_of (user_id)
+    AND created_by = auth.uid ()
+)
+WITH
+    CHECK (
+        public.is_coach_of (user_id)
+        AND created_by = auth.uid ()
+    );
+
+CREATE POLICY "Coaches can delete the week templates they wrote" ON public.week_templates FOR DELETE USING (
+    public.is_coach_of (user_id)
+    AND created_by = auth.uid ()
+);
+
+CREATE POLICY "Coaches can view their athletes' day templates" ON public.day_templates FOR
+SELECT USING (
+        EXISTS (
+            SELECT 1
+            FROM public.week_templates wt
+            WHERE
+                wt.id = day_templates.template_id
+                AND public.is_coach_of (wt.user_id)
+        )
+    );
+
+CREATE POLICY "Coaches can view their athletes' exercise templates" ON public.exercise_templates FOR
+SELECT USING (
+        EXISTS (
+            SELECT 1
+            FROM public.day_templates dt
+                JOIN public.week_templates wt ON wt.id = dt.template_id
+            WHERE
+                dt.id = exercise_templates.day_template_id
+                AND public.is_coach_of (wt.user_id)
+        )
+    );
+
+CREATE POLICY "Coaches can view their athletes' template sets" ON public.template_sets FOR
+SELECT USING (
+        EXISTS (
+            SELECT 1
+            FROM public.exercise_templates et
+                JOIN public.day_templates dt ON dt.id = et.day_template_id
+                JOIN public.week_templates wt ON wt.id = dt.template_id
+            WHERE
+                et.id = template_sets.exercise_template_id
+                AND public.is_coach_of (wt.user_id)
+        )
+    );
+
+-- ─── 7. Exercise Lookup for a Template Owner ──────────────────────────────────
+-- Exercises in a coach-written template belong to the athlete, so names
+-- resolve in the owner's account rather than the caller's.
+
+CREATE OR REPLACE FUNCTION public.find_or_create_exercise_for(
+    p_user_id uuid,
+    p_name text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid()
+     AND NOT public.is_coach_of(p_user_id) THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF btrim(COALESCE(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'Exercise name is required';
+  END IF;
+
+  INSERT INTO exercises (user_id, name)
+  VALUES (p_user_id, btrim(p_name))
+  ON CONFLICT (user_id, lower(name)) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id
+    FROM exercises
+    WHERE user_id = p_user_id AND lower(name) = lower(btrim(p_name));
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ─── 8. Save a Full Week Template ─────────────────────────────────────────────
+-- Same payload as before. The owner, or the coach who wrote it, may
+-- save; the children are rewritten as the definer once that's checked.
+
+CREATE OR REPLACE FUNCTION public.save_week_template(
+    p_template_id uuid,
+    p_name text,
+    p_days jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner uuid;
+  v_day record;
+  v_ex record;
+  v_day_id uuid;
+  v_ex_id uuid;
+BEGIN
+  UPDATE week_templates
+  SET name = p_name
+  WHERE id = p_template_id
+    AND (
+      user_id = auth.uid()
+      OR (public.is_coach_of(user_id) AND created_by = auth.uid())
+    )
+  RETURNING user_id INTO v_owner;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Week template not found';
+  END IF;
+
+  DELETE FROM day_templates WHERE template_id = p_template_id;
+
+  FOR v_day IN
+    SELECT value FROM jsonb_array_elements(p_days)
+  LOOP
+    INSERT INTO day_templates (template_id, name)
+    VALUES (p_template_id, v_day.value ->> 'name')
+    RETURNING id INTO v_day_id;
+
+    FOR v_ex IN
+      SELECT value
+      FROM jsonb_array_elements(COALESCE(v_day.value -> 'exercises', '[]'::jsonb))
+    LOOP
+      CONTINUE WHEN btrim(COALESCE(v_ex.value ->> 'name', '')) = '';
+
+      INSERT INTO exercise_templates (
+          day_template_id, exercise_id, progression, superset_group
+      )
+      VALUES (
+        v_day_id,
+        public.find_or_create_exercise_for(v_owner, v_ex.value ->> 'name'),
+        NULLIF(v_ex.value -> 'progression', 'null'::jsonb),
+        (v_ex.value ->> 'superset_group')::smallint
+      )
+      RETURNING id INTO v_ex_id;
+
+      INSERT INTO template_sets (
+          exercise_template_id, reps, weight, set_type, rpe, rir,
+          duration_seconds, distance_m
+      )
+      SELECT
+          v_ex_id,
+          GREATEST(1, COALESCE((s.value ->> 'reps')::integer, 1)),
+          GREATEST(0, COALESCE((s.value ->> 'weight')::numeric, 0)),
+          COALESCE(s.value ->> 'set_type', 'working'),
+          (s.value ->> 'rpe')::numeric,
+          (s.value ->> 'rir')::integer,
+          (s.value ->> 'duration_seconds')::integer,
+          (s.value ->> 'distance_m')::numeric
+      FROM jsonb_array_elements(COALESCE(v_ex.value -> 'sets', '[]'::jsonb)) s;
+    END LOOP;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,138 @@
+-- ================================================================
+-- Migration: Threaded comments on workouts, exercises and sets
+-- Date: 2026-10-18
+-- ================================================================
+-- Comments sit next to the logged data instead of in the free-text
+-- notes fields. The workout's owner and any coach linked to them can
+-- read and post; each author can delete their own comments. Read state
+-- is one "last read" timestamp per user per workout.
+--
+-- Sets are deleted and re-inserted every time a workout is saved, so a
+-- set comment is anchored to its exercise and position (set_index)
+-- rather than to the set row — otherwise it would vanish on the next
+-- edit.
+
+-- ─── 1. Comments ──────────────────────────────────────────────────────────────
+-- workout_exercise_id and set_index are both NULL for a workout-level
+-- comment; set_index is NULL for an exercise-level one. author_name is
+-- the author's email, filled in by the trigger below.
+
+CREATE TABLE IF NOT EXISTS public.workout_comments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid (),
+    workout_id uuid REFERENCES public.workouts (id) ON DELETE CASCADE NOT NULL,
+    workout_exercise_id uuid REFERENCES public.workout_exercises (id) ON DELETE CASCADE,
+    set_index integer CHECK (set_index >= 0),
+    author_id uuid REFERENCES auth.users (id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid (),
+    author_name text NOT NULL,
+    body text NOT NULL CHECK (
+        char_length(btrim(body)) BETWEEN 1 AND 2000
+    ),
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CHECK (
+        set_index IS NULL
+        OR workout_exercise_id IS NOT NULL
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_workout_comments_workout_id ON public.workout_comments (workout_id, created_at);
+
+-- ─── 2. Read Markers ──────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.workout_comment_reads (
+    workout_id uuid REFERENCES public.workouts (id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users (id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid (),
+    read_at timestamp with time zone DEFAULT now() NOT NULL,
+    PRIMARY KEY (workout_id, user_id)
+);
+
+-- ─── 3. Access Helper ─────────────────────────────────────────────────────────
+-- True when the current user owns the workout or coaches its owner.
+
+CREATE OR REPLACE FUNCTION public.can_view_workout(p_workout_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM workouts
+        WHERE id = p_workout_id
+          AND (user_id = auth.uid() OR is_coach_of(user_id))
+    );
+$$;
+
+-- ─── 4. Author Stamp ──────────────────────────────────────────────────────────
+-- Pins the author to the caller, copies their email, and checks that an
+-- exercise anchor belongs to the same workout.
+
+CREATE OR REPLACE FUNCTION public.stamp_workout_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  NEW.author_id := auth.uid();
+  NEW.author_name := (
+    SELECT COALESCE(u.email, 'Unknown') FROM auth.users u
+    WHERE u.id = auth.uid()
+  );
+
+  IF NEW.workout_exercise_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM workout_exercises
+    WHERE id = NEW.workout_exercise_id AND workout_id = NEW.workout_id
+  ) THEN
+    RAISE EXCEPTION 'Exercise does not belong to this workout';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_workout_comment ON public.workout_comments;
+
+CREATE TRIGGER stamp_workout_comment
+BEFORE INSERT ON public.workout_comments
+FOR EACH ROW EXECUTE FUNCTION public.stamp_workout_comment();
+
+-- ─── 5. Row Level Security ────────────────────────────────────────────────────
+-- Comments aren't editable; delete and re-post instead.
+
+ALTER TABLE public.workout_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view comments on workouts they can see" ON public.workout_comments FOR
+SELECT USING (
+        public.can_view_workout (workout_id)
+    );
+
+CREATE POLICY "Users can comment on workouts they can see" ON public.workout_comments FOR
+INSERT
+WITH
+    CHECK (
+        auth.uid () = author_id
+        AND public.can_view_workout (workout_id)
+    );
+
+CREATE POLICY "Users can delete their own comments" ON public.workout_comments FOR DELETE USING (auth.uid () = author_id);
+
+ALTER TABLE public.workout_comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own read markers" ON public.workout_comment_reads FOR
+SELECT USING (auth.uid () = user_id);
+
+CREATE POLICY "Users can insert their own read markers" ON public.workout_comment_reads FOR
+INSERT
+WITH
+    CHECK (
+        auth.uid () = user_id
+        AND public.can_view_workout (workout_id)
+    );
+
+CREATE POLICY "Users can update their own read markers" ON public.workout_comment_reads FOR
+UPDATE USING (auth.uid () = user_id);
@@ -0,0 +1,70 @@
+-- ================================================================
+-- Migration: Session RPE and readiness check-ins
+-- Date: 2026-10-18
+-- ================================================================
+-- Each workout can record how hard the whole session felt (session
+-- RPE, 1–10) and a pre-session check-in: hours slept, soreness and
+-- readiness (1–5). Session load is session RPE × minutes, using the
+-- live session's start and finish unless a duration was entered by
+-- hand. The client turns daily loads into an acute:chronic workload
+-- ratio alongside the weekly tonnage from get_weekly_volume().
+
+-- ─── 1. Check-in Columns ──────────────────────────────────────────────────────
+
+ALTER TABLE public.workouts
+ADD COLUMN IF NOT EXISTS session_rpe smallint CHECK (session_rpe BETWEEN 1 AND 10),
+ADD COLUMN IF NOT EXISTS session_minutes smallint CHECK (session_minutes BETWEEN 1 AND 600),
+ADD COLUMN IF NOT EXISTS sleep_hours numeric(3, 1) CHECK (sleep_hours BETWEEN 0 AND 24),
+ADD COLUMN IF NOT EXISTS soreness smallint CHECK (soreness BETWEEN 1 AND 5),
+ADD COLUMN IF NOT EXISTS readiness smallint CHECK (readiness BETWEEN 1 AND 5);
+
+-- ─── 2. Session Loads ─────────────────────────────────────────────────────────
+-- One row per workout since p_since that has any check-in data,
+-- oldest first. duration_minutes is NULL when neither a hand-entered
+-- duration nor a finished live session exists.
+
+CREATE OR REPLACE FUNCTION public.get_session_loads(
+    p_user_id uuid,
+    p_since date
+)
+RETURNS TABLE(
+    workout_date text,
+    session_rpe smallint,
+    duration_minutes integer,
+    sleep_hours numeric,
+    soreness smallint,
+    readiness smallint
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.assert_can_read_user(p_user_id);
+
+    SELECT
+        to_char(w.date, 'YYYY-MM-DD') AS workout_date,
+        w.session_rpe,
+        COALESCE(
+            w.session_minutes,
+            CASE
+                WHEN w.started_at IS NOT NULL AND w.ended_at IS NOT NULL
+                THEN GREATEST(
+                    1,
+                    round(extract(epoch FROM w.ended_at - w.started_at) / 60)
+                )::integer
+            END
+        ) AS duration_minutes,
+        w.sleep_hours,
+        w.soreness,
+        w.readiness
+    FROM workouts w
+    WHERE w.user_id = p_user_id
+      AND w.date >= p_since
+      AND (
+          w.session_rpe IS NOT NULL
+          OR w.sleep_hours IS NOT NULL
+          OR w.soreness IS NOT NULL
+          OR w.readiness IS NOT NULL
+      )
+    ORDER BY w.date, w.created_at;
+$$;
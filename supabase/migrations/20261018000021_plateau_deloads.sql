@@ -0,0 +1,191 @@
+-- ================================================================
+-- Migration: One-off deloads on template exercises
+-- Date: 2026-10-18
+-- ================================================================
+-- Plateau detection can schedule a deload for one lift in a week
+-- template. Generated weights come from history (progression rules or
+-- carry-over), not the template's own weights, so the deload is stored
+-- as a percentage: the next week generated from the template scales
+-- that lift's prescribed weights down by it, then clears it. The
+-- generated exercise records the scale in intensity_percent, which
+-- carry-over and progression skip, so the following week returns to the
+-- pre-deload weight.
+
+-- ─── 1. Pending Deload ────────────────────────────────────────────────────────
+
+ALTER TABLE public.exercise_templates
+ADD COLUMN IF NOT EXISTS deload_percent smallint CHECK (deload_percent BETWEEN 1 AND 50);
+
+-- ─── 2. Save Week Template ────────────────────────────────────────────────────
+-- Same as the coaching migration's version, plus deload_percent.
+
+CREATE OR REPLACE FUNCTION public.save_week_template(
+    p_template_id uuid,
+    p_name text,
+    p_days jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner uuid;
+  v_day record;
+  v_ex record;
+  v_day_id uuid;
+  v_ex_id uuid;
+BEGIN
+  UPDATE week_templates
+  SET name = p_name
+  WHERE id = p_template_id
+    AND (
+      user_id = auth.uid()
+      OR (public.is_coach_of(user_id) AND created_by = auth.uid())
+    )
+  RETURNING user_id INTO v_owner;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Week template not found';
+  END IF;
+
+  DELETE FROM day_templates WHERE template_id = p_template_id;
+
+  FOR v_day IN
+    SELECT value FROM jsonb_array_elements(p_days)
+  LOOP
+    INSERT INTO day_templates (template_id, name)
+    VALUES (p_template_id, v_day.value ->> 'name')
+    RETURNING id INTO v_day_id;
+
+    FOR v_ex IN
+      SELECT value
+      FROM jsonb_array_elements(COALESCE(v_day.value -> 'exercises', '[]'::jsonb))
+    LOOP
+      CONTINUE WHEN btrim(COALESCE(v_ex.value ->> 'name', '')) = '';
+
+      INSERT INTO exercise_templates (
+          day_template_id, exercise_id, progression, superset_group,
+          deload_percent
+      )
+      VALUES (
+        v_day_id,
+        public.find_or_create_exercise_for(v_owner, v_ex.value ->> 'name'),
+        NULLIF(v_ex.value -> 'progression', 'null'::jsonb),
+        (v_ex.value ->> 'superset_group')::smallint,
+        (v_ex.value ->> 'deload_percent')::smallint
+      )
+      RETURNING id INTO v_ex_id;
+
+      INSERT INTO template_sets (
+          exercise_template_id, reps, weight, set_type, rpe, rir,
+          duration_seconds, distance_m
+      )
+      SELECT
+          v_ex_id,
+          GREATEST(1, COALESCE((s.value ->> 'reps')::integer, 1)),
+          GREATEST(0, COALESCE((s.value ->> 'weight')::numeric, 0)),
+          COALESCE(s.value ->> 'set_type', 'working'),
+          (s.value ->> 'rpe')::numeric,
+          (s.value ->> 'rir')::integer,
+          (s.value ->> 'duration_seconds')::integer,
+          (s.value ->> 'distance_m')::numeric
+      FROM jsonb_array_elements(COALESCE(v_ex.value -> 'sets', '[]'::jsonb)) s;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- ─── 3. Create Workouts ───────────────────────────────────────────────────────
+-- Same as the supersets migration's version, plus p_clear_deloads: the
+-- template exercises whose deload the new workouts used. Clearing them
+-- in the same transaction means a failed write leaves the deload
+-- pending and a successful one can't leave it pending.
+
+DROP FUNCTION IF EXISTS public.create_workouts(jsonb);
+
+CREATE OR REPLACE FUNCTION public.create_workouts(
+    p_workouts jsonb,
+    p_clear_deloads uuid[] DEFAULT NULL
+)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_workout record;
+  v_ex record;
+  v_workout_id uuid;
+  v_we_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE exercise_templates
+  SET deload_percent = NULL
+  WHERE id = ANY (p_clear_deloads);
+
+  FOR v_workout IN
+    SELECT value, ordinality
+    FROM jsonb_array_elements(p_workouts) WITH ORDINALITY
+    ORDER BY ordinality
+  LOOP
+    v_workout_id := COALESCE(
+      (v_workout.value ->> 'id')::uuid,
+      gen_random_uuid()
+    );
+
+    -- A replayed offline create arrives again under the same id: its
+    -- header is rewritten and the exercises from the last attempt dropped
+    INSERT INTO workouts (id, user_id, date, title, notes)
+    VALUES (
+      v_workout_id,
+      v_user_id,
+      (v_workout.value ->> 'date')::date,
+      v_workout.value ->> 'title',
+      v_workout.value ->> 'notes'
+    )
+    ON CONFLICT (id) DO UPDATE
+    SET date = EXCLUDED.date,
+        title = EXCLUDED.title,
+        notes = EXCLUDED.notes
+    WHERE workouts.user_id = v_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Workout % not found', v_workout_id;
+    END IF;
+
+    DELETE FROM workout_exercises WHERE workout_id = v_workout_id;
+
+    FOR v_ex IN
+      SELECT value, ordinality
+      FROM jsonb_array_elements(COALESCE(v_workout.value -> 'exercises', '[]'::jsonb))
+        WITH ORDINALITY
+    LOOP
+      INSERT INTO workout_exercises (
+          workout_id, exercise_id, notes, order_index, superset_group,
+          intensity_percent
+      )
+      VALUES (
+        v_workout_id,
+        COALESCE(
+          (v_ex.value ->> 'exercise_id')::uuid,
+          public.find_or_create_exercise(v_ex.value ->> 'name')
+        ),
+        v_ex.value ->> 'notes',
+        v_ex.ordinality - 1,
+        (v_ex.value ->> 'superset_group')::smallint,
+        (v_ex.value ->> 'intensity_percent')::numeric
+      )
+      RETURNING id INTO v_we_id;
+
+      PERFORM public.insert_sets_from_json(v_we_id, v_ex.value -> 'sets');
+    END LOOP;
+
+    RETURN NEXT v_workout_id;
+  END LOOP;
+END;
+$$;
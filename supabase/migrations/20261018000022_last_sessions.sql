@@ -0,0 +1,67 @@
+-- ================================================================
+-- Migration: Last session per exercise
+-- Date: 2026-10-18
+-- ================================================================
+-- get_last_used_weight() only knows a single number. The day editor
+-- shows the whole previous session beside each set — every set's
+-- reps, weight, type and time / distance in logged order, plus the
+-- exercise notes — and can prefill new exercises from it. One call
+-- covers every exercise on the day.
+
+-- ─── 1. Last Sessions ─────────────────────────────────────────────────────────
+-- For each requested name (case-insensitive), the most recent workout
+-- on or before p_on_or_before that logged sets for it. p_exclude_workout
+-- leaves out the workout being edited so it never compares with itself.
+-- Runs as the caller, so row-level security limits it to the caller's
+-- own workouts and those of athletes they coach.
+
+CREATE OR REPLACE FUNCTION public.get_last_exercise_sessions(
+    p_user_id uuid,
+    p_exercise_names text[],
+    p_on_or_before date DEFAULT current_date,
+    p_exclude_workout uuid DEFAULT NULL
+)
+RETURNS TABLE(
+    exercise_name text,
+    workout_id uuid,
+    workout_date text,
+    notes text,
+    sets jsonb
+)
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT DISTINCT ON (lower(e.name))
+        e.name AS exercise_name,
+        w.id AS workout_id,
+        to_char(w.date, 'YYYY-MM-DD') AS workout_date,
+        we.notes,
+        (
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'reps', s.reps,
+                    'weight', s.weight,
+                    'set_type', s.set_type,
+                    'rpe', s.rpe,
+                    'rir', s.rir,
+                    'duration_seconds', s.duration_seconds,
+                    'distance_m', s.distance_m
+                )
+                ORDER BY s.order_index
+            )
+            FROM sets s
+            WHERE s.workout_exercise_id = we.id
+        ) AS sets
+    FROM workout_exercises we
+    JOIN exercises e ON e.id = we.exercise_id
+    JOIN workouts w ON w.id = we.workout_id
+    WHERE w.user_id = p_user_id
+      AND lower(e.name) = ANY (
+          SELECT lower(n) FROM unnest(p_exercise_names) AS n
+      )
+      AND w.date <= p_on_or_before
+      AND w.id IS DISTINCT FROM p_exclude_workout
+      AND EXISTS (SELECT 1 FROM sets s WHERE s.workout_exercise_id = we.id)
+    ORDER BY lower(e.name), w.date DESC, w.created_at DESC, we.order_index DESC;
+$$;